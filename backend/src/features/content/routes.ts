@@ -0,0 +1,22 @@
+import type { FastifyPluginAsync } from 'fastify';
+import { extractContent } from './service.ts';
+import { ContentRequestSchema, ContentResponseSchema } from './types.ts';
+
+const contentRoutes: FastifyPluginAsync = async (fastify) => {
+  fastify.post(
+    '/',
+    {
+      schema: {
+        body: ContentRequestSchema,
+        response: { 200: ContentResponseSchema },
+      },
+    },
+    async (request, reply) => {
+      const { url } = request.body as { url: string };
+      const content = await extractContent(url);
+      return reply.send(content);
+    },
+  );
+};
+
+export default contentRoutes;
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { isEmbeddable, parseArticle } from './service.ts';
+
+const BASE_URL = 'https://example.com/blog/post';
+
+const paragraph = (text: string) =>
+  `<p>${text} This sentence pads the paragraph out, with a clause or two, so it reads like real prose.</p>`;
+
+describe('parseArticle', () => {
+  it('picks the article body over navigation and sidebars', () => {
+    const html = `
+      <html lang="en">
+        <head><title>Post Title</title></head>
+        <body>
+          <header><a href="/">Home</a> <a href="/about">About</a></header>
+          <nav><ul><li><a href="/a">A link in the menu</a></li></ul></nav>
+          <div class="sidebar"><p>Sidebar text that is long enough to be scored as prose, really.</p></div>
+          <div class="post-content">
+            ${paragraph('First paragraph.')}
+            ${paragraph('Second paragraph.')}
+            ${paragraph('Third paragraph.')}
+          </div>
+          <div class="comments">${paragraph('A reader comment.')}</div>
+          <footer>Copyright</footer>
+        </body>
+      </html>
+    `;
+
+    const result = parseArticle(html, BASE_URL);
+
+    expect(result.title).toBe('Post Title');
+    expect(result.html).toContain('First paragraph.');
+    expect(result.html).toContain('Third paragraph.');
+    expect(result.html).not.toContain('Sidebar text');
+    expect(result.html).not.toContain('A reader comment.');
+    expect(result.html).not.toContain('A link in the menu');
+    expect(result.language).toBe('en');
+  });
+
+  it('sanitizes the article HTML and resolves relative URLs', () => {
+    const html = `
+      <html><body><article>
+        <p class="lead" style="color: red" onclick="alert(1)">Intro text that is long enough to count, with commas, and more.</p>
+        <script>alert('xss')</script>
+        <p>Read <a href="/other" onmouseover="steal()">the other post</a> and <a href="javascript:alert(1)">this</a>, which is long enough.</p>
+        <img src="images/photo.jpg" alt="Photo" width="600">
+        <img data-src="/lazy.jpg" src="data:image/gif;base64,R0lGOD" alt="Lazy">
+        <iframe src="https://ads.example.com"></iframe>
+        <!-- tracking comment -->
+      </article></body></html>
+    `;
+
+    const result = parseArticle(html, BASE_URL);
+
+    expect(result.html).not.toMatch(/script|onclick|onmouseover|style=|class=|iframe|javascript:|tracking comment/);
+    expect(result.html).toContain('<a href="https://example.com/other">the other post</a>');
+    expect(result.html).toContain('<img src="https://example.com/blog/images/photo.jpg" alt="Photo">');
+    expect(result.html).toContain('<img src="https://example.com/lazy.jpg" alt="Lazy">');
+  });
+
+  it('returns plain text with word count and reading time', () => {
+    const words = Array.from({ length: 450 }, (_, i) => `word${i}`).join(' ');
+    const html = `<html><body><article><h2>Heading</h2><p>${words}</p><p>Final, closing paragraph of the article text.</p></article></body></html>`;
+
+    const result = parseArticle(html, BASE_URL);
+
+    expect(result.text.startsWith('Heading\n\nword0 word1')).toBe(true);
+    expect(result.text.endsWith('Final, closing paragraph of the article text.')).toBe(true);
+    expect(result.wordCount).toBe(458);
+    expect(result.readingTime).toBe(2);
+  });
+
+  it('reads author, published date and language from meta tags', () => {
+    const html = `
+      <html>
+        <head>
+          <meta name="author" content="Jane Writer" />
+          <meta property="article:published_time" content="2025-03-04T10:00:00+01:00" />
+          <meta property="og:locale" content="de_DE" />
+        </head>
+        <body><article>${paragraph('Body.')}</article></body>
+      </html>
+    `;
+
+    const result = parseArticle(html, BASE_URL);
+
+    expect(result.byline).toBe('Jane Writer');
+    expect(result.publishedAt).toBe('2025-03-04T09:00:00.000Z');
+    expect(result.language).toBe('de-DE');
+  });
+
+  it('falls back to JSON-LD for author and published date', () => {
+    const html = `
+      <html>
+        <head>
+          <script type="application/ld+json">
+            {"@context": "https://schema.org", "@graph": [
+              {"@type": "WebSite", "name": "Example"},
+              {"@type": "NewsArticle", "datePublished": "2024-12-01T08:30:00Z",
+               "author": [{"@type": "Person", "name": "Ann"}, {"@type": "Person", "name": "Bob"}]}
+            ]}
+          </script>
+        </head>
+        <body><article>${paragraph('Body.')}</article></body>
+      </html>
+    `;
+
+    const result = parseArticle(html, BASE_URL);
+
+    expect(result.byline).toBe('Ann, Bob');
+    expect(result.publishedAt).toBe('2024-12-01T08:30:00.000Z');
+    expect(result.language).toBeUndefined();
+  });
+
+  it('returns empty text when the page has no readable content', () => {
+    const result = parseArticle('<html><head><title>Empty</title></head><body></body></html>', BASE_URL);
+
+    expect(result.text).toBe('');
+    expect(result.wordCount).toBe(0);
+    expect(result.byline).toBeUndefined();
+    expect(result.publishedAt).toBeUndefined();
+  });
+});
+
+describe('isEmbeddable', () => {
+  it('allows pages without framing restrictions', () => {
+    expect(isEmbeddable(new Headers({ 'content-type': 'text/html' }))).toBe(true);
+    expect(isEmbeddable(new Headers({ 'content-security-policy': "default-src 'self'; frame-ancestors *" }))).toBe(true);
+  });
+
+  it('rejects X-Frame-Options and restrictive frame-ancestors', () => {
+    expect(isEmbeddable(new Headers({ 'x-frame-options': 'DENY' }))).toBe(false);
+    expect(isEmbeddable(new Headers({ 'x-frame-options': 'SAMEORIGIN' }))).toBe(false);
+    expect(isEmbeddable(new Headers({ 'content-security-policy': "frame-ancestors 'self' https://partner.example" }))).toBe(false);
+  });
+});
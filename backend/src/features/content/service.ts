@@ -0,0 +1,322 @@
+import * as cheerio from 'cheerio';
+import type { Cheerio, CheerioAPI } from 'cheerio';
+import { fetchHtml } from '../../lib/fetch-html.ts';
+import { AppError } from '../../lib/errors.ts';
+import type { ContentResponse } from './types.ts';
+
+const WORDS_PER_MINUTE = 200;
+const MIN_PARAGRAPH_LENGTH = 25;
+const SCORE_ATTRIBUTE = 'data-readlater-score';
+
+// Page chrome and anything executable or interactive
+const REMOVED_SELECTORS =
+  'script, style, noscript, template, iframe, frame, object, embed, form, input, button, select, textarea, svg, canvas, audio, video, nav, aside, footer, link, meta, [hidden], [aria-hidden="true"]';
+
+const UNLIKELY_CANDIDATES =
+  /comment|share|social|related|newsletter|promo|advert|sponsor|cookie|sidebar|menu|banner|popup|subscribe|breadcrumb|pagination/i;
+const LIKELY_CANDIDATES = /article|body|content|entry|main|post|story|text/i;
+
+const ALLOWED_TAGS = new Set([
+  'p', 'br', 'hr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'ul', 'ol', 'li', 'dl', 'dt', 'dd',
+  'blockquote', 'pre', 'code', 'em', 'strong', 'b', 'i', 'u', 's', 'sub', 'sup', 'mark', 'small',
+  'a', 'img', 'figure', 'figcaption', 'picture',
+  'table', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td', 'caption',
+  'div', 'span', 'section', 'article',
+]);
+
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  a: ['href', 'title'],
+  img: ['src', 'alt', 'title'],
+  td: ['colspan', 'rowspan'],
+  th: ['colspan', 'rowspan'],
+};
+
+const BLOCK_TAGS = 'p, h1, h2, h3, h4, h5, h6, li, dt, dd, blockquote, pre, figcaption, tr, div, section';
+
+// domhandler isn't a direct dependency, so take its node type from cheerio
+type AnyNode = Exclude<Parameters<typeof cheerio.load>[0], string | Buffer | unknown[]>;
+type Selection = Cheerio<AnyNode>;
+
+type ParsedArticle = Omit<ContentResponse, 'url' | 'embeddable' | 'capturedAt'>;
+
+export async function extractContent(url: string): Promise<ContentResponse> {
+  const { html, finalUrl, headers } = await fetchHtml(url);
+
+  const article = parseArticle(html, finalUrl);
+  if (!article.text) {
+    throw new AppError('No readable content found', 422);
+  }
+
+  return {
+    url,
+    ...article,
+    embeddable: isEmbeddable(headers),
+    capturedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Readability-style extraction: scores blocks of prose, keeps the container
+ * with the most of it, and strips that down to safe, portable HTML.
+ */
+export function parseArticle(html: string, baseUrl: string): ParsedArticle {
+  const $ = cheerio.load(html);
+
+  // Metadata first: JSON-LD lives in script tags that are removed below
+  const title = readTitle($);
+  const byline = readByline($);
+  const publishedAt = readPublishedAt($);
+  const language = readLanguage($);
+
+  removeClutter($);
+  const container = findArticleContainer($);
+  sanitize($, container, baseUrl);
+
+  const text = extractText(container);
+  const wordCount = text ? text.split(/\s+/).length : 0;
+
+  return {
+    title,
+    byline,
+    html: (container.html() ?? '').trim(),
+    text,
+    wordCount,
+    readingTime: Math.max(1, Math.round(wordCount / WORDS_PER_MINUTE)),
+    publishedAt,
+    language,
+  };
+}
+
+/** Whether X-Frame-Options or CSP frame-ancestors keep the page out of frames. */
+export function isEmbeddable(headers: Headers): boolean {
+  const frameOptions = headers.get('x-frame-options')?.toLowerCase() ?? '';
+  if (frameOptions.includes('deny') || frameOptions.includes('sameorigin')) {
+    return false;
+  }
+
+  const frameAncestors = headers
+    .get('content-security-policy')
+    ?.split(';')
+    .map((directive) => directive.trim().toLowerCase())
+    .find((directive) => directive.startsWith('frame-ancestors'));
+  // Any restriction other than a wildcard excludes the reader app's origin
+  return !frameAncestors || frameAncestors.split(/\s+/).includes('*');
+}
+
+// ─── metadata ───
+
+function getMeta($: CheerioAPI, name: string): string {
+  return (
+    $(`meta[property="${name}"]`).attr('content') ??
+    $(`meta[name="${name}"]`).attr('content') ??
+    ''
+  ).trim();
+}
+
+function readTitle($: CheerioAPI): string {
+  return (
+    getMeta($, 'og:title') ||
+    $('title').first().text().trim() ||
+    $('h1').first().text().trim()
+  );
+}
+
+interface JsonLdArticle {
+  author?: unknown;
+  datePublished?: unknown;
+}
+
+function readJsonLdArticle($: CheerioAPI): JsonLdArticle | undefined {
+  const nodes: unknown[] = [];
+  $('script[type="application/ld+json"]').each((_, script) => {
+    try {
+      const data: unknown = JSON.parse($(script).text());
+      const items = Array.isArray(data) ? data : [data];
+      for (const item of items) {
+        const graph = (item as { '@graph'?: unknown })?.['@graph'];
+        nodes.push(...(Array.isArray(graph) ? graph : [item]));
+      }
+    } catch {
+      // Broken JSON-LD is common; meta tags still apply
+    }
+  });
+
+  return nodes.find((node): node is JsonLdArticle => {
+    const type = (node as { '@type'?: unknown })?.['@type'];
+    const types = Array.isArray(type) ? type : [type];
+    return types.some((t) => typeof t === 'string' && /Article|BlogPosting|Report/.test(t));
+  });
+}
+
+function authorName(author: unknown): string {
+  if (typeof author === 'string') return author;
+  if (Array.isArray(author)) return author.map(authorName).filter(Boolean).join(', ');
+  if (author && typeof author === 'object' && 'name' in author && typeof author.name === 'string') {
+    return author.name;
+  }
+  return '';
+}
+
+function readByline($: CheerioAPI): string | undefined {
+  const metaAuthor = getMeta($, 'author') || getMeta($, 'article:author');
+  const byline =
+    (metaAuthor && !/^https?:\/\//.test(metaAuthor) ? metaAuthor : '') ||
+    authorName(readJsonLdArticle($)?.author) ||
+    $('[rel="author"], [itemprop="author"], .byline, .author').first().text();
+
+  const normalized = byline.replace(/\s+/g, ' ').trim();
+  return normalized && normalized.length <= 100 ? normalized : undefined;
+}
+
+function readPublishedAt($: CheerioAPI): string | undefined {
+  const jsonLdDate = readJsonLdArticle($)?.datePublished;
+  const candidates = [
+    getMeta($, 'article:published_time'),
+    $('[itemprop="datePublished"]').attr('content') ?? $('[itemprop="datePublished"]').attr('datetime'),
+    typeof jsonLdDate === 'string' ? jsonLdDate : undefined,
+    $('time[datetime]').first().attr('datetime'),
+  ];
+
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    const date = new Date(candidate);
+    if (!isNaN(date.getTime())) return date.toISOString();
+  }
+  return undefined;
+}
+
+function readLanguage($: CheerioAPI): string | undefined {
+  const language =
+    $('html').attr('lang') ||
+    $('meta[http-equiv="content-language" i]').attr('content') ||
+    getMeta($, 'og:locale').replace('_', '-');
+  return language?.trim() || undefined;
+}
+
+// ─── extraction ───
+
+function removeClutter($: CheerioAPI): void {
+  $(REMOVED_SELECTORS).remove();
+  // Site headers, but not the header of the article itself
+  $('header')
+    .filter((_, header) => $(header).closest('article, main').length === 0)
+    .remove();
+
+  $('[class], [id]').each((_, element) => {
+    if (['html', 'body', 'article', 'main'].includes(element.tagName)) return;
+    const hint = `${$(element).attr('class') ?? ''} ${$(element).attr('id') ?? ''}`;
+    if (UNLIKELY_CANDIDATES.test(hint) && !LIKELY_CANDIDATES.test(hint)) {
+      $(element).remove();
+    }
+  });
+}
+
+function linkDensity(element: Selection): number {
+  const textLength = element.text().trim().length;
+  if (textLength === 0) return 0;
+  return element.find('a').text().trim().length / textLength;
+}
+
+function addScore(element: Selection, score: number): void {
+  if (element.length === 0) return;
+  const current = Number(element.attr(SCORE_ATTRIBUTE) ?? 0);
+  element.attr(SCORE_ATTRIBUTE, String(current + score));
+}
+
+function findArticleContainer($: CheerioAPI): Selection {
+  $('p, pre, td, blockquote').each((_, paragraph) => {
+    const text = $(paragraph).text().trim();
+    if (text.length < MIN_PARAGRAPH_LENGTH) return;
+
+    // More prose and more clauses mean more likely article text
+    const score = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+    const parent = $(paragraph).parent();
+    addScore(parent, score);
+    addScore(parent.parent(), score / 2);
+  });
+
+  let best: Selection | undefined;
+  let bestScore = 0;
+  $(`[${SCORE_ATTRIBUTE}]`).each((_, candidate) => {
+    const element = $(candidate);
+    const hint = `${candidate.tagName} ${element.attr('class') ?? ''} ${element.attr('id') ?? ''}`;
+    const bonus = LIKELY_CANDIDATES.test(hint) ? 1.25 : 1;
+    const score = Number(element.attr(SCORE_ATTRIBUTE)) * bonus * (1 - linkDensity(element));
+    if (score > bestScore) {
+      best = element;
+      bestScore = score;
+    }
+  });
+
+  if (best) return best;
+  const article = $('article').first();
+  return article.length > 0 ? article : $('body').first();
+}
+
+function toSafeUrl(value: string, baseUrl: string): string | null {
+  try {
+    const url = new URL(value, baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+function sanitize($: CheerioAPI, container: Selection, baseUrl: string): void {
+  // Lazy-loaded images keep the real source in data attributes
+  container.find('img').each((_, img) => {
+    const lazySource = $(img).attr('data-src') ?? $(img).attr('data-lazy-src');
+    if (lazySource) $(img).attr('src', lazySource);
+  });
+
+  // Link lists and similar leftovers inside the article
+  container.find('ul, ol, div, section, table').each((_, block) => {
+    const element = $(block);
+    if (element.find('img').length === 0 && element.text().trim().length < 200 && linkDensity(element) > 0.5) {
+      element.remove();
+    }
+  });
+
+  container.contents().add(container.find('*').contents())
+    .filter((_, node) => node.type === 'comment')
+    .remove();
+
+  // Deepest elements first, so unwrapping never skips children
+  for (const element of container.find('*').toArray().reverse()) {
+    const $element = $(element);
+    const tag = element.tagName.toLowerCase();
+
+    if (!ALLOWED_TAGS.has(tag)) {
+      $element.replaceWith($element.contents());
+      continue;
+    }
+
+    const allowed = ALLOWED_ATTRIBUTES[tag] ?? [];
+    for (const name of Object.keys(element.attribs)) {
+      if (!allowed.includes(name)) {
+        $element.removeAttr(name);
+      } else if (name === 'href' || name === 'src') {
+        const safeUrl = toSafeUrl(element.attribs[name] ?? '', baseUrl);
+        if (safeUrl) $element.attr(name, safeUrl);
+        else $element.removeAttr(name);
+      }
+    }
+
+    if ((tag === 'img' && !$element.attr('src')) || (tag === 'p' && !$element.text().trim() && $element.find('img').length === 0)) {
+      $element.remove();
+    }
+  }
+}
+
+// Plain text with paragraph breaks, for search, word counts and previews
+function extractText(container: Selection): string {
+  const copy = container.clone();
+  copy.find(BLOCK_TAGS).append('\n');
+  copy.find('br').replaceWith('\n');
+  return copy
+    .text()
+    .replace(/[ \t\u00a0]+/g, ' ')
+    .replace(/\s*\n\s*/g, '\n\n')
+    .trim();
+}
@@ -0,0 +1,27 @@
+import { type Static, Type } from '@sinclair/typebox';
+
+export const ContentRequestSchema = Type.Object({
+  url: Type.String({ format: 'uri', minLength: 1 }),
+});
+
+export type ContentRequest = Static<typeof ContentRequestSchema>;
+
+export const ContentResponseSchema = Type.Object({
+  url: Type.String(),
+  title: Type.String(),
+  /** Author, when the page names one */
+  byline: Type.Optional(Type.String()),
+  /** Sanitized article body */
+  html: Type.String(),
+  text: Type.String(),
+  wordCount: Type.Integer(),
+  /** Estimated reading time in minutes */
+  readingTime: Type.Integer(),
+  publishedAt: Type.Optional(Type.String()),
+  language: Type.Optional(Type.String()),
+  /** False when the page forbids being shown in a frame */
+  embeddable: Type.Boolean(),
+  capturedAt: Type.String(),
+});
+
+export type ContentResponse = Static<typeof ContentResponseSchema>;
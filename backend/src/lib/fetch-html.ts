@@ -0,0 +1,62 @@
+import { config } from '../config.ts';
+import { AppError } from './errors.ts';
+
+export interface FetchedPage {
+  html: string;
+  /** URL after redirects, used to resolve relative links */
+  finalUrl: string;
+  headers: Headers;
+}
+
+/**
+ * Fetches an HTML page within the `config.metadata` timeout and size limits.
+ * Failures are reported as AppErrors with the status the API should return.
+ */
+export async function fetchHtml(url: string): Promise<FetchedPage> {
+  try {
+    const controller = new AbortController();
+    const timeout = setTimeout(
+      () => controller.abort(),
+      config.metadata.fetchTimeoutMs,
+    );
+
+    const response = await fetch(url, {
+      signal: controller.signal,
+      headers: {
+        'User-Agent':
+          'Mozilla/5.0 (compatible; ReadLaterBot/1.0; +https://github.com/nicedoc/readlater)',
+        Accept: 'text/html,application/xhtml+xml',
+      },
+      redirect: 'follow',
+    });
+
+    clearTimeout(timeout);
+
+    const contentType = response.headers.get('content-type') ?? '';
+    if (!contentType.includes('text/html') && !contentType.includes('application/xhtml+xml')) {
+      throw new AppError('URL does not point to an HTML page', 422);
+    }
+
+    const contentLength = response.headers.get('content-length');
+    if (contentLength && Number(contentLength) > config.metadata.maxResponseBytes) {
+      throw new AppError('Response too large', 422);
+    }
+
+    const html = await response.text();
+    // Servers don't always send Content-Length
+    if (Buffer.byteLength(html) > config.metadata.maxResponseBytes) {
+      throw new AppError('Response too large', 422);
+    }
+
+    return { html, finalUrl: response.url || url, headers: response.headers };
+  } catch (err) {
+    if (err instanceof AppError) throw err;
+    if (err instanceof DOMException && err.name === 'AbortError') {
+      throw new AppError('Page took too long to respond', 504);
+    }
+    throw new AppError(
+      `Could not fetch URL: ${err instanceof Error ? err.message : 'unknown error'}`,
+      422,
+    );
+  }
+}
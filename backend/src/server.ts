@@ -3,6 +3,7 @@ import cors from '@fastify/cors';
 import type { TypeBoxTypeProvider } from '@fastify/type-provider-typebox';
 import Fastify, { type FastifyError } from 'fastify';
 import { config } from './config.ts';
+import contentRoutes from './features/content/routes.ts';
 import metadataRoutes from './features/metadata/routes.ts';
 import { AppError } from './lib/errors.ts';
 import { fastifyLogger } from './utils/logger.ts';
@@ -54,6 +55,7 @@ export async function buildServer() {
 
   // --- Feature routes ---
   await fastify.register(metadataRoutes, { prefix: '/api/metadata' });
+  await fastify.register(contentRoutes, { prefix: '/api/content' });
 
   return fastify;
 }
@@ -2,6 +2,8 @@ import { useEffect } from "react"
 import { QueryClientProvider } from '@tanstack/react-query'
 import { ReactQueryDevtools } from '@tanstack/react-query-devtools'
 import { syncService } from "@/features/sync/sync-service"
+import { autoSyncScheduler } from "@/features/sync/auto-sync"
+import { backgroundSyncRegistrar } from "@/features/sync/background-sync"
 import { config } from "@/config"
 import PWABadge from "./PWABadge"
 import { DebugPanel } from "@/components/debug-panel"
@@ -31,6 +33,13 @@ function AppContent() {
       // Check auth status on normal app load
       syncService.checkAuthStatus();
     }
+
+    autoSyncScheduler.start();
+    backgroundSyncRegistrar.start();
+    return () => {
+      autoSyncScheduler.stop();
+      backgroundSyncRegistrar.stop();
+    };
   }, []);
 
   return (
@@ -1,4 +1,4 @@
-import { useSearchParams } from 'react-router';
+import { useLocation, useNavigate, useSearchParams } from 'react-router';
 import {
   Sidebar,
   SidebarContent,
@@ -10,32 +10,59 @@ import {
   SidebarMenuButton,
   SidebarMenuBadge,
   SidebarHeader,
+  SidebarFooter,
   useSidebar,
 } from '@/components/ui/sidebar';
-import { BookOpen, Inbox, Star, Archive, Trash2, Tag } from 'lucide-react';
-import { useFilterCounts, useTagCounts } from '@/features/articles/hooks';
+import { BookOpen, Inbox, Star, Archive, Trash2, Tag, User, GitCompare } from 'lucide-react';
+import { useContributorCounts, useFilterCounts, useTagCounts } from '@/features/articles/hooks';
+import { contributorName } from '@/lib/account';
+import { ListSwitcher } from '@/features/lists/list-switcher';
+import { AccountSwitcher } from '@/features/accounts/account-switcher';
+import { useConflicts } from '@/features/sync/use-conflicts';
 
 export function AppSidebar() {
-  const [searchParams, setSearchParams] = useSearchParams();
+  const [searchParams] = useSearchParams();
+  const { pathname } = useLocation();
+  const navigate = useNavigate();
   const { data: counts } = useFilterCounts();
   const { data: tagCounts } = useTagCounts();
+  const { data: contributorCounts } = useContributorCounts();
+  const { data: conflicts } = useConflicts();
   const { isMobile, setOpenMobile } = useSidebar();
 
-  const currentFilter = searchParams.get('filter') || 'active';
+  const onConflicts = pathname === '/conflicts';
+  const currentFilter = onConflicts ? null : searchParams.get('filter') || 'active';
   const currentTag = searchParams.get('tag') || null;
+  const currentAddedBy = searchParams.get('addedBy') || null;
+
+  // Filters always lead back to the article list, also from the Conflicts view
+  const showArticles = (params: URLSearchParams) => {
+    navigate({ pathname: '/', search: `?${params}` });
+    if (isMobile) setOpenMobile(false);
+  };
 
   const setFilter = (filter: string) => {
     const params = new URLSearchParams();
     params.set('filter', filter);
-    setSearchParams(params);
-    if (isMobile) setOpenMobile(false);
+    showArticles(params);
   };
 
   const setTag = (tag: string) => {
     const params = new URLSearchParams();
     params.set('filter', 'tag');
     params.set('tag', tag);
-    setSearchParams(params);
+    showArticles(params);
+  };
+
+  const setAddedBy = (email: string) => {
+    const params = new URLSearchParams();
+    params.set('filter', 'addedBy');
+    params.set('addedBy', email);
+    showArticles(params);
+  };
+
+  const showConflicts = () => {
+    navigate('/conflicts');
     if (isMobile) setOpenMobile(false);
   };
 
@@ -61,7 +88,7 @@ export function AppSidebar() {
               {mainItems.map(item => (
                 <SidebarMenuItem key={item.key}>
                   <SidebarMenuButton
-                    isActive={currentFilter === item.key && !currentTag}
+                    isActive={currentFilter === item.key && !currentTag && !currentAddedBy}
                     onClick={() => setFilter(item.key)}
                   >
                     <item.icon />
@@ -76,6 +103,51 @@ export function AppSidebar() {
           </SidebarGroupContent>
         </SidebarGroup>
 
+        {/* Only shown while there is something to review */}
+        {(onConflicts || (conflicts && conflicts.length > 0)) && (
+          <SidebarGroup>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                <SidebarMenuItem>
+                  <SidebarMenuButton isActive={onConflicts} onClick={showConflicts}>
+                    <GitCompare />
+                    <span>Conflicts</span>
+                  </SidebarMenuButton>
+                  {conflicts && conflicts.length > 0 && (
+                    <SidebarMenuBadge>{conflicts.length}</SidebarMenuBadge>
+                  )}
+                </SidebarMenuItem>
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        )}
+
+        <ListSwitcher onSwitch={() => isMobile && setOpenMobile(false)} />
+
+        {/* Only meaningful once more than one person writes to the list */}
+        {contributorCounts && contributorCounts.length > 1 && (
+          <SidebarGroup>
+            <SidebarGroupLabel>Added by</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {contributorCounts.map(([email, count]) => (
+                  <SidebarMenuItem key={email}>
+                    <SidebarMenuButton
+                      isActive={currentAddedBy === email}
+                      onClick={() => setAddedBy(email)}
+                      title={email}
+                    >
+                      <User />
+                      <span>{contributorName(email)}</span>
+                    </SidebarMenuButton>
+                    <SidebarMenuBadge>{count}</SidebarMenuBadge>
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        )}
+
         {tagCounts && tagCounts.length > 0 && (
           <SidebarGroup>
             <SidebarGroupLabel>Tags</SidebarGroupLabel>
@@ -98,6 +170,9 @@ export function AppSidebar() {
           </SidebarGroup>
         )}
       </SidebarContent>
+      <SidebarFooter>
+        <AccountSwitcher onSwitch={() => isMobile && setOpenMobile(false)} />
+      </SidebarFooter>
     </Sidebar>
   );
 }
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { SyncHistoryList } from '@/features/sync/sync-history-list';
 
 interface ServiceWorkerInfo {
   isSupported: boolean;
@@ -158,6 +159,14 @@ export function DebugPanel() {
             </div>
           </div>
 
+          {/* Sync History */}
+          <div className="space-y-2">
+            <h4 className="font-medium">Sync History</h4>
+            <div className="max-h-60 overflow-y-auto">
+              <SyncHistoryList limit={50} />
+            </div>
+          </div>
+
           {/* Instructions */}
           <div className="space-y-2 text-sm">
             <h4 className="font-medium">Testing Instructions</h4>
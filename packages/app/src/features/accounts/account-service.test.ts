@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { DEFAULT_LIST_ID } from '@readlater/core';
+import { AccountService } from './account-service';
+import { ListService } from '@/features/lists/list-service';
+import { db, databaseNameForList, openDatabase, openListDatabase } from '@/lib/db';
+import { DEFAULT_ACCOUNT_ID, getAccountEmail, getActiveAccountId, setAccountEmail } from '@/lib/account';
+import { getActiveListId, setActiveListId } from '@/lib/active-list';
+import type { SyncState } from '@/features/sync/sync-service';
+
+describe('AccountService', () => {
+  let syncState: SyncState;
+  let sync: {
+    getState: () => SyncState;
+    handleAccountChanged: ReturnType<typeof vi.fn>;
+    authenticate: ReturnType<typeof vi.fn>;
+  };
+  let lists: ListService;
+  let release: ReturnType<typeof vi.fn>;
+  let service: AccountService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    openListDatabase(DEFAULT_LIST_ID);
+
+    syncState = { status: 'idle', pendingCount: 0 };
+    sync = {
+      getState: () => syncState,
+      handleAccountChanged: vi.fn().mockResolvedValue(undefined),
+      authenticate: vi.fn().mockResolvedValue({ success: false, error: 'Redirecting to authentication' }),
+    };
+    lists = new ListService(() => null, { getState: () => syncState, handleListChanged: vi.fn() });
+    release = vi.fn().mockResolvedValue(undefined);
+    service = new AccountService(sync, lists, release);
+  });
+
+  it('should start with the default account on the original database', () => {
+    expect(service.getState().activeAccountId).toBe(DEFAULT_ACCOUNT_ID);
+    expect(service.getState().accounts.map(account => account.id)).toEqual([DEFAULT_ACCOUNT_ID]);
+    expect(db.name).toBe('ReadLaterDB');
+  });
+
+  it('should switch to a new account and start its sign-in', async () => {
+    await service.addAccount();
+
+    const { accounts, activeAccountId } = service.getState();
+    expect(accounts).toHaveLength(2);
+    expect(activeAccountId).not.toBe(DEFAULT_ACCOUNT_ID);
+    expect(getActiveAccountId()).toBe(activeAccountId);
+    expect(db.name).toBe(databaseNameForList(DEFAULT_LIST_ID, activeAccountId));
+    expect(sync.handleAccountChanged).toHaveBeenCalled();
+    expect(sync.authenticate).toHaveBeenCalled();
+  });
+
+  it('should keep each account\'s articles, lists and email while switching', async () => {
+    setAccountEmail('me@personal.com');
+    setActiveListId('reading');
+    openListDatabase('reading');
+    await db.articles.put({ url: 'https://example.com/personal', title: 'Personal' } as never);
+
+    await service.addAccount();
+    const workId = service.getState().activeAccountId;
+    setAccountEmail('me@work.com');
+
+    expect(getActiveListId()).toBe(DEFAULT_LIST_ID);
+    expect(await db.articles.get('https://example.com/personal')).toBeUndefined();
+
+    await service.switchAccount(DEFAULT_ACCOUNT_ID);
+
+    expect(getActiveListId()).toBe('reading');
+    expect(lists.getState().activeListId).toBe('reading');
+    expect(await db.articles.get('https://example.com/personal')).toBeDefined();
+    expect(service.getState().accounts.map(account => account.email)).toEqual(['me@personal.com', 'me@work.com']);
+    expect(getAccountEmail(workId)).toBe('me@work.com');
+  });
+
+  it('should refuse to switch while a sync is running', async () => {
+    await service.addAccount();
+    syncState = { status: 'syncing', pendingCount: 0 };
+
+    await expect(service.switchAccount(DEFAULT_ACCOUNT_ID)).rejects.toThrow('sync is running');
+    expect(service.getState().activeAccountId).not.toBe(DEFAULT_ACCOUNT_ID);
+  });
+
+  it('should sign out of a removed account and delete its local data', async () => {
+    await service.addAccount();
+    const workId = service.getState().activeAccountId;
+    setAccountEmail('me@work.com');
+    await db.articles.put({ url: 'https://example.com/work', title: 'Work' } as never);
+
+    await service.removeAccount(workId);
+
+    expect(release).toHaveBeenCalledWith(workId);
+    expect(service.getState().activeAccountId).toBe(DEFAULT_ACCOUNT_ID);
+    expect(service.getState().accounts.map(account => account.id)).toEqual([DEFAULT_ACCOUNT_ID]);
+    expect(getAccountEmail(workId)).toBeUndefined();
+
+    const removed = openDatabase(DEFAULT_LIST_ID, workId);
+    expect(await removed.articles.count()).toBe(0);
+    removed.close();
+  });
+
+  it('should not remove the first account', async () => {
+    await expect(service.removeAccount(DEFAULT_ACCOUNT_ID)).rejects.toThrow();
+    expect(release).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,98 @@
+import {
+  DEFAULT_ACCOUNT_ID,
+  forgetAccount,
+  getAccounts,
+  getActiveAccountId,
+  onAccountsChange,
+  registerAccount,
+  setActiveAccountId,
+} from '@/lib/account';
+import type { Account } from '@/lib/account';
+import { openListDatabase, deleteAccountDatabases } from '@/lib/db';
+import { listService, ListService } from '@/features/lists/list-service';
+import { releaseAccount } from '@/features/sync/google-sheets';
+import { syncService, SyncService } from '@/features/sync/sync-service';
+
+type AccountSync = Pick<SyncService, 'getState' | 'handleAccountChanged' | 'authenticate'>;
+type AccountLists = Pick<ListService, 'getState' | 'reload'>;
+
+export interface AccountsState {
+  accounts: Account[];
+  activeAccountId: string;
+}
+
+/**
+ * Google accounts used on this device and which one the app works with.
+ *
+ * Every account has its own token, spreadsheet, lists and local databases, so
+ * switching only changes which of them are active; nothing is cleared.
+ */
+export class AccountService {
+  private state: AccountsState;
+  private listeners: (() => void)[] = [];
+
+  constructor(
+    private readonly sync: AccountSync = syncService,
+    private readonly lists: AccountLists = listService,
+    private readonly release: (accountId: string) => Promise<void> = releaseAccount
+  ) {
+    this.state = { accounts: getAccounts(), activeAccountId: getActiveAccountId() };
+    // Emails become known after an account's first sync
+    onAccountsChange(() => this.setState({ accounts: getAccounts() }));
+  }
+
+  // Stable between changes, as useSyncExternalStore requires
+  getState(): AccountsState {
+    return this.state;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  /** Switches to a new account and starts its sign-in, where the user picks the Google account. */
+  async addAccount(): Promise<void> {
+    const account = registerAccount();
+    await this.switchAccount(account.id);
+    await this.sync.authenticate();
+  }
+
+  async switchAccount(id: string): Promise<void> {
+    if (id === this.state.activeAccountId) return;
+    if (this.sync.getState().status === 'syncing') {
+      throw new Error('Cannot switch accounts while a sync is running');
+    }
+
+    setActiveAccountId(id);
+    this.lists.reload();
+    openListDatabase(this.lists.getState().activeListId);
+    this.setState({ activeAccountId: id });
+    await this.sync.handleAccountChanged();
+  }
+
+  /** Signs the account out and deletes its local data. Its spreadsheets stay in Drive. */
+  async removeAccount(id: string): Promise<void> {
+    if (id === DEFAULT_ACCOUNT_ID) {
+      throw new Error('The first account can\'t be removed');
+    }
+    if (this.state.activeAccountId === id) {
+      await this.switchAccount(DEFAULT_ACCOUNT_ID);
+    }
+    await this.release(id);
+    forgetAccount(id);
+    await deleteAccountDatabases(id);
+  }
+
+  private setState(updates: Partial<AccountsState>): void {
+    this.state = { ...this.state, ...updates };
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const accountService = new AccountService();
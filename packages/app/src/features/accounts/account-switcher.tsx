@@ -0,0 +1,83 @@
+import { Check, ChevronsUpDown, LogOut, UserPlus, UserRound } from 'lucide-react';
+import { DEFAULT_ACCOUNT_ID } from '@/lib/account';
+import type { Account } from '@/lib/account';
+import {
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from '@/components/ui/sidebar';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useSync } from '@/features/sync/use-sync';
+import { useAccounts, useAddAccount, useRemoveAccount, useSwitchAccount } from './hooks';
+
+interface AccountSwitcherProps {
+  onSwitch?: () => void;
+}
+
+const accountLabel = (account: Account | undefined) => account?.email ?? 'Google account';
+
+/** Sidebar menu for switching between the Google accounts used on this device. */
+export function AccountSwitcher({ onSwitch }: AccountSwitcherProps) {
+  const { isSyncing } = useSync();
+  const { accounts, activeAccountId, activeAccount } = useAccounts();
+
+  const switchAccount = useSwitchAccount();
+  const addAccount = useAddAccount();
+  const removeAccount = useRemoveAccount();
+
+  const busy = isSyncing || switchAccount.isPending || addAccount.isPending;
+  const error = switchAccount.error ?? addAccount.error ?? removeAccount.error;
+
+  const handleRemove = (account: Account) => {
+    if (window.confirm(`Remove ${accountLabel(account)} from this device? Its spreadsheets stay in Google Drive.`)) {
+      removeAccount.mutate(account.id);
+    }
+  };
+
+  return (
+    <SidebarMenu>
+      <SidebarMenuItem>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <SidebarMenuButton size="lg" title={activeAccount?.email}>
+              <UserRound />
+              <span className="truncate">{accountLabel(activeAccount)}</span>
+              <ChevronsUpDown className="ml-auto" />
+            </SidebarMenuButton>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent side="top" align="start" className="min-w-56">
+            {accounts.map(account => (
+              <DropdownMenuItem
+                key={account.id}
+                disabled={busy}
+                onClick={() => switchAccount.mutate(account.id, { onSuccess: onSwitch })}
+              >
+                <UserRound />
+                <span className="truncate">{accountLabel(account)}</span>
+                {account.id === activeAccountId && <Check className="ml-auto" />}
+              </DropdownMenuItem>
+            ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem disabled={busy} onClick={() => addAccount.mutate()}>
+              <UserPlus />
+              Add account
+            </DropdownMenuItem>
+            {activeAccountId !== DEFAULT_ACCOUNT_ID && (
+              <DropdownMenuItem disabled={busy} onClick={() => handleRemove(activeAccount!)}>
+                <LogOut />
+                Remove this account
+              </DropdownMenuItem>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+        {error && <p className="px-2 py-1 text-xs text-destructive">{error.message}</p>}
+      </SidebarMenuItem>
+    </SidebarMenu>
+  );
+}
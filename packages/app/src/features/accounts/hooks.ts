@@ -0,0 +1,52 @@
+import { useSyncExternalStore } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { syncService } from '@/features/sync/sync-service';
+import { accountService } from './account-service';
+
+export function useAccounts() {
+  const state = useSyncExternalStore(
+    listener => accountService.subscribe(listener),
+    () => accountService.getState()
+  );
+
+  return {
+    accounts: state.accounts,
+    activeAccountId: state.activeAccountId,
+    activeAccount: state.accounts.find(account => account.id === state.activeAccountId),
+  };
+}
+
+export function useSwitchAccount() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => accountService.switchAccount(id),
+    onSuccess: async () => {
+      // Every cached query, lists included, belongs to the previous account
+      await queryClient.invalidateQueries();
+      if (syncService.getState().status === 'idle') {
+        syncService.syncNow().then(result => {
+          if (result.success) queryClient.invalidateQueries();
+        });
+      }
+    },
+  });
+}
+
+export function useAddAccount() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => accountService.addAccount(),
+    onSuccess: () => queryClient.invalidateQueries(),
+  });
+}
+
+export function useRemoveAccount() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => accountService.removeAccount(id),
+    onSuccess: () => queryClient.invalidateQueries(),
+  });
+}
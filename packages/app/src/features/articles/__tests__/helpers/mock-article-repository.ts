@@ -39,6 +39,11 @@ export function createMockArticleRepository() {
     // Sync methods
     markAsSynced: vi.fn().mockResolvedValue(undefined),
     bulkUpdate: vi.fn().mockResolvedValue(undefined),
+    saveMergedArticles: vi.fn().mockResolvedValue(undefined),
+    getSyncBase: vi.fn().mockResolvedValue(undefined),
+    saveSyncBases: vi.fn().mockResolvedValue(undefined),
+    getSyncMeta: vi.fn().mockResolvedValue(undefined),
+    setSyncMeta: vi.fn().mockResolvedValue(undefined),
 
     // Query methods
     getArticlesByDomain: vi.fn().mockResolvedValue([]),
@@ -49,7 +54,8 @@ export function createMockArticleRepository() {
     // Sync queue methods
     getPendingSyncOperations: vi.fn().mockResolvedValue([]),
     removeSyncOperation: vi.fn().mockResolvedValue(undefined),
-    incrementSyncRetryCount: vi.fn().mockResolvedValue(undefined),
+    scheduleSyncRetry: vi.fn().mockResolvedValue(undefined),
+    moveToDeadLetter: vi.fn().mockResolvedValue(undefined),
     clearSyncQueue: vi.fn().mockResolvedValue(undefined),
     getPendingArticlesCount: vi.fn().mockResolvedValue(0),
 
@@ -1,4 +1,5 @@
 import { useState, useEffect, useDeferredValue } from 'react';
+import { cleanUrl, isValidUrl } from '@readlater/core';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Dialog, DialogContent } from '@/components/ui/dialog';
@@ -14,30 +15,10 @@ import { ThemeSwitcher } from '@/components/theme-switcher';
 import { extractYouTubeVideoId } from '@/lib/youtube';
 import { encodeArticleUrl } from '@/lib/url-encode';
 import { useNavigate, Link, useSearchParams } from 'react-router';
-import { cleanUrl, isValidUrl } from '@/lib/url-cleaner';
 import { SidebarTrigger } from '@/components/ui/sidebar';
 import { useSettings } from '@/features/settings/use-settings';
-
-// Hook to track online/offline status
-function useOnlineStatus() {
-  const [isOnline, setIsOnline] = useState(navigator.onLine);
-
-  useEffect(() => {
-    const handleOnline = () => setIsOnline(true);
-    const handleOffline = () => setIsOnline(false);
-
-    window.addEventListener('online', handleOnline);
-    window.addEventListener('offline', handleOffline);
-
-    return () => {
-      window.removeEventListener('online', handleOnline);
-      window.removeEventListener('offline', handleOffline);
-    };
-  }, []);
-
-  return isOnline;
-}
-
+import { useOnlineStatus } from '@/hooks/use-online-status';
+import { contributorName, getAccountEmail } from '@/lib/account';
 
 export function ArticleList() {
   const [editingArticle, setEditingArticle] = useState<Article | null>(null);
@@ -51,16 +32,23 @@ export function ArticleList() {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
   const { settings } = useSettings();
+  // Articles you added yourself need no "by" chip
+  const accountEmail = getAccountEmail();
 
   // Convert URL search params to ArticleFilters
   const getFilters = (): ArticleFilters => {
     const filter = searchParams.get('filter') || 'active';
     const tag = searchParams.get('tag');
+    const addedBy = searchParams.get('addedBy');
 
     if (filter === 'tag' && tag) {
       return { tags: [tag] };
     }
 
+    if (filter === 'addedBy' && addedBy) {
+      return { addedBy };
+    }
+
     switch (filter) {
       case 'active':
         return { archived: false };
@@ -299,6 +287,8 @@ export function ArticleList() {
           const filter = searchParams.get('filter') || 'active';
           const tag = searchParams.get('tag');
           if (filter === 'tag' && tag) return `tag-${tag}`;
+          const addedBy = searchParams.get('addedBy');
+          if (filter === 'addedBy' && addedBy) return `by-${contributorName(addedBy)}`;
           return filter;
         })()} />
         <ThemeSwitcher />
@@ -352,6 +342,16 @@ export function ArticleList() {
                             <div className="w-1.5 h-1.5 rounded-full bg-accent flex-shrink-0" title="Pending sync" />
                           )}
                         </div>
+                        {article.addedBy && article.addedBy !== accountEmail && (
+                          <span
+                            className="px-1.5 py-0.5 rounded-full bg-muted text-muted-foreground"
+                            title={article.editedBy && article.editedBy !== article.addedBy
+                              ? `Added by ${article.addedBy}, last edited by ${article.editedBy}`
+                              : `Added by ${article.addedBy}`}
+                          >
+                            by {contributorName(article.addedBy)}
+                          </span>
+                        )}
                         {article.deletedAt && (
                           <>
                             <span>•</span>
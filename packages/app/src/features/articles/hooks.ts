@@ -1,6 +1,7 @@
 import { useInfiniteQuery, useMutation, useQueryClient, useQuery, InfiniteData } from '@tanstack/react-query';
 import { articleRepository, ArticleFilters, PaginationCursor } from './repository.js';
 import { Article, PaginatedResult } from '../../lib/db.js';
+import { contentService } from '../reader/content-service.js';
 
 export function useFilterCounts() {
   return useQuery({
@@ -20,6 +21,17 @@ export function useTagCounts() {
   });
 }
 
+export function useContributorCounts() {
+  return useQuery({
+    queryKey: ['articles', 'contributorCounts'],
+    queryFn: async () => {
+      const map = await articleRepository.getContributorCounts();
+      return Array.from(map.entries())
+        .sort((a, b) => b[1] - a[1]);
+    },
+  });
+}
+
 // Paginated articles with automatic infinite scroll
 export function usePaginatedArticles(filters?: ArticleFilters) {
   return useInfiniteQuery({
@@ -93,6 +105,10 @@ export function useAddArticle() {
       // Rollback on error
       queryClient.setQueryData(['articles'], context?.previousArticles);
     },
+    onSuccess: (_data, article) => {
+      // Keep a readable copy for offline reading
+      contentService.prefetch(article.url);
+    },
     onSettled: () => {
       // Always refetch after error or success
       queryClient.invalidateQueries({ queryKey: ['articles'] });
@@ -20,6 +20,13 @@ vi.mock('./hooks', () => ({
 // Mock the sync hook
 vi.mock('@/features/sync/use-sync', () => ({
   useSync: vi.fn(),
+  useSyncPreview: vi.fn(() => ({
+    mutate: vi.fn(),
+    reset: vi.fn(),
+    data: undefined,
+    error: null,
+    isPending: false,
+  })),
 }));
 
 // Mock the repository
@@ -1,6 +1,7 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { ArticleRepository } from './repository.js';
 import { db, Article } from '../../lib/db.js';
+import { setAccountEmail } from '../../lib/account.js';
 
 // Mock crypto.randomUUID for consistent test results in browser environment
 vi.stubGlobal('crypto', {
@@ -13,9 +14,11 @@ describe('ArticleRepository', () => {
   beforeEach(async () => {
     // Clean up before each test
     try {
-      await db.transaction('rw', [db.articles, db.syncQueue], async () => {
+      await db.transaction('rw', [db.articles, db.syncQueue, db.syncBase, db.syncMeta], async () => {
         await db.articles.clear();
         await db.syncQueue.clear();
+        await db.syncBase.clear();
+        await db.syncMeta.clear();
       });
     } catch {
       // If database is closed, reopen and try again
@@ -119,6 +122,40 @@ describe('ArticleRepository', () => {
     });
   });
 
+  describe('Attribution', () => {
+    afterEach(() => {
+      localStorage.clear();
+    });
+
+    it('should attribute new articles to the signed-in account', async () => {
+      setAccountEmail('reader@example.com');
+
+      await repository.save(createSampleArticle());
+
+      expect((await repository.getByUrl('https://example.com/article'))?.addedBy).toBe('reader@example.com');
+    });
+
+    it('should attribute edits to the signed-in account', async () => {
+      await db.articles.add(createSampleArticle({ addedBy: 'teammate@example.com' }));
+      setAccountEmail('reader@example.com');
+
+      await repository.update('https://example.com/article', { notes: 'Edited' });
+
+      const updated = await repository.getByUrl('https://example.com/article');
+      expect(updated?.addedBy).toBe('teammate@example.com');
+      expect(updated?.editedBy).toBe('reader@example.com');
+    });
+
+    it('should keep who added an article when it is saved again', async () => {
+      await db.articles.add(createSampleArticle({ addedBy: 'teammate@example.com' }));
+      setAccountEmail('reader@example.com');
+
+      await repository.save(createSampleArticle({ title: 'Saved again' }));
+
+      expect((await repository.getByUrl('https://example.com/article'))?.addedBy).toBe('teammate@example.com');
+    });
+  });
+
   describe('Sync Queue Management', () => {
     it('should queue sync operation when saving article', async () => {
       const article = createSampleArticle();
@@ -159,6 +196,127 @@ describe('ArticleRepository', () => {
     });
   });
 
+  describe('Sync Queue Compaction', () => {
+    it('should fold updates into a pending create', async () => {
+      const article = createSampleArticle();
+      await repository.save(article);
+
+      await repository.update(article.url, { title: 'Renamed' });
+      await repository.update(article.url, { favorite: true });
+
+      const operations = await db.syncQueue.toArray();
+      expect(operations).toHaveLength(1);
+      expect(operations[0].type).toBe('create');
+      expect(operations[0].data).toMatchObject({ title: 'Renamed', favorite: true });
+    });
+
+    it('should keep one update for repeated edits', async () => {
+      const article = createSampleArticle({ syncStatus: 'synced' });
+      await db.articles.add(article);
+
+      for (let i = 0; i < 5; i++) {
+        await repository.update(article.url, { favorite: i % 2 === 0 });
+      }
+
+      const operations = await db.syncQueue.toArray();
+      expect(operations).toHaveLength(1);
+      expect(operations[0]).toMatchObject({ type: 'update', data: { favorite: true } });
+    });
+
+    it('should let a delete replace a pending update', async () => {
+      const article = createSampleArticle({ syncStatus: 'synced' });
+      await db.articles.add(article);
+
+      await repository.update(article.url, { notes: 'Edited' });
+      await repository.delete(article.url);
+
+      const operations = await db.syncQueue.toArray();
+      expect(operations).toHaveLength(1);
+      expect(operations[0].data).toMatchObject({ notes: 'Edited', deletedAt: expect.any(Number) });
+    });
+
+    it('should drop an article deleted before its create was pushed', async () => {
+      const article = createSampleArticle();
+      await repository.save(article);
+
+      await repository.delete(article.url);
+
+      expect(await db.syncQueue.count()).toBe(0);
+      const stored = await repository.getByUrl(article.url);
+      expect(stored?.deletedAt).toBeDefined();
+      expect(stored?.syncStatus).toBe('synced');
+    });
+  });
+
+  describe('Merge Support', () => {
+    it('should track edit times only for fields that changed', async () => {
+      const article = createSampleArticle({ title: 'Same Title' });
+      await db.articles.add(article);
+
+      await repository.update(article.url, { title: 'Same Title', notes: 'Changed notes' });
+
+      const updated = await repository.getByUrl(article.url);
+      expect(updated?.fieldEditedAt).toEqual({ notes: updated?.editedAt });
+    });
+
+    it('should track deletion time as a field edit', async () => {
+      const article = createSampleArticle();
+      await db.articles.add(article);
+
+      await repository.delete(article.url);
+
+      const deleted = await repository.getByUrl(article.url);
+      expect(deleted?.fieldEditedAt?.deletedAt).toBe(deleted?.deletedAt);
+    });
+
+    it('should store and read sync bases', async () => {
+      const article = createSampleArticle();
+      await repository.saveSyncBases([{ ...article, syncedAt: 1000 }]);
+
+      const base = await repository.getSyncBase(article.url);
+      expect(base?.syncedAt).toBe(1000);
+      expect(base?.title).toBe(article.title);
+    });
+
+    it('should store and overwrite sync metadata by key', async () => {
+      expect(await repository.getSyncMeta('pullCheckpoint')).toBeUndefined();
+
+      await repository.setSyncMeta('pullCheckpoint', { revision: '1' });
+      await repository.setSyncMeta('pullCheckpoint', { revision: '2' });
+
+      expect(await repository.getSyncMeta('pullCheckpoint')).toEqual({ revision: '2' });
+    });
+
+    it('should drop the sync base when an article is removed locally', async () => {
+      const article = createSampleArticle();
+      await db.articles.add(article);
+      await repository.saveSyncBases([{ ...article, syncedAt: 1000 }]);
+
+      await repository.deleteLocalOnly(article.url);
+
+      expect(await repository.getSyncBase(article.url)).toBeUndefined();
+    });
+
+    it('should queue merged articles only when no operation is pending', async () => {
+      const queued = createSampleArticle({ url: 'https://example.com/queued' });
+      const unqueued = createSampleArticle({ url: 'https://example.com/unqueued', syncStatus: 'synced' });
+      vi.mocked(crypto.randomUUID)
+        .mockReturnValueOnce('1-1-1-1-1')
+        .mockReturnValueOnce('2-2-2-2-2');
+      await repository.save(queued);
+      await db.articles.add(unqueued);
+
+      await repository.saveMergedArticles([
+        { ...queued, notes: 'merged' },
+        { ...unqueued, notes: 'merged' },
+      ]);
+
+      const operations = await db.syncQueue.toArray();
+      expect(operations.map(op => op.articleUrl).sort()).toEqual([queued.url, unqueued.url]);
+      expect((await repository.getByUrl(unqueued.url))?.syncStatus).toBe('pending');
+    });
+  });
+
   describe('Pagination', () => {
     beforeEach(async () => {
       // Create test articles with different timestamps
@@ -236,6 +394,7 @@ describe('ArticleRepository', () => {
           syncStatus: 'pending',
           domain: 'example.com',
           tags: ['pending'],
+          addedBy: 'teammate@example.com',
         }),
       ];
 
@@ -276,6 +435,19 @@ describe('ArticleRepository', () => {
       expect(result.items[0].tags).toContain('favorite');
     });
 
+    it('should filter by the account that added the article', async () => {
+      const result = await repository.getPaginated({ addedBy: 'teammate@example.com' });
+
+      expect(result.items).toHaveLength(1);
+      expect(result.items[0].title).toBe('Pending Article');
+    });
+
+    it('should count articles per contributor', async () => {
+      const counts = await repository.getContributorCounts();
+
+      expect(Array.from(counts.entries())).toEqual([['teammate@example.com', 1]]);
+    });
+
     it('should apply multiple filters', async () => {
       const result = await repository.getPaginated({
         domain: 'example.com',
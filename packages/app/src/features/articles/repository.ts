@@ -1,5 +1,8 @@
 import Dexie from 'dexie';
-import { db, Article, SyncOperation, PaginationCursor, PaginatedResult } from '../../lib/db.js';
+import { db, Article, SyncOperation, SyncBase, MergeableField, PaginationCursor, PaginatedResult } from '../../lib/db.js';
+import { getChangedFields } from '../sync/merge.js';
+import { getAccountEmail } from '../../lib/account.js';
+import { notifyLocalChange } from '../../lib/local-changes.js';
 
 // Re-export types for external use
 export type { PaginationCursor, PaginatedResult } from '../../lib/db.js';
@@ -9,6 +12,7 @@ export interface ArticleFilters {
   favorite?: boolean;
   domain?: string;
   tags?: string[];
+  addedBy?: string;         // Email of the account that saved the article
   syncStatus?: 'synced' | 'pending';
   includeDeleted?: boolean; // For sync operations that need to see deleted articles
 }
@@ -21,7 +25,6 @@ export interface PaginationOptions {
 }
 
 export class ArticleRepository {
-  private db = db;
   private readonly DEFAULT_PAGE_SIZE = 50;
 
   // Efficient paginated queries using cursor-based pagination
@@ -80,7 +83,7 @@ export class ArticleRepository {
     sortOrder: 'asc' | 'desc' = 'desc',
     cursor?: PaginationCursor
   ) {
-    const table = this.db.articles;
+    const table = db.articles;
     let collection: Dexie.Collection<Article, string>;
 
     // Start with timestamp-ordered collection
@@ -122,6 +125,10 @@ export class ArticleRepository {
       collection = collection.filter(article => article.domain === filters.domain);
     }
 
+    if (filters.addedBy) {
+      collection = collection.filter(article => article.addedBy === filters.addedBy);
+    }
+
     if (filters.syncStatus) {
       collection = collection.filter(article => article.syncStatus === filters.syncStatus);
     }
@@ -148,7 +155,7 @@ export class ArticleRepository {
     }
 
     // Get all non-deleted articles and score them
-    const allArticles = await this.db.articles
+    const allArticles = await db.articles
       .filter(article => !article.deletedAt)
       .toArray();
     const scoredArticles = allArticles
@@ -228,7 +235,7 @@ export class ArticleRepository {
 
   // Single article operations remain simple
   async getByUrl(url: string): Promise<Article | undefined> {
-    return await this.db.articles.get(url);
+    return await db.articles.get(url);
   }
 
   async save(article: Article): Promise<void> {
@@ -236,12 +243,13 @@ export class ArticleRepository {
 
     const articleToSave: Article = {
       ...article,
+      addedBy: article.addedBy ?? existingArticle?.addedBy ?? getAccountEmail(),
       syncStatus: 'pending'
       // Don't set editedAt on create - only timestamp is set
     };
 
-    await this.db.transaction('rw', [this.db.articles, this.db.syncQueue], async () => {
-      await this.db.articles.put(articleToSave);
+    await db.transaction('rw', [db.articles, db.syncQueue], async () => {
+      await db.articles.put(articleToSave);
 
       // Queue appropriate operation type based on whether article exists
       const operationType = existingArticle ? 'update' : 'create';
@@ -250,25 +258,30 @@ export class ArticleRepository {
 
     // Clear count cache when adding items
     this.countCache.clear();
+    notifyLocalChange();
   }
 
   async update(url: string, updates: Partial<Article>): Promise<void> {
     const article = await this.getByUrl(url);
     if (!article) throw new Error('Article not found');
 
+    const now = Date.now();
     const updatedArticle: Article = {
       ...article,
       ...updates,
       syncStatus: 'pending',
-      editedAt: Date.now()  // Set editedAt on updates
+      editedAt: now,  // Set editedAt on updates
+      editedBy: getAccountEmail() ?? article.editedBy,
+      fieldEditedAt: this.touchFields(article, getChangedFields(article, updates), now)
     };
 
-    await this.db.transaction('rw', [this.db.articles, this.db.syncQueue], async () => {
-      await this.db.articles.put(updatedArticle);
+    await db.transaction('rw', [db.articles, db.syncQueue], async () => {
+      await db.articles.put(updatedArticle);
       await this.queueSync('update', url, updatedArticle);
     });
 
     this.countCache.clear();
+    notifyLocalChange();
   }
 
   async delete(url: string): Promise<void> {
@@ -276,24 +289,30 @@ export class ArticleRepository {
     if (!article) throw new Error('Article not found');
 
     // Soft delete: mark as deleted instead of removing
+    const now = Date.now();
     const deletedArticle: Article = {
       ...article,
-      deletedAt: Date.now(),
+      deletedAt: now,
       syncStatus: 'pending',
-      editedAt: Date.now()
+      editedAt: now,
+      fieldEditedAt: this.touchFields(article, ['deletedAt'], now)
     };
 
-    await this.db.transaction('rw', [this.db.articles, this.db.syncQueue], async () => {
-      await this.db.articles.put(deletedArticle);
+    await db.transaction('rw', [db.articles, db.syncQueue], async () => {
+      await db.articles.put(deletedArticle);
       await this.queueSync('update', url, deletedArticle); // Use update, not delete
     });
 
     this.countCache.clear();
+    notifyLocalChange();
   }
 
   // Delete locally without queueing sync operation (for cleaning up after remote sync)
   async deleteLocalOnly(url: string): Promise<void> {
-    await this.db.articles.delete(url);
+    await db.transaction('rw', [db.articles, db.syncBase], async () => {
+      await db.articles.delete(url);
+      await db.syncBase.delete(url);
+    });
     this.countCache.clear();
   }
 
@@ -301,24 +320,65 @@ export class ArticleRepository {
   async markAsSynced(url: string): Promise<void> {
     const article = await this.getByUrl(url);
     if (!article) return;
-    await this.db.articles.put({ ...article, syncStatus: 'synced' });
+    await db.articles.put({ ...article, syncStatus: 'synced' });
+  }
+
+  // Store merge results that still need to reach the remote side
+  async saveMergedArticles(articles: Article[]): Promise<void> {
+    await db.transaction('rw', [db.articles, db.syncQueue], async () => {
+      for (const article of articles) {
+        const merged: Article = { ...article, syncStatus: 'pending' };
+        await db.articles.put(merged);
+
+        // An already queued operation picks up the merged article when it is pushed
+        const queued = await db.syncQueue.where('articleUrl').equals(article.url).count();
+        if (queued === 0) {
+          await this.queueSync('update', article.url, merged);
+        }
+      }
+    });
+
+    this.countCache.clear();
   }
 
+  private touchFields(article: Article, fields: MergeableField[], time: number): Article['fieldEditedAt'] {
+    const fieldEditedAt = { ...article.fieldEditedAt };
+    for (const field of fields) {
+      fieldEditedAt[field] = time;
+    }
+    return fieldEditedAt;
+  }
+
+  /**
+   * Queues the article's new state, folded together with whatever is already
+   * queued for it so each URL has at most one net operation. Callers run this
+   * inside a transaction over articles and syncQueue.
+   *
+   * The merged entry gets a new ID: a sync pushing the old entry right now
+   * removes only that one, and the newer state still goes out next time.
+   */
   private async queueSync(type: SyncOperation['type'], url: string, data: Partial<Article>): Promise<void> {
-    const operation: SyncOperation = {
+    const queued = await db.syncQueue.where('articleUrl').equals(url).toArray();
+    const operation = compactOperations(queued, {
       id: crypto.randomUUID(),
       type,
       articleUrl: url,
       data,
       timestamp: Date.now(),
       retryCount: 0
-    };
+    });
 
-    await this.db.syncQueue.add(operation);
+    await db.syncQueue.bulkDelete(queued.map(op => op.id));
+    if (operation) {
+      await db.syncQueue.add(operation);
+    } else {
+      // Created and deleted before it ever reached the sheet: nothing left to push
+      await db.articles.update(url, { syncStatus: 'synced' });
+    }
   }
 
   async getTagCounts(): Promise<Map<string, number>> {
-    const articles = await this.db.articles
+    const articles = await db.articles
       .filter(article => !article.deletedAt)
       .toArray();
 
@@ -331,6 +391,19 @@ export class ArticleRepository {
     return tagCounts;
   }
 
+  /** Article counts per contributor (the account that added them), for shared lists. */
+  async getContributorCounts(): Promise<Map<string, number>> {
+    const articles = await db.articles
+      .filter(article => !article.deletedAt && !!article.addedBy)
+      .toArray();
+
+    const counts = new Map<string, number>();
+    for (const article of articles) {
+      counts.set(article.addedBy!, (counts.get(article.addedBy!) || 0) + 1);
+    }
+    return counts;
+  }
+
   async getFilterCounts(): Promise<{
     all: number;
     active: number;
@@ -338,7 +411,7 @@ export class ArticleRepository {
     archived: number;
     deleted: number;
   }> {
-    const articles = await this.db.articles.toArray();
+    const articles = await db.articles.toArray();
     let all = 0, active = 0, favorites = 0, archived = 0, deleted = 0;
     for (const article of articles) {
       if (article.deletedAt) { deleted++; continue; }
@@ -352,12 +425,12 @@ export class ArticleRepository {
 
   // Bulk operations for sync efficiency
   async bulkUpdate(articles: Article[]): Promise<void> {
-    await this.db.articles.bulkPut(articles);
+    await db.articles.bulkPut(articles);
     this.countCache.clear();
   }
 
   async getArticlesByDomain(domain: string): Promise<Article[]> {
-    return await this.db.articles
+    return await db.articles
       .where('domain')
       .equals(domain)
       .filter(article => !article.deletedAt) // Filter out deleted articles
@@ -367,31 +440,68 @@ export class ArticleRepository {
 
   // Sync queue operations
   async getPendingSyncOperations(): Promise<SyncOperation[]> {
-    return await this.db.syncQueue
+    return await db.syncQueue
       .orderBy('timestamp')
       .toArray();
   }
 
   async removeSyncOperation(id: string): Promise<void> {
-    await this.db.syncQueue.delete(id);
+    await db.syncQueue.delete(id);
   }
 
-  async incrementSyncRetryCount(id: string): Promise<void> {
-    const operation = await this.db.syncQueue.get(id);
+  // Counts a failed push and holds the operation back until `nextRetryAt`
+  async scheduleSyncRetry(id: string, error: string, nextRetryAt: number): Promise<void> {
+    const operation = await db.syncQueue.get(id);
     if (operation) {
-      await this.db.syncQueue.put({
+      await db.syncQueue.put({
         ...operation,
-        retryCount: operation.retryCount + 1
+        retryCount: operation.retryCount + 1,
+        nextRetryAt,
+        lastError: error
       });
     }
   }
 
+  // Takes an operation that ran out of retries off the queue
+  async moveToDeadLetter(operation: SyncOperation, error: string): Promise<void> {
+    await db.transaction('rw', [db.syncQueue, db.deadLetters], async () => {
+      await db.syncQueue.delete(operation.id);
+      await db.deadLetters.put({
+        id: operation.id,
+        kind: 'article',
+        operation: { ...operation, retryCount: operation.retryCount + 1, nextRetryAt: undefined, lastError: error },
+        error,
+        failedAt: Date.now()
+      });
+    });
+  }
+
+  // Sync base snapshots (common ancestors for three-way merge)
+  async getSyncBase(url: string): Promise<SyncBase | undefined> {
+    return await db.syncBase.get(url);
+  }
+
+  async saveSyncBases(bases: SyncBase[]): Promise<void> {
+    if (bases.length === 0) return;
+    await db.syncBase.bulkPut(bases);
+  }
+
+  // Sync bookkeeping (checkpoints etc.)
+  async getSyncMeta<T>(key: string): Promise<T | undefined> {
+    const entry = await db.syncMeta.get(key);
+    return entry?.value as T | undefined;
+  }
+
+  async setSyncMeta<T>(key: string, value: T): Promise<void> {
+    await db.syncMeta.put({ key, value });
+  }
+
   async clearSyncQueue(): Promise<void> {
-    await this.db.syncQueue.clear();
+    await db.syncQueue.clear();
   }
 
   async getPendingArticlesCount(): Promise<number> {
-    return await this.db.articles
+    return await db.articles
       .where('syncStatus')
       .equals('pending')
       .count();
@@ -399,17 +509,17 @@ export class ArticleRepository {
 
   // Get all articles (for sync operations that need to check everything)
   async getAllArticles(): Promise<Article[]> {
-    return await this.db.articles.toArray();
+    return await db.articles.toArray();
   }
 
   // Get articles including deleted ones (for sync operations)
   async getAllArticlesIncludingDeleted(): Promise<Article[]> {
-    return await this.db.articles.toArray();
+    return await db.articles.toArray();
   }
 
   // Get only deleted articles (for cleanup operations)
   async getDeletedArticles(): Promise<Article[]> {
-    return await this.db.articles
+    return await db.articles
       .filter(article => !!article.deletedAt)
       .toArray();
   }
@@ -418,7 +528,7 @@ export class ArticleRepository {
   async cleanupDeletedArticles(olderThanDays: number = 30): Promise<number> {
     const cutoffTime = Date.now() - (olderThanDays * 24 * 60 * 60 * 1000);
 
-    const oldDeletedArticles = await this.db.articles
+    const oldDeletedArticles = await db.articles
       .filter(article =>
         !!article.deletedAt &&
         article.deletedAt < cutoffTime
@@ -431,7 +541,10 @@ export class ArticleRepository {
 
     // Remove old deleted articles permanently
     const urlsToDelete = oldDeletedArticles.map(article => article.url);
-    await this.db.articles.bulkDelete(urlsToDelete);
+    await db.transaction('rw', [db.articles, db.syncBase], async () => {
+      await db.articles.bulkDelete(urlsToDelete);
+      await db.syncBase.bulkDelete(urlsToDelete);
+    });
 
     this.countCache.clear();
     console.log(`Cleaned up ${urlsToDelete.length} old deleted articles`);
@@ -447,6 +560,7 @@ export class ArticleRepository {
     }
 
     // Create a new article object without deletedAt
+    const now = Date.now();
     const restoredArticle: Article = {
       url: article.url,
       title: article.title,
@@ -458,18 +572,44 @@ export class ArticleRepository {
       archived: article.archived,
       favorite: article.favorite,
       timestamp: article.timestamp,
-      editedAt: Date.now(),
+      editedAt: now,
+      fieldEditedAt: this.touchFields(article, ['deletedAt'], now),
       syncStatus: 'pending'
       // deletedAt is omitted
     };
 
-    await this.db.transaction('rw', [this.db.articles, this.db.syncQueue], async () => {
-      await this.db.articles.put(restoredArticle);
-      await this.queueSync('update', url, restoredArticle);
+    await db.transaction('rw', [db.articles, db.syncQueue, db.syncBase], async () => {
+      await db.articles.put(restoredArticle);
+      // Without a sync base the article never reached the sheet (its create was compacted away)
+      const synced = await db.syncBase.get(url);
+      await this.queueSync(synced ? 'update' : 'create', url, restoredArticle);
     });
 
     this.countCache.clear();
+    notifyLocalChange();
   }
 }
 
-export const articleRepository = new ArticleRepository();
\ No newline at end of file
+/**
+ * Folds a new operation into those already queued for the same article.
+ * Operations carry the full article, so the newest data always wins; only the
+ * type needs settling:
+ * - create + update → create (the row doesn't exist yet)
+ * - update + delete → delete
+ * - create + delete → nothing (soft deletes count as deletes)
+ */
+function compactOperations(queued: SyncOperation[], next: SyncOperation): SyncOperation | null {
+  if (queued.length === 0) return next;
+
+  const pendingCreate = queued.some(op => op.type === 'create');
+  const isDeletion = next.type === 'delete' || !!next.data.deletedAt;
+  if (pendingCreate && isDeletion) return null;
+
+  return {
+    ...next,
+    type: pendingCreate ? 'create' : next.type,
+    timestamp: Math.min(...queued.map(op => op.timestamp)) // Keep its place in the queue
+  };
+}
+
+export const articleRepository = new ArticleRepository();
@@ -44,6 +44,12 @@ describe('articlesToCsv', () => {
     expect(lines[1]).toContain(',"",');
   });
 
+  test('escapes values that spreadsheet apps would run as formulas', () => {
+    const csv = articlesToCsv([makeArticle({ title: '=HYPERLINK("https://evil.example","Click")', notes: '@SUM(1+1)' })]);
+    expect(csv).toContain('"\'=HYPERLINK(""https://evil.example"",""Click"")"');
+    expect(csv).toContain('"\'@SUM(1+1)"');
+  });
+
   test('starts with UTF-8 BOM', () => {
     const csv = articlesToCsv([]);
     expect(csv.charCodeAt(0)).toBe(0xFEFF);
@@ -135,4 +141,19 @@ describe('parseCsvToArticles', () => {
     const { articles } = parseCsvToArticles(csv);
     expect(articles[0].description).toBe('Has "quotes" and, commas');
   });
+
+  test('round-trips values that look like formulas', () => {
+    const original = [makeArticle({
+      title: "=cmd|' /C calc'!A0",
+      description: '+1+1',
+      notes: "'quoted",
+      tags: ['-negative', 'safe'],
+    })];
+    const { articles } = parseCsvToArticles(articlesToCsv(original));
+
+    expect(articles[0].title).toBe("=cmd|' /C calc'!A0");
+    expect(articles[0].description).toBe('+1+1');
+    expect(articles[0].notes).toBe("'quoted");
+    expect(articles[0].tags).toEqual(['-negative', 'safe']);
+  });
 });
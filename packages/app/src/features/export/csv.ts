@@ -1,9 +1,11 @@
+import { escapeFormula, unescapeFormula } from '@readlater/core';
 import { Article } from '@/lib/db';
 
 const CSV_FIELDS = ['url', 'title', 'description', 'domain', 'tags', 'notes', 'archived', 'favorite', 'timestamp'] as const;
 
+// Spreadsheet apps evaluate cells like =HYPERLINK(...) when the file is opened
 function escapeField(value: string): string {
-  return `"${value.replace(/"/g, '""')}"`;
+  return `"${escapeFormula(value).replace(/"/g, '""')}"`;
 }
 
 export function articlesToCsv(articles: Article[]): string {
@@ -105,7 +107,7 @@ export function parseCsvToArticles(csvText: string): ParseResult {
     const row = rows[i];
     const get = (field: string): string => {
       const idx = headerRow.indexOf(field);
-      return idx >= 0 && idx < row.length ? row[idx].trim() : '';
+      return idx >= 0 && idx < row.length ? unescapeFormula(row[idx]).trim() : '';
     };
 
     const url = get('url');
@@ -0,0 +1,33 @@
+import type { HighlightRecord, HighlightSyncOperation } from '../../../../lib/db';
+
+/**
+ * Creates a test HighlightRecord with sensible defaults.
+ *
+ * @example
+ * const highlight = createTestHighlight({ note: 'Remember this', syncStatus: 'synced' });
+ */
+export function createTestHighlight(overrides?: Partial<HighlightRecord>): HighlightRecord {
+  return {
+    id: 'test-highlight',
+    articleUrl: 'https://example.com/test-article',
+    text: 'A memorable passage',
+    color: 'yellow',
+    createdAt: new Date().toISOString(),
+    syncStatus: 'pending',
+    ...overrides,
+  };
+}
+
+/**
+ * Creates a queued highlight push with sensible defaults.
+ */
+export function createTestHighlightOperation(overrides?: Partial<HighlightSyncOperation>): HighlightSyncOperation {
+  return {
+    id: `test-highlight-operation-${Math.random().toString(36).substring(7)}`,
+    highlightId: 'test-highlight',
+    articleUrl: 'https://example.com/test-article',
+    timestamp: Date.now(),
+    retryCount: 0,
+    ...overrides,
+  };
+}
@@ -0,0 +1,30 @@
+import { vi } from 'vitest';
+
+/**
+ * Creates a mock HighlightRepository for testing.
+ * All methods are mocked with default implementations that return empty results.
+ */
+export function createMockHighlightRepository() {
+  return {
+    // CRUD methods
+    getAll: vi.fn().mockResolvedValue([]),
+    getByArticle: vi.fn().mockResolvedValue([]),
+    getById: vi.fn().mockResolvedValue(undefined),
+    add: vi.fn().mockResolvedValue(undefined),
+    update: vi.fn().mockResolvedValue(undefined),
+    delete: vi.fn().mockResolvedValue(undefined),
+
+    // Sync methods
+    saveMerged: vi.fn().mockResolvedValue(undefined),
+    bulkPut: vi.fn().mockResolvedValue(undefined),
+    markAsSynced: vi.fn().mockResolvedValue(undefined),
+
+    // Sync queue methods
+    getPendingSyncOperations: vi.fn().mockResolvedValue([]),
+    removeSyncOperation: vi.fn().mockResolvedValue(undefined),
+    scheduleSyncRetry: vi.fn().mockResolvedValue(undefined),
+    moveToDeadLetter: vi.fn().mockResolvedValue(undefined),
+    clearSyncQueue: vi.fn().mockResolvedValue(undefined),
+    getPendingCount: vi.fn().mockResolvedValue(0),
+  };
+}
@@ -0,0 +1,163 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Trash2 } from 'lucide-react';
+import { DEFAULT_HIGHLIGHT_COLOR, HIGHLIGHT_COLORS, HighlightColor } from '@/features/articles/types';
+import type { HighlightRecord } from '@/lib/db';
+import { useArticleHighlights, useAddHighlight, useUpdateHighlight, useDeleteHighlight } from './hooks';
+
+const SWATCH_CLASSES: Record<HighlightColor, string> = {
+  yellow: 'bg-yellow-300',
+  green: 'bg-green-300',
+  blue: 'bg-sky-300',
+  pink: 'bg-pink-300',
+  purple: 'bg-purple-300',
+};
+
+const QUOTE_BORDER_CLASSES: Record<HighlightColor, string> = {
+  yellow: 'border-yellow-400',
+  green: 'border-green-400',
+  blue: 'border-sky-400',
+  pink: 'border-pink-400',
+  purple: 'border-purple-400',
+};
+
+interface HighlightsPanelProps {
+  articleUrl: string;
+}
+
+export function HighlightsPanel({ articleUrl }: HighlightsPanelProps) {
+  const { data: highlights = [] } = useArticleHighlights(articleUrl);
+  const addHighlightMutation = useAddHighlight();
+  const updateHighlightMutation = useUpdateHighlight();
+  const deleteHighlightMutation = useDeleteHighlight();
+
+  const [text, setText] = useState('');
+  const [note, setNote] = useState('');
+  const [color, setColor] = useState<HighlightColor>(DEFAULT_HIGHLIGHT_COLOR);
+
+  const handleAdd = () => {
+    if (!text.trim()) return;
+    addHighlightMutation.mutate({
+      articleUrl,
+      text: text.trim(),
+      note: note.trim() || undefined,
+      color,
+    });
+    setText('');
+    setNote('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-medium">
+        Highlights
+        {highlights.length > 0 && (
+          <span className="ml-2 text-xs text-muted-foreground">{highlights.length}</span>
+        )}
+      </h3>
+
+      {highlights.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No highlights yet.</p>
+      ) : (
+        <ul className="space-y-3">
+          {highlights.map((highlight) => (
+            <HighlightItem
+              key={highlight.id}
+              highlight={highlight}
+              onUpdate={(updates) => updateHighlightMutation.mutate({ id: highlight.id, updates })}
+              onDelete={() => deleteHighlightMutation.mutate(highlight.id)}
+            />
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-2 pt-2 border-t border-border">
+        <Textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="Paste a passage to highlight..."
+          className="min-h-[60px]"
+        />
+        <Input
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Note (optional)"
+        />
+        <div className="flex items-center justify-between gap-2">
+          <ColorPicker value={color} onChange={setColor} />
+          <Button size="sm" onClick={handleAdd} disabled={!text.trim() || addHighlightMutation.isPending}>
+            Add highlight
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface HighlightItemProps {
+  highlight: HighlightRecord;
+  onUpdate: (updates: { note?: string; color?: HighlightColor }) => void;
+  onDelete: () => void;
+}
+
+function HighlightItem({ highlight, onUpdate, onDelete }: HighlightItemProps) {
+  const [note, setNote] = useState(highlight.note || '');
+
+  const handleNoteBlur = () => {
+    if (note !== (highlight.note || '')) {
+      onUpdate({ note });
+    }
+  };
+
+  return (
+    <li className="space-y-1.5">
+      <blockquote className={`border-l-4 pl-3 text-sm italic ${QUOTE_BORDER_CLASSES[highlight.color]}`}>
+        {highlight.text}
+      </blockquote>
+      <div className="flex items-center gap-2 pl-4">
+        <Input
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          onBlur={handleNoteBlur}
+          placeholder="Add a note..."
+          className="h-8 text-sm"
+        />
+        <ColorPicker value={highlight.color} onChange={(color) => onUpdate({ color })} />
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={onDelete}
+          className="text-destructive hover:text-destructive/80 p-1 h-8 w-8 shrink-0"
+          title="Delete highlight"
+        >
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+    </li>
+  );
+}
+
+interface ColorPickerProps {
+  value: HighlightColor;
+  onChange: (color: HighlightColor) => void;
+}
+
+function ColorPicker({ value, onChange }: ColorPickerProps) {
+  return (
+    <div className="flex items-center gap-1 shrink-0" role="radiogroup" aria-label="Highlight color">
+      {HIGHLIGHT_COLORS.map((color) => (
+        <button
+          key={color}
+          type="button"
+          role="radio"
+          aria-checked={value === color}
+          aria-label={color}
+          onClick={() => onChange(color)}
+          className={`w-4 h-4 rounded-full ${SWATCH_CLASSES[color]} ${value === color ? 'ring-2 ring-ring ring-offset-1 ring-offset-background' : ''}`}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { useMutation, useQueryClient, useQuery } from '@tanstack/react-query';
+import { highlightRepository, HighlightUpdates, NewHighlight } from './repository.js';
+
+export function useArticleHighlights(articleUrl: string) {
+  return useQuery({
+    queryKey: ['highlights', articleUrl],
+    queryFn: () => highlightRepository.getByArticle(articleUrl),
+    enabled: !!articleUrl,
+  });
+}
+
+export function useAddHighlight() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (highlight: NewHighlight) => highlightRepository.add(highlight),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['highlights'] });
+    },
+  });
+}
+
+export function useUpdateHighlight() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, updates }: { id: string; updates: HighlightUpdates }) =>
+      highlightRepository.update(id, updates),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['highlights'] });
+    },
+  });
+}
+
+export function useDeleteHighlight() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => highlightRepository.delete(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['highlights'] });
+    },
+  });
+}
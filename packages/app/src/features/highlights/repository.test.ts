@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { HighlightRepository } from './repository';
+import { db } from '../../lib/db';
+
+describe('HighlightRepository', () => {
+  let repository: HighlightRepository;
+
+  beforeEach(async () => {
+    await db.transaction('rw', [db.highlights, db.highlightSyncQueue], async () => {
+      await db.highlights.clear();
+      await db.highlightSyncQueue.clear();
+    });
+    repository = new HighlightRepository();
+  });
+
+  it('should add a pending highlight and queue it for sync', async () => {
+    const highlight = await repository.add({
+      articleUrl: 'https://example.com/article',
+      text: 'Quoted passage',
+      note: 'Why it matters',
+    });
+
+    expect(highlight.color).toBe('yellow');
+    expect(highlight.syncStatus).toBe('pending');
+
+    const operations = await repository.getPendingSyncOperations();
+    expect(operations).toHaveLength(1);
+    expect(operations[0].highlightId).toBe(highlight.id);
+  });
+
+  it('should keep a single queue entry per highlight across edits', async () => {
+    const highlight = await repository.add({ articleUrl: 'https://example.com/article', text: 'Quoted passage' });
+
+    await repository.update(highlight.id, { note: 'First thought' });
+    await repository.update(highlight.id, { color: 'green' });
+
+    const operations = await repository.getPendingSyncOperations();
+    expect(operations).toHaveLength(1);
+
+    const updated = await repository.getById(highlight.id);
+    expect(updated?.note).toBe('First thought');
+    expect(updated?.color).toBe('green');
+    expect(updated?.editedAt).toBeDefined();
+  });
+
+  it('should hide soft-deleted highlights from the article list', async () => {
+    const kept = await repository.add({ articleUrl: 'https://example.com/article', text: 'Kept' });
+    const removed = await repository.add({ articleUrl: 'https://example.com/article', text: 'Removed' });
+    await repository.add({ articleUrl: 'https://example.com/other', text: 'Elsewhere' });
+
+    await repository.delete(removed.id);
+
+    const visible = await repository.getByArticle('https://example.com/article');
+    expect(visible.map(h => h.id)).toEqual([kept.id]);
+    expect((await repository.getById(removed.id))?.deletedAt).toBeDefined();
+  });
+
+  it('should store remote highlights without queueing them', async () => {
+    await repository.bulkPut([{
+      id: 'remote-1',
+      articleUrl: 'https://example.com/article',
+      text: 'From another device',
+      color: 'blue',
+      createdAt: new Date().toISOString(),
+      syncStatus: 'synced',
+    }]);
+
+    expect(await repository.getByArticle('https://example.com/article')).toHaveLength(1);
+    expect(await repository.getPendingSyncOperations()).toHaveLength(0);
+    expect(await repository.getPendingCount()).toBe(0);
+  });
+});
@@ -0,0 +1,164 @@
+import { db, HighlightRecord, HighlightSyncOperation } from '../../lib/db.js';
+import { DEFAULT_HIGHLIGHT_COLOR, HighlightColor } from '../articles/types.js';
+import { notifyLocalChange } from '../../lib/local-changes.js';
+
+export interface NewHighlight {
+  articleUrl: string;
+  text: string;
+  context?: string;
+  note?: string;
+  color?: HighlightColor;
+}
+
+export type HighlightUpdates = Partial<Pick<HighlightRecord, 'note' | 'color'>>;
+
+export class HighlightRepository {
+  // Visible highlights of an article, in the order they were made
+  async getByArticle(articleUrl: string): Promise<HighlightRecord[]> {
+    const highlights = await db.highlights
+      .where('articleUrl')
+      .equals(articleUrl)
+      .filter(highlight => !highlight.deletedAt)
+      .toArray();
+    return highlights.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  // Every highlight of the list, including soft-deleted ones
+  async getAll(): Promise<HighlightRecord[]> {
+    return await db.highlights.toArray();
+  }
+
+  async getById(id: string): Promise<HighlightRecord | undefined> {
+    return await db.highlights.get(id);
+  }
+
+  async add(input: NewHighlight): Promise<HighlightRecord> {
+    const highlight: HighlightRecord = {
+      id: crypto.randomUUID(),
+      articleUrl: input.articleUrl,
+      text: input.text,
+      context: input.context,
+      note: input.note,
+      color: input.color ?? DEFAULT_HIGHLIGHT_COLOR,
+      createdAt: new Date().toISOString(),
+      syncStatus: 'pending'
+    };
+
+    await this.saveAndQueue(highlight);
+    notifyLocalChange();
+    return highlight;
+  }
+
+  async update(id: string, updates: HighlightUpdates): Promise<void> {
+    const highlight = await this.getById(id);
+    if (!highlight) throw new Error('Highlight not found');
+
+    await this.saveAndQueue({
+      ...highlight,
+      ...updates,
+      editedAt: new Date().toISOString(),
+      syncStatus: 'pending'
+    });
+    notifyLocalChange();
+  }
+
+  // Soft delete so the deletion reaches other devices through the sheet
+  async delete(id: string): Promise<void> {
+    const highlight = await this.getById(id);
+    if (!highlight) throw new Error('Highlight not found');
+
+    const now = new Date().toISOString();
+    await this.saveAndQueue({
+      ...highlight,
+      deletedAt: now,
+      editedAt: now,
+      syncStatus: 'pending'
+    });
+    notifyLocalChange();
+  }
+
+  // Store merge results that still need to reach the remote side
+  async saveMerged(highlights: HighlightRecord[]): Promise<void> {
+    for (const highlight of highlights) {
+      await this.saveAndQueue({ ...highlight, syncStatus: 'pending' });
+    }
+  }
+
+  // Bulk write remote versions without queuing
+  async bulkPut(highlights: HighlightRecord[]): Promise<void> {
+    await db.highlights.bulkPut(highlights);
+  }
+
+  async markAsSynced(id: string): Promise<void> {
+    const highlight = await this.getById(id);
+    if (!highlight) return;
+    await db.highlights.put({ ...highlight, syncStatus: 'synced' });
+  }
+
+  private async saveAndQueue(highlight: HighlightRecord): Promise<void> {
+    await db.transaction('rw', [db.highlights, db.highlightSyncQueue], async () => {
+      await db.highlights.put(highlight);
+
+      // The queue sends the latest local record, so one entry per highlight is enough
+      const queued = await db.highlightSyncQueue.where('highlightId').equals(highlight.id).count();
+      if (queued === 0) {
+        await db.highlightSyncQueue.add({
+          id: crypto.randomUUID(),
+          highlightId: highlight.id,
+          articleUrl: highlight.articleUrl,
+          timestamp: Date.now(),
+          retryCount: 0
+        });
+      }
+    });
+  }
+
+  // Sync queue operations
+  async getPendingSyncOperations(): Promise<HighlightSyncOperation[]> {
+    return await db.highlightSyncQueue
+      .orderBy('timestamp')
+      .toArray();
+  }
+
+  async removeSyncOperation(id: string): Promise<void> {
+    await db.highlightSyncQueue.delete(id);
+  }
+
+  async scheduleSyncRetry(id: string, error: string, nextRetryAt: number): Promise<void> {
+    const operation = await db.highlightSyncQueue.get(id);
+    if (operation) {
+      await db.highlightSyncQueue.put({
+        ...operation,
+        retryCount: operation.retryCount + 1,
+        nextRetryAt,
+        lastError: error
+      });
+    }
+  }
+
+  async moveToDeadLetter(operation: HighlightSyncOperation, error: string): Promise<void> {
+    await db.transaction('rw', [db.highlightSyncQueue, db.deadLetters], async () => {
+      await db.highlightSyncQueue.delete(operation.id);
+      await db.deadLetters.put({
+        id: operation.id,
+        kind: 'highlight',
+        operation: { ...operation, retryCount: operation.retryCount + 1, nextRetryAt: undefined, lastError: error },
+        error,
+        failedAt: Date.now()
+      });
+    });
+  }
+
+  async clearSyncQueue(): Promise<void> {
+    await db.highlightSyncQueue.clear();
+  }
+
+  async getPendingCount(): Promise<number> {
+    return await db.highlights
+      .where('syncStatus')
+      .equals('pending')
+      .count();
+  }
+}
+
+export const highlightRepository = new HighlightRepository();
@@ -0,0 +1,80 @@
+import { useSyncExternalStore } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { ExistingSpreadsheet } from '@readlater/google-sheets-sync';
+import { syncService } from '@/features/sync/sync-service';
+import { listService } from './list-service';
+
+export function useReadingLists(enabled: boolean) {
+  const state = useSyncExternalStore(
+    listener => listService.subscribe(listener),
+    () => listService.getState()
+  );
+
+  // Pick up lists created or removed on other devices
+  const refresh = useQuery({
+    queryKey: ['lists'],
+    queryFn: () => listService.refreshLists(),
+    enabled,
+    staleTime: 5 * 60 * 1000,
+    retry: false,
+  });
+
+  return {
+    lists: state.lists,
+    activeListId: state.activeListId,
+    activeList: state.lists.find(list => list.id === state.activeListId),
+    isRefreshing: refresh.isFetching,
+  };
+}
+
+// Everything cached by query key belongs to the previous list
+function useInvalidateListData() {
+  const queryClient = useQueryClient();
+
+  return async () => {
+    await queryClient.invalidateQueries({ queryKey: ['articles'] });
+    await queryClient.invalidateQueries({ queryKey: ['highlights'] });
+    await queryClient.invalidateQueries({ queryKey: ['content'] });
+    await queryClient.invalidateQueries({ queryKey: ['deadLetters'] });
+    await queryClient.invalidateQueries({ queryKey: ['conflicts'] });
+  };
+}
+
+export function useSwitchList() {
+  const invalidateListData = useInvalidateListData();
+
+  return useMutation({
+    mutationFn: (id: string) => listService.switchList(id),
+    onSuccess: async () => {
+      await invalidateListData();
+      // Nothing is stored locally for a list that was never opened here
+      if (syncService.getState().status === 'idle') {
+        syncService.syncNow().then(result => {
+          if (result.success) invalidateListData();
+        });
+      }
+    },
+  });
+}
+
+export function useCreateList() {
+  return useMutation({
+    mutationFn: ({ name, existing }: { name: string; existing?: ExistingSpreadsheet }) =>
+      listService.createList(name, existing),
+  });
+}
+
+export function useRenameList() {
+  return useMutation({
+    mutationFn: ({ id, name }: { id: string; name: string }) => listService.renameList(id, name),
+  });
+}
+
+export function useRemoveList() {
+  const invalidateListData = useInvalidateListData();
+
+  return useMutation({
+    mutationFn: (id: string) => listService.removeList(id),
+    onSuccess: invalidateListData,
+  });
+}
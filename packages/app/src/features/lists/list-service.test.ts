@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { DEFAULT_LIST_ID } from '@readlater/core';
+import type { ReadingList } from '@readlater/core';
+import { ListService, parseSpreadsheetId } from './list-service';
+import { db, databaseNameForList, openListDatabase } from '@/lib/db';
+import { getActiveListId } from '@/lib/active-list';
+import type { SyncState } from '@/features/sync/sync-service';
+
+const DEFAULT_LIST: ReadingList = { id: DEFAULT_LIST_ID, name: 'My List', spreadsheetId: 'sheet-default' };
+const TEAM_LIST: ReadingList = { id: 'team', name: 'Team reading', spreadsheetId: 'sheet-team' };
+
+describe('ListService', () => {
+  let store: {
+    getLists: ReturnType<typeof vi.fn>;
+    createList: ReturnType<typeof vi.fn>;
+    renameList: ReturnType<typeof vi.fn>;
+    removeList: ReturnType<typeof vi.fn>;
+  };
+  let syncState: SyncState;
+  let sync: { getState: () => SyncState; handleListChanged: ReturnType<typeof vi.fn> };
+  let service: ListService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    openListDatabase(DEFAULT_LIST_ID);
+
+    store = {
+      getLists: vi.fn().mockResolvedValue([DEFAULT_LIST, TEAM_LIST]),
+      createList: vi.fn().mockResolvedValue(TEAM_LIST),
+      renameList: vi.fn().mockResolvedValue(undefined),
+      removeList: vi.fn().mockResolvedValue(undefined),
+    };
+    syncState = { status: 'idle', pendingCount: 0 };
+    sync = { getState: () => syncState, handleListChanged: vi.fn().mockResolvedValue(undefined) };
+    service = new ListService(() => store, sync);
+  });
+
+  it('should start with the default list before any lists are loaded', () => {
+    const state = service.getState();
+
+    expect(state.activeListId).toBe(DEFAULT_LIST_ID);
+    expect(state.lists.map(list => list.id)).toEqual([DEFAULT_LIST_ID]);
+  });
+
+  it('should cache refreshed lists for the next start', async () => {
+    await service.refreshLists();
+
+    const restarted = new ListService(() => null, sync);
+    expect(restarted.getState().lists).toEqual([DEFAULT_LIST, TEAM_LIST]);
+  });
+
+  it('should open the list database and notify when switching', async () => {
+    const listener = vi.fn();
+    service.subscribe(listener);
+    await service.refreshLists();
+
+    await service.switchList(TEAM_LIST.id);
+
+    expect(db.name).toBe(databaseNameForList(TEAM_LIST.id));
+    expect(getActiveListId()).toBe(TEAM_LIST.id);
+    expect(service.getState().activeListId).toBe(TEAM_LIST.id);
+    expect(sync.handleListChanged).toHaveBeenCalled();
+    expect(listener).toHaveBeenCalled();
+  });
+
+  it('should keep articles of different lists apart', async () => {
+    await db.articles.put({ url: 'https://example.com/personal', title: 'Personal' } as never);
+    await service.switchList(TEAM_LIST.id);
+
+    expect(await db.articles.get('https://example.com/personal')).toBeUndefined();
+
+    await service.switchList(DEFAULT_LIST_ID);
+    expect(await db.articles.get('https://example.com/personal')).toBeDefined();
+  });
+
+  it('should refuse to switch while a sync is running', async () => {
+    syncState = { status: 'syncing', pendingCount: 0 };
+
+    await expect(service.switchList(TEAM_LIST.id)).rejects.toThrow('sync is running');
+    expect(service.getState().activeListId).toBe(DEFAULT_LIST_ID);
+  });
+
+  it('should fall back to the default list when the active one was removed elsewhere', async () => {
+    await service.refreshLists();
+    await service.switchList(TEAM_LIST.id);
+    store.getLists.mockResolvedValue([DEFAULT_LIST]);
+
+    await service.refreshLists();
+
+    expect(service.getState().activeListId).toBe(DEFAULT_LIST_ID);
+    expect(db.name).toBe(databaseNameForList(DEFAULT_LIST_ID));
+  });
+
+  it('should switch away from a list before removing it', async () => {
+    await service.refreshLists();
+    await service.switchList(TEAM_LIST.id);
+
+    await service.removeList(TEAM_LIST.id);
+
+    expect(store.removeList).toHaveBeenCalledWith(TEAM_LIST.id);
+    expect(service.getState().activeListId).toBe(DEFAULT_LIST_ID);
+    expect(service.getState().lists.map(list => list.id)).toEqual([DEFAULT_LIST_ID]);
+  });
+
+  it('should create a list in a tab of an existing spreadsheet from its link', async () => {
+    const spreadsheetId = parseSpreadsheetId('https://docs.google.com/spreadsheets/d/1AbC-dEf_123/edit#gid=0');
+
+    await service.createList(' Team reading ', { spreadsheetId: spreadsheetId!, sheetTitle: 'Links' });
+
+    expect(store.createList).toHaveBeenCalledWith('Team reading', { spreadsheetId: '1AbC-dEf_123', sheetTitle: 'Links' });
+    expect(service.getState().lists.map(list => list.id)).toContain(TEAM_LIST.id);
+    expect(parseSpreadsheetId('not a spreadsheet')).toBeNull();
+  });
+
+  it('should require sign-in to manage lists', async () => {
+    const signedOut = new ListService(() => null, sync);
+
+    await expect(signedOut.createList('Team reading')).rejects.toThrow('Sign in');
+  });
+});
@@ -0,0 +1,141 @@
+import { DEFAULT_LIST_ID, DEFAULT_LIST_NAME } from '@readlater/core';
+import type { ReadingList } from '@readlater/core';
+import type { ExistingSpreadsheet, GoogleSheetsSyncEngine } from '@readlater/google-sheets-sync';
+import { getActiveListId, setActiveListId } from '@/lib/active-list';
+import { accountStorageKey } from '@/lib/account';
+import { openListDatabase, deleteListDatabase } from '@/lib/db';
+import { getSyncEngineSafely } from '@/features/sync/google-sheets';
+import { syncService, SyncService } from '@/features/sync/sync-service';
+
+const LISTS_CACHE_KEY = 'readlater_lists';
+
+type ListStore = Pick<GoogleSheetsSyncEngine, 'getLists' | 'createList' | 'renameList' | 'removeList'>;
+type ListSync = Pick<SyncService, 'getState' | 'handleListChanged'>;
+
+/** Takes a spreadsheet's ID or a link to it, as copied from the browser's address bar. */
+export function parseSpreadsheetId(input: string): string | null {
+  const trimmed = input.trim();
+  const fromUrl = trimmed.match(/\/spreadsheets\/d\/([\w-]+)/);
+  if (fromUrl) return fromUrl[1];
+  return /^[\w-]{20,}$/.test(trimmed) ? trimmed : null;
+}
+
+export interface ListsState {
+  lists: ReadingList[];
+  activeListId: string;
+}
+
+/**
+ * Reading lists and which one the app shows.
+ *
+ * Lists live in the appData config next to the spreadsheet ID; a copy is
+ * cached in localStorage (per account) so the switcher works offline and before
+ * sign-in. Each list keeps its articles in a separate local database.
+ */
+export class ListService {
+  private state: ListsState;
+  private listeners: (() => void)[] = [];
+
+  constructor(
+    private readonly getListStore: () => ListStore | null = getSyncEngineSafely,
+    private readonly sync: ListSync = syncService
+  ) {
+    this.state = { lists: this.loadCachedLists(), activeListId: getActiveListId() };
+  }
+
+  // Stable between changes, as useSyncExternalStore requires
+  getState(): ListsState {
+    return this.state;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  /** Reloads the lists from Drive; the cached lists stay in place if that fails. */
+  async refreshLists(): Promise<ReadingList[]> {
+    const lists = await this.requireListStore().getLists();
+    this.saveLists(lists);
+
+    // The active list was removed on another device
+    if (!lists.some(list => list.id === this.state.activeListId)) {
+      await this.switchList(DEFAULT_LIST_ID);
+    }
+    return lists;
+  }
+
+  /** Creates a list with a spreadsheet of its own, or in a tab of an existing one. */
+  async createList(name: string, existing?: ExistingSpreadsheet): Promise<ReadingList> {
+    const list = await this.requireListStore().createList(name.trim(), existing);
+    this.saveLists([...this.state.lists, list]);
+    return list;
+  }
+
+  async renameList(id: string, name: string): Promise<void> {
+    await this.requireListStore().renameList(id, name.trim());
+    this.saveLists(this.state.lists.map(list => list.id === id ? { ...list, name: name.trim() } : list));
+  }
+
+  /** Removes the list and its local data. The spreadsheet itself stays in Drive. */
+  async removeList(id: string): Promise<void> {
+    await this.requireListStore().removeList(id);
+    if (this.state.activeListId === id) {
+      await this.switchList(DEFAULT_LIST_ID);
+    }
+    this.saveLists(this.state.lists.filter(list => list.id !== id));
+    await deleteListDatabase(id);
+  }
+
+  /** Picks up the cached lists and active list of the account switched to. */
+  reload(): void {
+    this.setState({ lists: this.loadCachedLists(), activeListId: getActiveListId() });
+  }
+
+  async switchList(id: string): Promise<void> {
+    if (id === this.state.activeListId) return;
+    if (this.sync.getState().status === 'syncing') {
+      throw new Error('Cannot switch lists while a sync is running');
+    }
+
+    openListDatabase(id);
+    setActiveListId(id);
+    this.setState({ activeListId: id });
+    await this.sync.handleListChanged();
+  }
+
+  private requireListStore(): ListStore {
+    const store = this.getListStore();
+    if (!store) {
+      throw new Error('Sign in to Google to manage reading lists');
+    }
+    return store;
+  }
+
+  private setState(updates: Partial<ListsState>): void {
+    this.state = { ...this.state, ...updates };
+    this.listeners.forEach(listener => listener());
+  }
+
+  private saveLists(lists: ReadingList[]): void {
+    localStorage.setItem(accountStorageKey(LISTS_CACHE_KEY), JSON.stringify(lists));
+    this.setState({ lists });
+  }
+
+  private loadCachedLists(): ReadingList[] {
+    try {
+      const cached = JSON.parse(localStorage.getItem(accountStorageKey(LISTS_CACHE_KEY)) || '[]') as ReadingList[];
+      if (cached.some(list => list.id === DEFAULT_LIST_ID)) return cached;
+    } catch (error) {
+      console.warn('Failed to read cached reading lists:', error);
+    }
+    return [{ id: DEFAULT_LIST_ID, name: DEFAULT_LIST_NAME, spreadsheetId: '' }];
+  }
+}
+
+export const listService = new ListService();
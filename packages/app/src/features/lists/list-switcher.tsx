@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { DEFAULT_LIST_ID } from '@readlater/core';
+import type { ReadingList } from '@readlater/core';
+import { List, MoreHorizontal, Pencil, Plus, Trash2 } from 'lucide-react';
+import {
+  SidebarGroup,
+  SidebarGroupAction,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from '@/components/ui/sidebar';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useSync } from '@/features/sync/use-sync';
+import { useCreateList, useReadingLists, useRemoveList, useRenameList, useSwitchList } from './hooks';
+import { ListNameDialog } from './list-name-dialog';
+import { NewListDialog } from './new-list-dialog';
+
+interface ListSwitcherProps {
+  onSwitch?: () => void;
+}
+
+/** Sidebar group for switching between reading lists and managing them. */
+export function ListSwitcher({ onSwitch }: ListSwitcherProps) {
+  const { syncState, isSyncing } = useSync();
+  const isSignedIn = syncState.status === 'idle' || syncState.status === 'syncing';
+  const { lists, activeListId } = useReadingLists(isSignedIn);
+
+  const switchList = useSwitchList();
+  const createList = useCreateList();
+  const renameList = useRenameList();
+  const removeList = useRemoveList();
+
+  const [creating, setCreating] = useState(false);
+  const [renaming, setRenaming] = useState<ReadingList | null>(null);
+
+  const handleSwitch = (id: string) => {
+    switchList.mutate(id, { onSuccess: onSwitch });
+  };
+
+  const handleRemove = (list: ReadingList) => {
+    if (window.confirm(`Remove "${list.name}"? Its spreadsheet stays in your Google Drive.`)) {
+      removeList.mutate(list.id);
+    }
+  };
+
+  return (
+    <SidebarGroup>
+      <SidebarGroupLabel>Lists</SidebarGroupLabel>
+      {isSignedIn && (
+        <SidebarGroupAction title="New list" onClick={() => setCreating(true)}>
+          <Plus />
+          <span className="sr-only">New list</span>
+        </SidebarGroupAction>
+      )}
+      <SidebarGroupContent>
+        <SidebarMenu>
+          {lists.map(list => (
+            <SidebarMenuItem key={list.id}>
+              <SidebarMenuButton
+                isActive={list.id === activeListId}
+                disabled={isSyncing || switchList.isPending}
+                onClick={() => handleSwitch(list.id)}
+              >
+                <List />
+                <span>{list.name}</span>
+              </SidebarMenuButton>
+              {isSignedIn && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <SidebarMenuAction showOnHover>
+                      <MoreHorizontal />
+                      <span className="sr-only">List options</span>
+                    </SidebarMenuAction>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent side="right" align="start">
+                    <DropdownMenuItem onClick={() => setRenaming(list)}>
+                      <Pencil />
+                      Rename
+                    </DropdownMenuItem>
+                    {list.id !== DEFAULT_LIST_ID && (
+                      <DropdownMenuItem onClick={() => handleRemove(list)} disabled={isSyncing}>
+                        <Trash2 />
+                        Remove
+                      </DropdownMenuItem>
+                    )}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+            </SidebarMenuItem>
+          ))}
+        </SidebarMenu>
+        {switchList.error && (
+          <p className="px-2 py-1 text-xs text-destructive">{switchList.error.message}</p>
+        )}
+      </SidebarGroupContent>
+
+      <NewListDialog
+        open={creating}
+        onOpenChange={setCreating}
+        onSubmit={async (name, existing) => {
+          const list = await createList.mutateAsync({ name, existing });
+          handleSwitch(list.id);
+        }}
+      />
+      <ListNameDialog
+        key={renaming?.id}
+        open={!!renaming}
+        onOpenChange={(open) => !open && setRenaming(null)}
+        title="Rename list"
+        submitLabel="Rename"
+        initialName={renaming?.name}
+        onSubmit={(name) => renameList.mutateAsync({ id: renaming!.id, name })}
+      />
+    </SidebarGroup>
+  );
+}
@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import type { ExistingSpreadsheet } from '@readlater/google-sheets-sync';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent } from '@/components/ui/dialog';
+import { parseSpreadsheetId } from './list-service';
+
+interface NewListDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (name: string, existing?: ExistingSpreadsheet) => Promise<unknown>;
+}
+
+/** Names a new list, which gets its own spreadsheet or a tab in one the user already has. */
+export function NewListDialog({ open, onOpenChange, onSubmit }: NewListDialogProps) {
+  const [name, setName] = useState('');
+  const [useExisting, setUseExisting] = useState(false);
+  const [spreadsheet, setSpreadsheet] = useState('');
+  const [sheetTitle, setSheetTitle] = useState('ReadLater');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) {
+      setName('');
+      setUseExisting(false);
+      setSpreadsheet('');
+      setSheetTitle('ReadLater');
+    }
+    setError(null);
+    onOpenChange(isOpen);
+  };
+
+  const canSubmit = !!name.trim() && (!useExisting || (!!spreadsheet.trim() && !!sheetTitle.trim()));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    let existing: ExistingSpreadsheet | undefined;
+    if (useExisting) {
+      const spreadsheetId = parseSpreadsheetId(spreadsheet);
+      if (!spreadsheetId) {
+        setError('Paste the link to a Google Sheets spreadsheet');
+        return;
+      }
+      existing = { spreadsheetId, sheetTitle: sheetTitle.trim() };
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await onSubmit(name, existing);
+      handleOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-sm">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <h2 className="text-lg font-semibold text-foreground">New list</h2>
+          <Input
+            autoFocus
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="List name"
+            maxLength={80}
+          />
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <input type="checkbox" checked={useExisting} onChange={(e) => setUseExisting(e.target.checked)} />
+            Keep it in a spreadsheet I already have
+          </label>
+          {useExisting && (
+            <div className="space-y-2">
+              <Input
+                value={spreadsheet}
+                onChange={(e) => setSpreadsheet(e.target.value)}
+                placeholder="Spreadsheet link"
+              />
+              <Input
+                value={sheetTitle}
+                onChange={(e) => setSheetTitle(e.target.value)}
+                placeholder="Tab name"
+                maxLength={100}
+              />
+              <p className="text-xs text-muted-foreground">
+                Articles go in this tab, which is added if the spreadsheet doesn't have it. Other tabs are left alone.
+              </p>
+            </div>
+          )}
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <div className="flex gap-2 justify-end">
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving || !canSubmit}>
+              {saving ? 'Saving...' : 'Create'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
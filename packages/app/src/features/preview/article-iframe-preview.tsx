@@ -3,9 +3,11 @@ import { ExternalLink } from 'lucide-react';
 interface ArticleIframePreviewProps {
   url: string;
   title: string;
+  /** Offered in the fallback bar when an offline copy is available */
+  onSwitchToReader?: () => void;
 }
 
-export function ArticleIframePreview({ url, title }: ArticleIframePreviewProps) {
+export function ArticleIframePreview({ url, title, onSwitchToReader }: ArticleIframePreviewProps) {
   return (
     <div className="flex flex-1 flex-col min-h-0">
       <iframe
@@ -25,6 +27,18 @@ export function ArticleIframePreview({ url, title }: ArticleIframePreviewProps)
           Open in new tab
           <ExternalLink className="w-3 h-3" />
         </a>
+        {onSwitchToReader && (
+          <>
+            <span>or</span>
+            <button
+              type="button"
+              onClick={onSwitchToReader}
+              className="text-foreground hover:underline"
+            >
+              switch to reader
+            </button>
+          </>
+        )}
       </div>
     </div>
   );
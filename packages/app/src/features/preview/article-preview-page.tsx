@@ -4,12 +4,18 @@ import { Dialog, DialogContent } from '@/components/ui/dialog';
 import { YouTubePlayer } from '@/components/youtube-player';
 import { useArticle, useUpdateArticle, useDeleteArticle } from '@/features/articles/hooks';
 import { ArticleEditForm, ArticleFormData } from '@/features/articles/article-edit-form';
-import { ArrowLeft, Edit, Star, Archive, ArchiveRestore, Trash2, ExternalLink, X } from 'lucide-react';
+import { ArrowLeft, Edit, Star, Archive, ArchiveRestore, Trash2, ExternalLink, X, Highlighter, BookOpen, WifiOff } from 'lucide-react';
 import { useAutoSaveNotes } from '@/hooks/use-auto-save-notes';
 import { extractYouTubeVideoId } from '@/lib/youtube';
 import { decodeArticleUrl } from '@/lib/url-encode';
 import { useParams, useNavigate } from 'react-router';
 import { ArticleIframePreview } from './article-iframe-preview';
+import { HighlightsPanel } from '@/features/highlights/highlights-panel';
+import { ReaderView } from '@/features/reader/reader-view';
+import { useArticleContent } from '@/features/reader/hooks';
+import { useOnlineStatus } from '@/hooks/use-online-status';
+
+type ViewMode = 'reader' | 'web';
 
 export function ArticlePreviewPage() {
   const { encodedUrl } = useParams<{ encodedUrl: string }>();
@@ -19,9 +25,17 @@ export function ArticlePreviewPage() {
   const updateArticleMutation = useUpdateArticle();
   const deleteArticleMutation = useDeleteArticle();
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  const [isHighlightsOpen, setIsHighlightsOpen] = useState(false);
+  const [viewMode, setViewMode] = useState<ViewMode | null>(null);
+  const isOnline = useOnlineStatus();
 
   const videoId = article ? extractYouTubeVideoId(article.url) : null;
   const isYouTube = !!videoId;
+  const { data: content } = useArticleContent(isYouTube ? '' : articleUrl);
+
+  // Reader is the default whenever the page itself can't be shown
+  const preferReader = !isOnline || content?.embeddable === false;
+  const showReader = !!content && (viewMode ? viewMode === 'reader' : preferReader);
 
   const handleSaveNotes = useCallback((notesValue: string) => {
     updateArticleMutation.mutate({
@@ -121,6 +135,28 @@ export function ArticlePreviewPage() {
           >
             <Edit className="w-4 h-4" />
           </Button>
+          {content && (
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => setViewMode(showReader ? 'web' : 'reader')}
+              className={`p-1 h-8 w-8 ${showReader ? 'text-foreground' : 'text-muted-foreground hover:text-foreground'}`}
+              title={showReader ? 'Show web page' : 'Reader view'}
+            >
+              <BookOpen className="w-4 h-4" />
+            </Button>
+          )}
+          {!isYouTube && (
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => setIsHighlightsOpen(!isHighlightsOpen)}
+              className={`p-1 h-8 w-8 ${isHighlightsOpen ? 'text-foreground' : 'text-muted-foreground hover:text-foreground'}`}
+              title={isHighlightsOpen ? 'Hide highlights' : 'Show highlights'}
+            >
+              <Highlighter className="w-4 h-4" />
+            </Button>
+          )}
           <Button
             size="sm"
             variant="ghost"
@@ -182,10 +218,32 @@ export function ArticlePreviewPage() {
                 className="w-full min-h-[200px] px-3 py-2 border border-input rounded-md focus:outline-none focus:ring-2 focus:ring-ring bg-background text-foreground resize-y"
               />
             </div>
+
+            <HighlightsPanel articleUrl={article.url} />
           </div>
         </div>
       ) : (
-        <ArticleIframePreview url={article.url} title={article.title} />
+        <>
+          {showReader && content ? (
+            <ReaderView content={content} />
+          ) : isOnline ? (
+            <ArticleIframePreview
+              url={article.url}
+              title={article.title}
+              onSwitchToReader={content ? () => setViewMode('reader') : undefined}
+            />
+          ) : (
+            <div className="flex flex-1 flex-col items-center justify-center gap-2 p-4 text-center text-muted-foreground">
+              <WifiOff className="w-6 h-6" />
+              <p className="text-sm">You're offline and this article hasn't been saved for offline reading yet.</p>
+            </div>
+          )}
+          {isHighlightsOpen && (
+            <div className="shrink-0 max-h-[40vh] overflow-auto border-t border-border p-4">
+              <HighlightsPanel articleUrl={article.url} />
+            </div>
+          )}
+        </>
       )}
 
       {/* Edit Dialog */}
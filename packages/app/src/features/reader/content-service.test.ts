@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { ArticleContent } from '@readlater/core';
+import { ContentService } from './content-service';
+import { ContentRepository } from './repository';
+import { db, ArticleContentRecord } from '../../lib/db';
+
+const ARTICLE_URL = 'https://example.com/posts/article';
+
+function createCapture(overrides: Partial<ArticleContent> = {}): ArticleContent {
+  return {
+    url: ARTICLE_URL,
+    title: 'Captured Article',
+    byline: 'Jane Writer',
+    html: '<p onclick="alert(1)">Body</p><img src="/images/pic.png" alt="Pic"><script>alert(1)</script>',
+    text: 'Body',
+    wordCount: 1,
+    readingTime: 1,
+    source: 'extension',
+    capturedAt: '2025-06-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('ContentService', () => {
+  let repository: ContentRepository;
+  let store: { getArticleContent: ReturnType<typeof vi.fn> };
+  let settings: { backendEnabled: boolean; backendUrl: string };
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let service: ContentService;
+
+  beforeEach(async () => {
+    await db.content.clear();
+    repository = new ContentRepository();
+    store = { getArticleContent: vi.fn().mockResolvedValue(null) };
+    settings = { backendEnabled: false, backendUrl: 'http://localhost:4080' };
+    fetchMock = vi.fn().mockRejectedValue(new Error('Network unavailable'));
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    service = new ContentService(repository, () => store, () => settings);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should return the cached copy without asking any source', async () => {
+    const cached: ArticleContentRecord = {
+      url: ARTICLE_URL,
+      title: 'Cached',
+      html: '<p>Cached body</p>',
+      images: {},
+      source: 'extension',
+      cachedAt: Date.now(),
+    };
+    await repository.save(cached);
+
+    const content = await service.getContent(ARTICLE_URL);
+
+    expect(content?.title).toBe('Cached');
+    expect(store.getArticleContent).not.toHaveBeenCalled();
+  });
+
+  it('should sanitize and cache the extension capture', async () => {
+    store.getArticleContent.mockResolvedValue(createCapture());
+
+    const content = await service.getContent(ARTICLE_URL);
+
+    expect(content?.html).toBe('<p>Body</p><img src="https://example.com/images/pic.png" alt="Pic">');
+    expect(content?.byline).toBe('Jane Writer');
+    expect(content?.source).toBe('extension');
+    expect((await repository.get(ARTICLE_URL))?.title).toBe('Captured Article');
+  });
+
+  it('should keep images that could not be downloaded as remote links', async () => {
+    store.getArticleContent.mockResolvedValue(createCapture());
+
+    const content = await service.getContent(ARTICLE_URL);
+
+    expect(fetchMock).toHaveBeenCalledWith('https://example.com/images/pic.png');
+    expect(content?.images).toEqual({});
+  });
+
+  it('should fall back to the backend when enabled and nothing was captured', async () => {
+    settings.backendEnabled = true;
+    fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({
+      url: ARTICLE_URL,
+      title: 'Extracted Article',
+      html: '<p>Extracted body</p>',
+      text: 'Extracted body',
+      capturedAt: '2025-06-01T00:00:00.000Z',
+      embeddable: false,
+    })));
+
+    const content = await service.getContent(ARTICLE_URL);
+
+    expect(fetchMock).toHaveBeenCalledWith('http://localhost:4080/api/content', expect.objectContaining({ method: 'POST' }));
+    expect(content?.source).toBe('backend');
+    expect(content?.embeddable).toBe(false);
+  });
+
+  it('should not use the backend when it is disabled', async () => {
+    const content = await service.getContent(ARTICLE_URL);
+
+    expect(content).toBeNull();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should not fetch anything while offline', async () => {
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    store.getArticleContent.mockResolvedValue(createCapture());
+
+    expect(await service.getContent(ARTICLE_URL)).toBeNull();
+    expect(store.getArticleContent).not.toHaveBeenCalled();
+  });
+
+  it('should share one download between concurrent requests', async () => {
+    store.getArticleContent.mockResolvedValue(createCapture());
+
+    const [first, second] = await Promise.all([
+      service.getContent(ARTICLE_URL),
+      service.getContent(ARTICLE_URL),
+    ]);
+
+    expect(first).toEqual(second);
+    expect(store.getArticleContent).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,140 @@
+import type { ArticleContent } from '@readlater/core';
+import type { GoogleSheetsSyncEngine } from '@readlater/google-sheets-sync';
+import type { ArticleContentRecord } from '@/lib/db';
+import { sanitizeHtml } from '@/lib/sanitize-html';
+import { getSyncEngineSafely } from '@/features/sync/google-sheets';
+import { loadSettings, AppSettings } from '@/features/settings/use-settings';
+import { ContentRepository, contentRepository } from './repository';
+
+const MAX_IMAGES = 30;
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+type ContentStore = Pick<GoogleSheetsSyncEngine, 'getArticleContent'>;
+type BackendSettings = Pick<AppSettings, 'backendEnabled' | 'backendUrl'>;
+
+/**
+ * Keeps readable copies of articles for the offline reader.
+ *
+ * Content comes from the extension's page capture (stored in Drive appData)
+ * and, when the backend is enabled, from its `/api/content` extractor.
+ * Everything is sanitized before it is cached, and images are downloaded
+ * so the reader works without a connection.
+ */
+export class ContentService {
+  private inFlight = new Map<string, Promise<ArticleContentRecord | null>>();
+
+  constructor(
+    private readonly repository: ContentRepository = contentRepository,
+    private readonly getContentStore: () => ContentStore | null = getSyncEngineSafely,
+    private readonly getSettings: () => BackendSettings = loadSettings
+  ) {}
+
+  /**
+   * Returns the cached copy, fetching and caching it first when online.
+   * Resolves to null when no source has content for the article.
+   */
+  async getContent(url: string): Promise<ArticleContentRecord | null> {
+    const cached = await this.repository.get(url);
+    if (cached) return cached;
+    return await this.fetchAndCache(url);
+  }
+
+  // Fire-and-forget caching when an article is saved; failures only get logged
+  prefetch(url: string): void {
+    this.getContent(url).catch(error => {
+      console.warn('Failed to cache article content:', error);
+    });
+  }
+
+  private fetchAndCache(url: string): Promise<ArticleContentRecord | null> {
+    if (!navigator.onLine) return Promise.resolve(null);
+
+    // Saving and opening an article can ask for the same content at once
+    const pending = this.inFlight.get(url);
+    if (pending) return pending;
+
+    const request = this.download(url).finally(() => this.inFlight.delete(url));
+    this.inFlight.set(url, request);
+    return request;
+  }
+
+  private async download(url: string): Promise<ArticleContentRecord | null> {
+    const content = (await this.fromExtensionCapture(url)) ?? (await this.fromBackend(url));
+    if (!content?.html) return null;
+
+    const html = sanitizeHtml(content.html, url);
+    const record: ArticleContentRecord = {
+      url,
+      title: content.title,
+      byline: content.byline,
+      html,
+      images: await this.downloadImages(html),
+      wordCount: content.wordCount,
+      readingTime: content.readingTime,
+      publishedAt: content.publishedAt,
+      embeddable: content.embeddable,
+      source: content.source,
+      cachedAt: Date.now()
+    };
+
+    await this.repository.save(record);
+    return record;
+  }
+
+  private async fromExtensionCapture(url: string): Promise<ArticleContent | null> {
+    const store = this.getContentStore();
+    if (!store) return null;
+
+    try {
+      return await store.getArticleContent(url);
+    } catch (error) {
+      // Not signed in or Drive unavailable; the backend may still have it
+      console.warn('Could not read captured content:', error);
+      return null;
+    }
+  }
+
+  private async fromBackend(url: string): Promise<ArticleContent | null> {
+    const { backendEnabled, backendUrl } = this.getSettings();
+    if (!backendEnabled || !backendUrl) return null;
+
+    try {
+      const res = await fetch(`${backendUrl}/api/content`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url }),
+      });
+      if (!res.ok) return null;
+
+      const data: Omit<ArticleContent, 'source'> = await res.json();
+      return { ...data, source: 'backend' };
+    } catch (error) {
+      console.warn('Backend content extraction failed:', error);
+      return null;
+    }
+  }
+
+  private async downloadImages(html: string): Promise<Record<string, Blob>> {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const sources = Array.from(new Set(
+      Array.from(doc.querySelectorAll('img'), img => img.getAttribute('src') || '').filter(Boolean)
+    )).slice(0, MAX_IMAGES);
+
+    const images: Record<string, Blob> = {};
+    await Promise.all(sources.map(async src => {
+      try {
+        const res = await fetch(src);
+        if (!res.ok) return;
+        const blob = await res.blob();
+        if (blob.type.startsWith('image/') && blob.size <= MAX_IMAGE_BYTES) {
+          images[src] = blob;
+        }
+      } catch {
+        // Hosts without CORS can't be downloaded; those images stay remote
+      }
+    }));
+    return images;
+  }
+}
+
+export const contentService = new ContentService();
@@ -0,0 +1,14 @@
+import { useQuery } from '@tanstack/react-query';
+import { contentService } from './content-service.js';
+
+export function useArticleContent(url: string) {
+  return useQuery({
+    queryKey: ['content', url],
+    queryFn: () => contentService.getContent(url),
+    enabled: !!url,
+    // Reads the local cache first, so it has to run while offline too
+    networkMode: 'always',
+    // Cached copies don't change; retry a miss the next time the article is opened
+    staleTime: (query) => (query.state.data ? Infinity : 0),
+  });
+}
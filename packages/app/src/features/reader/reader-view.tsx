@@ -0,0 +1,61 @@
+import { useEffect, useState } from 'react';
+import type { ArticleContentRecord } from '@/lib/db';
+
+interface ReaderViewProps {
+  content: ArticleContentRecord;
+}
+
+export function ReaderView({ content }: ReaderViewProps) {
+  const html = useOfflineImages(content);
+
+  const details = [
+    content.byline,
+    content.publishedAt && formatPublishedDate(content.publishedAt),
+    content.readingTime && `${content.readingTime} min read`,
+  ].filter(Boolean);
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <article className="max-w-2xl mx-auto px-4 py-8">
+        <header className="mb-6 space-y-2">
+          <h1 className="text-3xl font-bold leading-tight">{content.title}</h1>
+          {details.length > 0 && (
+            <p className="text-sm text-muted-foreground">{details.join(' · ')}</p>
+          )}
+        </header>
+        {/* Sanitized with sanitizeHtml before it was cached */}
+        <div className="prose" dangerouslySetInnerHTML={{ __html: html }} />
+      </article>
+    </div>
+  );
+}
+
+// Points images at the downloaded copies so they show without a connection
+function useOfflineImages(content: ArticleContentRecord): string {
+  const [html, setHtml] = useState(content.html);
+
+  useEffect(() => {
+    const objectUrls: string[] = [];
+    const doc = new DOMParser().parseFromString(content.html, 'text/html');
+
+    doc.querySelectorAll('img').forEach(img => {
+      const blob = content.images[img.getAttribute('src') || ''];
+      if (blob) {
+        const objectUrl = URL.createObjectURL(blob);
+        objectUrls.push(objectUrl);
+        img.setAttribute('src', objectUrl);
+      }
+      img.setAttribute('loading', 'lazy');
+    });
+    setHtml(doc.body.innerHTML);
+
+    return () => objectUrls.forEach(url => URL.revokeObjectURL(url));
+  }, [content]);
+
+  return html;
+}
+
+function formatPublishedDate(iso: string): string {
+  const date = new Date(iso);
+  return isNaN(date.getTime()) ? '' : date.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+}
@@ -0,0 +1,17 @@
+import { db, ArticleContentRecord } from '../../lib/db.js';
+
+export class ContentRepository {
+  async get(url: string): Promise<ArticleContentRecord | undefined> {
+    return await db.content.get(url);
+  }
+
+  async save(record: ArticleContentRecord): Promise<void> {
+    await db.content.put(record);
+  }
+
+  async delete(url: string): Promise<void> {
+    await db.content.delete(url);
+  }
+}
+
+export const contentRepository = new ContentRepository();
@@ -20,7 +20,8 @@ const defaultSettings: AppSettings = {
   backendUrl: 'http://localhost:4080',
 };
 
-function loadSettings(): AppSettings {
+/** Reads settings outside React (services, mutation callbacks). */
+export function loadSettings(): AppSettings {
   try {
     const stored = localStorage.getItem(STORAGE_KEY);
     if (stored) {
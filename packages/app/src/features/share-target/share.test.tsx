@@ -58,6 +58,9 @@ vi.mock('@/features/articles/hooks', () => ({
   useTagCounts: vi.fn(() => ({
     data: [],
   })),
+  useContributorCounts: vi.fn(() => ({
+    data: [],
+  })),
 }));
 
 // Mock the google-sheets module
@@ -68,6 +71,7 @@ vi.mock('@/features/sync/google-sheets', async (importOriginal) => {
     isAuthenticated: vi.fn(),
     redirectToAuth: vi.fn(),
     clearAuthToken: vi.fn(),
+    onTokenChange: vi.fn(() => () => {}),
   };
   return {
     ...actual,
@@ -19,6 +19,9 @@ export function createMockAuthProvider() {
     isAuthenticated: vi.fn().mockResolvedValue(true),
     authenticate: vi.fn().mockResolvedValue(undefined),
     clearAuthToken: vi.fn().mockResolvedValue(undefined),
+    getTokenExpiry: vi.fn().mockReturnValue(Date.now() + 60 * 60 * 1000),
+    renewToken: vi.fn().mockResolvedValue(false),
+    onTokenChange: vi.fn().mockReturnValue(() => {}),
   };
 }
 
@@ -1,5 +1,5 @@
 import { vi } from 'vitest';
-import type { ArticleData, SyncResult } from '@readlater/core';
+import type { ArticleData, Highlight, SyncResult } from '@readlater/core';
 
 /**
  * Creates a mock GoogleSheetsSyncEngine for testing.
@@ -21,6 +21,15 @@ export function createMockSyncEngine() {
 
     getArticles: vi.fn().mockResolvedValue([] as ArticleData[]),
 
+    getArticlesChangedSince: vi.fn().mockResolvedValue([] as ArticleData[]),
+
+    getArticlesByUrl: vi.fn().mockResolvedValue([] as ArticleData[]),
+
+    getRemoteRevision: vi.fn().mockResolvedValue({
+      version: '1',
+      modifiedTime: new Date(0).toISOString(),
+    }),
+
     saveArticles: vi.fn().mockResolvedValue([] as SyncResult[]),
 
     deleteArticle: vi.fn().mockResolvedValue({
@@ -35,8 +44,16 @@ export function createMockSyncEngine() {
 
     cleanupDeletedArticles: vi.fn().mockResolvedValue(0),
 
+    getUserEmail: vi.fn().mockResolvedValue('reader@example.com'),
+
     batchUpdateArticles: vi.fn().mockResolvedValue([] as SyncResult[]),
 
     batchDeleteArticles: vi.fn().mockResolvedValue([] as SyncResult[]),
+
+    getHighlights: vi.fn().mockResolvedValue([] as Highlight[]),
+
+    saveHighlights: vi.fn().mockResolvedValue([] as SyncResult[]),
+
+    getRateLimitRetryCount: vi.fn().mockReturnValue(0),
   };
 }
@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { SyncTimingConfig } from '@readlater/core';
+import { AutoSyncScheduler } from './auto-sync';
+import type { SyncState } from './sync-service';
+import { notifyLocalChange } from '@/lib/local-changes';
+import { setupFakeTimers } from '@/features/articles/__tests__/helpers/test-helpers';
+
+const TIMING: SyncTimingConfig = { debounceMs: 1_000, periodicIntervalMs: 60_000, maxRetries: 2 };
+
+describe('AutoSyncScheduler', () => {
+  let time: ReturnType<typeof setupFakeTimers>;
+  let state: SyncState;
+  let listeners: ((state: SyncState) => void)[];
+  let sync: {
+    syncNow: ReturnType<typeof vi.fn>;
+    getState: () => SyncState;
+    subscribe: (listener: (state: SyncState) => void) => () => void;
+  };
+  let enabled: boolean;
+  let onSynced: ReturnType<typeof vi.fn>;
+  let scheduler: AutoSyncScheduler;
+
+  const setState = (updates: Partial<SyncState>) => {
+    state = { ...state, ...updates };
+    listeners.forEach(listener => listener(state));
+  };
+
+  beforeEach(() => {
+    time = setupFakeTimers();
+    state = { status: 'idle', pendingCount: 0 };
+    listeners = [];
+    sync = {
+      syncNow: vi.fn(async () => {
+        setState({ status: 'idle', lastSyncTime: Date.now() });
+        return { success: true };
+      }),
+      getState: () => state,
+      subscribe: listener => {
+        listeners.push(listener);
+        return () => listeners.splice(listeners.indexOf(listener), 1);
+      },
+    };
+    enabled = true;
+    onSynced = vi.fn();
+    scheduler = new AutoSyncScheduler(sync, () => enabled, TIMING, onSynced);
+    scheduler.start();
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    time.cleanup();
+  });
+
+  const failNextSyncs = (count: number) => {
+    for (let i = 0; i < count; i++) {
+      sync.syncNow.mockImplementationOnce(async () => {
+        setState({ status: 'error', error: 'Network error' });
+        return { success: false, error: 'Network error' };
+      });
+    }
+  };
+
+  it('should sync once after a burst of local changes settles', async () => {
+    notifyLocalChange();
+    await vi.advanceTimersByTimeAsync(500);
+    notifyLocalChange();
+    await vi.advanceTimersByTimeAsync(999);
+    expect(sync.syncNow).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect(sync.syncNow).toHaveBeenCalledTimes(1);
+    expect(onSynced).toHaveBeenCalled();
+  });
+
+  it('should sync periodically while the app is open', async () => {
+    await vi.advanceTimersByTimeAsync(TIMING.periodicIntervalMs * 3);
+
+    expect(sync.syncNow).toHaveBeenCalledTimes(3);
+  });
+
+  it('should sync when the device comes back online', async () => {
+    window.dispatchEvent(new Event('online'));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(sync.syncNow).toHaveBeenCalledTimes(1);
+  });
+
+  it('should sync when the page becomes visible after a while without syncing', async () => {
+    setState({ lastSyncTime: Date.now() });
+    document.dispatchEvent(new Event('visibilitychange'));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(sync.syncNow).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(TIMING.debounceMs + 1);
+    document.dispatchEvent(new Event('visibilitychange'));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(sync.syncNow).toHaveBeenCalledTimes(1);
+  });
+
+  it('should sync once the sign-in check on load succeeds', async () => {
+    setState({ status: 'checking-auth' });
+    setState({ status: 'idle' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(sync.syncNow).toHaveBeenCalledTimes(1);
+  });
+
+  it('should back off exponentially after failures and give up after maxRetries', async () => {
+    failNextSyncs(3);
+    window.dispatchEvent(new Event('online'));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(sync.syncNow).toHaveBeenCalledTimes(1);
+
+    // First retry after debounceMs, second after twice that
+    await vi.advanceTimersByTimeAsync(TIMING.debounceMs);
+    expect(sync.syncNow).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(TIMING.debounceMs * 2 - 1);
+    expect(sync.syncNow).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(sync.syncNow).toHaveBeenCalledTimes(3);
+
+    // maxRetries reached: nothing more until the next trigger
+    await vi.advanceTimersByTimeAsync(TIMING.debounceMs * 8);
+    expect(sync.syncNow).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not let other triggers run while backing off', async () => {
+    failNextSyncs(1);
+    window.dispatchEvent(new Event('online'));
+    await vi.advanceTimersByTimeAsync(0);
+
+    notifyLocalChange();
+    await vi.advanceTimersByTimeAsync(TIMING.debounceMs - 1);
+    expect(sync.syncNow).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(sync.syncNow).toHaveBeenCalledTimes(2);
+  });
+
+  it('should sync again for changes made during a sync', async () => {
+    sync.syncNow.mockImplementationOnce(async () => {
+      notifyLocalChange();
+      return { success: true };
+    });
+
+    window.dispatchEvent(new Event('online'));
+    await vi.advanceTimersByTimeAsync(TIMING.debounceMs);
+
+    expect(sync.syncNow).toHaveBeenCalledTimes(2);
+  });
+
+  it('should do nothing while the autoSync setting is off', async () => {
+    enabled = false;
+
+    notifyLocalChange();
+    window.dispatchEvent(new Event('online'));
+    await vi.advanceTimersByTimeAsync(TIMING.periodicIntervalMs);
+
+    expect(sync.syncNow).not.toHaveBeenCalled();
+  });
+
+  it('should not sync while signed out', async () => {
+    setState({ status: 'not-authenticated' });
+
+    notifyLocalChange();
+    await vi.advanceTimersByTimeAsync(TIMING.periodicIntervalMs);
+
+    expect(sync.syncNow).not.toHaveBeenCalled();
+  });
+
+  it('should stop reacting to triggers after stop()', async () => {
+    scheduler.stop();
+
+    notifyLocalChange();
+    window.dispatchEvent(new Event('online'));
+    await vi.advanceTimersByTimeAsync(TIMING.periodicIntervalMs);
+
+    expect(sync.syncNow).not.toHaveBeenCalled();
+  });
+});
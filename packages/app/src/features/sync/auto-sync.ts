@@ -0,0 +1,166 @@
+import { DEFAULT_SYNC_TIMING, SyncTimingConfig } from '@readlater/core';
+import { loadSettings } from '@/features/settings/use-settings';
+import { onLocalChange } from '@/lib/local-changes';
+import { queryClient } from '@/lib/query-client';
+import { syncService, SyncService, SyncState } from './sync-service';
+
+type AutoSyncTarget = Pick<SyncService, 'syncNow' | 'getState' | 'subscribe'>;
+
+export type AutoSyncReason = 'change' | 'periodic' | 'online' | 'visible' | 'startup' | 'retry';
+
+/**
+ * Runs SyncService.syncNow without the user pressing "Sync Now".
+ *
+ * - Local edits sync once no further edit arrived for `debounceMs`
+ * - Every `periodicIntervalMs` while the page is visible
+ * - When the device comes back online, and when the page becomes visible again
+ *   after more than `debounceMs` without a sync
+ * - Once the sign-in check on app load succeeds
+ *
+ * Failed runs are retried after `debounceMs`, doubling each time, up to `maxRetries`.
+ * Nothing runs while the autoSync setting is off or the user is signed out.
+ */
+export class AutoSyncScheduler {
+  private debounceTimer?: ReturnType<typeof setTimeout>;
+  private retryTimer?: ReturnType<typeof setTimeout>;
+  private periodicTimer?: ReturnType<typeof setInterval>;
+  private cleanups: (() => void)[] = [];
+  private failures = 0;
+  private running = false;
+  private changedWhileRunning = false;
+  private lastStatus: SyncState['status'];
+
+  constructor(
+    private readonly sync: AutoSyncTarget = syncService,
+    private readonly isEnabled: () => boolean = () => loadSettings().autoSync,
+    private readonly timing: SyncTimingConfig = DEFAULT_SYNC_TIMING,
+    private readonly onSynced: () => void = refreshSyncedQueries
+  ) {
+    this.lastStatus = sync.getState().status;
+  }
+
+  start(): void {
+    if (this.cleanups.length > 0) return;
+
+    const handleOnline = () => {
+      // The failures were most likely caused by being offline
+      this.resetBackoff();
+      this.run('online');
+    };
+    const handleVisibility = () => {
+      if (document.visibilityState !== 'visible') return;
+      const { lastSyncTime } = this.sync.getState();
+      if (!lastSyncTime || Date.now() - lastSyncTime > this.timing.debounceMs) {
+        this.run('visible');
+      }
+    };
+
+    window.addEventListener('online', handleOnline);
+    document.addEventListener('visibilitychange', handleVisibility);
+    this.periodicTimer = setInterval(() => {
+      if (document.visibilityState !== 'hidden') this.run('periodic');
+    }, this.timing.periodicIntervalMs);
+
+    this.cleanups = [
+      () => window.removeEventListener('online', handleOnline),
+      () => document.removeEventListener('visibilitychange', handleVisibility),
+      onLocalChange(() => this.requestSync()),
+      this.sync.subscribe(state => this.handleStateChange(state)),
+    ];
+  }
+
+  stop(): void {
+    this.cleanups.forEach(cleanup => cleanup());
+    this.cleanups = [];
+    clearTimeout(this.debounceTimer);
+    clearInterval(this.periodicTimer);
+    this.resetBackoff();
+  }
+
+  /** Schedules a sync after the debounce delay, restarting the delay on every call. */
+  requestSync(): void {
+    if (this.running) {
+      this.changedWhileRunning = true;
+      return;
+    }
+    clearTimeout(this.debounceTimer);
+    this.debounceTimer = setTimeout(() => this.run('change'), this.timing.debounceMs);
+  }
+
+  private async run(reason: AutoSyncReason): Promise<void> {
+    if (!this.canRun(reason)) return;
+
+    clearTimeout(this.debounceTimer);
+    this.running = true;
+    this.changedWhileRunning = false;
+
+    let success = false;
+    try {
+      console.log(`Auto-sync (${reason})`);
+      success = (await this.sync.syncNow()).success;
+    } finally {
+      this.running = false;
+    }
+
+    if (success) {
+      this.resetBackoff();
+      this.onSynced();
+    } else if (this.sync.getState().status === 'error') {
+      this.scheduleRetry();
+    }
+
+    if (this.changedWhileRunning) {
+      this.requestSync();
+    }
+  }
+
+  private canRun(reason: AutoSyncReason): boolean {
+    if (this.running || !this.isEnabled() || !navigator.onLine) return false;
+    // Backing off: only the retry itself (or coming online, which resets it) may run
+    if (this.retryTimer && reason !== 'retry') return false;
+
+    const { status } = this.sync.getState();
+    return status === 'idle' || status === 'error';
+  }
+
+  private scheduleRetry(): void {
+    this.failures++;
+    if (this.failures > this.timing.maxRetries) {
+      console.warn(`Auto-sync failed ${this.failures} times, waiting for the next trigger`);
+      this.failures = 0;
+      return;
+    }
+
+    const delay = this.timing.debounceMs * Math.pow(2, this.failures - 1);
+    console.warn(`Auto-sync failed, retrying in ${delay / 1000}s`);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = undefined;
+      this.run('retry');
+    }, delay);
+  }
+
+  private resetBackoff(): void {
+    clearTimeout(this.retryTimer);
+    this.retryTimer = undefined;
+    this.failures = 0;
+  }
+
+  private handleStateChange(state: SyncState): void {
+    const previous = this.lastStatus;
+    this.lastStatus = state.status;
+
+    // The sign-in check on app load finished; catch up with other devices
+    if (previous === 'checking-auth' && state.status === 'idle') {
+      this.run('startup');
+    }
+  }
+}
+
+function refreshSyncedQueries(): void {
+  queryClient.invalidateQueries({ queryKey: ['articles'] });
+  queryClient.invalidateQueries({ queryKey: ['highlights'] });
+  queryClient.invalidateQueries({ queryKey: ['deadLetters'] });
+  queryClient.invalidateQueries({ queryKey: ['conflicts'] });
+}
+
+export const autoSyncScheduler = new AutoSyncScheduler();
@@ -0,0 +1,63 @@
+import { DEFAULT_LIST_ID } from '@readlater/core';
+import { openDatabase } from '@/lib/db';
+import { DEFAULT_ACCOUNT_ID } from '@/lib/account';
+
+/** One-off sync, registered after local edits and fired once the device is online. */
+export const BACKGROUND_SYNC_TAG = 'readlater-sync';
+/** Recurring sync, run by the browser while the app is closed (installed PWAs only). */
+export const PERIODIC_SYNC_TAG = 'readlater-periodic-sync';
+/** Message the service worker posts to open pages after a background run. */
+export const BACKGROUND_SYNC_RESULT_MESSAGE = 'BACKGROUND_SYNC_RESULT';
+
+const CONTEXT_KEY = 'backgroundSync';
+
+/**
+ * What the service worker needs to push queued changes: it can't read the
+ * account, token, spreadsheet ID or lists from localStorage, so the page copies
+ * them into the original database (default account, default list). Only the
+ * active account's queues are pushed in the background.
+ */
+export interface BackgroundSyncContext {
+  accountId: string;            // Whose databases the lists are in
+  accessToken: string;
+  tokenExpiresAt: number;
+  spreadsheetId: string | null; // Default list's spreadsheet, as cached by the page
+  listIds: string[];
+  updatedAt: number;
+}
+
+export interface BackgroundSyncResult {
+  listId: string;
+  processed: number;
+  failures: number;
+  error?: string;
+}
+
+export interface BackgroundSyncMessage {
+  type: typeof BACKGROUND_SYNC_RESULT_MESSAGE;
+  results: BackgroundSyncResult[];
+}
+
+/** Stores the context, or removes it when signed out. */
+export async function saveBackgroundSyncContext(context: BackgroundSyncContext | null): Promise<void> {
+  const database = openDatabase(DEFAULT_LIST_ID, DEFAULT_ACCOUNT_ID);
+  try {
+    if (context) {
+      await database.syncMeta.put({ key: CONTEXT_KEY, value: context });
+    } else {
+      await database.syncMeta.delete(CONTEXT_KEY);
+    }
+  } finally {
+    database.close();
+  }
+}
+
+export async function loadBackgroundSyncContext(): Promise<BackgroundSyncContext | null> {
+  const database = openDatabase(DEFAULT_LIST_ID, DEFAULT_ACCOUNT_ID);
+  try {
+    const entry = await database.syncMeta.get(CONTEXT_KEY);
+    return (entry?.value as BackgroundSyncContext | undefined) ?? null;
+  } finally {
+    database.close();
+  }
+}
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { DEFAULT_LIST_ID } from '@readlater/core';
+import type { GoogleSheetsSyncEngine } from '@readlater/google-sheets-sync';
+import { db, openDatabase, openListDatabase } from '@/lib/db';
+import { DEFAULT_ACCOUNT_ID } from '@/lib/account';
+import { drainSyncQueues } from './background-sync-worker';
+import { BackgroundSyncContext, saveBackgroundSyncContext } from './background-sync-context';
+import { AuthenticationRequiredError } from './google-sheets';
+import { createMockSyncEngine } from './__tests__/helpers/mock-sync-engine';
+import { createTestArticle, createTestSyncOperation } from '@/features/articles/__tests__/helpers/fixtures';
+
+const WORK_LIST_ID = 'work';
+
+function createContext(overrides?: Partial<BackgroundSyncContext>): BackgroundSyncContext {
+  return {
+    accountId: DEFAULT_ACCOUNT_ID,
+    accessToken: 'stored-token',
+    tokenExpiresAt: Date.now() + 60 * 60 * 1000,
+    spreadsheetId: 'sheet-default',
+    listIds: [DEFAULT_LIST_ID, WORK_LIST_ID],
+    updatedAt: Date.now(),
+    ...overrides,
+  };
+}
+
+async function queueArticle(listId: string, url = 'https://example.com/test-article', accountId?: string): Promise<void> {
+  const article = createTestArticle({ url });
+  const database = openDatabase(listId, accountId);
+  await database.articles.put(article);
+  await database.syncQueue.add(createTestSyncOperation({ articleUrl: url, data: article }));
+  database.close();
+}
+
+async function queueSize(listId: string, accountId?: string): Promise<number> {
+  const database = openDatabase(listId, accountId);
+  const count = await database.syncQueue.count();
+  database.close();
+  return count;
+}
+
+describe('drainSyncQueues', () => {
+  let engine: ReturnType<typeof createMockSyncEngine>;
+  let createEngine: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    engine = createMockSyncEngine();
+    engine.saveArticles.mockImplementation(async (articles: { url: string }[]) =>
+      articles.map(article => ({ success: true, articleUrl: article.url }))
+    );
+    createEngine = vi.fn(() => engine as unknown as GoogleSheetsSyncEngine);
+
+    for (const listId of [DEFAULT_LIST_ID, WORK_LIST_ID]) {
+      const database = openDatabase(listId);
+      await database.syncQueue.clear();
+      await database.articles.clear();
+      database.close();
+    }
+    await saveBackgroundSyncContext(null);
+  });
+
+  afterEach(() => {
+    openListDatabase(DEFAULT_LIST_ID);
+  });
+
+  it('should push the queue of every list with the stored token', async () => {
+    await saveBackgroundSyncContext(createContext());
+    await queueArticle(DEFAULT_LIST_ID, 'https://example.com/a');
+    await queueArticle(WORK_LIST_ID, 'https://example.com/b');
+
+    const results = await drainSyncQueues(createEngine);
+
+    expect(results).toEqual([
+      { listId: DEFAULT_LIST_ID, processed: 1, failures: 0 },
+      { listId: WORK_LIST_ID, processed: 1, failures: 0 },
+    ]);
+    expect(createEngine).toHaveBeenCalledWith(expect.objectContaining({ accessToken: 'stored-token' }), WORK_LIST_ID);
+    expect(await queueSize(DEFAULT_LIST_ID)).toBe(0);
+    expect(await queueSize(WORK_LIST_ID)).toBe(0);
+    expect((await db.articles.get('https://example.com/b'))?.syncStatus).toBe('synced');
+  });
+
+  it('should push the queues of the account the page stored', async () => {
+    await saveBackgroundSyncContext(createContext({ accountId: 'work-account', listIds: [DEFAULT_LIST_ID] }));
+    await queueArticle(DEFAULT_LIST_ID, 'https://example.com/personal');
+    await queueArticle(DEFAULT_LIST_ID, 'https://example.com/work', 'work-account');
+
+    const results = await drainSyncQueues(createEngine);
+
+    expect(results).toEqual([{ listId: DEFAULT_LIST_ID, processed: 1, failures: 0 }]);
+    expect(engine.saveArticles).toHaveBeenCalledWith([expect.objectContaining({ url: 'https://example.com/work' })]);
+    expect(await queueSize(DEFAULT_LIST_ID, 'work-account')).toBe(0);
+    expect(await queueSize(DEFAULT_LIST_ID)).toBe(1);
+  });
+
+  it('should do nothing while signed out', async () => {
+    await queueArticle(DEFAULT_LIST_ID);
+
+    expect(await drainSyncQueues(createEngine)).toEqual([]);
+    expect(createEngine).not.toHaveBeenCalled();
+    expect(await queueSize(DEFAULT_LIST_ID)).toBe(1);
+  });
+
+  it('should leave the queue alone once the stored token expired', async () => {
+    await saveBackgroundSyncContext(createContext({ tokenExpiresAt: Date.now() - 1000 }));
+    await queueArticle(DEFAULT_LIST_ID);
+
+    expect(await drainSyncQueues(createEngine)).toEqual([]);
+    expect(createEngine).not.toHaveBeenCalled();
+    expect(await queueSize(DEFAULT_LIST_ID)).toBe(1);
+  });
+
+  it('should stop at the first authentication error', async () => {
+    await saveBackgroundSyncContext(createContext());
+    await queueArticle(DEFAULT_LIST_ID);
+    await queueArticle(WORK_LIST_ID);
+    engine.saveArticles.mockRejectedValue(new AuthenticationRequiredError());
+
+    const results = await drainSyncQueues(createEngine);
+
+    expect(results).toEqual([
+      { listId: DEFAULT_LIST_ID, processed: 0, failures: 0, error: 'Authentication is required.' },
+    ]);
+    expect(await queueSize(DEFAULT_LIST_ID)).toBe(1);
+    expect(await queueSize(WORK_LIST_ID)).toBe(1);
+  });
+});
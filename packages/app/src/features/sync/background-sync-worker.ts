@@ -0,0 +1,92 @@
+import type { AuthProvider } from '@readlater/core';
+import {
+  AuthenticationRequiredError,
+  GoogleSheetsSyncEngine,
+  InMemorySpreadsheetStorage
+} from '@readlater/google-sheets-sync';
+import { openListDatabase } from '@/lib/db';
+import { articleRepository } from '@/features/articles/repository.js';
+import { highlightRepository } from '@/features/highlights/repository.js';
+import { SyncQueueProcessor } from './queue-processor.js';
+import {
+  BackgroundSyncContext,
+  BackgroundSyncResult,
+  loadBackgroundSyncContext
+} from './background-sync-context.js';
+
+export type WorkerEngineFactory = (context: BackgroundSyncContext, listId: string) => GoogleSheetsSyncEngine;
+
+/**
+ * Pushes every list's queued changes from the service worker, for the account
+ * the page stored. Only the queues are drained; pulling remote changes waits
+ * until the app is opened again.
+ *
+ * Lists are processed one at a time because the repositories follow the
+ * active database. An expired or rejected token ends the run, since the worker
+ * can't sign in; the page stores a fresh token on its next start.
+ */
+export async function drainSyncQueues(
+  createEngine: WorkerEngineFactory = createWorkerSyncEngine
+): Promise<BackgroundSyncResult[]> {
+  const context = await loadBackgroundSyncContext();
+  if (!context) {
+    console.log('Background sync: not signed in, nothing to do');
+    return [];
+  }
+  if (context.tokenExpiresAt <= Date.now()) {
+    console.log('Background sync: stored token expired, waiting for the app to open');
+    return [];
+  }
+
+  const results: BackgroundSyncResult[] = [];
+  for (const listId of context.listIds) {
+    openListDatabase(listId, context.accountId);
+    const engine = createEngine(context, listId);
+    const processor = new SyncQueueProcessor(articleRepository, highlightRepository, () => engine);
+
+    try {
+      const articles = await processor.processArticleQueue();
+      const highlights = await processor.processHighlightQueue();
+      results.push({
+        listId,
+        processed: articles.processed + highlights.processed,
+        failures: articles.failures + highlights.failures
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Background sync failed for list ${listId}:`, error);
+      results.push({ listId, processed: 0, failures: 0, error: message });
+      if (error instanceof AuthenticationRequiredError) break;
+    }
+  }
+  return results;
+}
+
+/** Hands out the token the page stored, until it expires. */
+class StoredTokenAuthProvider implements AuthProvider {
+  constructor(private readonly context: BackgroundSyncContext) {}
+
+  async getAuthToken(): Promise<string> {
+    if (this.context.tokenExpiresAt <= Date.now()) {
+      throw new AuthenticationRequiredError();
+    }
+    return this.context.accessToken;
+  }
+
+  async isAuthenticated(): Promise<boolean> {
+    return this.context.tokenExpiresAt > Date.now();
+  }
+
+  async authenticate(): Promise<void> {
+    await this.getAuthToken();
+  }
+}
+
+function createWorkerSyncEngine(context: BackgroundSyncContext, listId: string): GoogleSheetsSyncEngine {
+  return new GoogleSheetsSyncEngine(
+    new StoredTokenAuthProvider(context),
+    new InMemorySpreadsheetStorage(context.spreadsheetId),
+    undefined,
+    listId
+  );
+}
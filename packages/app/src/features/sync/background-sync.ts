@@ -0,0 +1,153 @@
+import { DEFAULT_SYNC_TIMING } from '@readlater/core';
+import { loadSettings } from '@/features/settings/use-settings';
+import { listService } from '@/features/lists/list-service';
+import { onLocalChange } from '@/lib/local-changes';
+import { queryClient } from '@/lib/query-client';
+import { getActiveAccountId } from '@/lib/account';
+import { getAuthProviderSafely, getSpreadsheetStorage } from './google-sheets';
+import type { PwaAuthProvider } from '@readlater/google-sheets-sync';
+import { syncService, SyncStatus } from './sync-service';
+import {
+  BACKGROUND_SYNC_RESULT_MESSAGE,
+  BACKGROUND_SYNC_TAG,
+  BackgroundSyncContext,
+  BackgroundSyncMessage,
+  PERIODIC_SYNC_TAG,
+  saveBackgroundSyncContext
+} from './background-sync-context';
+
+// Background Sync and Periodic Background Sync aren't in TypeScript's DOM lib yet
+interface SyncCapableRegistration extends ServiceWorkerRegistration {
+  sync?: { register(tag: string): Promise<void> };
+  periodicSync?: { register(tag: string, options: { minInterval: number }): Promise<void> };
+}
+
+/**
+ * Lets the service worker push queued changes when the page can't: after the
+ * tab was closed, or when connectivity returns while the app is in the background.
+ *
+ * - Every local edit registers a one-off sync, which the browser fires once online
+ * - A periodic sync is registered where the browser allows it (installed PWAs)
+ * - The worker's account, token, spreadsheet and lists are refreshed whenever sync state or the token changes
+ *
+ * Browsers without Background Sync simply rely on the in-page AutoSyncScheduler.
+ */
+export class BackgroundSyncRegistrar {
+  private cleanups: (() => void)[] = [];
+  private lastStatus?: SyncStatus;
+  private watchedProvider: PwaAuthProvider | null = null;
+  private unwatchToken?: () => void;
+
+  constructor(
+    private readonly getRegistration: () => Promise<ServiceWorkerRegistration | undefined> =
+      () => navigator.serviceWorker.getRegistration(),
+    private readonly buildContext: () => Promise<BackgroundSyncContext | null> = buildBackgroundSyncContext,
+    private readonly onResult: (message: BackgroundSyncMessage) => void = refreshAfterBackgroundSync
+  ) {}
+
+  start(): void {
+    if (this.cleanups.length > 0 || !('serviceWorker' in navigator)) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === BACKGROUND_SYNC_RESULT_MESSAGE) {
+        this.onResult(event.data as BackgroundSyncMessage);
+      }
+    };
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+
+    this.cleanups = [
+      () => navigator.serviceWorker.removeEventListener('message', handleMessage),
+      onLocalChange(() => this.requestSync()),
+      syncService.subscribe(({ status }) => {
+        // Sign-in, sign-out, account switches and finished syncs all show up as a status change
+        if (status === this.lastStatus) return;
+        this.lastStatus = status;
+        this.watchToken();
+        this.storeContext();
+      }),
+      () => this.unwatchToken?.(),
+    ];
+
+    this.watchToken();
+    this.storeContext();
+    this.registerPeriodicSync();
+  }
+
+  stop(): void {
+    this.cleanups.forEach(cleanup => cleanup());
+    this.cleanups = [];
+    this.unwatchToken = undefined;
+    this.watchedProvider = null;
+  }
+
+  /** Asks the browser to run the worker's queue drain as soon as it is online. */
+  async requestSync(): Promise<void> {
+    const hasContext = await this.storeContext();
+    if (!hasContext) return;
+
+    const registration = (await this.getRegistration()) as SyncCapableRegistration | undefined;
+    try {
+      await registration?.sync?.register(BACKGROUND_SYNC_TAG);
+    } catch (error) {
+      console.warn('Background sync registration failed:', error);
+    }
+  }
+
+  // Silent renewals don't change the sync status, but the worker needs the new token.
+  // Follows the active account's provider across account switches.
+  private watchToken(): void {
+    const authProvider = getAuthProviderSafely();
+    if (authProvider === this.watchedProvider) return;
+    this.unwatchToken?.();
+    this.unwatchToken = authProvider?.onTokenChange(() => this.storeContext());
+    this.watchedProvider = authProvider;
+  }
+
+  private async storeContext(): Promise<boolean> {
+    try {
+      const context = await this.buildContext();
+      await saveBackgroundSyncContext(context);
+      return context !== null;
+    } catch (error) {
+      console.warn('Could not store background sync context:', error);
+      return false;
+    }
+  }
+
+  private async registerPeriodicSync(): Promise<void> {
+    const registration = (await this.getRegistration()) as SyncCapableRegistration | undefined;
+    try {
+      await registration?.periodicSync?.register(PERIODIC_SYNC_TAG, {
+        minInterval: DEFAULT_SYNC_TIMING.periodicIntervalMs
+      });
+    } catch (error) {
+      // Only granted to installed apps with enough engagement
+      console.log('Periodic background sync unavailable:', error);
+    }
+  }
+}
+
+/** Null while signed out or with auto-sync turned off, which leaves the worker idle. */
+async function buildBackgroundSyncContext(): Promise<BackgroundSyncContext | null> {
+  const authProvider = getAuthProviderSafely();
+  const tokenExpiresAt = authProvider?.getTokenExpiry();
+  if (!authProvider || !tokenExpiresAt || !loadSettings().autoSync) return null;
+
+  return {
+    accountId: getActiveAccountId(),
+    accessToken: await authProvider.getAuthToken(),
+    tokenExpiresAt,
+    spreadsheetId: await getSpreadsheetStorage().getSpreadsheetId(),
+    listIds: listService.getState().lists.map(list => list.id),
+    updatedAt: Date.now()
+  };
+}
+
+function refreshAfterBackgroundSync(message: BackgroundSyncMessage): void {
+  if (!message.results.some(result => result.processed > 0)) return;
+  syncService.refreshPendingCount();
+  queryClient.invalidateQueries({ queryKey: ['articles'] });
+  queryClient.invalidateQueries({ queryKey: ['highlights'] });
+}
+
+export const backgroundSyncRegistrar = new BackgroundSyncRegistrar();
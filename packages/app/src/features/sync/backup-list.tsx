@@ -0,0 +1,157 @@
+import { useState } from 'react';
+import { ArchiveRestore, CloudUpload, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import type { LibrarySnapshotInfo, RestoreCandidate, RestoreStatus } from './backup-service';
+import { useBackupNow, useRestoreSnapshot, useSnapshotPreview, useSnapshots } from './use-backups';
+
+const STATUS_LABELS: Record<Exclude<RestoreStatus, 'unchanged'>, string> = {
+  missing: 'Gone from this device',
+  changed: 'Changed since',
+};
+
+function formatSize(bytes: number): string {
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+function describeCandidate(candidate: RestoreCandidate): string {
+  if (candidate.status !== 'changed') return STATUS_LABELS.missing;
+  return `${STATUS_LABELS.changed}: ${candidate.fields.join(', ')}`;
+}
+
+function RestoreDialog({ info, onClose }: { info: LibrarySnapshotInfo; onClose: () => void }) {
+  const { data, error, isLoading } = useSnapshotPreview(info.id);
+  const restore = useRestoreSnapshot();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const candidates = data?.candidates.filter(candidate => candidate.status !== 'unchanged') ?? [];
+
+  const toggle = (url: string) =>
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(url)) next.delete(url);
+      else next.add(url);
+      return next;
+    });
+
+  const submit = (urls?: string[]) => {
+    if (!data) return;
+    restore.mutate({ snapshot: data.snapshot, urls }, { onSuccess: () => setSelected(new Set()) });
+  };
+
+  return (
+    <Dialog open onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-2xl space-y-4">
+        <DialogHeader>
+          <DialogTitle>Backup from {new Date(info.createdAt).toLocaleString()}</DialogTitle>
+          <p className="text-sm text-muted-foreground">
+            Restored articles are saved as new edits and sync to Google Sheets like any other change.
+          </p>
+        </DialogHeader>
+
+        {isLoading && (
+          <p className="flex items-center gap-1.5 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" /> Loading backup...
+          </p>
+        )}
+        {error && <p className="text-sm text-destructive">{error.message}</p>}
+        {restore.data && (
+          <p className="text-sm text-green-600 dark:text-green-400">
+            Restored {restore.data.articles} articles and {restore.data.highlights} highlights.
+          </p>
+        )}
+        {restore.error && <p className="text-sm text-destructive">{restore.error.message}</p>}
+
+        {data && candidates.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            All {data.snapshot.articles.length} articles in this backup match this device.
+          </p>
+        )}
+
+        {candidates.length > 0 && (
+          <ul className="max-h-96 overflow-y-auto divide-y divide-border">
+            {candidates.map(candidate => (
+              <li key={candidate.article.url}>
+                <label className="py-2 flex items-start gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    className="mt-1"
+                    checked={selected.has(candidate.article.url)}
+                    onChange={() => toggle(candidate.article.url)}
+                  />
+                  <span className="min-w-0 space-y-0.5">
+                    <span className="block text-sm font-medium break-words">
+                      {candidate.article.title || candidate.article.url}
+                    </span>
+                    <span className="block text-xs text-muted-foreground truncate" title={candidate.article.url}>
+                      {candidate.article.url}
+                    </span>
+                    <span className="block text-xs text-muted-foreground">{describeCandidate(candidate)}</span>
+                  </span>
+                </label>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex flex-wrap justify-end gap-2">
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            Close
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={restore.isPending || selected.size === 0}
+            onClick={() => submit([...selected])}
+          >
+            Restore selected ({selected.size})
+          </Button>
+          <Button size="sm" disabled={restore.isPending || candidates.length === 0} onClick={() => submit()}>
+            Restore all ({candidates.length})
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/** Daily snapshots of the active list in Google Drive, each of which can be reviewed and restored. */
+export function BackupList() {
+  const { data: snapshots = [], error, isLoading } = useSnapshots();
+  const backupNow = useBackupNow();
+  const [reviewing, setReviewing] = useState<LibrarySnapshotInfo | null>(null);
+
+  return (
+    <div className="space-y-3">
+      <Button variant="outline" size="sm" disabled={backupNow.isPending} onClick={() => backupNow.mutate()}>
+        <CloudUpload className="mr-1.5 h-4 w-4" /> Back up now
+      </Button>
+      {backupNow.error && <p className="text-sm text-destructive">{backupNow.error.message}</p>}
+
+      {error && <p className="py-4 text-sm text-muted-foreground">{error.message}</p>}
+      {!isLoading && !error && snapshots.length === 0 && (
+        <p className="py-4 text-sm text-muted-foreground">No backups yet. One is taken automatically once a day during sync.</p>
+      )}
+
+      {snapshots.length > 0 && (
+        <ul className="divide-y divide-border">
+          {snapshots.map(info => (
+            <li key={info.id} className="py-3 flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <p className="text-sm">{new Date(info.createdAt).toLocaleString()}</p>
+                {info.size !== undefined && (
+                  <p className="text-xs text-muted-foreground">{formatSize(info.size)}</p>
+                )}
+              </div>
+              <Button variant="outline" size="sm" onClick={() => setReviewing(info)}>
+                <ArchiveRestore className="mr-1.5 h-4 w-4" /> Review
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {reviewing && <RestoreDialog info={reviewing} onClose={() => setReviewing(null)} />}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { db } from '@/lib/db';
+import { LibraryBackupService, LibrarySnapshot } from './backup-service';
+import { createTestArticle } from '@/features/articles/__tests__/helpers/fixtures';
+import { createTestHighlight } from '@/features/highlights/__tests__/helpers/fixtures';
+
+describe('LibraryBackupService', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+  let saved: LibrarySnapshot[];
+  let engine: {
+    saveLibrarySnapshot: ReturnType<typeof vi.fn>;
+    listLibrarySnapshots: ReturnType<typeof vi.fn>;
+    getLibrarySnapshot: ReturnType<typeof vi.fn>;
+  };
+  let service: LibraryBackupService;
+
+  beforeEach(async () => {
+    await Promise.all([
+      db.articles.clear(),
+      db.syncQueue.clear(),
+      db.syncMeta.clear(),
+      db.highlights.clear(),
+      db.highlightSyncQueue.clear(),
+    ]);
+
+    saved = [];
+    engine = {
+      saveLibrarySnapshot: vi.fn(async (snapshot: LibrarySnapshot) => {
+        saved.push(snapshot);
+        return { id: `snapshot-${saved.length}`, listId: snapshot.listId, createdAt: Date.parse(snapshot.createdAt) };
+      }),
+      listLibrarySnapshots: vi.fn().mockResolvedValue([]),
+      getLibrarySnapshot: vi.fn(),
+    };
+    service = new LibraryBackupService(undefined, undefined, () => engine);
+  });
+
+  it('should snapshot every article and highlight, including deleted ones, at most once a day', async () => {
+    const now = Date.now();
+    await db.articles.bulkPut([
+      createTestArticle({ url: 'https://example.com/kept' }),
+      createTestArticle({ url: 'https://example.com/deleted', deletedAt: now - 40 * DAY }),
+    ]);
+    await db.highlights.put(createTestHighlight({ id: 'h1', articleUrl: 'https://example.com/kept' }));
+
+    expect(await service.backupIfDue(now)).toBe(true);
+    expect(await service.backupIfDue(now + DAY / 2)).toBe(false);
+    expect(await service.backupIfDue(now + DAY)).toBe(true);
+
+    expect(saved).toHaveLength(2);
+    expect(saved[0].articles.map(article => article.url).sort()).toEqual([
+      'https://example.com/deleted',
+      'https://example.com/kept',
+    ]);
+    expect(saved[0].highlights.map(highlight => highlight.id)).toEqual(['h1']);
+  });
+
+  it('should compare the snapshot with this device', async () => {
+    await db.articles.bulkPut([
+      createTestArticle({ url: 'https://example.com/same', title: 'Same' }),
+      createTestArticle({ url: 'https://example.com/edited', title: 'Edited since' }),
+    ]);
+    await service.backupNow();
+    const snapshot = saved[0];
+    snapshot.articles.find(article => article.url === 'https://example.com/edited')!.title = 'Original';
+    snapshot.articles.push({ ...snapshot.articles[0], url: 'https://example.com/purged' });
+
+    const candidates = await service.previewRestore(snapshot);
+
+    expect(candidates.map(({ article, status, fields }) => [article.url, status, fields])).toEqual(
+      expect.arrayContaining([
+        ['https://example.com/same', 'unchanged', []],
+        ['https://example.com/edited', 'changed', ['title']],
+        ['https://example.com/purged', 'missing', []],
+      ])
+    );
+  });
+
+  it('should restore only the selected articles and their highlights, queued for upload', async () => {
+    await db.articles.bulkPut([
+      createTestArticle({ url: 'https://example.com/a', title: 'A', syncStatus: 'synced' }),
+      createTestArticle({ url: 'https://example.com/b', title: 'B', syncStatus: 'synced' }),
+    ]);
+    await db.highlights.put(createTestHighlight({ id: 'h1', articleUrl: 'https://example.com/a' }));
+    await service.backupNow();
+
+    // Lost on this device after the snapshot
+    await db.articles.delete('https://example.com/a');
+    await db.highlights.delete('h1');
+    await db.articles.update('https://example.com/b', { title: 'B renamed', deletedAt: Date.now() });
+
+    const result = await service.restore(saved[0], ['https://example.com/a']);
+
+    expect(result).toEqual({ articles: 1, highlights: 1 });
+    expect(await db.articles.get('https://example.com/a')).toMatchObject({ title: 'A', syncStatus: 'pending' });
+    expect(await db.articles.get('https://example.com/b')).toMatchObject({ title: 'B renamed' });
+    expect(await db.highlights.get('h1')).toMatchObject({ articleUrl: 'https://example.com/a', syncStatus: 'pending' });
+    expect((await db.syncQueue.toArray()).map(operation => [operation.type, operation.articleUrl])).toEqual([
+      ['create', 'https://example.com/a'],
+    ]);
+    expect(await db.highlightSyncQueue.count()).toBe(1);
+  });
+
+  it('should bring back articles deleted since the snapshot when restoring everything', async () => {
+    await db.articles.put(createTestArticle({ url: 'https://example.com/a', syncStatus: 'synced' }));
+    await service.backupNow();
+    await db.articles.update('https://example.com/a', { deletedAt: Date.now() });
+
+    await service.restore(saved[0]);
+
+    const article = await db.articles.get('https://example.com/a');
+    expect(article?.deletedAt).toBeUndefined();
+    expect(article?.syncStatus).toBe('pending');
+  });
+});
@@ -0,0 +1,155 @@
+import { Article, MergeableField } from '@/lib/db.js';
+import { getActiveListId } from '@/lib/active-list.js';
+import { articleRepository, ArticleRepository } from '@/features/articles/repository.js';
+import { highlightRepository, HighlightRepository } from '@/features/highlights/repository.js';
+import { articleToSheetData, highlightToSheetData, sheetDataToArticle } from './sheet-mapping.js';
+import { getConflictingFields } from './conflict-repository.js';
+import { getSyncEngineSafely } from './google-sheets.js';
+import {
+  SNAPSHOT_FORMAT_VERSION,
+  type GoogleSheetsSyncEngine,
+  type LibrarySnapshot,
+  type LibrarySnapshotInfo,
+} from '@readlater/google-sheets-sync';
+
+export type { LibrarySnapshot, LibrarySnapshotInfo };
+
+type SnapshotEngine = Pick<GoogleSheetsSyncEngine, 'saveLibrarySnapshot' | 'listLibrarySnapshots' | 'getLibrarySnapshot'>;
+
+// Sync takes at most one snapshot per list in this window
+const SNAPSHOT_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const LAST_SNAPSHOT_KEY = 'lastSnapshotAt';
+
+/** How an article in a snapshot compares with this device. */
+export type RestoreStatus = 'missing' | 'changed' | 'unchanged';
+
+export interface RestoreCandidate {
+  article: Article;
+  status: RestoreStatus;
+  /** Fields a restore would change; empty unless the status is 'changed' */
+  fields: MergeableField[];
+}
+
+export interface RestoreResult {
+  articles: number;
+  highlights: number;
+}
+
+/**
+ * Versioned backups of the active list in the Drive appDataFolder. Sync takes a
+ * snapshot once a day; restoring writes the snapshot's versions back as local
+ * edits, so they reach the sheet through the sync queue like any other change.
+ */
+export class LibraryBackupService {
+  constructor(
+    private readonly repository: Pick<
+      ArticleRepository,
+      'getAllArticlesIncludingDeleted' | 'save' | 'update' | 'getSyncMeta' | 'setSyncMeta'
+    > = articleRepository,
+    private readonly highlights: Pick<HighlightRepository, 'getAll' | 'saveMerged'> = highlightRepository,
+    private readonly getSyncEngine: () => SnapshotEngine | null = getSyncEngineSafely
+  ) {}
+
+  /** Takes a snapshot unless one was taken within the last day. Returns whether it did. */
+  async backupIfDue(now: number = Date.now()): Promise<boolean> {
+    const lastSnapshotAt = await this.repository.getSyncMeta<number>(LAST_SNAPSHOT_KEY);
+    if (lastSnapshotAt !== undefined && now - lastSnapshotAt < SNAPSHOT_INTERVAL_MS) {
+      return false;
+    }
+    await this.backupNow(now);
+    return true;
+  }
+
+  async backupNow(now: number = Date.now()): Promise<LibrarySnapshotInfo> {
+    const snapshot = await this.createSnapshot(now);
+    const info = await this.requireEngine().saveLibrarySnapshot(snapshot);
+    await this.repository.setSyncMeta(LAST_SNAPSHOT_KEY, info.createdAt);
+    return info;
+  }
+
+  /** Snapshots of the active list, newest first. */
+  async listSnapshots(): Promise<LibrarySnapshotInfo[]> {
+    return await this.requireEngine().listLibrarySnapshots();
+  }
+
+  async loadSnapshot(id: string): Promise<LibrarySnapshot> {
+    return await this.requireEngine().getLibrarySnapshot(id);
+  }
+
+  /** Compares each article in the snapshot with its current local version. */
+  async previewRestore(snapshot: LibrarySnapshot): Promise<RestoreCandidate[]> {
+    const local = new Map((await this.repository.getAllArticlesIncludingDeleted()).map(article => [article.url, article]));
+
+    return snapshot.articles.map(data => {
+      const article = sheetDataToArticle(data);
+      const current = local.get(article.url);
+      if (!current) return { article, status: 'missing', fields: [] };
+
+      const fields = getConflictingFields({ local: current, remote: article });
+      return { article, status: fields.length > 0 ? 'changed' : 'unchanged', fields };
+    });
+  }
+
+  /**
+   * Brings back the snapshot's version of the given articles, or of every
+   * article that differs when no URLs are given, along with their highlights
+   * that are gone or deleted on this device.
+   */
+  async restore(snapshot: LibrarySnapshot, urls?: string[]): Promise<RestoreResult> {
+    const selected = urls ? new Set(urls) : null;
+    const candidates = (await this.previewRestore(snapshot))
+      .filter(candidate => candidate.status !== 'unchanged')
+      .filter(candidate => !selected || selected.has(candidate.article.url));
+
+    for (const { article, status, fields } of candidates) {
+      if (status === 'missing') {
+        await this.repository.save(article);
+      } else {
+        // Assigned explicitly so an unset value (e.g. no deletedAt) clears the field
+        const updates: Partial<Article> = {};
+        for (const field of fields) {
+          Object.assign(updates, { [field]: article[field] });
+        }
+        await this.repository.update(article.url, updates);
+      }
+    }
+
+    const localHighlights = new Map((await this.highlights.getAll()).map(highlight => [highlight.id, highlight]));
+    const highlightsToRestore = snapshot.highlights
+      .filter(highlight => !selected || selected.has(highlight.articleUrl))
+      .filter(highlight => !highlight.deletedAt)
+      .filter(highlight => {
+        const current = localHighlights.get(highlight.id);
+        return !current || !!current.deletedAt;
+      })
+      .map(highlight => ({ ...highlight, editedAt: new Date().toISOString(), syncStatus: 'pending' as const }));
+    await this.highlights.saveMerged(highlightsToRestore);
+
+    return { articles: candidates.length, highlights: highlightsToRestore.length };
+  }
+
+  private async createSnapshot(now: number): Promise<LibrarySnapshot> {
+    const [articles, highlights] = await Promise.all([
+      this.repository.getAllArticlesIncludingDeleted(),
+      this.highlights.getAll(),
+    ]);
+
+    return {
+      version: SNAPSHOT_FORMAT_VERSION,
+      listId: getActiveListId(),
+      createdAt: new Date(now).toISOString(),
+      articles: articles.map(articleToSheetData),
+      highlights: highlights.map(highlightToSheetData),
+    };
+  }
+
+  private requireEngine(): SnapshotEngine {
+    const engine = this.getSyncEngine();
+    if (!engine) {
+      throw new Error('Sign in to Google to use backups');
+    }
+    return engine;
+  }
+}
+
+export const libraryBackupService = new LibraryBackupService();
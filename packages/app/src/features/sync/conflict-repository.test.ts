@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { db, ArticleConflict } from '@/lib/db';
+import { ConflictRepository } from './conflict-repository';
+import { createTestArticle } from '@/features/articles/__tests__/helpers/fixtures';
+
+describe('ConflictRepository', () => {
+  const repository = new ConflictRepository();
+  const url = 'https://example.com/conflict';
+
+  beforeEach(async () => {
+    await Promise.all([db.articles.clear(), db.syncQueue.clear(), db.conflicts.clear()]);
+  });
+
+  function createConflict(overrides: Partial<ArticleConflict> = {}): ArticleConflict {
+    return {
+      url,
+      local: createTestArticle({ url, title: 'Local title', notes: 'Local notes', syncStatus: 'pending' }),
+      remote: createTestArticle({ url, title: 'Remote title', notes: 'Remote notes', favorite: true }),
+      kept: 'remote',
+      reason: 'concurrent-edit',
+      detectedAt: Date.now(),
+      ...overrides,
+    };
+  }
+
+  async function recordConflict(overrides: Partial<ArticleConflict> = {}) {
+    const conflict = createConflict(overrides);
+    await db.articles.put({ ...conflict[conflict.kept], syncStatus: 'synced' });
+    await repository.record([conflict]);
+    return conflict;
+  }
+
+  it('should skip conflicts whose versions are identical', async () => {
+    const article = createTestArticle({ url });
+
+    await repository.record([createConflict({ local: article, remote: { ...article } })]);
+
+    expect(await repository.getCount()).toBe(0);
+  });
+
+  it('should restore the discarded version and queue it for upload', async () => {
+    await recordConflict();
+
+    await repository.resolve(url, 'local');
+
+    const article = await db.articles.get(url);
+    expect(article).toMatchObject({ title: 'Local title', notes: 'Local notes', favorite: false, syncStatus: 'pending' });
+    const [operation] = await db.syncQueue.toArray();
+    expect(operation).toMatchObject({ type: 'update', articleUrl: url });
+    expect(await repository.getCount()).toBe(0);
+  });
+
+  it('should restore only the fields chosen from the discarded version', async () => {
+    await recordConflict();
+
+    await repository.resolve(url, { notes: 'local' });
+
+    expect(await db.articles.get(url)).toMatchObject({ title: 'Remote title', notes: 'Local notes', favorite: true });
+  });
+
+  it('should recreate an article that was removed locally since', async () => {
+    await recordConflict();
+    await db.articles.delete(url);
+
+    await repository.resolve(url, 'local');
+
+    expect((await db.articles.get(url))?.title).toBe('Local title');
+    expect((await db.syncQueue.toArray())[0].type).toBe('create');
+  });
+
+  it('should only close the conflict when keeping the applied version', async () => {
+    await recordConflict();
+
+    await repository.resolve(url, 'remote');
+
+    expect(await repository.getCount()).toBe(0);
+    expect(await db.syncQueue.count()).toBe(0);
+    expect((await db.articles.get(url))?.title).toBe('Remote title');
+  });
+});
@@ -0,0 +1,80 @@
+import { db, Article, ArticleConflict, MergeableField } from '@/lib/db.js';
+import { articleRepository, ArticleRepository } from '@/features/articles/repository.js';
+import { getChangedFields } from './merge.js';
+
+export type ConflictSide = ArticleConflict['kept'];
+
+/** Which version to take for each field; fields left out stay as they are. */
+export type ConflictFieldChoices = Partial<Record<MergeableField, ConflictSide>>;
+
+/**
+ * Versions that sync discarded while settling a conflict by itself. The user
+ * reviews them in the Conflicts view; a resolution is written to the article
+ * like any other edit, so it reaches the sheet through the sync queue.
+ */
+export class ConflictRepository {
+  constructor(private readonly articles: Pick<ArticleRepository, 'getByUrl' | 'save' | 'update'> = articleRepository) {}
+
+  /** Most recent conflicts first. */
+  async getAll(): Promise<ArticleConflict[]> {
+    return await db.conflicts.orderBy('detectedAt').reverse().toArray();
+  }
+
+  async getCount(): Promise<number> {
+    return await db.conflicts.count();
+  }
+
+  /** Stores the conflicts, replacing older ones for the same article. Identical versions are skipped. */
+  async record(conflicts: ArticleConflict[]): Promise<void> {
+    const meaningful = conflicts.filter(conflict => getConflictingFields(conflict).length > 0);
+    if (meaningful.length === 0) return;
+    await db.conflicts.bulkPut(meaningful);
+  }
+
+  /**
+   * Writes back the fields taken from the discarded version. Keeping the version
+   * sync applied only closes the conflict, so later edits to the article survive.
+   */
+  async resolve(url: string, choices: ConflictSide | ConflictFieldChoices): Promise<void> {
+    const conflict = await db.conflicts.get(url);
+    if (!conflict) return;
+
+    const restored = buildResolution(conflict, choices);
+    if (Object.keys(restored).length > 0) {
+      if (await this.articles.getByUrl(url)) {
+        await this.articles.update(url, restored);
+      } else {
+        // Cleaned up locally since the conflict was detected
+        await this.articles.save({ ...conflict[conflict.kept], ...restored, url });
+      }
+    }
+    await db.conflicts.delete(url);
+  }
+}
+
+/** Mergeable fields on which the two versions disagree. */
+export function getConflictingFields(conflict: Pick<ArticleConflict, 'local' | 'remote'>): MergeableField[] {
+  const changed = new Set([
+    ...getChangedFields(conflict.local, conflict.remote),
+    ...getChangedFields(conflict.remote, conflict.local),
+  ]);
+  return [...changed];
+}
+
+/** The discarded version's values for the fields chosen from it. */
+export function buildResolution(
+  conflict: ArticleConflict,
+  choices: ConflictSide | ConflictFieldChoices
+): Partial<Article> {
+  const discarded: ConflictSide = conflict.kept === 'local' ? 'remote' : 'local';
+  const restored: Partial<Article> = {};
+  for (const field of getConflictingFields(conflict)) {
+    const side = typeof choices === 'string' ? choices : choices[field];
+    if (side !== discarded) continue;
+    // Assigned explicitly so an unset value (e.g. no deletedAt) clears the field
+    Object.assign(restored, { [field]: conflict[discarded][field] });
+  }
+  return restored;
+}
+
+export const conflictRepository = new ConflictRepository();
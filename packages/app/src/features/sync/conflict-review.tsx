@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { Check } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { SidebarTrigger } from '@/components/ui/sidebar';
+import type { Article, ArticleConflict, ConflictReason, MergeableField } from '@/lib/db';
+import { cn } from '@/lib/utils';
+import { ConflictFieldChoices, ConflictSide, getConflictingFields } from './conflict-repository';
+import { useConflicts, useResolveConflict } from './use-conflicts';
+
+const FIELD_LABELS: Record<MergeableField, string> = {
+  title: 'Title',
+  description: 'Description',
+  featuredImage: 'Image',
+  tags: 'Tags',
+  notes: 'Notes',
+  archived: 'Archived',
+  favorite: 'Favorite',
+  deletedAt: 'Deleted',
+};
+
+const REASON_LABELS: Record<ConflictReason, string> = {
+  'concurrent-edit': 'Changed on this device and elsewhere before they synced',
+  'url-mismatch': 'The sheet row did not match this article',
+  'corrupted-remote': 'The sheet row was missing its title or domain',
+};
+
+function formatValue(article: Article, field: MergeableField): string {
+  const value = article[field];
+  if (field === 'deletedAt') return value ? new Date(value as number).toLocaleString() : 'No';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return value ? String(value) : '—';
+}
+
+function VersionCell({
+  article,
+  field,
+  selected,
+  onSelect,
+}: {
+  article: Article;
+  field: MergeableField;
+  selected: boolean;
+  onSelect: () => void;
+}) {
+  return (
+    <button
+      type="button"
+      aria-pressed={selected}
+      onClick={onSelect}
+      className={cn(
+        'flex items-start gap-2 rounded-md border p-2 text-left text-sm break-words',
+        selected ? 'border-primary bg-primary/5' : 'border-border text-muted-foreground hover:bg-accent/50'
+      )}
+    >
+      <Check className={cn('mt-0.5 h-4 w-4 shrink-0', selected ? 'text-primary' : 'invisible')} />
+      <span className="min-w-0">{formatValue(article, field)}</span>
+    </button>
+  );
+}
+
+function ConflictCard({ conflict }: { conflict: ArticleConflict }) {
+  const resolve = useResolveConflict();
+  const fields = getConflictingFields(conflict);
+  const [choices, setChoices] = useState<ConflictFieldChoices>(() =>
+    Object.fromEntries(fields.map(field => [field, conflict.kept]))
+  );
+
+  const choose = (field: MergeableField, side: ConflictSide) => setChoices(prev => ({ ...prev, [field]: side }));
+  const submit = (value: ConflictSide | ConflictFieldChoices) => resolve.mutate({ url: conflict.url, choices: value });
+
+  return (
+    <li className="py-4 space-y-3">
+      <div className="space-y-0.5">
+        <p className="font-medium break-words">{conflict[conflict.kept].title || conflict.url}</p>
+        <p className="text-sm text-muted-foreground truncate" title={conflict.url}>{conflict.url}</p>
+        <p className="text-xs text-muted-foreground">
+          {REASON_LABELS[conflict.reason]}. Sync kept the {conflict.kept === 'local' ? 'local' : 'sheet'} version
+          on {new Date(conflict.detectedAt).toLocaleString()}.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-[auto_1fr_1fr] gap-2 items-start">
+        <span />
+        <span className="text-xs font-medium text-muted-foreground">This device</span>
+        <span className="text-xs font-medium text-muted-foreground">Google Sheets</span>
+        {fields.map(field => (
+          <div key={field} className="contents">
+            <span className="pt-2 text-sm font-medium">{FIELD_LABELS[field]}</span>
+            <VersionCell
+              article={conflict.local}
+              field={field}
+              selected={choices[field] === 'local'}
+              onSelect={() => choose(field, 'local')}
+            />
+            <VersionCell
+              article={conflict.remote}
+              field={field}
+              selected={choices[field] === 'remote'}
+              onSelect={() => choose(field, 'remote')}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" size="sm" disabled={resolve.isPending} onClick={() => submit('local')}>
+          Keep local
+        </Button>
+        <Button variant="outline" size="sm" disabled={resolve.isPending} onClick={() => submit('remote')}>
+          Keep remote
+        </Button>
+        <Button size="sm" disabled={resolve.isPending} onClick={() => submit(choices)}>
+          Save selection
+        </Button>
+      </div>
+    </li>
+  );
+}
+
+/** Articles where sync had to discard a whole version, shown side by side for the user to settle. */
+export function ConflictReview() {
+  const { data: conflicts = [], isLoading } = useConflicts();
+
+  return (
+    <div className="p-4 min-h-screen bg-background text-foreground">
+      <div className="flex items-center gap-2 mb-4">
+        <SidebarTrigger />
+        <h1 className="text-lg font-semibold">Conflicts</h1>
+      </div>
+
+      {!isLoading && conflicts.length === 0 && (
+        <p className="py-4 text-sm text-muted-foreground">No conflicts to review.</p>
+      )}
+
+      {conflicts.length > 0 && (
+        <ul className="max-w-3xl divide-y divide-border">
+          {conflicts.map(conflict => (
+            <ConflictCard key={`${conflict.url}-${conflict.detectedAt}`} conflict={conflict} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
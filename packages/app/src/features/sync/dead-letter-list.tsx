@@ -0,0 +1,61 @@
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { DeadLetter } from '@/lib/db';
+import { useDeadLetters, useDiscardDeadLetter, useRetryDeadLetter } from './use-dead-letters';
+
+function describeOperation(letter: DeadLetter): string {
+  if (letter.kind === 'highlight') return 'Highlight';
+  switch (letter.operation.type) {
+    case 'create': return 'New article';
+    case 'update': return 'Article change';
+    case 'delete': return 'Article removal';
+  }
+}
+
+function DeadLetterRow({ letter }: { letter: DeadLetter }) {
+  const retry = useRetryDeadLetter();
+  const discard = useDiscardDeadLetter();
+  const busy = retry.isPending || discard.isPending;
+
+  return (
+    <li className="py-3 flex items-start justify-between gap-4">
+      <div className="min-w-0 space-y-0.5">
+        <p className="text-sm font-medium">{describeOperation(letter)}</p>
+        <p className="text-sm text-muted-foreground truncate" title={letter.operation.articleUrl}>
+          {letter.operation.articleUrl}
+        </p>
+        <p className="text-xs text-destructive break-words">{letter.error}</p>
+        <p className="text-xs text-muted-foreground">
+          Failed {letter.operation.retryCount} times, last on {new Date(letter.failedAt).toLocaleString()}
+        </p>
+      </div>
+      <div className="flex shrink-0 gap-2">
+        <Button variant="outline" size="sm" disabled={busy} onClick={() => retry.mutate(letter.id)}>
+          <RotateCcw className="mr-1.5 h-4 w-4" /> Retry
+        </Button>
+        <Button variant="ghost" size="sm" disabled={busy} onClick={() => discard.mutate(letter.id)}>
+          <Trash2 className="mr-1.5 h-4 w-4" /> Discard
+        </Button>
+      </div>
+    </li>
+  );
+}
+
+/** Changes that could not be pushed after all retries, with a way to retry or drop each one. */
+export function DeadLetterList() {
+  const { data: letters = [], isLoading } = useDeadLetters();
+
+  if (isLoading) return null;
+
+  if (letters.length === 0) {
+    return <p className="py-4 text-sm text-muted-foreground">All changes reached Google Sheets.</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-border">
+      {letters.map(letter => (
+        <DeadLetterRow key={letter.id} letter={letter} />
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { db } from '@/lib/db';
+import { ArticleRepository } from '@/features/articles/repository';
+import { HighlightRepository } from '@/features/highlights/repository';
+import { DeadLetterRepository } from './dead-letter-repository';
+import { createTestArticle, createTestSyncOperation } from '@/features/articles/__tests__/helpers/fixtures';
+import { createTestHighlight, createTestHighlightOperation } from '@/features/highlights/__tests__/helpers/fixtures';
+
+describe('DeadLetterRepository', () => {
+  const articles = new ArticleRepository();
+  const highlights = new HighlightRepository();
+  const repository = new DeadLetterRepository();
+
+  beforeEach(async () => {
+    await Promise.all([
+      db.articles.clear(),
+      db.syncQueue.clear(),
+      db.highlights.clear(),
+      db.highlightSyncQueue.clear(),
+      db.deadLetters.clear(),
+    ]);
+  });
+
+  async function deadLetterArticle(url = 'https://example.com/stuck') {
+    const article = createTestArticle({ url });
+    const operation = createTestSyncOperation({ articleUrl: url, data: article, retryCount: 3 });
+    await db.articles.add(article);
+    await db.syncQueue.add(operation);
+    await articles.moveToDeadLetter(operation, 'Row is protected');
+    return operation;
+  }
+
+  it('should take a dead-lettered operation off the queue', async () => {
+    const operation = await deadLetterArticle();
+
+    expect(await db.syncQueue.count()).toBe(0);
+    const [letter] = await repository.getAll();
+    expect(letter).toMatchObject({ id: operation.id, kind: 'article', error: 'Row is protected' });
+    expect(letter.operation.retryCount).toBe(4);
+  });
+
+  it('should requeue an operation with a fresh retry budget', async () => {
+    const operation = await deadLetterArticle();
+
+    await repository.retry(operation.id);
+
+    expect(await repository.getCount()).toBe(0);
+    const queued = await db.syncQueue.get(operation.id);
+    expect(queued?.retryCount).toBe(0);
+    expect(queued?.lastError).toBeUndefined();
+  });
+
+  it('should stop counting a discarded article as pending', async () => {
+    const operation = await deadLetterArticle();
+
+    await repository.discard(operation.id);
+
+    expect(await repository.getCount()).toBe(0);
+    expect(await db.syncQueue.count()).toBe(0);
+    expect((await db.articles.get(operation.articleUrl))?.syncStatus).toBe('synced');
+  });
+
+  it('should keep an article pending while a newer change is still queued', async () => {
+    const operation = await deadLetterArticle();
+    await db.syncQueue.add(createTestSyncOperation({ type: 'update', articleUrl: operation.articleUrl }));
+
+    await repository.discard(operation.id);
+
+    expect((await db.articles.get(operation.articleUrl))?.syncStatus).toBe('pending');
+  });
+
+  it('should requeue highlight operations on the highlight queue', async () => {
+    const operation = createTestHighlightOperation({ highlightId: 'h1', retryCount: 3 });
+    await db.highlights.add(createTestHighlight({ id: 'h1' }));
+    await db.highlightSyncQueue.add(operation);
+    await highlights.moveToDeadLetter(operation, 'Quota exceeded');
+
+    await repository.retry(operation.id);
+
+    expect(await db.highlightSyncQueue.get(operation.id)).toMatchObject({ highlightId: 'h1', retryCount: 0 });
+    expect(await db.syncQueue.count()).toBe(0);
+  });
+});
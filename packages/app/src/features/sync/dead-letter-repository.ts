@@ -0,0 +1,70 @@
+import { db, DeadLetter, HighlightSyncOperation, SyncOperation } from '@/lib/db.js';
+import { notifyLocalChange } from '@/lib/local-changes.js';
+
+/**
+ * Sync operations that ran out of retries. They stay here, out of the queue,
+ * until the user puts them back with a fresh retry budget or gives up on them.
+ */
+export class DeadLetterRepository {
+  /** Most recent failures first. */
+  async getAll(): Promise<DeadLetter[]> {
+    return await db.deadLetters.orderBy('failedAt').reverse().toArray();
+  }
+
+  async getCount(): Promise<number> {
+    return await db.deadLetters.count();
+  }
+
+  /** Requeues the operation as if it was new; the next sync pushes it again. */
+  async retry(id: string): Promise<void> {
+    await db.transaction('rw', [db.deadLetters, db.syncQueue, db.highlightSyncQueue], async () => {
+      const letter = await db.deadLetters.get(id);
+      if (!letter) return;
+
+      if (letter.kind === 'article') {
+        await db.syncQueue.put(withFreshRetries(letter.operation));
+      } else {
+        await db.highlightSyncQueue.put(withFreshRetries(letter.operation));
+      }
+      await db.deadLetters.delete(id);
+    });
+
+    notifyLocalChange();
+  }
+
+  /**
+   * Drops the operation. The local record keeps its content but stops counting
+   * as pending, unless another queued change still has to push it.
+   */
+  async discard(id: string): Promise<void> {
+    await db.transaction(
+      'rw',
+      [db.deadLetters, db.articles, db.syncQueue, db.highlights, db.highlightSyncQueue],
+      async () => {
+        const letter = await db.deadLetters.get(id);
+        if (!letter) return;
+        await db.deadLetters.delete(id);
+
+        if (letter.kind === 'article') {
+          const { articleUrl } = letter.operation;
+          const stillQueued = await db.syncQueue.where('articleUrl').equals(articleUrl).count();
+          if (stillQueued === 0) {
+            await db.articles.where('url').equals(articleUrl).modify({ syncStatus: 'synced' });
+          }
+        } else {
+          const { highlightId } = letter.operation;
+          const stillQueued = await db.highlightSyncQueue.where('highlightId').equals(highlightId).count();
+          if (stillQueued === 0) {
+            await db.highlights.where('id').equals(highlightId).modify({ syncStatus: 'synced' });
+          }
+        }
+      }
+    );
+  }
+}
+
+function withFreshRetries<T extends SyncOperation | HighlightSyncOperation>(operation: T): T {
+  return { ...operation, retryCount: 0, nextRetryAt: undefined, lastError: undefined };
+}
+
+export const deadLetterRepository = new DeadLetterRepository();
@@ -5,23 +5,53 @@ import {
   LocalStorageSpreadsheetStorage,
   AuthenticationRequiredError
 } from '@readlater/google-sheets-sync';
+import { getActiveListId } from '@/lib/active-list';
+import { DEFAULT_ACCOUNT_ID, getAccountEmail, getActiveAccountId } from '@/lib/account';
 
-let syncEngine: GoogleSheetsSyncEngine | null = null;
-let authProvider: PwaAuthProvider | null = null;
+// One auth provider per account, and one engine per reading list of each account
+const authProviders = new Map<string, PwaAuthProvider>();
+const syncEngines = new Map<string, GoogleSheetsSyncEngine>();
 
-export const initializeGoogleSheetsSync = (config: GoogleSheetsConfig): GoogleSheetsSyncEngine => {
-  if (!syncEngine) {
-    authProvider = new PwaAuthProvider({
+// The default account keeps the keys it had before there were accounts
+const storageAccountId = (accountId: string): string | undefined =>
+  accountId === DEFAULT_ACCOUNT_ID ? undefined : accountId;
+
+const getProviderForAccount = (config: GoogleSheetsConfig, accountId: string): PwaAuthProvider => {
+  let provider = authProviders.get(accountId);
+  if (!provider) {
+    provider = new PwaAuthProvider({
       clientId: config.CLIENT_ID,
       apiKey: config.API_KEY,
+      accountId: storageAccountId(accountId),
+      loginHint: () => getAccountEmail(accountId),
     });
-    const storage = new LocalStorageSpreadsheetStorage();
-    syncEngine = new GoogleSheetsSyncEngine(authProvider, storage);
+    authProviders.set(accountId, provider);
+  }
+  return provider;
+};
+
+const getEngineForList = (provider: PwaAuthProvider, accountId: string, listId: string): GoogleSheetsSyncEngine => {
+  const key = `${accountId}/${listId}`;
+  let engine = syncEngines.get(key);
+  if (!engine) {
+    engine = new GoogleSheetsSyncEngine(provider, getSpreadsheetStorage(accountId), undefined, listId);
+    syncEngines.set(key, engine);
   }
-  return syncEngine;
+  return engine;
+};
+
+/** Returns the engine of the active account's active reading list, creating its auth provider on first use. */
+export const initializeGoogleSheetsSync = (config: GoogleSheetsConfig): GoogleSheetsSyncEngine => {
+  const accountId = getActiveAccountId();
+  return getEngineForList(getProviderForAccount(config, accountId), accountId, getActiveListId());
 };
 
+/** Where an account's default spreadsheet ID is cached. */
+export const getSpreadsheetStorage = (accountId: string = getActiveAccountId()): LocalStorageSpreadsheetStorage =>
+  new LocalStorageSpreadsheetStorage(storageAccountId(accountId));
+
 export const getAuthProvider = (): PwaAuthProvider => {
+  const authProvider = authProviders.get(getActiveAccountId());
   if (!authProvider) {
     throw new Error('Auth provider not initialized. Call initializeGoogleSheetsSync first.');
   }
@@ -30,7 +60,23 @@ export const getAuthProvider = (): PwaAuthProvider => {
 
 // Safe version that doesn't throw if not initialized
 export const getAuthProviderSafely = (): PwaAuthProvider | null => {
-  return authProvider;
+  return authProviders.get(getActiveAccountId()) ?? null;
+}
+
+// Safe version that doesn't throw if not initialized
+export const getSyncEngineSafely = (): GoogleSheetsSyncEngine | null => {
+  const accountId = getActiveAccountId();
+  const authProvider = authProviders.get(accountId);
+  return authProvider ? getEngineForList(authProvider, accountId, getActiveListId()) : null;
 }
 
-export { AuthenticationRequiredError };
\ No newline at end of file
+/** Signs an account out and drops its provider and engines, when it is removed from the device. */
+export const releaseAccount = async (accountId: string): Promise<void> => {
+  await authProviders.get(accountId)?.clearAuthToken();
+  authProviders.delete(accountId);
+  for (const key of syncEngines.keys()) {
+    if (key.startsWith(`${accountId}/`)) syncEngines.delete(key);
+  }
+};
+
+export { AuthenticationRequiredError };
@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest';
+import { mergeArticles, mergeHighlights, toSyncBase, getChangedFields } from './merge';
+import { createTestArticle } from '@/features/articles/__tests__/helpers/fixtures';
+import { createTestHighlight } from '@/features/highlights/__tests__/helpers/fixtures';
+import type { Highlight } from '@/features/articles/types';
+
+describe('mergeArticles', () => {
+  const base = toSyncBase(createTestArticle({
+    url: 'https://test.com',
+    title: 'Original',
+    tags: ['a', 'b'],
+    notes: 'original notes',
+    timestamp: 1000,
+    editedAt: 1000,
+    syncStatus: 'synced',
+  }), 1000);
+
+  const fromBase = (overrides: Parameters<typeof createTestArticle>[0]) =>
+    createTestArticle({ ...base, syncStatus: 'synced', ...overrides });
+
+  it('should keep both sides when different fields were edited', () => {
+    const local = fromBase({ notes: 'local notes', editedAt: 2000, syncStatus: 'pending' });
+    const remote = fromBase({ favorite: true, editedAt: 3000 });
+
+    const { article, conflicts, needsPush } = mergeArticles(base, local, remote);
+
+    expect(article.notes).toBe('local notes');
+    expect(article.favorite).toBe(true);
+    expect(article.editedAt).toBe(3000);
+    expect(conflicts).toEqual([]);
+    expect(needsPush).toBe(true);
+  });
+
+  it('should take remote changes when local is unchanged', () => {
+    const local = fromBase({});
+    const remote = fromBase({ title: 'Remote Title', archived: true, editedAt: 2000 });
+
+    const { article, needsPush } = mergeArticles(base, local, remote);
+
+    expect(article.title).toBe('Remote Title');
+    expect(article.archived).toBe(true);
+    expect(needsPush).toBe(false);
+  });
+
+  it('should merge concurrent tag edits as sets', () => {
+    const local = fromBase({ tags: ['a', 'b', 'local'], editedAt: 2000 });
+    const remote = fromBase({ tags: ['b', 'remote'], editedAt: 3000 });
+
+    const { article, conflicts } = mergeArticles(base, local, remote);
+
+    // 'a' was removed remotely, both additions survive
+    expect(article.tags).toEqual(['b', 'local', 'remote']);
+    expect(conflicts).toEqual([]);
+  });
+
+  it('should resolve same-field conflicts using per-field edit times', () => {
+    const local = fromBase({
+      notes: 'local notes',
+      title: 'Local Title',
+      editedAt: 5000,
+      fieldEditedAt: { notes: 4000, title: 1500 },
+    });
+    const remote = fromBase({ notes: 'remote notes', title: 'Remote Title', editedAt: 3000 });
+
+    const { article, conflicts } = mergeArticles(base, local, remote);
+
+    expect(article.notes).toBe('local notes');
+    expect(article.title).toBe('Remote Title');
+    expect(conflicts).toEqual([
+      { field: 'title', winner: 'remote' },
+      { field: 'notes', winner: 'local' },
+    ]);
+  });
+
+  it('should prefer local on tied conflict times', () => {
+    const local = fromBase({ notes: 'local notes', editedAt: 2000 });
+    const remote = fromBase({ notes: 'remote notes', editedAt: 2000 });
+
+    const { article } = mergeArticles(base, local, remote);
+
+    expect(article.notes).toBe('local notes');
+  });
+
+  it('should keep a remote deletion alongside local edits to other fields', () => {
+    const local = fromBase({ notes: 'edited before delete', editedAt: 2000 });
+    const remote = fromBase({ deletedAt: 3000, editedAt: 3000 });
+
+    const { article, conflicts } = mergeArticles(base, local, remote);
+
+    expect(article.deletedAt).toBe(3000);
+    expect(article.notes).toBe('edited before delete');
+    expect(conflicts).toEqual([]);
+  });
+
+  it('should take attribution from the newer side', () => {
+    const local = fromBase({ notes: 'local notes', editedAt: 2000, addedBy: 'me@example.com', editedBy: 'me@example.com', syncStatus: 'pending' });
+    const remote = fromBase({ favorite: true, editedAt: 3000, addedBy: 'teammate@example.com', editedBy: 'teammate@example.com' });
+
+    const { article } = mergeArticles(base, local, remote);
+
+    expect(article.addedBy).toBe('teammate@example.com');
+    expect(article.editedBy).toBe('teammate@example.com');
+    expect(mergeArticles(base, { ...local, editedAt: 4000 }, remote).article.editedBy).toBe('me@example.com');
+  });
+
+  it('should treat empty sheet values as equal to unset local values', () => {
+    const emptyBase = toSyncBase(createTestArticle({ url: 'https://test.com', description: undefined, notes: undefined }));
+    const local = createTestArticle({ url: 'https://test.com', description: undefined, notes: undefined });
+    const remote = createTestArticle({ url: 'https://test.com', description: '', notes: '' });
+
+    const { needsPush, conflicts } = mergeArticles(emptyBase, local, remote);
+
+    expect(needsPush).toBe(false);
+    expect(conflicts).toEqual([]);
+  });
+});
+
+describe('getChangedFields', () => {
+  it('should only report fields whose values differ', () => {
+    const article = createTestArticle({ title: 'Same', tags: ['x'], favorite: false });
+
+    expect(getChangedFields(article, { title: 'Same', tags: ['x'], favorite: true, notes: 'new' }))
+      .toEqual(['notes', 'favorite']);
+  });
+});
+
+describe('mergeHighlights', () => {
+  const createdAt = '2024-01-01T00:00:00.000Z';
+  const remoteBase: Highlight = {
+    id: 'test-highlight',
+    articleUrl: 'https://example.com/test-article',
+    text: 'A memorable passage',
+    color: 'yellow',
+    createdAt,
+  };
+
+  it('should take the remote version when there are no local changes', () => {
+    const local = createTestHighlight({ createdAt, syncStatus: 'synced' });
+    const remote = { ...remoteBase, note: 'remote note', editedAt: '2024-01-02T00:00:00.000Z' };
+
+    const { highlight, needsPush } = mergeHighlights(local, remote);
+
+    expect(highlight.note).toBe('remote note');
+    expect(highlight.syncStatus).toBe('synced');
+    expect(needsPush).toBe(false);
+  });
+
+  it('should keep a newer pending local edit and push it', () => {
+    const local = createTestHighlight({ createdAt, note: 'local note', editedAt: '2024-01-03T00:00:00.000Z' });
+    const remote = { ...remoteBase, note: 'remote note', editedAt: '2024-01-02T00:00:00.000Z' };
+
+    const { highlight, needsPush } = mergeHighlights(local, remote);
+
+    expect(highlight.note).toBe('local note');
+    expect(needsPush).toBe(true);
+  });
+
+  it('should let a later remote edit win over an older pending local edit', () => {
+    const local = createTestHighlight({ createdAt, color: 'green', editedAt: '2024-01-02T00:00:00.000Z' });
+    const remote = { ...remoteBase, color: 'pink' as const, editedAt: '2024-01-03T00:00:00.000Z' };
+
+    const { highlight, needsPush } = mergeHighlights(local, remote);
+
+    expect(highlight.color).toBe('pink');
+    expect(needsPush).toBe(false);
+  });
+
+  it('should keep a remote deletion even when the local edit is newer', () => {
+    const local = createTestHighlight({ createdAt, note: 'local note', editedAt: '2024-01-03T00:00:00.000Z' });
+    const remote = { ...remoteBase, deletedAt: '2024-01-02T00:00:00.000Z', editedAt: '2024-01-02T00:00:00.000Z' };
+
+    const { highlight } = mergeHighlights(local, remote);
+
+    expect(highlight.deletedAt).toBe('2024-01-02T00:00:00.000Z');
+    expect(highlight.note).toBe('local note');
+  });
+});
@@ -0,0 +1,202 @@
+import { Article, HighlightRecord, MERGEABLE_FIELDS, MergeableField, SyncBase } from '@/lib/db.js';
+import type { Highlight } from '@/features/articles/types.js';
+
+export interface FieldConflict {
+  field: MergeableField;
+  winner: 'local' | 'remote';
+}
+
+export interface MergeResult {
+  article: Article;
+  /** Fields changed on both sides to different values */
+  conflicts: FieldConflict[];
+  /** True when the merged article differs from the remote version and must be pushed */
+  needsPush: boolean;
+}
+
+/**
+ * Three-way merge of a local and a remote article against their last synced base.
+ *
+ * Fields changed on only one side take that side's value, so concurrent edits to
+ * different fields are all preserved. Tags are merged as sets (additions and
+ * removals from both sides apply). When both sides changed the same field, the
+ * per-field edit time decides, with ties going to local.
+ */
+export function mergeArticles(base: SyncBase, local: Article, remote: Article): MergeResult {
+  const merged: Article = { ...local };
+  const conflicts: FieldConflict[] = [];
+
+  for (const field of MERGEABLE_FIELDS) {
+    const baseValue = normalizeField(field, base[field]);
+    const localValue = normalizeField(field, local[field]);
+    const remoteValue = normalizeField(field, remote[field]);
+
+    const localChanged = !fieldEquals(localValue, baseValue);
+    const remoteChanged = !fieldEquals(remoteValue, baseValue);
+
+    if (!remoteChanged || fieldEquals(localValue, remoteValue)) {
+      continue; // Keep local value
+    }
+
+    if (!localChanged) {
+      setField(merged, field, remote[field]);
+      continue;
+    }
+
+    if (field === 'tags') {
+      merged.tags = mergeTags(base.tags, local.tags, remote.tags);
+      continue;
+    }
+
+    const winner = getLocalFieldTime(local, field) >= getRemoteFieldTime(remote, field) ? 'local' : 'remote';
+    if (winner === 'remote') {
+      setField(merged, field, remote[field]);
+    }
+    conflicts.push({ field, winner });
+  }
+
+  merged.editedAt = latest(local.editedAt, remote.editedAt);
+  // Attribution is written by the sheet side; follow whichever version is newer
+  merged.addedBy = remote.addedBy ?? local.addedBy;
+  merged.editedBy = (remote.editedAt ?? 0) >= (local.editedAt ?? 0) ? remote.editedBy ?? local.editedBy : local.editedBy;
+
+  const needsPush = MERGEABLE_FIELDS.some(
+    field => !fieldEquals(normalizeField(field, merged[field]), normalizeField(field, remote[field]))
+  );
+
+  return { article: merged, conflicts, needsPush };
+}
+
+export interface HighlightMergeResult {
+  highlight: HighlightRecord;
+  /** True when the merged highlight differs from the remote row and must be pushed */
+  needsPush: boolean;
+}
+
+/**
+ * Reconciles a local highlight with its remote row. The quoted text never changes,
+ * so only the note, color and deletion can conflict: a pending local edit wins
+ * unless the remote row was edited later, and a deletion on either side sticks.
+ */
+export function mergeHighlights(local: HighlightRecord, remote: Highlight): HighlightMergeResult {
+  if (local.syncStatus !== 'pending') {
+    return { highlight: { ...remote, syncStatus: 'synced' }, needsPush: false };
+  }
+
+  const winner = highlightEditTime(local) >= highlightEditTime(remote) ? local : remote;
+  const merged: HighlightRecord = {
+    ...local,
+    note: winner.note,
+    color: winner.color,
+    editedAt: winner.editedAt ?? local.editedAt ?? remote.editedAt,
+    deletedAt: local.deletedAt ?? remote.deletedAt
+  };
+
+  const needsPush =
+    (merged.note || '') !== (remote.note || '') ||
+    merged.color !== remote.color ||
+    merged.deletedAt !== remote.deletedAt;
+
+  return {
+    highlight: { ...merged, syncStatus: needsPush ? 'pending' : 'synced' },
+    needsPush
+  };
+}
+
+/**
+ * Captures the remote state of an article as the base for future merges.
+ */
+export function toSyncBase(article: Article, syncedAt: number = Date.now()): SyncBase {
+  return {
+    url: article.url,
+    timestamp: article.timestamp,
+    editedAt: article.editedAt,
+    title: article.title,
+    description: article.description,
+    featuredImage: article.featuredImage,
+    tags: [...(article.tags ?? [])],
+    notes: article.notes,
+    archived: article.archived,
+    favorite: article.favorite,
+    deletedAt: article.deletedAt,
+    syncedAt
+  };
+}
+
+export function logFieldConflicts(url: string, conflicts: FieldConflict[]): void {
+  for (const { field, winner } of conflicts) {
+    console.log(`Field conflict on ${url}: both sides changed "${field}", keeping ${winner} value`);
+  }
+}
+
+/**
+ * Returns the mergeable fields whose values differ between two article versions.
+ */
+export function getChangedFields(from: Partial<Article>, to: Partial<Article>): MergeableField[] {
+  return MERGEABLE_FIELDS.filter(
+    field => field in to && !fieldEquals(normalizeField(field, from[field]), normalizeField(field, to[field]))
+  );
+}
+
+function mergeTags(base: string[], local: string[], remote: string[]): string[] {
+  const removed = new Set([
+    ...base.filter(tag => !local.includes(tag)),
+    ...base.filter(tag => !remote.includes(tag))
+  ]);
+
+  const result: string[] = [];
+  for (const tag of [...local, ...remote]) {
+    if (!removed.has(tag) && !result.includes(tag)) {
+      result.push(tag);
+    }
+  }
+  return result;
+}
+
+function getLocalFieldTime(local: Article, field: MergeableField): number {
+  return local.fieldEditedAt?.[field] ?? local.editedAt ?? local.timestamp;
+}
+
+function getRemoteFieldTime(remote: Article, field: MergeableField): number {
+  if (field === 'deletedAt' && remote.deletedAt) {
+    return remote.deletedAt;
+  }
+  return remote.editedAt ?? remote.timestamp;
+}
+
+function highlightEditTime(highlight: Highlight): number {
+  const time = new Date(highlight.editedAt ?? highlight.createdAt).getTime();
+  return isNaN(time) ? 0 : time;
+}
+
+function latest(a?: number, b?: number): number | undefined {
+  if (a === undefined) return b;
+  if (b === undefined) return a;
+  return Math.max(a, b);
+}
+
+// Sheets returns empty strings and flags for unset values, so treat them as equal to undefined
+function normalizeField(field: MergeableField, value: unknown): unknown {
+  switch (field) {
+    case 'tags':
+      return Array.isArray(value) ? value : [];
+    case 'archived':
+    case 'favorite':
+      return !!value;
+    case 'deletedAt':
+      return value || undefined;
+    default:
+      return value ?? '';
+  }
+}
+
+function fieldEquals(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, index) => value === b[index]);
+  }
+  return a === b;
+}
+
+function setField<K extends MergeableField>(target: Article, field: K, value: Article[K]): void {
+  target[field] = value;
+}
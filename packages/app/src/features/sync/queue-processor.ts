@@ -0,0 +1,323 @@
+import { DEFAULT_SYNC_TIMING, SyncTimingConfig } from '@readlater/core';
+import { Article, HighlightRecord, HighlightSyncOperation, SyncBase, SyncOperation } from '@/lib/db.js';
+import { ArticleRepository } from '@/features/articles/repository.js';
+import { HighlightRepository } from '@/features/highlights/repository.js';
+import { AuthenticationRequiredError } from '@readlater/google-sheets-sync';
+import type { GoogleSheetsSyncEngine } from '@readlater/google-sheets-sync';
+import { mergeArticles, toSyncBase, logFieldConflicts } from './merge.js';
+import { articleToSheetData, highlightToSheetData, isRemoteUsable, sheetDataToArticle } from './sheet-mapping.js';
+
+export interface SyncQueueResult {
+  processed: number;
+  failures: number;
+  errors: string[];
+}
+
+/** What processing the article queue would send to the sheet right now. */
+export interface ArticleQueuePlan {
+  creates: Article[];   // Rows to append
+  updates: Article[];   // Rows to overwrite, already merged with the current remote version
+  deletes: string[];    // URLs of rows to remove
+}
+
+export type SyncQueueRepository = Pick<
+  ArticleRepository,
+  | 'getPendingSyncOperations'
+  | 'removeSyncOperation'
+  | 'scheduleSyncRetry'
+  | 'moveToDeadLetter'
+  | 'markAsSynced'
+  | 'getByUrl'
+  | 'getSyncBase'
+  | 'saveSyncBases'
+  | 'bulkUpdate'
+>;
+
+export type HighlightQueueRepository = Pick<
+  HighlightRepository,
+  | 'getPendingSyncOperations'
+  | 'removeSyncOperation'
+  | 'scheduleSyncRetry'
+  | 'moveToDeadLetter'
+  | 'markAsSynced'
+  | 'getById'
+>;
+
+/**
+ * Pushes the queued article and highlight changes to the spreadsheet.
+ *
+ * Only touches the repositories and the engine, so it runs both inside
+ * SyncService and in the service worker, where there is no page to render.
+ * Authentication errors abort the run; other failures count against the operation.
+ *
+ * A failed operation waits `debounceMs` before its next attempt, doubling after
+ * each failure. Once it failed `maxRetries` more times it moves to the dead letters.
+ */
+export class SyncQueueProcessor {
+  constructor(
+    private readonly repository: SyncQueueRepository,
+    private readonly highlights: HighlightQueueRepository,
+    private readonly getSyncEngine: () => GoogleSheetsSyncEngine,
+    private readonly timing: SyncTimingConfig = DEFAULT_SYNC_TIMING
+  ) {}
+
+  async processArticleQueue(): Promise<SyncQueueResult> {
+    const operations = dueOperations(await this.repository.getPendingSyncOperations());
+    const result = emptyResult();
+
+    if (operations.length === 0) return result;
+
+    const syncEngine = this.getSyncEngine();
+    const { creates, updates, deletes } = groupOperations(operations);
+
+    // Process creates in batch (1 API call for all)
+    if (creates.length > 0) {
+      try {
+        const articles = creates.map(op => articleToSheetData(op.data as Article));
+        const results = await syncEngine.saveArticles(articles);
+        const bases: SyncBase[] = [];
+        for (let i = 0; i < creates.length; i++) {
+          if (results[i]?.success) {
+            await this.repository.removeSyncOperation(creates[i].id);
+            await this.repository.markAsSynced(creates[i].articleUrl);
+            bases.push(toSyncBase(creates[i].data as Article));
+            result.processed++;
+          } else {
+            await this.handleOperationFailure(creates[i], results[i]?.error || 'Batch create failed', result);
+          }
+        }
+        await this.repository.saveSyncBases(bases);
+      } catch (error) {
+        if (error instanceof AuthenticationRequiredError) throw error;
+        // Batch failed — mark all for retry
+        for (const op of creates) {
+          await this.handleOperationFailure(op, error instanceof Error ? error.message : 'Unknown error', result);
+        }
+      }
+    }
+
+    // Process updates in batch (1 read + 1 write API call for all)
+    if (updates.length > 0) {
+      try {
+        const payloads = await this.prepareUpdatePayloads(updates, syncEngine);
+        const batchUpdates = payloads.map(({ article }) => ({
+          url: article.url,
+          updates: articleToSheetData(article)
+        }));
+        const results = await syncEngine.batchUpdateArticles(batchUpdates);
+        const mergedArticles: Article[] = [];
+        const bases: SyncBase[] = [];
+        for (let i = 0; i < updates.length; i++) {
+          if (results[i]?.success) {
+            await this.repository.removeSyncOperation(updates[i].id);
+            await this.repository.markAsSynced(updates[i].articleUrl);
+            if (payloads[i].merged) {
+              mergedArticles.push({ ...payloads[i].article, syncStatus: 'synced' });
+            }
+            bases.push(toSyncBase(payloads[i].article));
+            result.processed++;
+          } else {
+            await this.handleOperationFailure(updates[i], results[i]?.error || 'Batch update failed', result);
+          }
+        }
+        if (mergedArticles.length > 0) {
+          await this.repository.bulkUpdate(mergedArticles);
+        }
+        await this.repository.saveSyncBases(bases);
+      } catch (error) {
+        if (error instanceof AuthenticationRequiredError) throw error;
+        for (const op of updates) {
+          await this.handleOperationFailure(op, error instanceof Error ? error.message : 'Unknown error', result);
+        }
+      }
+    }
+
+    // Process deletes in batch (1 read + 1 write API call for all)
+    if (deletes.length > 0) {
+      try {
+        const urls = deletes.map(op => op.articleUrl);
+        const results = await syncEngine.batchDeleteArticles(urls);
+        for (let i = 0; i < deletes.length; i++) {
+          if (results[i]?.success) {
+            await this.repository.removeSyncOperation(deletes[i].id);
+            result.processed++;
+          } else {
+            await this.handleOperationFailure(deletes[i], results[i]?.error || 'Batch delete failed', result);
+          }
+        }
+      } catch (error) {
+        if (error instanceof AuthenticationRequiredError) throw error;
+        for (const op of deletes) {
+          await this.handleOperationFailure(op, error instanceof Error ? error.message : 'Unknown error', result);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /** Builds the same batches as processArticleQueue without writing anywhere. */
+  async planArticleQueue(): Promise<ArticleQueuePlan> {
+    const { creates, updates, deletes } = groupOperations(dueOperations(await this.repository.getPendingSyncOperations()));
+    const payloads = updates.length > 0 ? await this.prepareUpdatePayloads(updates, this.getSyncEngine()) : [];
+
+    return {
+      creates: creates.map(op => op.data as Article),
+      updates: payloads.map(({ article }) => article),
+      deletes: deletes.map(op => op.articleUrl),
+    };
+  }
+
+  async processHighlightQueue(): Promise<SyncQueueResult> {
+    const operations = dueOperations(await this.highlights.getPendingSyncOperations());
+    const result = emptyResult();
+
+    if (operations.length === 0) return result;
+
+    // Each entry pushes the current local record (creates, edits and soft deletes alike)
+    const queued: Array<{ operation: HighlightSyncOperation; highlight: HighlightRecord }> = [];
+    for (const operation of operations) {
+      const highlight = await this.highlights.getById(operation.highlightId);
+      if (highlight) {
+        queued.push({ operation, highlight });
+      } else {
+        await this.highlights.removeSyncOperation(operation.id);
+      }
+    }
+
+    if (queued.length === 0) return result;
+
+    const syncEngine = this.getSyncEngine();
+    try {
+      const results = await syncEngine.saveHighlights(queued.map(({ highlight }) => highlightToSheetData(highlight)));
+      for (let i = 0; i < queued.length; i++) {
+        const { operation } = queued[i];
+        if (results[i]?.success) {
+          await this.highlights.removeSyncOperation(operation.id);
+          await this.highlights.markAsSynced(operation.highlightId);
+          result.processed++;
+        } else {
+          await this.handleHighlightOperationFailure(operation, results[i]?.error || 'Batch highlight save failed', result);
+        }
+      }
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      for (const { operation } of queued) {
+        await this.handleHighlightOperationFailure(operation, error instanceof Error ? error.message : 'Unknown error', result);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Builds the article versions to push for queued updates. Articles with a sync base
+   * are merged with the current remote version first, so fields edited on another
+   * device since the last sync are not overwritten by the local snapshot.
+   */
+  private async prepareUpdatePayloads(
+    updates: SyncOperation[],
+    syncEngine: GoogleSheetsSyncEngine
+  ): Promise<Array<{ article: Article; merged: boolean }>> {
+    const payloads: Array<{ article: Article; merged: boolean }> = [];
+    let remoteByUrl: Map<string, Article> | null = null;
+
+    for (const op of updates) {
+      const local = (await this.repository.getByUrl(op.articleUrl)) ?? (op.data as Article);
+      const base = await this.repository.getSyncBase(op.articleUrl);
+      if (!base) {
+        payloads.push({ article: local, merged: false });
+        continue;
+      }
+
+      if (!remoteByUrl) {
+        const remoteArticles = await syncEngine.getArticlesByUrl(updates.map(update => update.articleUrl));
+        remoteByUrl = new Map(
+          remoteArticles
+            .filter(data => data.url)
+            .map(data => [data.url, sheetDataToArticle(data)])
+        );
+      }
+
+      const remote = remoteByUrl.get(op.articleUrl);
+      if (!remote || !isRemoteUsable(remote)) {
+        payloads.push({ article: local, merged: false });
+        continue;
+      }
+
+      const { article, conflicts } = mergeArticles(base, local, remote);
+      logFieldConflicts(op.articleUrl, conflicts);
+      payloads.push({ article, merged: true });
+    }
+
+    return payloads;
+  }
+
+  private async handleHighlightOperationFailure(
+    operation: HighlightSyncOperation,
+    errorMessage: string,
+    result: SyncQueueResult
+  ): Promise<void> {
+    console.error(`Failed to push highlight ${operation.highlightId} (${operation.articleUrl}):`, errorMessage);
+    result.failures++;
+    result.errors.push(`Highlight ${operation.highlightId} for ${operation.articleUrl}: ${errorMessage}`);
+
+    if (this.isOutOfRetries(operation)) {
+      console.warn(`Moving highlight sync operation ${operation.id} to dead letters after ${operation.retryCount + 1} failed attempts`);
+      await this.highlights.moveToDeadLetter(operation, errorMessage);
+    } else {
+      await this.highlights.scheduleSyncRetry(operation.id, errorMessage, this.nextRetryAt(operation));
+    }
+  }
+
+  private async handleOperationFailure(
+    operation: SyncOperation,
+    errorMessage: string,
+    result: SyncQueueResult
+  ): Promise<void> {
+    console.error(`Failed sync operation ${operation.id} (${operation.type} ${operation.articleUrl}):`, errorMessage);
+    result.failures++;
+    result.errors.push(`Operation ${operation.type} for ${operation.articleUrl}: ${errorMessage}`);
+
+    if (this.isOutOfRetries(operation)) {
+      console.warn(`Moving sync operation ${operation.id} to dead letters after ${operation.retryCount + 1} failed attempts`);
+      await this.repository.moveToDeadLetter(operation, errorMessage);
+    } else {
+      await this.repository.scheduleSyncRetry(operation.id, errorMessage, this.nextRetryAt(operation));
+    }
+  }
+
+  // retryCount is the number of earlier failures; the first attempt is not a retry
+  private isOutOfRetries(operation: { retryCount: number }): boolean {
+    return operation.retryCount >= this.timing.maxRetries;
+  }
+
+  private nextRetryAt(operation: { retryCount: number }): number {
+    return Date.now() + this.timing.debounceMs * Math.pow(2, operation.retryCount);
+  }
+}
+
+// Group operations by type for batch processing
+function groupOperations(operations: SyncOperation[]): Record<'creates' | 'updates' | 'deletes', SyncOperation[]> {
+  const groups = { creates: [] as SyncOperation[], updates: [] as SyncOperation[], deletes: [] as SyncOperation[] };
+
+  for (const op of operations) {
+    switch (op.type) {
+      case 'create': if (op.data.url) groups.creates.push(op); break;
+      case 'update': if (op.data.url) groups.updates.push(op); break;
+      case 'delete': groups.deletes.push(op); break;
+    }
+  }
+
+  return groups;
+}
+
+// Operations still backing off after a failure wait for a later sync
+function dueOperations<T extends { nextRetryAt?: number }>(operations: T[]): T[] {
+  const now = Date.now();
+  return operations.filter(operation => !operation.nextRetryAt || operation.nextRetryAt <= now);
+}
+
+function emptyResult(): SyncQueueResult {
+  return { processed: 0, failures: 0, errors: [] };
+}
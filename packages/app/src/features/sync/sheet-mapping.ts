@@ -0,0 +1,65 @@
+import { Article, HighlightRecord } from '@/lib/db.js';
+import { ArticleData, Highlight } from '@/features/articles/types.js';
+
+/**
+ * Conversions between local records and the shapes the sync engine reads and
+ * writes. Local timestamps are epoch milliseconds, the sheet stores ISO strings.
+ */
+
+export function articleToSheetData(article: Article): ArticleData {
+  return {
+    url: article.url,
+    title: article.title,
+    description: article.description || '',
+    featuredImage: article.featuredImage || '',
+    domain: article.domain,
+    timestamp: new Date(article.timestamp).toISOString(),
+    tags: article.tags,
+    notes: article.notes,
+    archived: article.archived,
+    favorite: article.favorite,
+    editedAt: article.editedAt ? new Date(article.editedAt).toISOString() : undefined,
+    deletedAt: article.deletedAt ? new Date(article.deletedAt).toISOString() : undefined,
+    addedBy: article.addedBy,
+    editedBy: article.editedBy
+  };
+}
+
+export function sheetDataToArticle(data: ArticleData): Article {
+  return {
+    url: data.url,
+    title: data.title,
+    description: data.description,
+    featuredImage: data.featuredImage,
+    domain: data.domain,
+    timestamp: new Date(data.timestamp).getTime(),
+    tags: data.tags || [],
+    notes: data.notes,
+    archived: data.archived || false,
+    favorite: data.favorite || false,
+    editedAt: data.editedAt ? new Date(data.editedAt).getTime() : undefined,
+    deletedAt: data.deletedAt ? new Date(data.deletedAt).getTime() : undefined,
+    addedBy: data.addedBy,
+    editedBy: data.editedBy,
+    syncStatus: 'synced'
+  };
+}
+
+export function highlightToSheetData(highlight: HighlightRecord): Highlight {
+  return {
+    id: highlight.id,
+    articleUrl: highlight.articleUrl,
+    text: highlight.text,
+    context: highlight.context,
+    note: highlight.note,
+    color: highlight.color,
+    createdAt: highlight.createdAt,
+    editedAt: highlight.editedAt,
+    deletedAt: highlight.deletedAt
+  };
+}
+
+/** Rows without a title or domain are damaged (e.g. cleared by hand) and never win a merge. */
+export function isRemoteUsable(remote: Article): boolean {
+  return !!remote.title && !!remote.domain;
+}
@@ -0,0 +1,249 @@
+import { useState } from 'react';
+import { Link } from 'react-router';
+import { ArrowLeft, CheckCircle2, Loader2, Stethoscope, Wrench } from 'lucide-react';
+import { countIssues } from '@readlater/google-sheets-sync';
+import type { RepairOptions, RepairResult, SpreadsheetDiagnosis } from '@readlater/google-sheets-sync';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Separator } from '@/components/ui/separator';
+import { useDiagnoseSpreadsheet, useRepairSpreadsheet } from './use-spreadsheet-check';
+
+type RepairKind = keyof RepairOptions;
+
+const MAX_ITEMS = 10;
+
+const INVALID_ROW_LABELS = {
+  'missing-url': 'No URL',
+  'invalid-url': 'URL is not valid',
+  'missing-title': 'No title',
+};
+
+function IssueSection({ title, description, items }: { title: string; description: string; items: string[] }) {
+  if (items.length === 0) return null;
+
+  return (
+    <div className="py-3 space-y-1">
+      <p className="text-sm font-medium">
+        {title} <span className="text-muted-foreground">({items.length})</span>
+      </p>
+      <p className="text-xs text-muted-foreground">{description}</p>
+      <ul className="space-y-0.5 text-xs text-muted-foreground">
+        {items.slice(0, MAX_ITEMS).map((item, index) => (
+          <li key={index} className="truncate" title={item}>{item}</li>
+        ))}
+        {items.length > MAX_ITEMS && <li>and {items.length - MAX_ITEMS} more</li>}
+      </ul>
+    </div>
+  );
+}
+
+/** Repairs that apply to the report, with what each one does. */
+function describeRepairs(diagnosis: SpreadsheetDiagnosis): Array<{ kind: RepairKind; label: string }> {
+  const repairs: Array<{ kind: RepairKind; label: string }> = [];
+  if (diagnosis.headers.misnamed.length > 0) {
+    repairs.push({ kind: 'headers', label: `Rename ${diagnosis.headers.misnamed.length} headers to their expected spelling` });
+  }
+  if (diagnosis.duplicates.length > 0) {
+    repairs.push({ kind: 'duplicates', label: `Merge ${diagnosis.duplicates.length} duplicated articles into one row each` });
+  }
+  if (diagnosis.invalidRows.length > 0) {
+    repairs.push({ kind: 'invalidRows', label: 'Remove rows without a valid URL and use the URL as a missing title' });
+  }
+  if (diagnosis.invalidDates.some(issue => issue.normalized)) {
+    repairs.push({ kind: 'dates', label: 'Rewrite dates in the standard format' });
+  }
+  if (diagnosis.formulas.length > 0) {
+    repairs.push({ kind: 'formulas', label: `Replace ${diagnosis.formulas.length} formulas with their current value` });
+  }
+  return repairs;
+}
+
+function DiagnosisReport({ diagnosis }: { diagnosis: SpreadsheetDiagnosis }) {
+  const { headers } = diagnosis;
+
+  if (countIssues(diagnosis) === 0) {
+    return (
+      <p className="flex items-center gap-1.5 py-4 text-sm text-green-600 dark:text-green-400">
+        <CheckCircle2 className="h-4 w-4" /> No problems found in {diagnosis.rowCount} rows.
+      </p>
+    );
+  }
+
+  return (
+    <div className="divide-y divide-border">
+      <IssueSection
+        title="Header drift"
+        description="Column headers that are missing, spelled differently or repeated. Missing ones are added on the next sync."
+        items={[
+          ...headers.missing.map(header => `Missing: ${header}`),
+          ...headers.misnamed.map(({ found, expected }) => `"${found}" should be "${expected}"`),
+          ...headers.duplicated.map(header => `Repeated: ${header} (only the first column syncs)`),
+        ]}
+      />
+      <IssueSection
+        title="Duplicate articles"
+        description="The same URL in several rows. Sync only reads the last one."
+        items={diagnosis.duplicates.map(({ url, rowNumbers }) => `${url} (rows ${rowNumbers.join(', ')})`)}
+      />
+      <IssueSection
+        title="Invalid rows"
+        description="Rows sync skips."
+        items={diagnosis.invalidRows.map(({ rowNumber, url, reason }) => `Row ${rowNumber}: ${INVALID_ROW_LABELS[reason]}${url ? ` (${url})` : ''}`)}
+      />
+      <IssueSection
+        title="Unusual dates"
+        description="Dates not in the format sync writes. Ones that can't be read at all have to be fixed by hand."
+        items={diagnosis.invalidDates.map(({ rowNumber, column, value, normalized }) =>
+          `Row ${rowNumber}, ${column}: "${value}"${normalized ? '' : ' (unreadable)'}`
+        )}
+      />
+      <IssueSection
+        title="Formulas"
+        description="Cells holding a formula; sync would overwrite them with plain text."
+        items={diagnosis.formulas.map(({ rowNumber, column, formula }) => `Row ${rowNumber}, ${column}: ${formula}`)}
+      />
+    </div>
+  );
+}
+
+function RepairDialog({
+  diagnosis,
+  onClose,
+  onRepaired,
+}: {
+  diagnosis: SpreadsheetDiagnosis;
+  onClose: () => void;
+  onRepaired: (result: RepairResult) => void;
+}) {
+  const repair = useRepairSpreadsheet();
+  const repairs = describeRepairs(diagnosis);
+  const [chosen, setChosen] = useState<Set<RepairKind>>(() => new Set(repairs.map(({ kind }) => kind)));
+
+  const toggle = (kind: RepairKind) =>
+    setChosen(prev => {
+      const next = new Set(prev);
+      if (next.has(kind)) next.delete(kind);
+      else next.add(kind);
+      return next;
+    });
+
+  const submit = () => {
+    const options: RepairOptions = {
+      headers: chosen.has('headers'),
+      duplicates: chosen.has('duplicates'),
+      invalidRows: chosen.has('invalidRows'),
+      dates: chosen.has('dates'),
+      formulas: chosen.has('formulas'),
+    };
+    repair.mutate(options, { onSuccess: onRepaired });
+  };
+
+  return (
+    <Dialog open onOpenChange={open => !open && onClose()}>
+      <DialogContent className="space-y-4">
+        <DialogHeader>
+          <DialogTitle>Repair spreadsheet</DialogTitle>
+          <p className="text-sm text-muted-foreground">
+            These changes are made directly in Google Sheets. Removed rows can only be brought back from a backup.
+          </p>
+        </DialogHeader>
+
+        <ul className="space-y-2">
+          {repairs.map(({ kind, label }) => (
+            <li key={kind}>
+              <label className="flex items-start gap-3 text-sm cursor-pointer">
+                <input type="checkbox" className="mt-1" checked={chosen.has(kind)} onChange={() => toggle(kind)} />
+                {label}
+              </label>
+            </li>
+          ))}
+        </ul>
+
+        {repair.error && <p className="text-sm text-destructive">{repair.error.message}</p>}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button size="sm" disabled={repair.isPending || chosen.size === 0} onClick={submit}>
+            {repair.isPending && <Loader2 className="mr-1.5 h-4 w-4 animate-spin" />}
+            Repair
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/** Health check of the active list's spreadsheet, with repairs the user confirms first. */
+export function SpreadsheetCheckPage() {
+  const diagnose = useDiagnoseSpreadsheet();
+  const [confirming, setConfirming] = useState(false);
+  const [repaired, setRepaired] = useState<RepairResult | null>(null);
+  const diagnosis = diagnose.data;
+  const canRepair = diagnosis !== undefined && describeRepairs(diagnosis).length > 0;
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <div className="container max-w-2xl mx-auto px-4 py-8">
+        <div className="mb-6">
+          <Button variant="outline" asChild>
+            <Link to="/settings">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Settings
+            </Link>
+          </Button>
+        </div>
+
+        <h1 className="text-2xl font-bold mb-2">Check spreadsheet</h1>
+        <p className="text-sm text-muted-foreground">
+          Looks for duplicate articles, rows sync skips, changed headers, unusual dates and formulas. Checking changes nothing.
+        </p>
+
+        <div className="flex flex-wrap gap-2 mt-4">
+          <Button variant="outline" disabled={diagnose.isPending} onClick={() => diagnose.mutate()}>
+            {diagnose.isPending
+              ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              : <Stethoscope className="mr-2 h-4 w-4" />}
+            {diagnosis ? 'Check again' : 'Run check'}
+          </Button>
+          {canRepair && (
+            <Button onClick={() => setConfirming(true)}>
+              <Wrench className="mr-2 h-4 w-4" /> Repair...
+            </Button>
+          )}
+        </div>
+
+        <Separator className="my-4" />
+
+        {repaired && (
+          <p className="mb-2 text-sm text-green-600 dark:text-green-400">
+            Merged {repaired.duplicatesMerged} duplicates, removed {repaired.rowsRemoved} rows, updated {repaired.rowsUpdated} rows
+            and renamed {repaired.headersRenamed} headers.
+          </p>
+        )}
+        {diagnose.error && <p className="text-sm text-destructive">{diagnose.error.message}</p>}
+        {diagnosis && (
+          <>
+            <p className="text-xs text-muted-foreground">
+              Checked {diagnosis.rowCount} rows on {new Date(diagnosis.checkedAt).toLocaleString()}.
+            </p>
+            <DiagnosisReport diagnosis={diagnosis} />
+          </>
+        )}
+
+        {confirming && diagnosis && (
+          <RepairDialog
+            diagnosis={diagnosis}
+            onClose={() => setConfirming(false)}
+            onRepaired={result => {
+              setRepaired(result);
+              setConfirming(false);
+              diagnose.mutate();
+            }}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { AlertCircle, CheckCircle, KeyRound } from 'lucide-react';
+import type { SyncPhase, SyncRun } from '@/lib/db';
+import { useSyncHistory } from './use-sync-history';
+
+const PHASE_LABELS: Record<SyncPhase, string> = {
+  push: 'push',
+  pushHighlights: 'highlights',
+  pull: 'pull',
+  backup: 'backup',
+  cleanup: 'cleanup',
+  verify: 'verify',
+};
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function describeCounts(run: SyncRun): string {
+  const parts = [
+    `${run.pushed} pushed`,
+    run.highlightsPushed > 0 && `${run.highlightsPushed} highlights pushed`,
+    `${run.pulled} pulled`,
+    run.conflicts > 0 && `${run.conflicts} conflicts resolved`,
+    run.pushFailures > 0 && `${run.pushFailures} failed`,
+    run.cleanedUpLocal + run.cleanedUpRemote > 0 &&
+      `${run.cleanedUpLocal} local / ${run.cleanedUpRemote} sheet rows purged`,
+    run.rateLimitRetries > 0 && `${run.rateLimitRetries} rate-limit retries`,
+    run.backedUp && 'backed up',
+  ];
+  return parts.filter(Boolean).join(', ');
+}
+
+function OutcomeIcon({ outcome }: { outcome: SyncRun['outcome'] }) {
+  switch (outcome) {
+    case 'success': return <CheckCircle className="h-4 w-4 text-green-600" />;
+    case 'auth-required': return <KeyRound className="h-4 w-4 text-yellow-600" />;
+    case 'error': return <AlertCircle className="h-4 w-4 text-destructive" />;
+  }
+}
+
+function SyncRunRow({ run }: { run: SyncRun }) {
+  const phases = Object.entries(run.phaseDurations) as Array<[SyncPhase, number]>;
+
+  return (
+    <li className="py-3 flex items-start gap-3">
+      <OutcomeIcon outcome={run.outcome} />
+      <div className="min-w-0 space-y-0.5">
+        <p className="text-sm">
+          {new Date(run.startedAt).toLocaleString()}
+          <span className="text-muted-foreground"> · {formatDuration(run.finishedAt - run.startedAt)}</span>
+        </p>
+        <p className="text-xs text-muted-foreground">{describeCounts(run)}</p>
+        {phases.length > 0 && (
+          <p className="text-xs text-muted-foreground font-mono">
+            {phases.map(([phase, ms]) => `${PHASE_LABELS[phase]} ${formatDuration(ms)}`).join(' · ')}
+          </p>
+        )}
+        {run.errors.map((error, index) => (
+          <p key={index} className="text-xs text-destructive break-words">{error}</p>
+        ))}
+      </div>
+    </li>
+  );
+}
+
+/** Recent sync runs of the active list with their counts, timings and errors. */
+export function SyncHistoryList({ limit }: { limit?: number }) {
+  const { data: runs = [], isLoading } = useSyncHistory(limit);
+
+  if (isLoading) return null;
+
+  if (runs.length === 0) {
+    return <p className="py-4 text-sm text-muted-foreground">No syncs recorded yet.</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-border">
+      {runs.map(run => (
+        <SyncRunRow key={run.id} run={run} />
+      ))}
+    </ul>
+  );
+}
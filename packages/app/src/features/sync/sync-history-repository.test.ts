@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { db, SyncRun } from '@/lib/db';
+import { SyncHistoryRepository } from './sync-history-repository';
+
+describe('SyncHistoryRepository', () => {
+  const repository = new SyncHistoryRepository();
+
+  beforeEach(async () => {
+    await db.syncRuns.clear();
+  });
+
+  function createRun(overrides: Partial<SyncRun> = {}): SyncRun {
+    const startedAt = overrides.startedAt ?? Date.now();
+    return {
+      id: `run-${startedAt}`,
+      startedAt,
+      finishedAt: startedAt + 100,
+      outcome: 'success',
+      phaseDurations: {},
+      pushed: 0,
+      highlightsPushed: 0,
+      pushFailures: 0,
+      pulled: 0,
+      conflicts: 0,
+      cleanedUpLocal: 0,
+      cleanedUpRemote: 0,
+      rateLimitRetries: 0,
+      errors: [],
+      ...overrides,
+    };
+  }
+
+  it('should list the most recent runs first', async () => {
+    await repository.add(createRun({ startedAt: 1000 }));
+    await repository.add(createRun({ startedAt: 3000 }));
+    await repository.add(createRun({ startedAt: 2000 }));
+
+    const runs = await repository.getRecent(2);
+
+    expect(runs.map(run => run.startedAt)).toEqual([3000, 2000]);
+  });
+
+  it('should skip failed runs when looking for the last successful one', async () => {
+    await repository.add(createRun({ startedAt: 1000 }));
+    await repository.add(createRun({ startedAt: 2000, outcome: 'error', errors: ['Network error'] }));
+
+    expect((await repository.getLastSuccessful())?.startedAt).toBe(1000);
+  });
+
+  it('should drop the oldest runs past the limit', async () => {
+    for (let i = 1; i <= 101; i++) {
+      await repository.add(createRun({ startedAt: i }));
+    }
+
+    expect(await db.syncRuns.count()).toBe(100);
+    expect(await db.syncRuns.get('run-1')).toBeUndefined();
+  });
+});
@@ -0,0 +1,41 @@
+import { db, SyncRun } from '@/lib/db.js';
+
+// Older runs are dropped once the history grows past this
+const MAX_SYNC_RUNS = 100;
+
+/**
+ * Log of past sync runs. Survives reloads, so it also answers when the list
+ * last synced successfully.
+ */
+export class SyncHistoryRepository {
+  async add(run: SyncRun): Promise<void> {
+    await db.transaction('rw', db.syncRuns, async () => {
+      await db.syncRuns.add(run);
+
+      const excess = (await db.syncRuns.count()) - MAX_SYNC_RUNS;
+      if (excess > 0) {
+        const oldest = await db.syncRuns.orderBy('startedAt').limit(excess).primaryKeys();
+        await db.syncRuns.bulkDelete(oldest);
+      }
+    });
+  }
+
+  /** Most recent runs first. */
+  async getRecent(limit: number = 20): Promise<SyncRun[]> {
+    return await db.syncRuns.orderBy('startedAt').reverse().limit(limit).toArray();
+  }
+
+  async getLastSuccessful(): Promise<SyncRun | undefined> {
+    return await db.syncRuns
+      .orderBy('startedAt')
+      .reverse()
+      .filter(run => run.outcome === 'success')
+      .first();
+  }
+
+  async clear(): Promise<void> {
+    await db.syncRuns.clear();
+  }
+}
+
+export const syncHistoryRepository = new SyncHistoryRepository();
@@ -0,0 +1,49 @@
+import type { SyncPlan } from './sync-service';
+
+const MAX_ITEMS = 5;
+
+function PlanSection({ label, items }: { label: string; items: string[] }) {
+  if (items.length === 0) return null;
+
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium">
+        {label} <span className="text-muted-foreground">({items.length})</span>
+      </p>
+      <ul className="space-y-0.5 text-xs text-muted-foreground">
+        {items.slice(0, MAX_ITEMS).map((item, index) => (
+          <li key={index} className="truncate" title={item}>{item}</li>
+        ))}
+        {items.length > MAX_ITEMS && <li>and {items.length - MAX_ITEMS} more</li>}
+      </ul>
+    </div>
+  );
+}
+
+/** Lists what a previewed sync would change in the sheet and on this device. */
+export function SyncPlanSummary({ plan }: { plan: SyncPlan }) {
+  const sections = [
+    { label: 'Add to sheet', items: plan.rowsToAppend.map(article => article.title || article.url) },
+    { label: 'Update in sheet', items: plan.rowsToUpdate.map(article => article.title || article.url) },
+    { label: 'Remove from sheet', items: plan.rowsToDelete },
+    { label: 'Add on this device', items: plan.localAdditions.map(article => article.title || article.url) },
+    {
+      label: 'Change on this device',
+      items: plan.localOverwrites.map(({ after, fields }) => `${after.title || after.url} (${fields.join(', ')})`),
+    },
+    { label: 'Purge old deleted rows from sheet', items: plan.rowsToCleanUp },
+    { label: 'Purge old deleted articles on this device', items: plan.localToCleanUp },
+  ];
+
+  if (sections.every(section => section.items.length === 0)) {
+    return <p className="text-xs text-muted-foreground">Everything is up to date.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {sections.map(section => (
+        <PlanSection key={section.label} label={section.label} items={section.items} />
+      ))}
+    </div>
+  );
+}
@@ -1,8 +1,10 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { SyncService } from './sync-service';
 import { AuthenticationRequiredError } from './google-sheets';
 import { createMockArticleRepository } from '@/features/articles/__tests__/helpers/mock-article-repository';
 import { createMockSyncEngine } from './__tests__/helpers/mock-sync-engine';
+import { createMockHighlightRepository } from '@/features/highlights/__tests__/helpers/mock-highlight-repository';
+import { createTestHighlight, createTestHighlightOperation } from '@/features/highlights/__tests__/helpers/fixtures';
 import { createMockAuthProvider, createUnauthenticatedMockAuthProvider } from './__tests__/helpers/mock-auth-provider';
 import {
   createTestArticle,
@@ -20,6 +22,10 @@ describe('SyncService', () => {
   let mockRepo: ReturnType<typeof createMockArticleRepository>;
   let mockEngine: ReturnType<typeof createMockSyncEngine>;
   let mockAuth: ReturnType<typeof createMockAuthProvider>;
+  let mockHighlights: ReturnType<typeof createMockHighlightRepository>;
+  let mockConflicts: { record: ReturnType<typeof vi.fn> };
+  let mockHistory: { add: ReturnType<typeof vi.fn>; getLastSuccessful: ReturnType<typeof vi.fn> };
+  let mockBackups: { backupIfDue: ReturnType<typeof vi.fn> };
   let service: SyncService;
 
   const TEST_CONFIG = createTestConfig();
@@ -28,11 +34,20 @@ describe('SyncService', () => {
     mockRepo = createMockArticleRepository();
     mockEngine = createMockSyncEngine();
     mockAuth = createMockAuthProvider();
+    mockHighlights = createMockHighlightRepository();
+    mockConflicts = { record: vi.fn().mockResolvedValue(undefined) };
+    mockHistory = { add: vi.fn().mockResolvedValue(undefined), getLastSuccessful: vi.fn().mockResolvedValue(undefined) };
+    mockBackups = { backupIfDue: vi.fn().mockResolvedValue(false) };
 
     service = new SyncService(
       mockRepo,
       () => mockEngine,
-      () => mockAuth
+      () => mockAuth,
+      undefined,
+      mockHighlights,
+      mockConflicts,
+      mockHistory,
+      mockBackups
     );
     service.configure(TEST_CONFIG);
   });
@@ -229,6 +244,53 @@ describe('SyncService', () => {
 
       const bulkUpdateCall = mockRepo.bulkUpdate.mock.calls[0][0];
       expect(bulkUpdateCall[0].title).toBe('Local Pending');
+      expect(mockConflicts.record).toHaveBeenCalledWith([
+        expect.objectContaining({ url: 'https://test.com', kept: 'local', reason: 'concurrent-edit' }),
+      ]);
+      expect(mockConflicts.record.mock.calls[0][0][0].remote.title).toBe('Remote Title');
+    });
+
+    it('should keep the discarded local version when remote is significantly newer', async () => {
+      const now = Date.now();
+      const localArticle = createTestArticle({
+        url: 'https://test.com',
+        title: 'Local Pending',
+        timestamp: now - 10 * 60 * 1000,
+        syncStatus: 'pending',
+      });
+
+      const remoteArticle = createTestArticleData({
+        url: 'https://test.com',
+        title: 'Remote Title',
+        timestamp: new Date(now).toISOString(),
+      });
+
+      mockRepo.getByUrl.mockResolvedValue(localArticle);
+      mockEngine.getArticles.mockResolvedValue([remoteArticle]);
+
+      await service.syncNow();
+
+      const [conflict] = mockConflicts.record.mock.calls[0][0];
+      expect(conflict).toMatchObject({ kept: 'remote', reason: 'concurrent-edit' });
+      expect(conflict.local.title).toBe('Local Pending');
+    });
+
+    it('should not record a conflict when a synced article is simply outdated', async () => {
+      const localArticle = createTestArticle({
+        url: 'https://test.com',
+        title: 'Local Title',
+        timestamp: 1000,
+        syncStatus: 'synced',
+      });
+
+      mockRepo.getByUrl.mockResolvedValue(localArticle);
+      mockEngine.getArticles.mockResolvedValue([
+        createTestArticleData({ url: 'https://test.com', title: 'Remote Title', timestamp: new Date(2000).toISOString() }),
+      ]);
+
+      await service.syncNow();
+
+      expect(mockConflicts.record).toHaveBeenCalledWith([]);
     });
 
     it('should prefer local when remote data appears corrupted', async () => {
@@ -252,6 +314,463 @@ describe('SyncService', () => {
       // Should skip the corrupted remote article
       expect(mockRepo.bulkUpdate).not.toHaveBeenCalled();
     });
+
+    it('should keep a remote row without a domain for review', async () => {
+      mockRepo.getByUrl.mockResolvedValue(createTestArticle({ url: 'https://test.com', title: 'Local Title' }));
+      mockEngine.getArticles.mockResolvedValue([
+        createTestArticleData({ url: 'https://test.com', title: 'Remote Title', domain: '' }),
+      ]);
+
+      await service.syncNow();
+
+      const bulkUpdateCall = mockRepo.bulkUpdate.mock.calls[0][0];
+      expect(bulkUpdateCall[0].title).toBe('Local Title');
+      expect(mockConflicts.record).toHaveBeenCalledWith([
+        expect.objectContaining({ kept: 'local', reason: 'corrupted-remote' }),
+      ]);
+    });
+  });
+
+  describe('Field-Level Merge', () => {
+    const base = {
+      url: 'https://test.com',
+      title: 'Original',
+      description: 'This is a test article description',
+      featuredImage: 'https://example.com/image.jpg',
+      tags: ['test'],
+      notes: 'original notes',
+      archived: false,
+      favorite: false,
+      timestamp: 1000,
+      editedAt: 1000,
+      syncedAt: 1000,
+    };
+
+    it('should keep concurrent edits to different fields when pulling', async () => {
+      const localArticle = createTestArticle({
+        ...base,
+        notes: 'local notes',
+        editedAt: 2000,
+        syncStatus: 'pending',
+      });
+      const remoteArticle = createTestArticleData({
+        url: base.url,
+        title: base.title,
+        tags: ['test', 'remote'],
+        notes: base.notes,
+        favorite: true,
+        timestamp: new Date(1000).toISOString(),
+        editedAt: new Date(3000).toISOString(),
+      });
+
+      mockRepo.getByUrl.mockResolvedValue(localArticle);
+      mockRepo.getSyncBase.mockResolvedValue(base);
+      mockEngine.getArticles.mockResolvedValue([remoteArticle]);
+
+      await service.syncNow();
+
+      const merged = mockRepo.saveMergedArticles.mock.calls[0][0][0];
+      expect(merged.notes).toBe('local notes');
+      expect(merged.favorite).toBe(true);
+      expect(merged.tags).toEqual(['test', 'remote']);
+      expect(mockRepo.bulkUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should apply remote changes without re-pushing when local is unchanged', async () => {
+      const localArticle = createTestArticle({ ...base, syncStatus: 'synced' });
+      const remoteArticle = createTestArticleData({
+        url: base.url,
+        title: 'Remote Title',
+        tags: base.tags,
+        notes: base.notes,
+        timestamp: new Date(1000).toISOString(),
+        editedAt: new Date(2000).toISOString(),
+      });
+
+      mockRepo.getByUrl.mockResolvedValue(localArticle);
+      mockRepo.getSyncBase.mockResolvedValue(base);
+      mockEngine.getArticles.mockResolvedValue([remoteArticle]);
+
+      await service.syncNow();
+
+      const bulkUpdateCall = mockRepo.bulkUpdate.mock.calls[0][0];
+      expect(bulkUpdateCall[0].title).toBe('Remote Title');
+      expect(bulkUpdateCall[0].syncStatus).toBe('synced');
+      expect(mockRepo.saveMergedArticles).not.toHaveBeenCalled();
+    });
+
+    it('should merge with the remote version before pushing queued updates', async () => {
+      const localArticle = createTestArticle({
+        ...base,
+        notes: 'local notes',
+        editedAt: 2000,
+        syncStatus: 'pending',
+      });
+      const operation = createTestSyncOperation({
+        type: 'update',
+        articleUrl: base.url,
+        data: localArticle,
+      });
+      const remoteArticle = createTestArticleData({
+        url: base.url,
+        title: base.title,
+        tags: base.tags,
+        notes: base.notes,
+        archived: true,
+        timestamp: new Date(1000).toISOString(),
+        editedAt: new Date(3000).toISOString(),
+      });
+
+      mockRepo.getPendingSyncOperations.mockResolvedValue([operation]);
+      mockRepo.getByUrl.mockResolvedValue(localArticle);
+      mockRepo.getSyncBase.mockResolvedValue(base);
+      mockEngine.getArticlesByUrl.mockResolvedValue([remoteArticle]);
+      mockEngine.batchUpdateArticles.mockResolvedValue([{ success: true, articleUrl: base.url }]);
+
+      await service.syncNow();
+
+      expect(mockEngine.getArticlesByUrl).toHaveBeenCalledWith([base.url]);
+      const pushed = mockEngine.batchUpdateArticles.mock.calls[0][0][0].updates;
+      expect(pushed.notes).toBe('local notes');
+      expect(pushed.archived).toBe(true);
+      expect(mockRepo.saveSyncBases).toHaveBeenCalledWith([
+        expect.objectContaining({ url: base.url, notes: 'local notes', archived: true }),
+      ]);
+    });
+
+    it('should record a sync base for every pulled article', async () => {
+      mockEngine.getArticles.mockResolvedValue([
+        createTestArticleData({ url: 'https://one.com' }),
+        createTestArticleData({ url: 'https://two.com' }),
+      ]);
+
+      await service.syncNow();
+
+      const bases = mockRepo.saveSyncBases.mock.calls[0][0];
+      expect(bases.map((b: { url: string }) => b.url)).toEqual(['https://one.com', 'https://two.com']);
+    });
+  });
+
+  describe('Highlights', () => {
+    it('should push queued highlights and mark them synced', async () => {
+      const highlight = createTestHighlight({ id: 'h1', note: 'A note' });
+      const operation = createTestHighlightOperation({ highlightId: 'h1' });
+      mockHighlights.getPendingSyncOperations.mockResolvedValue([operation]);
+      mockHighlights.getById.mockResolvedValue(highlight);
+      mockEngine.saveHighlights.mockResolvedValue([{ success: true, articleUrl: highlight.articleUrl }]);
+
+      await service.syncNow();
+
+      const pushed = mockEngine.saveHighlights.mock.calls[0][0];
+      expect(pushed).toEqual([expect.objectContaining({ id: 'h1', note: 'A note' })]);
+      expect(pushed[0]).not.toHaveProperty('syncStatus');
+      expect(mockHighlights.removeSyncOperation).toHaveBeenCalledWith(operation.id);
+      expect(mockHighlights.markAsSynced).toHaveBeenCalledWith('h1');
+    });
+
+    it('should keep failed highlight pushes queued for retry', async () => {
+      const operation = createTestHighlightOperation({ highlightId: 'h1' });
+      mockHighlights.getPendingSyncOperations.mockResolvedValue([operation]);
+      mockHighlights.getById.mockResolvedValue(createTestHighlight({ id: 'h1' }));
+      mockEngine.saveHighlights.mockResolvedValue([{ success: false, error: 'Quota exceeded' }]);
+
+      const result = await service.syncNow();
+
+      expect(result.success).toBe(true);
+      expect(mockHighlights.scheduleSyncRetry).toHaveBeenCalledWith(operation.id, 'Quota exceeded', expect.any(Number));
+      expect(mockHighlights.removeSyncOperation).not.toHaveBeenCalled();
+    });
+
+    it('should store new remote highlights as synced', async () => {
+      const remote = { ...createTestHighlight({ id: 'remote-1' }), syncStatus: undefined };
+      mockEngine.getHighlights.mockResolvedValue([remote]);
+
+      await service.syncNow();
+
+      expect(mockHighlights.bulkPut).toHaveBeenCalledWith([
+        expect.objectContaining({ id: 'remote-1', syncStatus: 'synced' }),
+      ]);
+    });
+
+    it('should queue merged highlights that still carry local changes', async () => {
+      mockHighlights.getById.mockResolvedValue(createTestHighlight({
+        id: 'h1',
+        note: 'local note',
+        editedAt: '2024-01-03T00:00:00.000Z',
+      }));
+      mockEngine.getHighlights.mockResolvedValue([{
+        ...createTestHighlight({ id: 'h1', note: 'remote note', editedAt: '2024-01-02T00:00:00.000Z' }),
+        syncStatus: undefined,
+      }]);
+
+      await service.syncNow();
+
+      expect(mockHighlights.saveMerged).toHaveBeenCalledWith([
+        expect.objectContaining({ id: 'h1', note: 'local note' }),
+      ]);
+    });
+
+    it('should include pending highlights in the pending count', async () => {
+      mockRepo.getPendingArticlesCount.mockResolvedValue(2);
+      mockHighlights.getPendingCount.mockResolvedValue(3);
+
+      await service.syncNow();
+
+      expect(service.getState().pendingCount).toBe(5);
+    });
+  });
+
+  describe('Sync Preview', () => {
+    function expectNothingWritten() {
+      expect(mockEngine.saveArticles).not.toHaveBeenCalled();
+      expect(mockEngine.batchUpdateArticles).not.toHaveBeenCalled();
+      expect(mockEngine.batchDeleteArticles).not.toHaveBeenCalled();
+      expect(mockEngine.cleanupDeletedArticles).not.toHaveBeenCalled();
+      expect(mockRepo.removeSyncOperation).not.toHaveBeenCalled();
+      expect(mockRepo.bulkUpdate).not.toHaveBeenCalled();
+      expect(mockRepo.saveMergedArticles).not.toHaveBeenCalled();
+      expect(mockRepo.saveSyncBases).not.toHaveBeenCalled();
+      expect(mockRepo.setSyncMeta).not.toHaveBeenCalled();
+      expect(mockRepo.cleanupDeletedArticles).not.toHaveBeenCalled();
+      expect(mockConflicts.record).not.toHaveBeenCalled();
+    }
+
+    it('should list queued pushes without sending them', async () => {
+      const created = createTestArticle({ url: 'https://test.com/new', title: 'New' });
+      mockRepo.getPendingSyncOperations.mockResolvedValue([
+        createTestSyncOperation({ type: 'create', articleUrl: created.url, data: created }),
+        createTestSyncOperation({ type: 'delete', articleUrl: 'https://test.com/gone', data: {} }),
+      ]);
+
+      const plan = await service.previewSync();
+
+      expect(plan.rowsToAppend).toEqual([created]);
+      expect(plan.rowsToDelete).toEqual(['https://test.com/gone']);
+      expectNothingWritten();
+    });
+
+    it('should report local articles the pull would add or change', async () => {
+      mockRepo.getByUrl.mockImplementation(async (url: string) =>
+        url === 'https://test.com/known'
+          ? createTestArticle({ url, title: 'Old Title', timestamp: 1000, syncStatus: 'synced' })
+          : undefined
+      );
+      mockEngine.getArticles.mockResolvedValue([
+        createTestArticleData({ url: 'https://test.com/known', title: 'New Title', timestamp: new Date(2000).toISOString() }),
+        createTestArticleData({ url: 'https://test.com/other', title: 'Other' }),
+      ]);
+
+      const plan = await service.previewSync();
+
+      expect(plan.localAdditions.map(article => article.url)).toEqual(['https://test.com/other']);
+      expect(plan.localOverwrites).toEqual([
+        expect.objectContaining({ fields: ['title'], after: expect.objectContaining({ title: 'New Title' }) }),
+      ]);
+      expectNothingWritten();
+    });
+
+    it('should list deleted rows past retention on a full pull', async () => {
+      const longAgo = new Date(Date.now() - 40 * 24 * 60 * 60 * 1000);
+      mockEngine.getArticles.mockResolvedValue([
+        createTestArticleData({ url: 'https://test.com/old', deletedAt: longAgo.toISOString() }),
+        createTestArticleData({ url: 'https://test.com/recent', deletedAt: new Date().toISOString() }),
+      ]);
+      mockRepo.getDeletedArticles.mockResolvedValue([
+        createTestArticle({ url: 'https://test.com/local-old', deletedAt: longAgo.getTime() }),
+      ]);
+
+      const plan = await service.previewSync();
+
+      expect(plan.rowsToCleanUp).toEqual(['https://test.com/old']);
+      expect(plan.localToCleanUp).toEqual(['https://test.com/local-old']);
+      expectNothingWritten();
+    });
+
+    it('should flag missing authentication like a sync would', async () => {
+      mockEngine.getRemoteRevision.mockRejectedValue(new AuthenticationRequiredError());
+
+      await expect(service.previewSync()).rejects.toThrow(AuthenticationRequiredError);
+      expect(service.getState().status).toBe('auth-required');
+    });
+  });
+
+  describe('Sync History', () => {
+    it('should record what a successful run did', async () => {
+      mockRepo.getPendingSyncOperations.mockResolvedValue([
+        createTestSyncOperation({ type: 'create', articleUrl: 'https://test.com/new' }),
+      ]);
+      mockEngine.saveArticles.mockResolvedValue([{ success: true, articleUrl: 'https://test.com/new' }]);
+      mockEngine.getArticles.mockResolvedValue([createTestArticleData({ url: 'https://test.com/remote' })]);
+      mockEngine.cleanupDeletedArticles.mockResolvedValue(2);
+      mockEngine.getRateLimitRetryCount.mockReturnValueOnce(3).mockReturnValue(5);
+
+      await service.syncNow();
+
+      const [run] = mockHistory.add.mock.calls[0];
+      expect(run).toMatchObject({
+        outcome: 'success',
+        pushed: 1,
+        pulled: 1,
+        cleanedUpRemote: 2,
+        rateLimitRetries: 2,
+        errors: [],
+      });
+      expect(Object.keys(run.phaseDurations)).toEqual(['push', 'pushHighlights', 'pull', 'backup', 'cleanup', 'verify']);
+      expect(service.getState().lastSyncTime).toBe(run.finishedAt);
+    });
+
+    it('should record failed runs with their error', async () => {
+      mockEngine.getArticles.mockRejectedValue(new Error('Network error'));
+
+      await service.syncNow();
+
+      expect(mockHistory.add).toHaveBeenCalledWith(expect.objectContaining({
+        outcome: 'error',
+        errors: ['Network error'],
+      }));
+    });
+
+    it('should not fail the sync when the history cannot be written', async () => {
+      mockHistory.add.mockRejectedValue(new Error('Quota exceeded'));
+
+      const result = await service.syncNow();
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should restore the last successful sync time when configured', async () => {
+      mockHistory.getLastSuccessful.mockResolvedValue({ finishedAt: 12345 });
+
+      service.configure(TEST_CONFIG);
+
+      await vi.waitFor(() => expect(service.getState().lastSyncTime).toBe(12345));
+    });
+  });
+
+  describe('Backups', () => {
+    it('should back up the library before cleanup purges old rows', async () => {
+      const order: string[] = [];
+      mockBackups.backupIfDue.mockImplementation(async () => {
+        order.push('backup');
+        return true;
+      });
+      mockRepo.cleanupDeletedArticles.mockImplementation(async () => {
+        order.push('cleanup');
+        return 0;
+      });
+
+      await service.syncNow();
+
+      expect(order).toEqual(['backup', 'cleanup']);
+      expect(mockHistory.add).toHaveBeenCalledWith(expect.objectContaining({ backedUp: true }));
+    });
+
+    it('should not fail the sync when the backup cannot be written', async () => {
+      mockBackups.backupIfDue.mockRejectedValue(new Error('Drive quota exceeded'));
+
+      const result = await service.syncNow();
+
+      expect(result.success).toBe(true);
+      expect(mockHistory.add).toHaveBeenCalledWith(expect.objectContaining({
+        errors: ['Backup: Drive quota exceeded'],
+      }));
+    });
+  });
+
+  describe('Delta Pull', () => {
+    const HOUR = 60 * 60 * 1000;
+
+    beforeEach(() => {
+      // Only freeze the clock; the sync timeout still needs real timers
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2024-01-10T12:00:00Z'));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should download the whole sheet and store a checkpoint on first sync', async () => {
+      mockEngine.getRemoteRevision.mockResolvedValue({ version: '7', modifiedTime: '2024-01-10T11:00:00Z' });
+
+      await service.syncNow();
+
+      expect(mockEngine.getArticles).toHaveBeenCalled();
+      expect(mockEngine.getArticlesChangedSince).not.toHaveBeenCalled();
+      expect(mockEngine.cleanupDeletedArticles).toHaveBeenCalled();
+      expect(mockRepo.setSyncMeta).toHaveBeenCalledWith('pullCheckpoint', {
+        revision: '7',
+        pulledAt: Date.now(),
+        fullPullAt: Date.now(),
+      });
+    });
+
+    it('should skip the pull when the spreadsheet revision is unchanged', async () => {
+      mockEngine.getRemoteRevision.mockResolvedValue({ version: '7', modifiedTime: '2024-01-10T11:00:00Z' });
+      mockRepo.getSyncMeta.mockResolvedValue({ revision: '7', pulledAt: Date.now() - HOUR, fullPullAt: Date.now() - HOUR });
+
+      const result = await service.syncNow();
+
+      expect(result.success).toBe(true);
+      expect(mockEngine.getArticles).not.toHaveBeenCalled();
+      expect(mockEngine.getArticlesChangedSince).not.toHaveBeenCalled();
+      expect(mockRepo.setSyncMeta).not.toHaveBeenCalled();
+    });
+
+    it('should only pull rows edited since the checkpoint when the revision changed', async () => {
+      const pulledAt = Date.now() - HOUR;
+      mockEngine.getRemoteRevision.mockResolvedValue({ version: '8', modifiedTime: '2024-01-10T11:30:00Z' });
+      mockRepo.getSyncMeta.mockResolvedValue({ revision: '7', pulledAt, fullPullAt: pulledAt });
+      mockEngine.getArticlesChangedSince.mockResolvedValue([
+        createTestArticleData({ url: 'https://changed.com' }),
+      ]);
+
+      await service.syncNow();
+
+      // Starts a few minutes before the checkpoint to absorb clock skew between devices
+      expect(mockEngine.getArticlesChangedSince).toHaveBeenCalledWith(new Date(pulledAt - 5 * 60 * 1000).toISOString());
+      expect(mockEngine.getArticles).not.toHaveBeenCalled();
+      expect(mockEngine.cleanupDeletedArticles).not.toHaveBeenCalled();
+      expect(mockRepo.bulkUpdate).toHaveBeenCalledWith([
+        expect.objectContaining({ url: 'https://changed.com', syncStatus: 'synced' }),
+      ]);
+      expect(mockRepo.setSyncMeta).toHaveBeenCalledWith('pullCheckpoint', {
+        revision: '8',
+        pulledAt: Date.now(),
+        fullPullAt: pulledAt,
+      });
+    });
+
+    it('should fall back to a full pull once a day', async () => {
+      const dayAgo = Date.now() - 25 * HOUR;
+      mockEngine.getRemoteRevision.mockResolvedValue({ version: '7', modifiedTime: '2024-01-09T11:00:00Z' });
+      mockRepo.getSyncMeta.mockResolvedValue({ revision: '7', pulledAt: Date.now() - HOUR, fullPullAt: dayAgo });
+
+      await service.syncNow();
+
+      expect(mockEngine.getArticles).toHaveBeenCalled();
+      expect(mockEngine.getArticlesChangedSince).not.toHaveBeenCalled();
+    });
+
+    it('should still pull when the revision cannot be read', async () => {
+      mockEngine.getRemoteRevision.mockRejectedValue(new Error('Drive API error: 403 Forbidden'));
+      mockRepo.getSyncMeta.mockResolvedValue({ revision: null, pulledAt: Date.now() - HOUR, fullPullAt: Date.now() - HOUR });
+
+      const result = await service.syncNow();
+
+      expect(result.success).toBe(true);
+      expect(mockEngine.getArticlesChangedSince).toHaveBeenCalled();
+    });
+
+    it('should not advance the checkpoint when the pull fails', async () => {
+      mockRepo.getSyncMeta.mockResolvedValue({ revision: '7', pulledAt: Date.now() - HOUR, fullPullAt: Date.now() - HOUR });
+      mockEngine.getArticlesChangedSince.mockRejectedValue(new Error('Network error'));
+
+      const result = await service.syncNow();
+
+      expect(result.success).toBe(false);
+      expect(mockRepo.setSyncMeta).not.toHaveBeenCalled();
+    });
   });
 
   describe('Error Handling', () => {
@@ -344,20 +863,31 @@ describe('SyncService', () => {
   });
 
   describe('Retry Logic', () => {
-    it('should increment retry count on operation failure', async () => {
-      const operation = createTestSyncOperation({ retryCount: 0 });
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
 
-      mockRepo.getPendingSyncOperations.mockResolvedValue([operation]);
-      mockEngine.saveArticles.mockResolvedValue([{ success: false, error: 'Temporary error', articleUrl: operation.articleUrl }]);
-      mockEngine.getArticles.mockResolvedValue([]);
+    it('should back off exponentially after each failure', async () => {
+      const now = Date.now();
+      vi.spyOn(Date, 'now').mockReturnValue(now);
+      const first = createTestSyncOperation({ retryCount: 0 });
+      const third = createTestSyncOperation({ retryCount: 2, articleUrl: 'https://example.com/other' });
+
+      mockRepo.getPendingSyncOperations.mockResolvedValue([first, third]);
+      mockEngine.saveArticles.mockResolvedValue([
+        { success: false, error: 'Temporary error', articleUrl: first.articleUrl },
+        { success: false, error: 'Temporary error', articleUrl: third.articleUrl },
+      ]);
 
       await service.syncNow();
 
-      expect(mockRepo.incrementSyncRetryCount).toHaveBeenCalledWith(operation.id);
+      expect(mockRepo.scheduleSyncRetry).toHaveBeenCalledWith(first.id, 'Temporary error', now + 60_000);
+      expect(mockRepo.scheduleSyncRetry).toHaveBeenCalledWith(third.id, 'Temporary error', now + 4 * 60_000);
+      expect(mockRepo.moveToDeadLetter).not.toHaveBeenCalled();
     });
 
-    it('should remove operation after 3 failed attempts', async () => {
-      const operation = createTestSyncOperation({ retryCount: 2 }); // Already failed 2 times
+    it('should move the operation to the dead letters once its retries are used up', async () => {
+      const operation = createTestSyncOperation({ retryCount: 3 }); // First attempt plus maxRetries retries
 
       mockRepo.getPendingSyncOperations.mockResolvedValue([operation]);
       mockEngine.saveArticles.mockResolvedValue([{ success: false, error: 'Persistent error', articleUrl: operation.articleUrl }]);
@@ -365,7 +895,19 @@ describe('SyncService', () => {
 
       await service.syncNow();
 
-      expect(mockRepo.removeSyncOperation).toHaveBeenCalledWith(operation.id);
+      expect(mockRepo.moveToDeadLetter).toHaveBeenCalledWith(operation, 'Persistent error');
+      expect(mockRepo.scheduleSyncRetry).not.toHaveBeenCalled();
+      expect(mockRepo.removeSyncOperation).not.toHaveBeenCalled();
+    });
+
+    it('should skip operations that are still backing off', async () => {
+      const waiting = createTestSyncOperation({ retryCount: 1, nextRetryAt: Date.now() + 60_000 });
+      mockRepo.getPendingSyncOperations.mockResolvedValue([waiting]);
+
+      const result = await service.syncNow();
+
+      expect(result.success).toBe(true);
+      expect(mockEngine.saveArticles).not.toHaveBeenCalled();
     });
 
     it('should not retry on authentication errors', async () => {
@@ -378,9 +920,46 @@ describe('SyncService', () => {
 
       await service.syncNow();
 
-      // Should not increment retry count for auth errors
-      expect(mockRepo.incrementSyncRetryCount).not.toHaveBeenCalled();
+      // Should not count auth errors against the operation
+      expect(mockRepo.scheduleSyncRetry).not.toHaveBeenCalled();
+      expect(service.getState().status).toBe('auth-required');
+    });
+
+    it('should keep the queue while waiting for sign-in and resume once authenticated', async () => {
+      const operation = createTestSyncOperation();
+      mockRepo.getPendingSyncOperations.mockResolvedValue([operation]);
+      mockEngine.saveArticles
+        .mockRejectedValueOnce(new AuthenticationRequiredError('Token expired'))
+        .mockResolvedValue([{ success: true, articleUrl: operation.articleUrl }]);
+
+      const result = await service.syncNow();
+
+      expect(result.success).toBe(false);
       expect(service.getState().status).toBe('auth-required');
+      expect(mockRepo.removeSyncOperation).not.toHaveBeenCalled();
+
+      await service.authenticate();
+
+      await vi.waitFor(() => expect(mockRepo.removeSyncOperation).toHaveBeenCalledWith(operation.id));
+      expect(mockEngine.saveArticles).toHaveBeenCalledTimes(2);
+    });
+
+    it('should resume a paused sync when the token is renewed in the background', async () => {
+      const onTokenChange = mockAuth.onTokenChange.mock.calls[0][0] as (expiry: number | null) => void;
+      mockEngine.getArticles.mockRejectedValueOnce(new AuthenticationRequiredError('Token expired'));
+
+      await service.syncNow();
+      expect(service.getState().status).toBe('auth-required');
+
+      onTokenChange(null); // Signing out doesn't resume anything
+      expect(mockEngine.getArticles).toHaveBeenCalledTimes(1);
+
+      onTokenChange(Date.now() + 60 * 60 * 1000);
+      await vi.waitFor(() => expect(service.getState().status).toBe('idle'));
+      expect(mockEngine.getArticles).toHaveBeenCalledTimes(2);
+
+      onTokenChange(Date.now() + 60 * 60 * 1000); // Nothing left to resume
+      expect(mockEngine.getArticles).toHaveBeenCalledTimes(2);
     });
   });
 
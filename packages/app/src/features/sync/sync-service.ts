@@ -1,8 +1,15 @@
-import { Article, SyncOperation } from '@/lib/db.js';
-import { ArticleData } from '@/features/articles/types.js';
+import { Article, ArticleConflict, ConflictReason, HighlightRecord, MergeableField, SyncBase, SyncPhase, SyncRun } from '@/lib/db.js';
 import { GoogleSheetsConfig } from './types.js';
 import { initializeGoogleSheetsSync, AuthenticationRequiredError, getAuthProvider } from './google-sheets.js';
 import { articleRepository, ArticleRepository } from '@/features/articles/repository.js';
+import { highlightRepository, HighlightRepository } from '@/features/highlights/repository.js';
+import { mergeArticles, mergeHighlights, toSyncBase, logFieldConflicts, getChangedFields } from './merge.js';
+import { isRemoteUsable, sheetDataToArticle } from './sheet-mapping.js';
+import { SyncQueueProcessor } from './queue-processor.js';
+import { conflictRepository, ConflictRepository } from './conflict-repository.js';
+import { syncHistoryRepository, SyncHistoryRepository } from './sync-history-repository.js';
+import { libraryBackupService, LibraryBackupService } from './backup-service.js';
+import { setAccountEmail } from '@/lib/account.js';
 import type { GoogleSheetsSyncEngine, PwaAuthProvider } from '@readlater/google-sheets-sync';
 
 export type SyncStatus = 'idle' | 'syncing' | 'error' | 'auth-required' | 'checking-auth' | 'not-authenticated';
@@ -21,17 +28,62 @@ interface SyncCheckpoint {
   lastSyncTime?: number;
 }
 
-interface SyncQueueResult {
-  processed: number;
-  failures: number;
-  errors: string[];
+interface ConflictResolution {
+  article: Article;
+  needsPush: boolean;
+  conflict?: ArticleConflict; // Set when a whole version was discarded
+  fieldConflicts?: number;     // Fields both sides changed, settled by the merge
+}
+
+interface PullCheckpoint {
+  revision: string | null; // Drive version of the spreadsheet at the last successful pull
+  pulledAt: number;        // When the last successful pull started (local clock)
+  fullPullAt: number;      // When the whole sheet was last downloaded
+}
+
+/** Everything a pull decided, ready to be applied or reported by a dry run. */
+interface RemoteMergePlan {
+  fullPull: boolean;
+  checkpoint: PullCheckpoint;          // Stored once the plan is applied
+  remoteArticles: Article[];           // Downloaded rows, converted
+  localVersions: Map<string, Article>; // Local articles the rows were merged into, before the merge
+  articlesToUpdate: Article[];
+  articlesToPush: Article[];
+  basesToSave: SyncBase[];
+  conflictsToRecord: ArticleConflict[];
+  conflictCount: number;               // Field conflicts plus discarded versions
+}
+
+export interface LocalOverwrite {
+  before: Article;
+  after: Article;
+  fields: MergeableField[];
+}
+
+/** What the next sync would do, as reported by previewSync(). */
+export interface SyncPlan {
+  rowsToAppend: Article[];
+  rowsToUpdate: Article[];
+  rowsToDelete: string[];              // Row URLs
+  localAdditions: Article[];           // Remote articles new to this device
+  localOverwrites: LocalOverwrite[];   // Local articles the pull would change
+  rowsToCleanUp: string[];             // Rows deleted more than DELETED_RETENTION_DAYS ago
+  localToCleanUp: string[];
 }
 
 // Sync timeout configuration
 const SYNC_TIMEOUT_MS = 120000; // 2 minutes
 
+const PULL_CHECKPOINT_KEY = 'pullCheckpoint';
+// Remote Edited At values come from other devices' clocks, so delta pulls start a bit early
+const CHECKPOINT_SKEW_MS = 5 * 60 * 1000;
+// Edits made directly in the sheet don't touch Edited At, so re-read everything once a day
+const FULL_PULL_INTERVAL_MS = 24 * 60 * 60 * 1000;
+// Soft-deleted articles are purged from both sides after this many days
+const DELETED_RETENTION_DAYS = 30;
+
 /**
- * Service for synchronizing articles with Google Sheets.
+ * Service for synchronizing articles and highlights with Google Sheets.
  *
  * Dependencies can be injected via constructor for testing purposes.
  * Production code should use the exported singleton instance.
@@ -44,6 +96,10 @@ export class SyncService {
 
   private listeners: ((state: SyncState) => void)[] = [];
   private config: GoogleSheetsConfig | null = null;
+  private readonly queueProcessor: SyncQueueProcessor;
+  // Set when a sync stopped for sign-in; the next token picks it up again
+  private pausedForAuth = false;
+  private unsubscribeToken?: () => void;
 
   /**
    * Creates a new SyncService instance.
@@ -52,13 +108,22 @@ export class SyncService {
    * @param syncEngineFactory - Factory function to create sync engine instances (default: initializeGoogleSheetsSync)
    * @param authProviderGetter - Function to get auth provider (default: getAuthProvider)
    * @param timeoutMs - Sync timeout in milliseconds (default: 120000)
+   * @param highlights - Highlight repository, synced to the Highlights tab (default: singleton instance)
+   * @param conflicts - Store for discarded versions awaiting review (default: singleton instance)
+   * @param history - Log of past sync runs (default: singleton instance)
+   * @param backups - Library snapshots taken on full pulls (default: singleton instance)
    */
   constructor(
     private readonly repository: ArticleRepository = articleRepository,
     private readonly syncEngineFactory: (config: GoogleSheetsConfig) => GoogleSheetsSyncEngine = initializeGoogleSheetsSync,
     private readonly authProviderGetter: () => PwaAuthProvider = getAuthProvider,
-    private readonly timeoutMs: number = SYNC_TIMEOUT_MS
+    private readonly timeoutMs: number = SYNC_TIMEOUT_MS,
+    private readonly highlights: HighlightRepository = highlightRepository,
+    private readonly conflicts: Pick<ConflictRepository, 'record'> = conflictRepository,
+    private readonly history: Pick<SyncHistoryRepository, 'add' | 'getLastSuccessful'> = syncHistoryRepository,
+    private readonly backups: Pick<LibraryBackupService, 'backupIfDue'> = libraryBackupService
   ) {
+    this.queueProcessor = new SyncQueueProcessor(repository, highlights, () => this.syncEngineFactory(this.config!));
     this.updatePendingCount();
   }
 
@@ -66,6 +131,31 @@ export class SyncService {
     this.config = config;
     // Eagerly initialize sync engine and auth provider
     this.syncEngineFactory(config);
+    this.restoreLastSyncTime();
+
+    // A token renewed in the background, or after signing in elsewhere, resumes a paused sync
+    if (!this.unsubscribeToken) {
+      this.unsubscribeToken = this.authProviderGetter().onTokenChange(expiry => {
+        if (expiry !== null) this.resumeIfPaused();
+      });
+    }
+  }
+
+  private resumeIfPaused(): void {
+    if (!this.pausedForAuth) return;
+    this.pausedForAuth = false;
+    console.log('Resuming the sync that was waiting for sign-in');
+    void this.syncNow();
+  }
+
+  // lastSyncTime is not kept in memory across reloads; the sync history has it
+  private async restoreLastSyncTime(): Promise<void> {
+    try {
+      const lastRun = await this.history.getLastSuccessful();
+      this.setState({ lastSyncTime: lastRun?.finishedAt });
+    } catch (error) {
+      console.warn('Could not read the sync history:', error);
+    }
   }
 
   /**
@@ -123,13 +213,21 @@ export class SyncService {
 
   private async updatePendingCount(): Promise<void> {
     try {
-      const pendingCount = await this.repository.getPendingArticlesCount();
-      this.setState({ pendingCount });
+      const [pendingArticles, pendingHighlights] = await Promise.all([
+        this.repository.getPendingArticlesCount(),
+        this.highlights.getPendingCount()
+      ]);
+      this.setState({ pendingCount: pendingArticles + pendingHighlights });
     } catch (error) {
       console.error('Failed to update pending count:', error);
     }
   }
 
+  /** Re-reads the queue sizes, e.g. after the service worker pushed changes in the background. */
+  public async refreshPendingCount(): Promise<void> {
+    await this.updatePendingCount();
+  }
+
   public async syncNow(): Promise<{ success: boolean; error?: string }> {
     if (!this.config) {
       const error = 'Sync service not configured';
@@ -172,6 +270,8 @@ export class SyncService {
 
     // Track initial state for potential rollback
     let syncCheckpoint: SyncCheckpoint | null = null;
+    const run = createSyncRun(syncStartTime);
+    const rateLimitRetriesBefore = this.getRateLimitRetryCount();
 
     try {
       // Initialize sync engine first to ensure everything is set up
@@ -181,25 +281,43 @@ export class SyncService {
       syncCheckpoint = await this.createSyncCheckpoint();
 
       // Step 1: Process outgoing changes (sync queue) - more atomic
-      const outgoingResults = await this.processSyncQueueSafely();
+      const outgoingResults = await timePhase(run, 'push', () => this.queueProcessor.processArticleQueue());
+      const highlightResults = await timePhase(run, 'pushHighlights', () => this.queueProcessor.processHighlightQueue());
+      run.pushed = outgoingResults.processed;
+      run.highlightsPushed = highlightResults.processed;
+      run.pushFailures = outgoingResults.failures + highlightResults.failures;
+      run.errors.push(...outgoingResults.errors, ...highlightResults.errors);
 
       // Step 2: Fetch and merge remote changes - with validation
-      await this.syncFromRemote();
+      const fullPull = await timePhase(run, 'pull', () => this.syncFromRemote(run));
+
+      // Backup and cleanup read everything, so only piggyback on full pulls.
+      // The snapshot goes first so it still holds the rows cleanup purges.
+      if (fullPull) {
+        await timePhase(run, 'backup', () => this.backupLibrary(run));
+        await timePhase(run, 'cleanup', () => this.cleanupDeletedArticles(run));
+      }
 
       // Step 3: Verify sync integrity
-      await this.verifySyncIntegrity(syncCheckpoint);
+      await timePhase(run, 'verify', async () => {
+        await this.verifySyncIntegrity(syncCheckpoint!);
+        await this.rememberAccount();
+      });
 
       // Step 4: Update state only after all operations succeed
       await this.updatePendingCount();
+      run.finishedAt = Date.now();
       this.setState({
         status: 'idle',
-        lastSyncTime: Date.now(),
+        lastSyncTime: run.finishedAt,
         error: undefined
       });
+      await this.recordRun(run, rateLimitRetriesBefore);
 
       console.log(`Sync completed successfully in ${Date.now() - syncStartTime}ms`, {
         outgoingOperations: outgoingResults.processed,
-        failures: outgoingResults.failures
+        outgoingHighlights: highlightResults.processed,
+        failures: outgoingResults.failures + highlightResults.failures
       });
 
       // Clear the timeout since sync completed successfully
@@ -207,9 +325,15 @@ export class SyncService {
       return { success: true };
     } catch (error) {
       console.error('Sync failed:', error);
+      run.outcome = error instanceof AuthenticationRequiredError ? 'auth-required' : 'error';
+      run.errors.push(error instanceof Error ? error.message : String(error));
 
-      // Attempt recovery if we have a checkpoint
-      if (syncCheckpoint) {
+      // Waiting for sign-in isn't a failure: the queue is intact and the run resumes
+      // with the next token. Anything else gets the recovery.
+      if (error instanceof AuthenticationRequiredError) {
+        this.pausedForAuth = true;
+        console.log('Sync paused until the user signs in again');
+      } else if (syncCheckpoint) {
         try {
           await this.recoverFromSyncFailure(syncCheckpoint);
           console.log('Successfully recovered from sync failure');
@@ -218,6 +342,9 @@ export class SyncService {
         }
       }
 
+      run.finishedAt = Date.now();
+      await this.recordRun(run, rateLimitRetriesBefore);
+
       // CRITICAL: Always reset sync state on error to prevent getting stuck
       if (error instanceof AuthenticationRequiredError) {
         this.setState({ status: 'auth-required', error: 'Authentication required' });
@@ -237,80 +364,292 @@ export class SyncService {
   }
 
 
-  private async syncFromRemote(): Promise<void> {
+  // Attribution only; a failed lookup doesn't fail the sync
+  private async rememberAccount(): Promise<void> {
+    try {
+      const syncEngine = this.syncEngineFactory(this.config!);
+      setAccountEmail(await syncEngine.getUserEmail());
+    } catch (error) {
+      console.warn('Could not determine the signed-in account:', error);
+    }
+  }
+
+  /** Pulls and applies remote changes. Resolves to whether the whole sheet was read. */
+  private async syncFromRemote(run: SyncRun): Promise<boolean> {
     const syncEngine = this.syncEngineFactory(this.config!);
 
     try {
-      const remoteArticles = await syncEngine.getArticles();
+      const plan = await this.planRemoteMerge(syncEngine);
+      if (!plan) {
+        console.log('Remote spreadsheet unchanged since last pull, skipping download');
+        return false;
+      }
+      run.pulled = plan.remoteArticles.length;
+      run.conflicts = plan.conflictCount;
+
+      const { articlesToUpdate, articlesToPush } = plan;
 
-      // SAFETY CHECK: Validate remote data before proceeding
-      if (!this.validateRemoteData(remoteArticles)) {
-        throw new Error('Remote data validation failed - aborting sync to prevent data loss');
+      // Apply all updates atomically
+      if (articlesToUpdate.length > 0) {
+        console.log(`Applying ${articlesToUpdate.length} article updates from remote`);
+        await this.repository.bulkUpdate(articlesToUpdate);
       }
 
-      // Future: Could use pending operations for more sophisticated conflict resolution
-      // const pendingOperations = await this.repository.getPendingSyncOperations();
+      // Merged articles that kept local edits go back out on the next push
+      if (articlesToPush.length > 0) {
+        console.log(`Queueing ${articlesToPush.length} merged articles for upload`);
+        await this.repository.saveMergedArticles(articlesToPush);
+      }
 
-      const articlesToUpdate: Article[] = [];
-      const processedUrls = new Set<string>();
+      await this.repository.saveSyncBases(plan.basesToSave);
 
-      // Process remote articles safely
-      for (const remoteArticleData of remoteArticles) {
-        if (!remoteArticleData.url) {
-          console.warn('Skipping remote article with missing URL:', remoteArticleData);
-          continue;
+      // Discarded versions stay reviewable in the Conflicts view
+      await this.conflicts.record(plan.conflictsToRecord);
+
+      await this.syncHighlightsFromRemote(syncEngine);
+
+      console.log(`Successfully synced ${plan.remoteArticles.length} articles from remote (${plan.fullPull ? 'full' : 'delta'} pull)`);
+
+      await this.repository.setSyncMeta<PullCheckpoint>(PULL_CHECKPOINT_KEY, plan.checkpoint);
+
+      return plan.fullPull;
+    } catch (error) {
+      console.error('Failed to sync from remote:', error);
+      // Re-throw to trigger retry logic in the caller
+      throw error;
+    }
+  }
+
+  // A failed backup is recorded but never fails the sync
+  private async backupLibrary(run: SyncRun): Promise<void> {
+    try {
+      run.backedUp = await this.backups.backupIfDue();
+    } catch (backupError) {
+      console.warn('Failed to back up the library:', backupError);
+      run.errors.push(`Backup: ${backupError instanceof Error ? backupError.message : String(backupError)}`);
+    }
+  }
+
+  // Purges old soft-deleted articles on both sides; a failure here doesn't fail the sync
+  private async cleanupDeletedArticles(run: SyncRun): Promise<void> {
+    try {
+      run.cleanedUpLocal = await this.repository.cleanupDeletedArticles(DELETED_RETENTION_DAYS);
+      if (run.cleanedUpLocal > 0) {
+        console.log(`Cleaned up ${run.cleanedUpLocal} old deleted articles from local storage`);
+      }
+
+      const syncEngine = this.syncEngineFactory(this.config!);
+      if (typeof syncEngine.cleanupDeletedArticles === 'function') {
+        run.cleanedUpRemote = await syncEngine.cleanupDeletedArticles(DELETED_RETENTION_DAYS);
+        if (run.cleanedUpRemote > 0) {
+          console.log(`Cleaned up ${run.cleanedUpRemote} old deleted articles from Google Sheets`);
         }
+      }
+    } catch (cleanupError) {
+      console.warn('Failed to cleanup old deleted articles:', cleanupError);
+      run.errors.push(`Cleanup: ${cleanupError instanceof Error ? cleanupError.message : String(cleanupError)}`);
+    }
+  }
+
+  private getRateLimitRetryCount(): number {
+    try {
+      const syncEngine = this.syncEngineFactory(this.config!);
+      return typeof syncEngine.getRateLimitRetryCount === 'function' ? syncEngine.getRateLimitRetryCount() : 0;
+    } catch {
+      return 0; // Engine could not be created; the run fails on its own
+    }
+  }
+
+  // The history is diagnostics only; failing to write it never fails the sync
+  private async recordRun(run: SyncRun, rateLimitRetriesBefore: number): Promise<void> {
+    run.rateLimitRetries = this.getRateLimitRetryCount() - rateLimitRetriesBefore;
+    try {
+      await this.history.add(run);
+    } catch (error) {
+      console.warn('Could not record the sync run:', error);
+    }
+  }
+
+  /**
+   * Downloads remote changes and decides what a pull would do with them, without
+   * writing anything. Returns null when the spreadsheet is unchanged since the last pull.
+   */
+  private async planRemoteMerge(syncEngine: GoogleSheetsSyncEngine): Promise<RemoteMergePlan | null> {
+    const pullStartedAt = Date.now();
+    const revision = await this.getRemoteRevisionSafely(syncEngine);
+    const checkpoint = await this.repository.getSyncMeta<PullCheckpoint>(PULL_CHECKPOINT_KEY);
+    const fullPull = !checkpoint || pullStartedAt - checkpoint.fullPullAt > FULL_PULL_INTERVAL_MS;
+
+    if (!fullPull && revision !== null && revision === checkpoint.revision) {
+      return null;
+    }
 
-        const localArticle = await this.repository.getByUrl(remoteArticleData.url);
-        const remoteArticle = this.sheetDataToArticle(remoteArticleData);
+    const remoteArticleData = fullPull
+      ? await syncEngine.getArticles()
+      : await syncEngine.getArticlesChangedSince(new Date(checkpoint.pulledAt - CHECKPOINT_SKEW_MS).toISOString());
 
-        if (!localArticle) {
-          // New remote article - add it locally
-          articlesToUpdate.push({ ...remoteArticle, syncStatus: 'synced' as const });
+    // SAFETY CHECK: Validate remote data before proceeding
+    if (!this.validateRemoteData(remoteArticleData)) {
+      throw new Error('Remote data validation failed - aborting sync to prevent data loss');
+    }
+
+    const plan: RemoteMergePlan = {
+      fullPull,
+      checkpoint: {
+        revision,
+        pulledAt: pullStartedAt,
+        fullPullAt: fullPull ? pullStartedAt : checkpoint.fullPullAt
+      },
+      remoteArticles: [],
+      localVersions: new Map(),
+      articlesToUpdate: [],
+      articlesToPush: [],
+      basesToSave: [],
+      conflictsToRecord: [],
+      conflictCount: 0
+    };
+    const syncedAt = Date.now();
+
+    // Process remote articles safely
+    for (const data of remoteArticleData) {
+      if (!data.url) {
+        console.warn('Skipping remote article with missing URL:', data);
+        continue;
+      }
+
+      const localArticle = await this.repository.getByUrl(data.url);
+      const remoteArticle = sheetDataToArticle(data);
+      plan.remoteArticles.push(remoteArticle);
+
+      if (!localArticle) {
+        // New remote article - add it locally
+        plan.articlesToUpdate.push({ ...remoteArticle, syncStatus: 'synced' as const });
+      } else {
+        plan.localVersions.set(localArticle.url, localArticle);
+        // Resolve conflict with enhanced safety checks
+        const base = await this.repository.getSyncBase(remoteArticle.url);
+        const resolution = this.resolveConflictSafely(localArticle, remoteArticle, base);
+        if (resolution.conflict) {
+          plan.conflictsToRecord.push(resolution.conflict);
+        }
+        plan.conflictCount += (resolution.fieldConflicts ?? 0) + (resolution.conflict ? 1 : 0);
+        if (resolution.needsPush) {
+          plan.articlesToPush.push(resolution.article);
         } else {
-          // Resolve conflict with enhanced safety checks
-          const winner = this.resolveConflictSafely(localArticle, remoteArticle);
-          articlesToUpdate.push({ ...winner, syncStatus: 'synced' as const });
+          plan.articlesToUpdate.push({ ...resolution.article, syncStatus: 'synced' as const });
         }
-
-        processedUrls.add(remoteArticleData.url);
       }
 
-      // Apply all updates atomically
-      if (articlesToUpdate.length > 0) {
-        console.log(`Applying ${articlesToUpdate.length} article updates from remote`);
-        await this.repository.bulkUpdate(articlesToUpdate);
+      if (isRemoteUsable(remoteArticle)) {
+        plan.basesToSave.push(toSyncBase(remoteArticle, syncedAt));
       }
+    }
 
-      console.log(`Successfully synced ${processedUrls.size} articles from remote`);
+    return plan;
+  }
 
-      // Run cleanup of old deleted articles after successful remote sync
-      try {
-        const localCleanedUp = await this.repository.cleanupDeletedArticles(30);
-        if (localCleanedUp > 0) {
-          console.log(`Cleaned up ${localCleanedUp} old deleted articles from local storage`);
-        }
+  /**
+   * Dry run of syncNow: pushes nothing and writes nothing locally, but reads the
+   * queue and the spreadsheet to report what the next sync would change.
+   */
+  public async previewSync(): Promise<SyncPlan> {
+    if (!this.config) {
+      throw new Error('Sync service not configured');
+    }
 
-        // Also cleanup Google Sheets
-        const syncEngine = this.syncEngineFactory(this.config!);
-        if (typeof syncEngine.cleanupDeletedArticles === 'function') {
-          const remoteCleanedUp = await syncEngine.cleanupDeletedArticles(30);
-          if (remoteCleanedUp > 0) {
-            console.log(`Cleaned up ${remoteCleanedUp} old deleted articles from Google Sheets`);
-          }
+    try {
+      await this.validateSyncPreconditions();
+      const syncEngine = this.syncEngineFactory(this.config);
+
+      const outgoing = await this.queueProcessor.planArticleQueue();
+      const remote = await this.planRemoteMerge(syncEngine);
+
+      const plan: SyncPlan = {
+        rowsToAppend: outgoing.creates,
+        rowsToUpdate: outgoing.updates,
+        rowsToDelete: outgoing.deletes,
+        localAdditions: [],
+        localOverwrites: [],
+        rowsToCleanUp: [],
+        localToCleanUp: []
+      };
+      if (!remote) return plan;
+
+      for (const article of [...remote.articlesToUpdate, ...remote.articlesToPush]) {
+        const before = remote.localVersions.get(article.url);
+        if (!before) {
+          plan.localAdditions.push(article);
+          continue;
         }
-      } catch (cleanupError) {
-        console.warn('Failed to cleanup old deleted articles:', cleanupError);
-        // Don't fail the sync if cleanup fails
+        const fields = getChangedFields(before, article);
+        if (fields.length > 0) {
+          plan.localOverwrites.push({ before, after: article, fields });
+        }
+      }
+
+      if (remote.fullPull) {
+        const isExpired = (article: Article) => !!article.deletedAt && article.deletedAt < deletedRetentionCutoff();
+        plan.rowsToCleanUp = remote.remoteArticles.filter(isExpired).map(article => article.url);
+        plan.localToCleanUp = (await this.repository.getDeletedArticles()).filter(isExpired).map(article => article.url);
       }
 
+      return plan;
     } catch (error) {
-      console.error('Failed to sync from remote:', error);
-      // Re-throw to trigger retry logic in the caller
+      if (error instanceof AuthenticationRequiredError) {
+        this.setState({ status: 'auth-required', error: 'Authentication required' });
+      }
       throw error;
     }
   }
 
+  /**
+   * Pulls the Highlights tab and reconciles it with local highlights.
+   * The tab is small, so it is read whole whenever the spreadsheet changed.
+   */
+  private async syncHighlightsFromRemote(syncEngine: GoogleSheetsSyncEngine): Promise<void> {
+    const remoteHighlights = await syncEngine.getHighlights();
+    const highlightsToUpdate: HighlightRecord[] = [];
+    const highlightsToPush: HighlightRecord[] = [];
+
+    for (const remote of remoteHighlights) {
+      const local = await this.highlights.getById(remote.id);
+      if (!local) {
+        highlightsToUpdate.push({ ...remote, syncStatus: 'synced' });
+        continue;
+      }
+
+      const { highlight, needsPush } = mergeHighlights(local, remote);
+      if (needsPush) {
+        highlightsToPush.push(highlight);
+      } else {
+        highlightsToUpdate.push(highlight);
+      }
+    }
+
+    if (highlightsToUpdate.length > 0) {
+      await this.highlights.bulkPut(highlightsToUpdate);
+    }
+
+    if (highlightsToPush.length > 0) {
+      console.log(`Queueing ${highlightsToPush.length} merged highlights for upload`);
+      await this.highlights.saveMerged(highlightsToPush);
+    }
+
+    console.log(`Synced ${remoteHighlights.length} highlights from remote`);
+  }
+
+  private async getRemoteRevisionSafely(syncEngine: GoogleSheetsSyncEngine): Promise<string | null> {
+    try {
+      const { version } = await syncEngine.getRemoteRevision();
+      return version;
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      // Without a revision we can't skip the pull, but a delta pull still works
+      console.warn('Could not read spreadsheet revision:', error);
+      return null;
+    }
+  }
+
   private validateRemoteData(remoteArticles: unknown[]): boolean {
     // Basic validation to prevent data corruption
     if (!Array.isArray(remoteArticles)) {
@@ -345,21 +684,39 @@ export class SyncService {
     return true;
   }
 
-  private resolveConflictSafely(local: Article, remote: Article): Article {
+  private resolveConflictSafely(local: Article, remote: Article, base?: SyncBase): ConflictResolution {
     // Enhanced conflict resolution with safety checks
 
     // Validate that both articles have the same URL
     if (local.url !== remote.url) {
       console.error(`URL mismatch in conflict resolution: local="${local.url}" remote="${remote.url}"`);
-      return local; // Prefer local when there's a data integrity issue
+      // Prefer local when there's a data integrity issue
+      return { article: local, needsPush: false, conflict: discardedConflict(local, remote, 'local', 'url-mismatch') };
     }
 
     // Check for data corruption indicators
-    if (!remote.title || !remote.domain) {
+    if (!isRemoteUsable(remote)) {
       console.warn(`Remote article appears corrupted for ${remote.url}, preferring local version`);
-      return local;
+      return { article: local, needsPush: false, conflict: discardedConflict(local, remote, 'local', 'corrupted-remote') };
+    }
+
+    // Field-level three-way merge when we know what both sides started from
+    if (base) {
+      const { article, conflicts, needsPush } = mergeArticles(base, local, remote);
+      logFieldConflicts(local.url, conflicts);
+      return { article, needsPush, fieldConflicts: conflicts.length };
     }
 
+    // No base yet (article never synced on this device) - fall back to whole-record LWW
+    const article = this.resolveByLastWrite(local, remote);
+    // A pending local version means both sides changed; whichever lost is kept for review
+    const conflict = local.syncStatus === 'pending'
+      ? discardedConflict(local, remote, article === local ? 'local' : 'remote', 'concurrent-edit')
+      : undefined;
+    return { article, needsPush: false, conflict };
+  }
+
+  private resolveByLastWrite(local: Article, remote: Article): Article {
     // For conflict resolution, consider deletedAt as the most recent change timestamp
     const localTime = local.deletedAt || local.editedAt || local.timestamp;
     const remoteTime = remote.deletedAt || remote.editedAt || remote.timestamp;
@@ -391,42 +748,6 @@ export class SyncService {
     return remoteTime > localTime ? remote : local;
   }
 
-
-  private articleToSheetData(article: Article): ArticleData {
-    return {
-      url: article.url,
-      title: article.title,
-      description: article.description || '',
-      featuredImage: article.featuredImage || '',
-      domain: article.domain,
-      timestamp: new Date(article.timestamp).toISOString(),
-      tags: article.tags,
-      notes: article.notes,
-      archived: article.archived,
-      favorite: article.favorite,
-      editedAt: article.editedAt ? new Date(article.editedAt).toISOString() : undefined,
-      deletedAt: article.deletedAt ? new Date(article.deletedAt).toISOString() : undefined
-    };
-  }
-
-  private sheetDataToArticle(data: ArticleData): Article {
-    return {
-      url: data.url,
-      title: data.title,
-      description: data.description,
-      featuredImage: data.featuredImage,
-      domain: data.domain,
-      timestamp: new Date(data.timestamp).getTime(),
-      tags: data.tags || [],
-      notes: data.notes,
-      archived: data.archived || false,
-      favorite: data.favorite || false,
-      editedAt: data.editedAt ? new Date(data.editedAt).getTime() : undefined,
-      deletedAt: data.deletedAt ? new Date(data.deletedAt).getTime() : undefined,
-      syncStatus: 'synced'
-    };
-  }
-
   public async authenticate(): Promise<{ success: boolean; error?: string }> {
     if (!this.config) {
       return { success: false, error: 'Sync service not configured' };
@@ -442,13 +763,15 @@ export class SyncService {
       if (handled) {
         console.log('Auth redirect handled successfully');
         this.setState({ status: 'idle', error: undefined });
+        this.resumeIfPaused();
         return { success: true };
       }
 
-      // Check if we have a stored token
+      // Check if we have a stored token (renewed silently if it lapsed)
       if (await authProvider.isAuthenticated()) {
         console.log('Already authenticated');
         this.setState({ status: 'idle', error: undefined });
+        this.resumeIfPaused();
         return { success: true };
       }
 
@@ -467,6 +790,38 @@ export class SyncService {
 
   public async clearAllData(): Promise<void> {
     await this.repository.clearSyncQueue();
+    await this.highlights.clearSyncQueue();
+    await this.updatePendingCount();
+  }
+
+  /**
+   * Called after the active reading list changed. The engine factory already
+   * resolves to the new list, so only the per-list state needs resetting.
+   */
+  public async handleListChanged(): Promise<void> {
+    this.setState({
+      status: this.syncState.status === 'error' ? 'idle' : this.syncState.status,
+      lastSyncTime: undefined,
+      error: undefined
+    });
+    await this.updatePendingCount();
+  }
+
+  /**
+   * Called after switching to another Google account. Its token, lists and
+   * databases are already active; the token subscription moves to its auth
+   * provider and the sign-in state is checked again.
+   */
+  public async handleAccountChanged(): Promise<void> {
+    this.unsubscribeToken?.();
+    this.unsubscribeToken = undefined;
+    this.pausedForAuth = false;
+    this.setState({ lastSyncTime: undefined, error: undefined });
+
+    if (this.config) {
+      this.configure(this.config);
+      await this.checkAuthStatus();
+    }
     await this.updatePendingCount();
   }
 
@@ -511,120 +866,6 @@ export class SyncService {
     };
   }
 
-  private async processSyncQueueSafely(): Promise<SyncQueueResult> {
-    const operations = await this.repository.getPendingSyncOperations();
-    const syncEngine = this.syncEngineFactory(this.config!);
-
-    const result: SyncQueueResult = {
-      processed: 0,
-      failures: 0,
-      errors: []
-    };
-
-    if (operations.length === 0) return result;
-
-    // Group operations by type for batch processing
-    const creates: SyncOperation[] = [];
-    const updates: SyncOperation[] = [];
-    const deletes: SyncOperation[] = [];
-
-    for (const op of operations) {
-      switch (op.type) {
-        case 'create': if (op.data.url) creates.push(op); break;
-        case 'update': if (op.data.url) updates.push(op); break;
-        case 'delete': deletes.push(op); break;
-      }
-    }
-
-    // Process creates in batch (1 API call for all)
-    if (creates.length > 0) {
-      try {
-        const articles = creates.map(op => this.articleToSheetData(op.data as Article));
-        const results = await syncEngine.saveArticles(articles);
-        for (let i = 0; i < creates.length; i++) {
-          if (results[i]?.success) {
-            await this.repository.removeSyncOperation(creates[i].id);
-            await this.repository.markAsSynced(creates[i].articleUrl);
-            result.processed++;
-          } else {
-            await this.handleOperationFailure(creates[i], results[i]?.error || 'Batch create failed', result);
-          }
-        }
-      } catch (error) {
-        if (error instanceof AuthenticationRequiredError) throw error;
-        // Batch failed — mark all for retry
-        for (const op of creates) {
-          await this.handleOperationFailure(op, error instanceof Error ? error.message : 'Unknown error', result);
-        }
-      }
-    }
-
-    // Process updates in batch (1 read + 1 write API call for all)
-    if (updates.length > 0) {
-      try {
-        const batchUpdates = updates.map(op => ({
-          url: op.articleUrl,
-          updates: this.articleToSheetData(op.data as Article)
-        }));
-        const results = await syncEngine.batchUpdateArticles(batchUpdates);
-        for (let i = 0; i < updates.length; i++) {
-          if (results[i]?.success) {
-            await this.repository.removeSyncOperation(updates[i].id);
-            await this.repository.markAsSynced(updates[i].articleUrl);
-            result.processed++;
-          } else {
-            await this.handleOperationFailure(updates[i], results[i]?.error || 'Batch update failed', result);
-          }
-        }
-      } catch (error) {
-        if (error instanceof AuthenticationRequiredError) throw error;
-        for (const op of updates) {
-          await this.handleOperationFailure(op, error instanceof Error ? error.message : 'Unknown error', result);
-        }
-      }
-    }
-
-    // Process deletes in batch (1 read + 1 write API call for all)
-    if (deletes.length > 0) {
-      try {
-        const urls = deletes.map(op => op.articleUrl);
-        const results = await syncEngine.batchDeleteArticles(urls);
-        for (let i = 0; i < deletes.length; i++) {
-          if (results[i]?.success) {
-            await this.repository.removeSyncOperation(deletes[i].id);
-            result.processed++;
-          } else {
-            await this.handleOperationFailure(deletes[i], results[i]?.error || 'Batch delete failed', result);
-          }
-        }
-      } catch (error) {
-        if (error instanceof AuthenticationRequiredError) throw error;
-        for (const op of deletes) {
-          await this.handleOperationFailure(op, error instanceof Error ? error.message : 'Unknown error', result);
-        }
-      }
-    }
-
-    return result;
-  }
-
-  private async handleOperationFailure(
-    operation: SyncOperation,
-    errorMessage: string,
-    result: SyncQueueResult
-  ): Promise<void> {
-    console.error(`Failed sync operation ${operation.id} (${operation.type} ${operation.articleUrl}):`, errorMessage);
-    result.failures++;
-    result.errors.push(`Operation ${operation.type} for ${operation.articleUrl}: ${errorMessage}`);
-
-    await this.repository.incrementSyncRetryCount(operation.id);
-
-    if (operation.retryCount >= 2) {
-      console.warn(`Removing sync operation ${operation.id} after ${operation.retryCount + 1} failed attempts`);
-      await this.repository.removeSyncOperation(operation.id);
-    }
-  }
-
   private async verifySyncIntegrity(checkpoint: SyncCheckpoint): Promise<void> {
     // Verify that sync operations completed as expected
     const currentSyncQueueCount = (await this.repository.getPendingSyncOperations()).length;
@@ -660,20 +901,51 @@ export class SyncService {
       lastSyncTime: checkpoint.lastSyncTime
     });
 
-    // Clear any corrupted sync operations that might be stuck
-    const stalledOperations = await this.repository.getPendingSyncOperations();
-    const now = Date.now();
-    const maxAge = 60 * 60 * 1000; // 1 hour
-
-    for (const operation of stalledOperations) {
-      if (now - operation.timestamp > maxAge && operation.retryCount >= 2) {
-        console.log(`Removing stalled sync operation: ${operation.id}`);
-        await this.repository.removeSyncOperation(operation.id);
-      }
-    }
+    // Operations that keep failing are moved to the dead letters by the queue processor
 
     await this.updatePendingCount();
   }
 }
 
-export const syncService = new SyncService();
\ No newline at end of file
+function createSyncRun(startedAt: number): SyncRun {
+  return {
+    id: crypto.randomUUID(),
+    startedAt,
+    finishedAt: startedAt,
+    outcome: 'success',
+    phaseDurations: {},
+    pushed: 0,
+    highlightsPushed: 0,
+    pushFailures: 0,
+    pulled: 0,
+    conflicts: 0,
+    cleanedUpLocal: 0,
+    cleanedUpRemote: 0,
+    rateLimitRetries: 0,
+    errors: []
+  };
+}
+
+async function timePhase<T>(run: SyncRun, phase: SyncPhase, step: () => Promise<T>): Promise<T> {
+  const startedAt = Date.now();
+  try {
+    return await step();
+  } finally {
+    run.phaseDurations[phase] = Date.now() - startedAt;
+  }
+}
+
+function deletedRetentionCutoff(): number {
+  return Date.now() - DELETED_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+}
+
+function discardedConflict(
+  local: Article,
+  remote: Article,
+  kept: ArticleConflict['kept'],
+  reason: ConflictReason
+): ArticleConflict {
+  return { url: local.url, local, remote, kept, reason, detectedAt: Date.now() };
+}
+
+export const syncService = new SyncService();
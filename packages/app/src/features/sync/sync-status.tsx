@@ -1,6 +1,9 @@
+import { useState } from 'react';
 import { Button } from '@/components/ui/button';
-import { useSync } from './use-sync';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useSync, useSyncPreview } from './use-sync';
 import { GoogleSheetsConfig } from './types';
+import { SyncPlanSummary } from './sync-plan-summary';
 import { RefreshCw, WifiOff, CheckCircle, AlertCircle, Clock } from 'lucide-react';
 
 interface SyncStatusProps {
@@ -10,6 +13,8 @@ interface SyncStatusProps {
 
 export function SyncStatus({ config, isOnline }: SyncStatusProps) {
   const { syncState, syncNow, authenticate, isSyncing, canSync, needsAuth, lastSyncError } = useSync(config);
+  const preview = useSyncPreview();
+  const [popoverOpen, setPopoverOpen] = useState(false);
 
   const isCheckingAuth = syncState.status === 'checking-auth';
   const isNotAuthenticated = syncState.status === 'not-authenticated';
@@ -58,12 +63,73 @@ export function SyncStatus({ config, isOnline }: SyncStatusProps) {
     return date.toLocaleDateString();
   };
 
+  const canPreview = isOnline && !!config && canSync && !needsAuth && !isNotAuthenticated;
+
+  const handleOpenChange = (open: boolean) => {
+    setPopoverOpen(open);
+    // A plan goes stale quickly, so it is never shown again after closing
+    if (!open) preview.reset();
+  };
+
+  const applyPlan = () => {
+    handleOpenChange(false);
+    syncNow();
+  };
+
   return (
     <div className="flex items-center gap-2">
-      <div className={`flex items-center gap-1 px-2 py-1 rounded text-xs ${getSyncColor()}`}>
-        {getSyncIcon()}
-        <span>{getSyncText()}</span>
-      </div>
+      <Popover open={popoverOpen} onOpenChange={handleOpenChange}>
+        <PopoverTrigger asChild>
+          <button
+            type="button"
+            className={`flex items-center gap-1 px-2 py-1 rounded text-xs ${getSyncColor()}`}
+            title="Sync details"
+          >
+            {getSyncIcon()}
+            <span>{getSyncText()}</span>
+          </button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-80 space-y-3">
+          <div className="space-y-0.5">
+            <p className="text-sm font-medium">{getSyncText()}</p>
+            {syncState.lastSyncTime && (
+              <p className="text-xs text-muted-foreground">Last sync: {formatLastSyncTime()}</p>
+            )}
+            {lastSyncError && <p className="text-xs text-destructive break-words">{lastSyncError}</p>}
+          </div>
+
+          {preview.data ? (
+            <>
+              <SyncPlanSummary plan={preview.data} />
+              <div className="flex justify-end gap-2">
+                <Button size="sm" variant="ghost" onClick={() => preview.reset()}>
+                  Cancel
+                </Button>
+                <Button size="sm" onClick={applyPlan} disabled={!canPreview || isSyncing}>
+                  Apply
+                </Button>
+              </div>
+            </>
+          ) : (
+            <>
+              <p className="text-xs text-muted-foreground">
+                See what the next sync would change before it touches the spreadsheet.
+              </p>
+              {preview.error && <p className="text-xs text-destructive break-words">{preview.error.message}</p>}
+              <Button
+                size="sm"
+                variant="outline"
+                className="w-full"
+                onClick={() => preview.mutate()}
+                disabled={!canPreview || isSyncing || preview.isPending}
+              >
+                <RefreshCw className={`w-3 h-3 ${preview.isPending ? 'animate-spin' : ''}`} />
+                {preview.isPending ? 'Checking...' : 'Preview sync'}
+              </Button>
+            </>
+          )}
+        </PopoverContent>
+      </Popover>
 
       {isOnline && config && (
         <>
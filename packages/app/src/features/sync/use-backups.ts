@@ -0,0 +1,52 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { libraryBackupService, LibrarySnapshot } from './backup-service.js';
+import { syncService } from './sync-service.js';
+
+export function useSnapshots() {
+  return useQuery({
+    queryKey: ['snapshots'],
+    queryFn: () => libraryBackupService.listSnapshots(),
+    staleTime: 0,
+    retry: false,
+  });
+}
+
+/** Downloads a snapshot and compares it with this device. */
+export function useSnapshotPreview(id: string | null) {
+  return useQuery({
+    queryKey: ['snapshot', id],
+    queryFn: async () => {
+      const snapshot = await libraryBackupService.loadSnapshot(id!);
+      return { snapshot, candidates: await libraryBackupService.previewRestore(snapshot) };
+    },
+    enabled: id !== null,
+    staleTime: 0,
+    retry: false,
+  });
+}
+
+export function useBackupNow() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => libraryBackupService.backupNow(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['snapshots'] });
+    },
+  });
+}
+
+export function useRestoreSnapshot() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ snapshot, urls }: { snapshot: LibrarySnapshot; urls?: string[] }) =>
+      libraryBackupService.restore(snapshot, urls),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['snapshot'] });
+      queryClient.invalidateQueries({ queryKey: ['articles'] });
+      queryClient.invalidateQueries({ queryKey: ['highlights'] });
+      syncService.refreshPendingCount();
+    },
+  });
+}
@@ -0,0 +1,25 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { conflictRepository, ConflictFieldChoices, ConflictSide } from './conflict-repository.js';
+import { syncService } from './sync-service.js';
+
+export function useConflicts() {
+  return useQuery({
+    queryKey: ['conflicts'],
+    queryFn: () => conflictRepository.getAll(),
+    staleTime: 0,
+  });
+}
+
+export function useResolveConflict() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ url, choices }: { url: string; choices: ConflictSide | ConflictFieldChoices }) =>
+      conflictRepository.resolve(url, choices),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['conflicts'] });
+      queryClient.invalidateQueries({ queryKey: ['articles'] });
+      syncService.refreshPendingCount();
+    },
+  });
+}
@@ -0,0 +1,36 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { deadLetterRepository } from './dead-letter-repository.js';
+import { syncService } from './sync-service.js';
+
+export function useDeadLetters() {
+  return useQuery({
+    queryKey: ['deadLetters'],
+    queryFn: () => deadLetterRepository.getAll(),
+    staleTime: 0,
+  });
+}
+
+export function useRetryDeadLetter() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deadLetterRepository.retry(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['deadLetters'] });
+    },
+  });
+}
+
+export function useDiscardDeadLetter() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deadLetterRepository.discard(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['deadLetters'] });
+      queryClient.invalidateQueries({ queryKey: ['articles'] });
+      queryClient.invalidateQueries({ queryKey: ['highlights'] });
+      syncService.refreshPendingCount();
+    },
+  });
+}
@@ -0,0 +1,24 @@
+import { useMutation } from '@tanstack/react-query';
+import type { RepairOptions } from '@readlater/google-sheets-sync';
+import { getSyncEngineSafely } from './google-sheets.js';
+
+function requireSyncEngine() {
+  const engine = getSyncEngineSafely();
+  if (!engine) {
+    throw new Error('Sign in to Google to check the spreadsheet');
+  }
+  return engine;
+}
+
+/** Reads the active list's sheet and reports problems; changes nothing. */
+export function useDiagnoseSpreadsheet() {
+  return useMutation({
+    mutationFn: () => requireSyncEngine().diagnose(),
+  });
+}
+
+export function useRepairSpreadsheet() {
+  return useMutation({
+    mutationFn: (options: RepairOptions) => requireSyncEngine().repair(options),
+  });
+}
@@ -0,0 +1,26 @@
+import { useEffect, useRef } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { syncHistoryRepository } from './sync-history-repository.js';
+import { syncService } from './sync-service.js';
+
+export function useSyncHistory(limit: number = 20) {
+  const queryClient = useQueryClient();
+  const wasSyncing = useRef(syncService.getState().status === 'syncing');
+
+  // Every finished run adds a record, whatever started it
+  useEffect(() => {
+    return syncService.subscribe(state => {
+      const syncing = state.status === 'syncing';
+      if (wasSyncing.current && !syncing) {
+        queryClient.invalidateQueries({ queryKey: ['syncHistory'] });
+      }
+      wasSyncing.current = syncing;
+    });
+  }, [queryClient]);
+
+  return useQuery({
+    queryKey: ['syncHistory', limit],
+    queryFn: () => syncHistoryRepository.getRecent(limit),
+    staleTime: 0,
+  });
+}
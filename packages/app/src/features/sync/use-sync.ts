@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { syncService, SyncState, SyncStatus } from './sync-service.js';
+import { syncService, SyncPlan, SyncState, SyncStatus } from './sync-service.js';
 import { GoogleSheetsConfig } from './types.js';
 
 export function useSync(config?: GoogleSheetsConfig) {
@@ -24,8 +24,11 @@ export function useSync(config?: GoogleSheetsConfig) {
     mutationFn: () => syncService.syncNow(),
     onSuccess: (result) => {
       if (result.success) {
-        // Invalidate all article queries to refresh UI
+        // Invalidate all article and highlight queries to refresh UI
         queryClient.invalidateQueries({ queryKey: ['articles'] });
+        queryClient.invalidateQueries({ queryKey: ['highlights'] });
+        queryClient.invalidateQueries({ queryKey: ['deadLetters'] });
+        queryClient.invalidateQueries({ queryKey: ['conflicts'] });
       }
     }
   });
@@ -63,4 +66,11 @@ export function useSync(config?: GoogleSheetsConfig) {
   };
 }
 
-export type { SyncState, SyncStatus };
\ No newline at end of file
+/** Dry run of the next sync; `data` holds the plan once it is ready. */
+export function useSyncPreview() {
+  return useMutation({
+    mutationFn: () => syncService.previewSync(),
+  });
+}
+
+export type { SyncPlan, SyncState, SyncStatus };
\ No newline at end of file
@@ -0,0 +1,103 @@
+const ACCOUNT_EMAIL_KEY = 'readlater_account_email';
+const ACCOUNTS_KEY = 'readlater_accounts';
+const ACTIVE_ACCOUNT_KEY = 'readlater_active_account';
+
+/** The account signed in before accounts existed; it keeps the original storage keys and databases. */
+export const DEFAULT_ACCOUNT_ID = 'default';
+
+/**
+ * A Google account used on this device. Its token, spreadsheet and lists are
+ * stored under keys suffixed with the ID, and its articles in databases of its own.
+ */
+export interface Account {
+  id: string;
+  email?: string;           // Known after the account's first sync
+}
+
+type AccountsListener = () => void;
+
+const listeners = new Set<AccountsListener>();
+
+/**
+ * The account the app works with; persisted so reloads reopen the same one.
+ * The service worker has no localStorage and gets the account from its context.
+ */
+export function getActiveAccountId(): string {
+  return globalThis.localStorage?.getItem(ACTIVE_ACCOUNT_KEY) || DEFAULT_ACCOUNT_ID;
+}
+
+export function setActiveAccountId(accountId: string): void {
+  localStorage.setItem(ACTIVE_ACCOUNT_KEY, accountId);
+}
+
+/** Where an account keeps a localStorage value; the default account uses the key as is. */
+export function accountStorageKey(key: string, accountId: string = getActiveAccountId()): string {
+  return accountId === DEFAULT_ACCOUNT_ID ? key : `${key}:${accountId}`;
+}
+
+/** Accounts used on this device, the default one first. */
+export function getAccounts(): Account[] {
+  return [DEFAULT_ACCOUNT_ID, ...loadAccountIds()].map(id => ({ id, email: getAccountEmail(id) }));
+}
+
+/** Adds an account that has yet to sign in. */
+export function registerAccount(): Account {
+  const id = crypto.randomUUID().slice(0, 8);
+  localStorage.setItem(ACCOUNTS_KEY, JSON.stringify([...loadAccountIds(), id]));
+  notifyAccountsChanged();
+  return { id };
+}
+
+/** Forgets an account and everything stored under its keys. Its databases are deleted separately. */
+export function forgetAccount(accountId: string): void {
+  if (accountId === DEFAULT_ACCOUNT_ID) return;
+
+  localStorage.setItem(ACCOUNTS_KEY, JSON.stringify(loadAccountIds().filter(id => id !== accountId)));
+  const suffix = `:${accountId}`;
+  const keys = Array.from({ length: localStorage.length }, (_, i) => localStorage.key(i));
+  keys
+    .filter((key): key is string => !!key?.startsWith('readlater_') && key.endsWith(suffix))
+    .forEach(key => localStorage.removeItem(key));
+  notifyAccountsChanged();
+}
+
+/**
+ * Email of the signed-in Google account, remembered after a successful sync so
+ * local saves can be attributed and "by" chips work offline.
+ */
+export function getAccountEmail(accountId?: string): string | undefined {
+  return localStorage.getItem(accountStorageKey(ACCOUNT_EMAIL_KEY, accountId)) || undefined;
+}
+
+export function setAccountEmail(email: string): void {
+  const key = accountStorageKey(ACCOUNT_EMAIL_KEY);
+  if (localStorage.getItem(key) === email) return;
+  localStorage.setItem(key, email);
+  notifyAccountsChanged();
+}
+
+export function onAccountsChange(listener: AccountsListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notifyAccountsChanged(): void {
+  listeners.forEach(listener => listener());
+}
+
+function loadAccountIds(): string[] {
+  try {
+    const ids = JSON.parse(localStorage.getItem(ACCOUNTS_KEY) || '[]') as string[];
+    return ids.filter(id => id !== DEFAULT_ACCOUNT_ID);
+  } catch (error) {
+    console.warn('Failed to read the accounts on this device:', error);
+    return [];
+  }
+}
+
+/** Short label for a contributor: the part of the email before the @. */
+export function contributorName(email: string): string {
+  return email.split('@')[0] || email;
+}
@@ -0,0 +1,16 @@
+import { DEFAULT_LIST_ID } from '@readlater/core';
+import { accountStorageKey } from './account';
+
+const ACTIVE_LIST_KEY = 'readlater_active_list';
+
+/**
+ * The reading list shown in the app; persisted per account so reloads reopen the same list.
+ * The service worker has no localStorage and starts on the default list.
+ */
+export function getActiveListId(): string {
+  return globalThis.localStorage?.getItem(accountStorageKey(ACTIVE_LIST_KEY)) || DEFAULT_LIST_ID;
+}
+
+export function setActiveListId(listId: string): void {
+  localStorage.setItem(accountStorageKey(ACTIVE_LIST_KEY), listId);
+}
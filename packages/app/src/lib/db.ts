@@ -1,4 +1,8 @@
 import Dexie, { Table } from 'dexie';
+import { DEFAULT_LIST_ID } from '@readlater/core';
+import type { ArticleContentSource, Highlight } from '@readlater/core';
+import { getActiveListId } from './active-list';
+import { DEFAULT_ACCOUNT_ID, getActiveAccountId } from './account';
 
 export interface Article {
   url: string;              // Primary key (normalized; strip UTM params, etc.)
@@ -13,16 +17,152 @@ export interface Article {
   timestamp: number;        // When article was created (ms since epoch)
   editedAt?: number;        // When article was last modified (ms since epoch, optional)
   deletedAt?: number;       // When article was soft deleted (ms since epoch, optional)
-  syncStatus: 'synced' | 'pending';  // No 'conflict' - auto-resolved with LWW
+  addedBy?: string;         // Email of the account that first saved the article
+  editedBy?: string;        // Email of the account that last wrote it to the sheet
+  fieldEditedAt?: Partial<Record<MergeableField, number>>;  // Per-field local edit times, used to settle merge conflicts
+  syncStatus: 'synced' | 'pending';  // No 'conflict' - auto-resolved by field-level merge
 }
 
+/**
+ * Article fields that are reconciled individually during a three-way merge.
+ * url, domain and timestamp are identity fields and never change after creation.
+ */
+export const MERGEABLE_FIELDS = [
+  'title',
+  'description',
+  'featuredImage',
+  'tags',
+  'notes',
+  'archived',
+  'favorite',
+  'deletedAt',
+] as const;
+
+export type MergeableField = typeof MERGEABLE_FIELDS[number];
+
+/**
+ * Snapshot of an article as it was last seen on the remote side.
+ * Serves as the common ancestor when merging local and remote edits.
+ */
+export type SyncBase = Pick<Article, 'url' | 'timestamp' | 'editedAt' | MergeableField> & {
+  syncedAt: number;
+};
+
 export interface SyncOperation {
   id: string;
   type: 'create' | 'update' | 'delete';
   articleUrl: string;
   data: Partial<Article>;
   timestamp: number;
+  retryCount: number;       // Failed push attempts so far
+  nextRetryAt?: number;     // Skipped by sync until then after a failure (ms since epoch)
+  lastError?: string;
+}
+
+/**
+ * Local copy of a highlight. Timestamps stay ISO strings as in the Highlights tab.
+ */
+export interface HighlightRecord extends Highlight {
+  syncStatus: 'synced' | 'pending';
+}
+
+/**
+ * Queued push of a highlight. The current local record is sent when the queue
+ * is processed, so one entry per highlight is enough.
+ */
+export interface HighlightSyncOperation {
+  id: string;
+  highlightId: string;
+  articleUrl: string;
+  timestamp: number;
   retryCount: number;
+  nextRetryAt?: number;
+  lastError?: string;
+}
+
+/**
+ * Queue entry that still failed after `maxRetries` retries. It is set aside
+ * (keyed by the operation ID) until the user retries or discards it in Settings.
+ */
+export type DeadLetter = {
+  id: string;
+  error: string;
+  failedAt: number;
+} & (
+  | { kind: 'article'; operation: SyncOperation }
+  | { kind: 'highlight'; operation: HighlightSyncOperation }
+);
+
+/**
+ * Why a pull had to discard one version of an article outright:
+ * - concurrent-edit: both sides changed an article without a sync base and last-write-wins picked one
+ * - url-mismatch: the remote row did not belong to the local article
+ * - corrupted-remote: the remote row was missing its title or domain
+ */
+export type ConflictReason = 'concurrent-edit' | 'url-mismatch' | 'corrupted-remote';
+
+/**
+ * Both versions of an article from a conflict that sync settled on its own.
+ * Kept (one per URL, the latest wins) until the user reviews it in the Conflicts view.
+ */
+export interface ArticleConflict {
+  url: string;              // Primary key, the local article's URL
+  local: Article;
+  remote: Article;
+  kept: 'local' | 'remote'; // The version sync applied
+  reason: ConflictReason;
+  detectedAt: number;
+}
+
+export type SyncPhase = 'push' | 'pushHighlights' | 'pull' | 'backup' | 'cleanup' | 'verify';
+
+/**
+ * One run of SyncService.syncNow, kept for the sync history in Settings and the debug panel.
+ * Counters stay at 0 for phases the run never reached.
+ */
+export interface SyncRun {
+  id: string;
+  startedAt: number;
+  finishedAt: number;
+  outcome: 'success' | 'error' | 'auth-required';
+  phaseDurations: Partial<Record<SyncPhase, number>>;  // Milliseconds spent in each phase
+  pushed: number;           // Article operations that reached the sheet
+  highlightsPushed: number;
+  pushFailures: number;     // Operations (articles and highlights) that failed and were rescheduled
+  pulled: number;           // Remote articles downloaded; 0 when the sheet was unchanged
+  conflicts: number;        // Field conflicts settled by the merge plus discarded versions
+  cleanedUpLocal: number;   // Old soft-deleted articles purged on each side
+  cleanedUpRemote: number;
+  rateLimitRetries: number; // Sheets API requests retried after a rate limit
+  backedUp?: boolean;       // Whether the run wrote a library snapshot to Drive
+  errors: string[];
+}
+
+/**
+ * Readable copy of an article for the offline reader. Device-local only:
+ * the HTML is sanitized before it is stored and images are kept as blobs.
+ */
+export interface ArticleContentRecord {
+  url: string;              // Primary key, same as the article
+  title: string;
+  byline?: string;
+  html: string;             // Sanitized body; image src attributes are keys into `images`
+  images: Record<string, Blob>;  // Original image URL -> downloaded copy
+  wordCount?: number;
+  readingTime?: number;     // Minutes
+  publishedAt?: string;
+  embeddable?: boolean;     // False when the page refuses to load in a frame
+  source: ArticleContentSource;
+  cachedAt: number;
+}
+
+/**
+ * Key-value record for sync bookkeeping that must survive reloads
+ * (e.g. the remote pull checkpoint).
+ */
+export interface SyncMetaEntry<T = unknown> {
+  key: string;
+  value: T;
 }
 
 export interface PaginationCursor {
@@ -37,18 +177,92 @@ export interface PaginatedResult<T> {
   totalCount?: number;      // Optional, for UI indicators
 }
 
-class ReadLaterDB extends Dexie {
+export class ReadLaterDB extends Dexie {
   articles!: Table<Article>;
   syncQueue!: Table<SyncOperation>;
+  syncBase!: Table<SyncBase>;
+  syncMeta!: Table<SyncMetaEntry>;
+  highlights!: Table<HighlightRecord>;
+  highlightSyncQueue!: Table<HighlightSyncOperation>;
+  content!: Table<ArticleContentRecord>;
+  deadLetters!: Table<DeadLetter>;
+  conflicts!: Table<ArticleConflict>;
+  syncRuns!: Table<SyncRun>;
 
-  constructor() {
-    super('ReadLaterDB');
+  constructor(name: string) {
+    super(name);
     this.version(1).stores({
       // Simplified single-field indexes for optimal performance
       articles: 'url, timestamp, archived, favorite, domain, syncStatus, editedAt, deletedAt, *tags',
       syncQueue: 'id, timestamp, type, articleUrl'
     });
+    this.version(2).stores({
+      syncBase: 'url'
+    });
+    this.version(3).stores({
+      syncMeta: 'key'
+    });
+    this.version(4).stores({
+      highlights: 'id, articleUrl, syncStatus',
+      highlightSyncQueue: 'id, timestamp, highlightId'
+    });
+    this.version(5).stores({
+      content: 'url'
+    });
+    this.version(6).stores({
+      deadLetters: 'id, failedAt'
+    });
+    this.version(7).stores({
+      conflicts: 'url, detectedAt'
+    });
+    this.version(8).stores({
+      syncRuns: 'id, startedAt'
+    });
   }
 }
 
-export const db = new ReadLaterDB();
\ No newline at end of file
+/**
+ * Each reading list keeps its articles in its own database, within the account's
+ * databases; the default list of the default account keeps the original one.
+ */
+export function databaseNameForList(listId: string, accountId: string = getActiveAccountId()): string {
+  const base = accountDatabasePrefix(accountId);
+  return listId === DEFAULT_LIST_ID ? base : `${base}-${listId}`;
+}
+
+function accountDatabasePrefix(accountId: string): string {
+  return accountId === DEFAULT_ACCOUNT_ID ? 'ReadLaterDB' : `ReadLaterDB:${accountId}`;
+}
+
+// Always the active list's database. Repositories read this binding on every
+// call, so switching lists or accounts takes effect without recreating them.
+export let db = new ReadLaterDB(databaseNameForList(getActiveListId()));
+
+export function openListDatabase(listId: string, accountId?: string): void {
+  const name = databaseNameForList(listId, accountId);
+  if (db.name === name) return;
+  db.close();
+  db = new ReadLaterDB(name);
+}
+
+/** Opens a list's database next to the active one, without switching to it. Close it when done. */
+export function openDatabase(listId: string, accountId?: string): ReadLaterDB {
+  return new ReadLaterDB(databaseNameForList(listId, accountId));
+}
+
+export async function deleteListDatabase(listId: string): Promise<void> {
+  if (listId === DEFAULT_LIST_ID) return;
+  await Dexie.delete(databaseNameForList(listId));
+}
+
+/** Deletes every list database of an account removed from this device. */
+export async function deleteAccountDatabases(accountId: string): Promise<void> {
+  if (accountId === DEFAULT_ACCOUNT_ID) return;
+  const prefix = accountDatabasePrefix(accountId);
+  const names = await Dexie.getDatabaseNames();
+  await Promise.all(
+    names
+      .filter(name => name === prefix || name.startsWith(`${prefix}-`))
+      .map(name => Dexie.delete(name))
+  );
+}
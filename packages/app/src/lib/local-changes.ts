@@ -0,0 +1,18 @@
+type LocalChangeListener = () => void;
+
+const listeners = new Set<LocalChangeListener>();
+
+/**
+ * Called by the repositories after a user edit was queued for sync, so the
+ * auto-sync scheduler can push it. Merges written by sync itself don't notify.
+ */
+export function notifyLocalChange(): void {
+  listeners.forEach(listener => listener());
+}
+
+export function onLocalChange(listener: LocalChangeListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
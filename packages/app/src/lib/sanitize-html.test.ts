@@ -0,0 +1,36 @@
+import { describe, test, expect } from 'vitest';
+import { sanitizeHtml } from './sanitize-html';
+
+describe('sanitizeHtml', () => {
+  test('keeps text formatting and structure', () => {
+    const html = '<h2>Title</h2><p>Some <strong>bold</strong> and <em>italic</em> text</p><ul><li>One</li></ul>';
+    expect(sanitizeHtml(html)).toBe(html);
+  });
+
+  test('removes scripts, styles and frames with their content', () => {
+    const html = '<p>Safe</p><script>alert(1)</script><style>p{}</style><iframe src="https://evil.example"></iframe>';
+    expect(sanitizeHtml(html)).toBe('<p>Safe</p>');
+  });
+
+  test('strips event handlers, styles and classes', () => {
+    const html = '<p class="lead" style="color:red" onclick="alert(1)">Text</p><img src="https://example.com/a.png" onerror="alert(1)">';
+    expect(sanitizeHtml(html)).toBe('<p>Text</p><img src="https://example.com/a.png">');
+  });
+
+  test('drops javascript: and data: URLs', () => {
+    const html = '<a href="javascript:alert(1)">Link</a><img src="data:image/png;base64,AAAA" alt="x">';
+    expect(sanitizeHtml(html)).toBe('<a target="_blank" rel="noopener noreferrer">Link</a>');
+  });
+
+  test('resolves relative URLs against the article and opens links in a new tab', () => {
+    const html = '<a href="/other">Other</a><img src="images/pic.jpg" alt="Pic">';
+    expect(sanitizeHtml(html, 'https://example.com/posts/article')).toBe(
+      '<a href="https://example.com/other" target="_blank" rel="noopener noreferrer">Other</a>' +
+      '<img src="https://example.com/posts/images/pic.jpg" alt="Pic">'
+    );
+  });
+
+  test('unwraps unknown elements but keeps their text', () => {
+    expect(sanitizeHtml('<custom-card><p>Inside</p></custom-card><font>Old</font>')).toBe('<p>Inside</p>Old');
+  });
+});
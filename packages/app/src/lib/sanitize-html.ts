@@ -0,0 +1,90 @@
+/**
+ * Allowlist-based HTML sanitizer for captured article content.
+ * Only structural and text formatting markup survives; anything that can run
+ * code, load frames or style the page is removed. Unknown elements are
+ * unwrapped so their text is kept.
+ */
+
+const ALLOWED_TAGS = new Set([
+  'p', 'br', 'hr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'ul', 'ol', 'li', 'dl', 'dt', 'dd',
+  'blockquote', 'pre', 'code', 'em', 'strong', 'b', 'i', 'u', 's', 'sub', 'sup', 'mark', 'small',
+  'a', 'img', 'figure', 'figcaption', 'picture',
+  'table', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td', 'caption',
+  'div', 'span', 'section', 'article',
+]);
+
+// Removed together with everything inside them
+const DROPPED_TAGS = new Set([
+  'script', 'style', 'noscript', 'template', 'iframe', 'frame', 'object', 'embed',
+  'form', 'input', 'button', 'select', 'textarea', 'svg', 'math', 'link', 'meta', 'base',
+  'audio', 'video', 'source', 'canvas',
+]);
+
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  a: ['href', 'title'],
+  img: ['src', 'alt', 'title'],
+  td: ['colspan', 'rowspan'],
+  th: ['colspan', 'rowspan'],
+};
+
+const URL_ATTRIBUTES = new Set(['href', 'src']);
+
+function toSafeUrl(value: string, baseUrl?: string): string | null {
+  try {
+    const url = new URL(value, baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+function sanitizeElement(element: Element, baseUrl?: string): void {
+  for (const child of Array.from(element.children)) {
+    const tag = child.tagName.toLowerCase();
+
+    if (DROPPED_TAGS.has(tag)) {
+      child.remove();
+      continue;
+    }
+
+    sanitizeElement(child, baseUrl);
+
+    if (!ALLOWED_TAGS.has(tag)) {
+      child.replaceWith(...Array.from(child.childNodes));
+      continue;
+    }
+
+    const allowed = ALLOWED_ATTRIBUTES[tag] ?? [];
+    for (const attribute of Array.from(child.attributes)) {
+      if (!allowed.includes(attribute.name)) {
+        child.removeAttribute(attribute.name);
+      } else if (URL_ATTRIBUTES.has(attribute.name)) {
+        const safeUrl = toSafeUrl(attribute.value, baseUrl);
+        if (safeUrl) {
+          child.setAttribute(attribute.name, safeUrl);
+        } else {
+          child.removeAttribute(attribute.name);
+        }
+      }
+    }
+
+    if (tag === 'a') {
+      child.setAttribute('target', '_blank');
+      child.setAttribute('rel', 'noopener noreferrer');
+    }
+    if (tag === 'img' && !child.hasAttribute('src')) {
+      child.remove();
+    }
+  }
+}
+
+/**
+ * Returns a safe copy of `html`. Relative links and image sources are
+ * resolved against `baseUrl`; non-http(s) URLs are dropped.
+ */
+export function sanitizeHtml(html: string, baseUrl?: string): string {
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  sanitizeElement(doc.body, baseUrl);
+  return doc.body.innerHTML;
+}
@@ -1,12 +1,15 @@
 import { useState, useEffect, useCallback } from 'react';
 import { Link } from 'react-router';
-import { ArrowLeft, CheckCircle2, XCircle, Loader2 } from 'lucide-react';
+import { ArrowLeft, CheckCircle2, XCircle, Loader2, Stethoscope } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
 import { Separator } from '@/components/ui/separator';
 import { useSettings } from '@/features/settings/use-settings';
+import { DeadLetterList } from '@/features/sync/dead-letter-list';
+import { SyncHistoryList } from '@/features/sync/sync-history-list';
+import { BackupList } from '@/features/sync/backup-list';
 
 function SettingRow({
   id,
@@ -117,7 +120,7 @@ export function SettingsPage() {
           <SettingRow
             id="auto-sync"
             label="Auto sync"
-            description="Automatically sync with Google Sheets when online."
+            description="Sync with Google Sheets shortly after changes, every 15 minutes and when back online."
             checked={settings.autoSync}
             onCheckedChange={(v) => updateSettings({ autoSync: v })}
           />
@@ -131,6 +134,55 @@ export function SettingsPage() {
           />
         </div>
 
+        <div className="space-y-1 mt-8">
+          <h2 className="text-lg font-semibold">Stuck Changes</h2>
+          <p className="text-sm text-muted-foreground">
+            Changes that still failed to sync after several retries. Retry them once the problem is fixed, or discard them.
+          </p>
+        </div>
+
+        <Separator className="my-4" />
+
+        <DeadLetterList />
+
+        <div className="space-y-1 mt-8">
+          <h2 className="text-lg font-semibold">Sync History</h2>
+          <p className="text-sm text-muted-foreground">
+            Recent syncs of this list with what they sent and received, how long each step took, and any errors.
+          </p>
+        </div>
+
+        <Separator className="my-4" />
+
+        <SyncHistoryList limit={10} />
+
+        <div className="space-y-1 mt-8">
+          <h2 className="text-lg font-semibold">Spreadsheet</h2>
+          <p className="text-sm text-muted-foreground">
+            Find and repair duplicate articles, rows sync skips, changed headers, unusual dates and formulas in Google Sheets.
+          </p>
+        </div>
+
+        <Separator className="my-4" />
+
+        <Button variant="outline" asChild>
+          <Link to="/settings/spreadsheet">
+            <Stethoscope className="mr-2 h-4 w-4" />
+            Check spreadsheet
+          </Link>
+        </Button>
+
+        <div className="space-y-1 mt-8">
+          <h2 className="text-lg font-semibold">Backups</h2>
+          <p className="text-sm text-muted-foreground">
+            Copies of this list kept in your Google Drive, including deleted articles and highlights. Review one to restore what was lost.
+          </p>
+        </div>
+
+        <Separator className="my-4" />
+
+        <BackupList />
+
         <div className="space-y-1 mt-8">
           <h2 className="text-lg font-semibold">Backend Server</h2>
           <p className="text-sm text-muted-foreground">
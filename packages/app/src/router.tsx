@@ -1,15 +1,17 @@
 import { createBrowserRouter, RouterProvider } from 'react-router';
+import { cleanUrl } from '@readlater/core';
 import { ArticleList } from '@/features/articles/article-list';
 import { ArticlePreviewPage } from '@/features/preview/article-preview-page';
 import { ShareTargetDisplay } from '@/features/share-target/share-target-display';
 import { PrivacyPage } from '@/pages/privacy';
 import { TermsPage } from '@/pages/terms';
 import { SettingsPage } from '@/pages/settings';
+import { ConflictReview } from '@/features/sync/conflict-review';
+import { SpreadsheetCheckPage } from '@/features/sync/spreadsheet-check';
 import { useAddArticle } from '@/features/articles/hooks';
 import { ArticleFormData } from '@/features/articles/article-edit-form';
 import { useNavigate, useSearchParams } from 'react-router';
 import { useEffect } from 'react';
-import { cleanUrl } from '@/lib/url-cleaner';
 import { SidebarLayout } from '@/components/sidebar-layout';
 
 function ShareTargetRoute() {
@@ -106,6 +108,14 @@ const router = createBrowserRouter(
       path: '/article/:encodedUrl',
       element: <ArticlePreviewPage />,
     },
+    {
+      path: '/conflicts',
+      element: (
+        <SidebarLayout>
+          <ConflictReview />
+        </SidebarLayout>
+      ),
+    },
     {
       path: '/privacy',
       element: <PrivacyPage />,
@@ -118,6 +128,10 @@ const router = createBrowserRouter(
       path: '/settings',
       element: <SettingsPage />,
     },
+    {
+      path: '/settings/spreadsheet',
+      element: <SpreadsheetCheckPage />,
+    },
   ],
   {
     basename: import.meta.env.BASE_URL,
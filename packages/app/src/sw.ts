@@ -3,9 +3,21 @@ import { cleanupOutdatedCaches, createHandlerBoundToURL, precacheAndRoute } from
 import { clientsClaim } from 'workbox-core'
 import { NavigationRoute, registerRoute } from 'workbox-routing'
 import { parseSharedData } from './lib/share-parser'
+import { drainSyncQueues } from './features/sync/background-sync-worker'
+import {
+  BACKGROUND_SYNC_RESULT_MESSAGE,
+  BACKGROUND_SYNC_TAG,
+  BackgroundSyncMessage,
+  PERIODIC_SYNC_TAG,
+} from './features/sync/background-sync-context'
 
 declare let self: ServiceWorkerGlobalScope
 
+// Background Sync events aren't in TypeScript's webworker lib yet
+interface SyncEvent extends ExtendableEvent {
+  readonly tag: string
+}
+
 // Add swLog function for debugging
 function swLog(...args: unknown[]) {
   // Send logs to all clients (open tabs)
@@ -109,6 +121,36 @@ self.addEventListener('fetch', (event) => {
   }
 });
 
+// Push queued changes while no page is open. An open page syncs on its own,
+// so the worker stays out of its way instead of pushing the same queue twice.
+async function runBackgroundSync(tag: string) {
+  const windows = await self.clients.matchAll({ type: 'window' })
+  if (windows.length > 0) {
+    swLog(`Background sync (${tag}) skipped, the app is open`)
+    return
+  }
+
+  const results = await drainSyncQueues()
+  swLog(`Background sync (${tag}) finished:`, JSON.stringify(results))
+
+  // A page may have opened meanwhile; let it refresh the pending count
+  const message: BackgroundSyncMessage = { type: BACKGROUND_SYNC_RESULT_MESSAGE, results }
+  const clients = await self.clients.matchAll({ type: 'window', includeUncontrolled: true })
+  clients.forEach(client => client.postMessage(message))
+}
+
+self.addEventListener('sync', (event) => {
+  const syncEvent = event as SyncEvent
+  if (syncEvent.tag === BACKGROUND_SYNC_TAG)
+    syncEvent.waitUntil(runBackgroundSync(syncEvent.tag))
+})
+
+self.addEventListener('periodicsync', (event) => {
+  const syncEvent = event as SyncEvent
+  if (syncEvent.tag === PERIODIC_SYNC_TAG)
+    syncEvent.waitUntil(runBackgroundSync(syncEvent.tag))
+})
+
 // Register NavigationRoute AFTER fetch event listener
 // to allow work offline
 registerRoute(new NavigationRoute(
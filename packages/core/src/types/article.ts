@@ -1,3 +1,5 @@
+import type { ArticleContent } from './content.js';
+
 export interface ArticleData {
   url: string;
   title: string;
@@ -11,15 +13,48 @@ export interface ArticleData {
   favorite?: boolean;
   editedAt?: string;
   deletedAt?: string;
+  /** Email of the Google account that first saved the article */
+  addedBy?: string;
+  /** Email of the Google account that last wrote the row */
+  editedBy?: string;
 }
 
 export interface SaveArticleMessage {
   action: 'saveArticle';
   articleData: ArticleData;
+  /** Readable content captured from the page, stored for offline reading */
+  content?: ArticleContent;
+  /** Target reading list; the default list when omitted */
+  listId?: string;
 }
 
 export interface SaveArticleResponse {
   success: boolean;
   message: string;
   error?: string;
-}
\ No newline at end of file
+}
+
+/** Asks the extension's background worker whether a page is already in one of the lists. */
+export interface GetSavedArticleMessage {
+  action: 'getSavedArticle';
+  /** The page's URL; matched after tracking parameters are removed */
+  url: string;
+}
+
+export interface GetSavedArticleResponse {
+  success: boolean;
+  /** The saved article as last seen in the sheet or saved from this browser */
+  article?: ArticleData;
+  listId?: string;
+  error?: string;
+}
+
+/** Writes only the given fields of an article already in a list. */
+export interface UpdateArticleMessage {
+  action: 'updateArticle';
+  /** URL of the saved article, as stored in the sheet */
+  url: string;
+  updates: Partial<ArticleData>;
+  /** The article's reading list; the list it is found in when omitted */
+  listId?: string;
+}
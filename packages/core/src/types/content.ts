@@ -0,0 +1,26 @@
+export type ArticleContentSource = 'extension' | 'backend';
+
+/**
+ * Readable body of an article, captured so it can be read without the
+ * original page. The HTML is only cleaned up, never trusted: renderers
+ * must sanitize it before display.
+ */
+export interface ArticleContent {
+  url: string;
+  title: string;
+  byline?: string;
+  /** Main article body as HTML, with absolute image and link URLs */
+  html: string;
+  /** Plain text of the body */
+  text: string;
+  wordCount?: number;
+  /** Estimated reading time in minutes */
+  readingTime?: number;
+  publishedAt?: string;
+  language?: string;
+  /** Whether the page may be shown in a frame, when the extractor could tell */
+  embeddable?: boolean;
+  source: ArticleContentSource;
+  /** ISO timestamp of when the content was extracted */
+  capturedAt: string;
+}
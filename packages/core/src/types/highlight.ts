@@ -0,0 +1,24 @@
+export const HIGHLIGHT_COLORS = ['yellow', 'green', 'blue', 'pink', 'purple'] as const;
+
+export type HighlightColor = typeof HIGHLIGHT_COLORS[number];
+
+export const DEFAULT_HIGHLIGHT_COLOR: HighlightColor = 'yellow';
+
+/**
+ * A quoted passage from an article with an optional annotation.
+ * Timestamps are ISO strings, matching ArticleData and the spreadsheet.
+ */
+export interface Highlight {
+  /** Stable identifier (UUID), used as the row key in the Highlights tab */
+  id: string;
+  articleUrl: string;
+  /** The quoted text */
+  text: string;
+  /** Text surrounding the quote, used to find it again in the page */
+  context?: string;
+  note?: string;
+  color: HighlightColor;
+  createdAt: string;
+  editedAt?: string;
+  deletedAt?: string;
+}
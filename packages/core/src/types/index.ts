@@ -1,4 +1,7 @@
 export * from './article.js';
 export * from './sync.js';
 export * from './settings.js';
-export * from './stats.js';
\ No newline at end of file
+export * from './stats.js';
+export * from './highlight.js';
+export * from './content.js';
+export * from './list.js';
@@ -0,0 +1,24 @@
+/** Identifier of the list backed by the original "ReadLater" spreadsheet. */
+export const DEFAULT_LIST_ID = 'default';
+
+export const DEFAULT_LIST_NAME = 'My List';
+
+/**
+ * A named reading list. Each list lives in its own spreadsheet; the set of
+ * lists is stored in the appData config so every device sees the same lists.
+ */
+export interface ReadingList {
+  id: string;
+  name: string;
+  spreadsheetId: string;
+}
+
+export interface GetListsMessage {
+  action: 'getLists';
+}
+
+export interface GetListsResponse {
+  success: boolean;
+  lists: ReadingList[];
+  error?: string;
+}
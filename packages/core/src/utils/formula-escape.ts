@@ -0,0 +1,21 @@
+// Cells starting with these are evaluated as formulas by Google Sheets and Excel.
+// A leading apostrophe is escaped too, so values that start with one round-trip.
+const FORMULA_TRIGGER = /^[=+\-@\t\r']/;
+const ESCAPED_VALUE = /^'[=+\-@\t\r']/;
+
+/**
+ * Makes a value safe to write to a spreadsheet cell or CSV file by prefixing an
+ * apostrophe when it would otherwise start a formula, e.g. a page titled `=HYPERLINK(...)`.
+ */
+export function escapeFormula(value: string): string {
+  return FORMULA_TRIGGER.test(value) ? `'${value}` : value;
+}
+
+/**
+ * Reverses escapeFormula for CSV files, which keep the apostrophe as written.
+ * Not for values read from Google Sheets: it stores USER_ENTERED values without
+ * the apostrophe, so stripping another one there would change real data.
+ */
+export function unescapeFormula(value: string): string {
+  return ESCAPED_VALUE.test(value) ? value.slice(1) : value;
+}
@@ -1,3 +1,5 @@
 export * from './page-extractor.js';
 export * from './date-format.js';
-export * from './validators.js';
\ No newline at end of file
+export * from './validators.js';
+export * from './formula-escape.js';
+export * from './url-cleaner.js';
@@ -1,4 +1,5 @@
 import { ArticleData } from '../types/article.js';
+import { ArticleContent } from '../types/content.js';
 
 export interface TabInfo {
   url?: string;
@@ -42,6 +43,79 @@ export function extractPageDataFromDocument(): Partial<ArticleData> {
   };
 }
 
+/**
+ * Captures the readable body of the current page for offline reading.
+ * Runs inside the page via `chrome.scripting.executeScript`, so it must stay
+ * self-contained: no imports or helpers from outside the function body.
+ */
+export function captureArticleContentFromDocument(): ArticleContent {
+  const getMetaContent = (name: string): string => {
+    const meta = document.querySelector(`meta[name="${name}"], meta[property="${name}"]`);
+    return meta?.getAttribute('content') || '';
+  };
+  const textLength = (element: Element): number => (element.textContent || '').trim().length;
+
+  // Prefer explicit article markup, then the longest main-like region
+  const candidates = Array.from(document.querySelectorAll(
+    'article, [itemprop="articleBody"], main, [role="main"], .post-content, .entry-content, .article-body'
+  ));
+  const container = candidates.reduce<Element | null>(
+    (best, candidate) => (!best || textLength(candidate) > textLength(best) ? candidate : best),
+    null
+  );
+  const root = (container && textLength(container) > 200 ? container : document.body).cloneNode(true) as Element;
+
+  root.querySelectorAll(
+    'script, style, noscript, iframe, object, embed, form, button, input, select, textarea, nav, aside, footer, svg, canvas, [hidden], [aria-hidden="true"]'
+  ).forEach(element => element.remove());
+  root.querySelectorAll('[class], [id]').forEach(element => {
+    const hint = `${element.getAttribute('class') || ''} ${element.getAttribute('id') || ''}`;
+    if (/(^|[\s_-])(comments?|share|social|related|newsletter|promo|advert|cookie|sidebar)([\s_-]|$)/i.test(hint)) {
+      element.remove();
+    }
+  });
+
+  // Lazy-loaded images keep the real source in data attributes
+  root.querySelectorAll('img').forEach(img => {
+    const lazySource = img.getAttribute('data-src') || img.getAttribute('data-lazy-src');
+    if (lazySource) img.setAttribute('src', lazySource);
+  });
+
+  // Absolute URLs so the content still works away from the page; drop everything else
+  const keptAttributes = ['href', 'src', 'alt', 'title'];
+  root.querySelectorAll('*').forEach(element => {
+    for (const attribute of Array.from(element.attributes)) {
+      if (!keptAttributes.includes(attribute.name)) {
+        element.removeAttribute(attribute.name);
+      } else if (attribute.name === 'href' || attribute.name === 'src') {
+        try {
+          element.setAttribute(attribute.name, new URL(attribute.value, document.baseURI).href);
+        } catch {
+          element.removeAttribute(attribute.name);
+        }
+      }
+    }
+  });
+
+  const text = (root.textContent || '').replace(/\s+/g, ' ').trim();
+  const wordCount = text ? text.split(' ').length : 0;
+  const authorLink = document.querySelector('[rel="author"]');
+
+  return {
+    url: window.location.href,
+    title: getMetaContent('og:title') || document.title,
+    byline: getMetaContent('author') || authorLink?.textContent?.trim() || undefined,
+    html: root.innerHTML.trim(),
+    text,
+    wordCount,
+    readingTime: Math.max(1, Math.round(wordCount / 200)),
+    publishedAt: getMetaContent('article:published_time') || undefined,
+    language: document.documentElement.lang || undefined,
+    source: 'extension',
+    capturedAt: new Date().toISOString(),
+  };
+}
+
 export function isValidUrl(url: string): boolean {
   try {
     new URL(url);
@@ -1,5 +1,5 @@
 import { describe, test, expect } from 'vitest';
-import { cleanUrl, isValidUrl } from './url-cleaner';
+import { cleanUrl } from './url-cleaner';
 
 describe('cleanUrl', () => {
   test('removes UTM tracking parameters', () => {
@@ -42,16 +42,3 @@ describe('cleanUrl', () => {
     expect(cleanUrl(url)).toBe('not-a-valid-url');
   });
 });
-
-describe('isValidUrl', () => {
-  test('returns true for valid URLs', () => {
-    expect(isValidUrl('https://example.com')).toBe(true);
-    expect(isValidUrl('http://example.com/path')).toBe(true);
-  });
-
-  test('returns false for invalid URLs', () => {
-    expect(isValidUrl('not a url')).toBe(false);
-    expect(isValidUrl('example.com')).toBe(false);
-    expect(isValidUrl('')).toBe(false);
-  });
-});
@@ -61,15 +61,3 @@ export function cleanUrl(url: string): string {
     return url;
   }
 }
-
-/**
- * Validates if a string is a valid URL
- */
-export function isValidUrl(url: string): boolean {
-  try {
-    new URL(url);
-    return true;
-  } catch {
-    return false;
-  }
-}
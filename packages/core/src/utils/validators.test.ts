@@ -1,5 +1,5 @@
 import { describe, test, expect } from 'vitest';
-import { isValidArticle, isHttpUrl, sanitizeDisplayString, sanitizeTags } from './validators';
+import { isValidArticle, isValidHighlight, isHighlightColor, isHttpUrl, sanitizeDisplayString, sanitizeTags } from './validators';
 
 describe('isValidArticle', () => {
   const validArticle = {
@@ -40,6 +40,40 @@ describe('isValidArticle', () => {
   });
 });
 
+describe('isValidHighlight', () => {
+  const validHighlight = {
+    id: 'h-1',
+    articleUrl: 'https://example.com',
+    text: 'Quoted passage',
+    color: 'yellow' as const,
+    createdAt: '2023-01-01T00:00:00.000Z',
+  };
+
+  test('returns true for a valid highlight', () => {
+    expect(isValidHighlight(validHighlight)).toBe(true);
+  });
+
+  test('returns false when quoted text is empty', () => {
+    expect(isValidHighlight({ ...validHighlight, text: '' })).toBe(false);
+  });
+
+  test('returns false when article url is missing', () => {
+    expect(isValidHighlight({ ...validHighlight, articleUrl: undefined })).toBe(false);
+  });
+
+  test('returns false for an unknown color', () => {
+    expect(isValidHighlight({ ...validHighlight, color: 'orange' as never })).toBe(false);
+  });
+});
+
+describe('isHighlightColor', () => {
+  test('accepts known colors only', () => {
+    expect(isHighlightColor('green')).toBe(true);
+    expect(isHighlightColor('Green')).toBe(false);
+    expect(isHighlightColor(undefined)).toBe(false);
+  });
+});
+
 describe('isHttpUrl', () => {
   test('returns true for https URLs', () => {
     expect(isHttpUrl('https://example.com')).toBe(true);
@@ -1,4 +1,5 @@
 import type { ArticleData } from '../types/article.js';
+import { HIGHLIGHT_COLORS, type Highlight, type HighlightColor } from '../types/highlight.js';
 
 /**
  * Validates that an ArticleData object has the minimum required fields.
@@ -15,6 +16,26 @@ export function isValidArticle(article: Partial<ArticleData>): article is Articl
   );
 }
 
+/**
+ * Validates that a Highlight has an id, an article and quoted text.
+ */
+export function isValidHighlight(highlight: Partial<Highlight>): highlight is Highlight {
+  return (
+    typeof highlight.id === 'string' &&
+    highlight.id.length > 0 &&
+    typeof highlight.articleUrl === 'string' &&
+    highlight.articleUrl.length > 0 &&
+    typeof highlight.text === 'string' &&
+    highlight.text.length > 0 &&
+    typeof highlight.createdAt === 'string' &&
+    isHighlightColor(highlight.color)
+  );
+}
+
+export function isHighlightColor(color: unknown): color is HighlightColor {
+  return typeof color === 'string' && (HIGHLIGHT_COLORS as readonly string[]).includes(color);
+}
+
 /**
  * Validates that a URL string is well-formed and uses http/https.
  */
@@ -0,0 +1,94 @@
+import { expect, test, vi, beforeEach, describe } from 'vitest'
+import type { ArticleData } from '@readlater/core'
+import { ArticleIndex } from './article-index'
+import type { SavedArticle } from './article-index'
+
+// chrome.storage.local as far as the index uses it
+function createStorage() {
+  const data: Record<string, unknown> = {}
+  return {
+    get: vi.fn(async (key: string) => (key in data ? { [key]: structuredClone(data[key]) } : {})),
+    set: vi.fn(async (items: Record<string, unknown>) => { Object.assign(data, structuredClone(items)) }),
+  }
+}
+
+function article(url: string, overrides?: Partial<ArticleData>): ArticleData {
+  return {
+    url,
+    title: 'Test Article Title',
+    description: '',
+    featuredImage: '',
+    timestamp: '2023-01-01T00:00:00.000Z',
+    domain: 'example.com',
+    ...overrides,
+  }
+}
+
+let sheets: Record<string, ArticleData[]>
+let pending: SavedArticle[]
+let loadArticles: ReturnType<typeof vi.fn<(listId: string) => Promise<ArticleData[]>>>
+let index: ArticleIndex
+
+beforeEach(() => {
+  sheets = { default: [] }
+  pending = []
+  loadArticles = vi.fn(async (listId: string) => sheets[listId] ?? [])
+  index = new ArticleIndex(
+    createStorage() as unknown as chrome.storage.StorageArea,
+    async () => Object.keys(sheets),
+    loadArticles,
+    async () => pending
+  )
+})
+
+describe('ArticleIndex', () => {
+  test('finds a saved page by its URL without tracking parameters', async () => {
+    sheets.default = [article('https://example.com/a', { tags: ['tech'] })]
+    await index.refresh()
+
+    expect(await index.lookup('https://example.com/a?utm_source=newsletter')).toEqual({
+      listId: 'default',
+      article: article('https://example.com/a', { tags: ['tech'] }),
+    })
+    expect(await index.lookup('https://example.com/b')).toBeNull()
+  })
+
+  test('prefers the default list for a page saved in several lists', async () => {
+    sheets = {
+      team: [article('https://example.com/a', { notes: 'team' })],
+      default: [article('https://example.com/a', { notes: 'mine' })],
+    }
+    await index.refresh()
+
+    expect(await index.lookup('https://example.com/a')).toMatchObject({ listId: 'default', article: { notes: 'mine' } })
+  })
+
+  test('leaves out deleted articles and keeps saves still waiting in the queue', async () => {
+    sheets.default = [article('https://example.com/gone', { deletedAt: '2023-02-01T00:00:00.000Z' })]
+    pending = [{ listId: 'default', article: article('https://example.com/queued') }]
+
+    await index.refresh()
+
+    expect(await index.lookup('https://example.com/gone')).toBeNull()
+    expect(await index.lookup('https://example.com/queued')).not.toBeNull()
+  })
+
+  test('follows saves and edits made in this browser', async () => {
+    expect(await index.isEmpty()).toBe(true)
+
+    await index.put(article('https://example.com/a'), 'team')
+    await index.put(article('https://example.com/a', { favorite: true }), 'team')
+
+    expect(await index.lookup('https://example.com/a')).toMatchObject({ listId: 'team', article: { favorite: true } })
+    // Saved here but never loaded from the sheet
+    expect(await index.isEmpty()).toBe(false)
+    expect(await index.isStale()).toBe(true)
+  })
+
+  test('shares one reload between concurrent refreshes', async () => {
+    await Promise.all([index.refresh(), index.refresh()])
+
+    expect(loadArticles).toHaveBeenCalledTimes(1)
+    expect(await index.isStale()).toBe(false)
+  })
+})
@@ -0,0 +1,118 @@
+import { DEFAULT_LIST_ID, cleanUrl } from '@readlater/core';
+import type { ArticleData } from '@readlater/core';
+
+const INDEX_KEY = 'articleIndex';
+// Older than this, the next lookup reloads the lists in the background
+const STALE_AFTER_MS = 30 * 60 * 1000;
+
+interface ListIndex {
+  refreshedAt: number;
+  articles: Record<string, ArticleData>;  // Keyed by cleaned URL
+}
+
+type StoredIndex = Record<string, ListIndex>;  // Keyed by list ID
+
+export interface SavedArticle {
+  listId: string;
+  article: ArticleData;
+}
+
+type ArticleIndexStorage = Pick<chrome.storage.StorageArea, 'get' | 'set'>;
+
+/**
+ * The user's saved articles per list, kept in chrome.storage.local so the popup
+ * and toolbar icon can tell at once whether a page is already saved.
+ *
+ * It is reloaded from the sheets when stale and follows saves and edits made in
+ * this browser right away, also while they wait in the save queue. Deleted
+ * articles aren't indexed, so saving such a page again restores it.
+ */
+export class ArticleIndex {
+  private lock: Promise<unknown> = Promise.resolve();
+  private refreshing: Promise<void> | null = null;
+
+  constructor(
+    private readonly storage: ArticleIndexStorage,
+    private readonly loadLists: () => Promise<string[]>,
+    private readonly loadArticles: (listId: string) => Promise<ArticleData[]>,
+    private readonly loadPendingSaves: () => Promise<SavedArticle[]> = async () => []
+  ) {}
+
+  /** Finds the page in the index, preferring the default list when it is in several. */
+  async lookup(url: string): Promise<SavedArticle | null> {
+    const key = cleanUrl(url);
+    const index = await this.read();
+    const listIds = Object.keys(index).sort((a, b) => Number(b === DEFAULT_LIST_ID) - Number(a === DEFAULT_LIST_ID));
+    for (const listId of listIds) {
+      const article = index[listId].articles[key];
+      if (article) return { listId, article };
+    }
+    return null;
+  }
+
+  /** Nothing loaded yet: never signed in from this browser, or signed out. */
+  async isEmpty(): Promise<boolean> {
+    return Object.keys(await this.read()).length === 0;
+  }
+
+  async isStale(): Promise<boolean> {
+    const lists = Object.values(await this.read());
+    return lists.length === 0 || lists.some(list => Date.now() - list.refreshedAt > STALE_AFTER_MS);
+  }
+
+  /** Reloads every list from its sheet. Concurrent calls share one reload. */
+  refresh(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.reload().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  /** Records a save from this browser, or an edit merged into the saved article. */
+  async put(article: ArticleData, listId: string = DEFAULT_LIST_ID): Promise<void> {
+    await this.update(index => withArticle(index, listId, article));
+  }
+
+  private async reload(): Promise<void> {
+    const listIds = await this.loadLists();
+    const loaded = await Promise.all(listIds.map(async listId => {
+      const articles: Record<string, ArticleData> = {};
+      for (const article of await this.loadArticles(listId)) {
+        if (!article.deletedAt) articles[cleanUrl(article.url)] = article;
+      }
+      return [listId, { refreshedAt: Date.now(), articles }] as const;
+    }));
+    // Removed lists drop out. Saves still waiting in the queue aren't in the sheet yet.
+    const pending = await this.loadPendingSaves();
+    await this.update(() => pending.reduce(
+      (index, { listId, article }) => withArticle(index, listId, article),
+      Object.fromEntries(loaded) as StoredIndex
+    ));
+  }
+
+  private async read(): Promise<StoredIndex> {
+    const stored = await this.storage.get(INDEX_KEY);
+    return (stored[INDEX_KEY] as StoredIndex | undefined) ?? {};
+  }
+
+  private update(change: (index: StoredIndex) => StoredIndex): Promise<void> {
+    const next = this.lock.then(async () => {
+      await this.storage.set({ [INDEX_KEY]: change(await this.read()) });
+    });
+    this.lock = next.catch(() => {});
+    return next;
+  }
+}
+
+function withArticle(index: StoredIndex, listId: string, article: ArticleData): StoredIndex {
+  const list = index[listId] ?? { refreshedAt: 0, articles: {} };
+  const articles = { ...list.articles };
+  if (article.deletedAt) {
+    delete articles[cleanUrl(article.url)];
+  } else {
+    articles[cleanUrl(article.url)] = article;
+  }
+  return { ...index, [listId]: { ...list, articles } };
+}
@@ -1,31 +1,259 @@
 /// <reference types="chrome"/>
 
-import type { SaveArticleMessage, SaveArticleResponse } from '@readlater/core';
+import {
+  DEFAULT_LIST_ID,
+  captureArticleContentFromDocument,
+  cleanUrl,
+  extractPageData,
+  extractPageDataFromDocument
+} from '@readlater/core';
+import type {
+  ArticleContent,
+  ArticleData,
+  GetListsMessage,
+  GetListsResponse,
+  GetSavedArticleMessage,
+  GetSavedArticleResponse,
+  SaveArticleMessage,
+  SaveArticleResponse,
+  UpdateArticleMessage
+} from '@readlater/core';
 import { GoogleSheetsSyncEngine, ChromeAuthProvider, ChromeSpreadsheetStorage } from '@readlater/google-sheets-sync';
+import { SaveQueue } from './save-queue';
+import type {
+  GetFailedSavesMessage,
+  GetFailedSavesResponse,
+  QueuedSave,
+  ResolveFailedSaveMessage,
+  SaveQueueSummary
+} from './save-queue';
+import { ArticleIndex } from './article-index';
+import { fetchLinkMetadata } from './link-metadata';
+
+const SAVE_QUEUE_ALARM = 'readlater-save-queue';
+const ARTICLE_INDEX_ALARM = 'readlater-article-index';
+const ICON_PATH = '/icon-192.png';
+
+const MENU_SAVE_LINK = 'readlater-save-link';
+const MENU_SAVE_SELECTION = 'readlater-save-selection';
+const MENU_SAVE_IMAGE_PAGE = 'readlater-save-image-page';
+const MENU_SAVE_VIDEO_PAGE = 'readlater-save-video-page';
 
 const authProvider = new ChromeAuthProvider();
 const storage = new ChromeSpreadsheetStorage();
-const syncEngine = new GoogleSheetsSyncEngine(authProvider, storage);
+// One engine per reading list, created on first use
+const syncEngines = new Map<string, GoogleSheetsSyncEngine>();
+
+function getSyncEngine(listId: string = DEFAULT_LIST_ID): GoogleSheetsSyncEngine {
+  let engine = syncEngines.get(listId);
+  if (!engine) {
+    engine = new GoogleSheetsSyncEngine(authProvider, storage, undefined, listId);
+    syncEngines.set(listId, engine);
+  }
+  return engine;
+}
+
+async function writeQueuedSave(entry: QueuedSave) {
+  const syncEngine = getSyncEngine(entry.listId);
+  if (entry.changes) {
+    return syncEngine.updateArticle(entry.articleData.url, entry.changes);
+  }
+
+  const result = await syncEngine.saveArticle(entry.articleData);
+  if (result.success && entry.content) {
+    // Upload in the background; the article itself is already saved
+    syncEngine.saveArticleContent(entry.content)
+      .then((contentResult) => {
+        if (!contentResult.success) console.warn('Failed to store article content:', contentResult.error);
+      });
+  }
+  return result;
+}
+
+// Unsaved pages as the badge count, red once one of them failed
+function showQueueState({ pending, failing, failed }: SaveQueueSummary) {
+  const unsaved = pending + failed;
+  chrome.action.setBadgeText({ text: unsaved > 0 ? String(unsaved) : '' });
+  chrome.action.setBadgeBackgroundColor({ color: failing > 0 || failed > 0 ? '#dc2626' : '#2563eb' });
+  chrome.action.setTitle({
+    title: failed > 0
+      ? `Read Later²: ${failed} could not be saved, open to retry or discard`
+      : failing > 0
+        ? `Read Later²: ${pending} unsaved, last attempt failed`
+        : pending > 0 ? `Read Later²: ${pending} waiting to save` : 'Read Later²'
+  });
+
+  // The alarm keeps retrying only while something is waiting
+  if (pending > 0) {
+    ensureAlarm(SAVE_QUEUE_ALARM, 1);
+  } else {
+    chrome.alarms.clear(SAVE_QUEUE_ALARM);
+  }
+}
+
+function ensureAlarm(name: string, periodInMinutes: number) {
+  chrome.alarms.get(name).then((alarm) => {
+    if (!alarm) chrome.alarms.create(name, { periodInMinutes });
+  });
+}
+
+const saveQueue = new SaveQueue(chrome.storage.local, writeQueuedSave, showQueueState);
+
+const articleIndex = new ArticleIndex(
+  chrome.storage.local,
+  async () => (await getSyncEngine().getLists()).map(list => list.id),
+  (listId) => getSyncEngine(listId).getArticles(),
+  async () => (await saveQueue.getEntries()).map(entry => ({
+    listId: entry.listId ?? DEFAULT_LIST_ID,
+    article: entry.articleData
+  }))
+);
+
+function drainSaveQueue(force = false) {
+  if (!navigator.onLine) return;
+  saveQueue.drain({ force }).catch((error) => console.error('Error draining the save queue:', error));
+}
+
+function refreshArticleIndex() {
+  if (!navigator.onLine) return;
+  articleIndex.refresh()
+    .then(showActiveTabState)
+    .catch((error) => console.warn('Could not load saved articles:', error));
+}
+
+// Scheduled refreshes only once something was loaded: the token request would otherwise open a sign-in window
+async function refreshStaleArticleIndex() {
+  if (!await articleIndex.isEmpty() && await articleIndex.isStale()) refreshArticleIndex();
+}
+
+// Confirmed once it is queued; offline or failed writes are retried from the queue
+async function queueSave(save: Pick<QueuedSave, 'articleData' | 'content' | 'listId'>) {
+  await saveQueue.enqueue(save);
+  drainSaveQueue();
+  await articleIndex.put(save.articleData, save.listId);
+  showActiveTabState();
+}
+
+// Only the changed fields are written, so edits made meanwhile in the app survive
+async function queueUpdate(url: string, updates: Partial<ArticleData>, listId?: string) {
+  const saved = await articleIndex.lookup(url);
+  if (!saved) throw new Error('This page is not saved yet');
+  const articleData = { ...saved.article, ...updates };
+  await saveQueue.enqueue({ articleData, changes: updates, listId: listId ?? saved.listId });
+  drainSaveQueue();
+  await articleIndex.put(articleData, listId ?? saved.listId);
+  showActiveTabState();
+}
+
+let savedIcon: Promise<ImageData | null> | null = null;
+
+// The toolbar icon with a green check mark, drawn once from the regular icon
+function getSavedIcon(): Promise<ImageData | null> {
+  if (!savedIcon) {
+    savedIcon = (async () => {
+      const size = 32;
+      const response = await fetch(chrome.runtime.getURL(ICON_PATH));
+      const bitmap = await createImageBitmap(await response.blob());
+      const context = new OffscreenCanvas(size, size).getContext('2d')!;
+      context.drawImage(bitmap, 0, 0, size, size);
+      context.fillStyle = '#16a34a';
+      context.beginPath();
+      context.arc(23, 23, 9, 0, 2 * Math.PI);
+      context.fill();
+      context.strokeStyle = '#ffffff';
+      context.lineWidth = 2.5;
+      context.beginPath();
+      context.moveTo(18.5, 23);
+      context.lineTo(22, 26.5);
+      context.lineTo(27.5, 19.5);
+      context.stroke();
+      return context.getImageData(0, 0, size, size);
+    })().catch((error) => {
+      console.warn('Could not draw the saved icon:', error);
+      return null;
+    });
+  }
+  return savedIcon;
+}
+
+// Marks the toolbar icon on pages that are already in a list
+async function showPageState(tabId: number, url: string | undefined) {
+  try {
+    const saved = url ? await articleIndex.lookup(url) : null;
+    const icon = saved ? await getSavedIcon() : null;
+    await chrome.action.setIcon(icon ? { tabId, imageData: icon } : { tabId, path: ICON_PATH });
+  } catch (error) {
+    // The tab may have been closed meanwhile
+    console.debug('Could not update the toolbar icon:', error);
+  }
+}
+
+async function showActiveTabState() {
+  const tabs = await chrome.tabs.query({ active: true });
+  await Promise.all(tabs.map(tab => tab.id !== undefined && showPageState(tab.id, tab.url)));
+}
+
+chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
+  if (changeInfo.url || changeInfo.status === 'complete') showPageState(tabId, tab.url);
+});
+
+chrome.tabs.onActivated.addListener(({ tabId }) => {
+  chrome.tabs.get(tabId).then((tab) => showPageState(tabId, tab.url));
+});
+
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name === SAVE_QUEUE_ALARM) drainSaveQueue();
+  if (alarm.name === ARTICLE_INDEX_ALARM) refreshStaleArticleIndex();
+});
+
+// Back online: retry everything now instead of waiting out the backoff
+self.addEventListener('online', () => drainSaveQueue(true));
+
+// The worker starts with the browser and after being suspended
+saveQueue.getSummary().then(showQueueState);
+drainSaveQueue();
+ensureAlarm(ARTICLE_INDEX_ALARM, 30);
+refreshStaleArticleIndex();
 
 chrome.runtime.onMessage.addListener((
-  message: SaveArticleMessage, 
+  message: SaveArticleMessage | GetListsMessage | GetSavedArticleMessage | UpdateArticleMessage
+    | GetFailedSavesMessage | ResolveFailedSaveMessage,
   _sender: chrome.runtime.MessageSender, 
-  sendResponse: (response: SaveArticleResponse) => void
+  sendResponse: (response: SaveArticleResponse | GetListsResponse | GetSavedArticleResponse | GetFailedSavesResponse) => void
 ) => {
   console.log('Received message:', message);
+
+  if (message.action === 'getLists') {
+    getSyncEngine().getLists()
+      .then((lists) => sendResponse({ success: true, lists }))
+      .catch((error) => {
+        console.error('Error loading reading lists:', error);
+        sendResponse({ success: false, lists: [], error: error.message });
+      });
+
+    return true;
+  }
+
+  if (message.action === 'getSavedArticle') {
+    // Answered from the index right away; a stale one is reloaded for the next lookup
+    articleIndex.lookup(message.url)
+      .then(async (saved) => {
+        sendResponse({ success: true, ...saved });
+        if (await articleIndex.isStale()) refreshArticleIndex();
+      })
+      .catch((error) => {
+        console.error('Error looking up article:', error);
+        sendResponse({ success: false, error: error.message });
+      });
+
+    return true;
+  }
   
   if (message.action === 'saveArticle') {
-    syncEngine.saveArticle(message.articleData)
-      .then((result) => {
-        console.log('Sync result:', result);
-        sendResponse({ 
-          success: result.success, 
-          message: result.success ? 'Article saved successfully' : 'Failed to save article',
-          error: result.error 
-        });
-      })
+    queueSave({ articleData: message.articleData, content: message.content, listId: message.listId })
+      .then(() => sendResponse({ success: true, message: 'Article saved successfully' }))
       .catch((error) => {
-        console.error('Error saving article:', error);
+        console.error('Error queueing article:', error);
         sendResponse({ 
           success: false, 
           message: 'Failed to save article',
@@ -35,6 +263,145 @@ chrome.runtime.onMessage.addListener((
     
     return true;
   }
+
+  if (message.action === 'updateArticle') {
+    queueUpdate(message.url, message.updates, message.listId)
+      .then(() => sendResponse({ success: true, message: 'Article updated successfully' }))
+      .catch((error) => {
+        console.error('Error queueing article update:', error);
+        sendResponse({
+          success: false,
+          message: 'Failed to update article',
+          error: error.message
+        });
+      });
+
+    return true;
+  }
+
+  if (message.action === 'getFailedSaves') {
+    saveQueue.getFailed()
+      .then((failed) => sendResponse({ success: true, failed }))
+      .catch((error) => {
+        console.error('Error loading failed saves:', error);
+        sendResponse({ success: false, failed: [], error: error.message });
+      });
+
+    return true;
+  }
+
+  if (message.action === 'retryFailedSave' || message.action === 'discardFailedSave') {
+    const resolved = message.action === 'retryFailedSave'
+      ? saveQueue.retryFailed(message.id).then(() => drainSaveQueue(true))
+      : saveQueue.discardFailed(message.id);
+    resolved
+      .then(() => saveQueue.getFailed())
+      .then((failed) => sendResponse({ success: true, failed }))
+      .catch((error) => {
+        console.error('Error resolving failed save:', error);
+        sendResponse({ success: false, failed: [], error: error.message });
+      });
+
+    return true;
+  }
 });
 
+chrome.runtime.onInstalled.addListener(() => {
+  chrome.contextMenus.removeAll(() => {
+    chrome.contextMenus.create({ id: MENU_SAVE_LINK, title: 'Save link to ReadLater', contexts: ['link'] });
+    chrome.contextMenus.create({ id: MENU_SAVE_SELECTION, title: 'Save page with selection as note', contexts: ['selection'] });
+    chrome.contextMenus.create({ id: MENU_SAVE_IMAGE_PAGE, title: 'Save image page to ReadLater', contexts: ['image'] });
+    chrome.contextMenus.create({ id: MENU_SAVE_VIDEO_PAGE, title: 'Save video page to ReadLater', contexts: ['video'] });
+  });
+});
+
+chrome.contextMenus.onClicked.addListener((info, tab) => {
+  saveFromContextMenu(info, tab)
+    .then(notify)
+    .catch((error) => {
+      console.error('Error saving from the context menu:', error);
+      notify(`Could not save: ${error instanceof Error ? error.message : String(error)}`);
+    });
+});
+
+// Context menu saves go to the default list, or update the article wherever it is already saved
+async function saveFromContextMenu(info: chrome.contextMenus.OnClickData, tab?: chrome.tabs.Tab): Promise<string> {
+  if (info.menuItemId === MENU_SAVE_LINK && info.linkUrl) {
+    const url = cleanUrl(info.linkUrl);
+    if (await articleIndex.lookup(url)) return 'This link is already in your reading list';
+
+    const articleData = { ...extractPageData({ url }), ...await fetchLinkMetadata(url) };
+    await queueSave({ articleData });
+    return savedMessage(articleData.title);
+  }
+
+  const { articleData, content } = await capturePage(info, tab);
+  const saved = await articleIndex.lookup(articleData.url);
+
+  if (info.menuItemId === MENU_SAVE_SELECTION && info.selectionText) {
+    const note = info.selectionText.trim();
+    if (saved) {
+      // Added below the notes already there instead of replacing the article
+      const notes = saved.article.notes ? `${saved.article.notes}\n\n${note}` : note;
+      await queueUpdate(saved.article.url, { notes, editedAt: new Date().toISOString() }, saved.listId);
+      return `Added the selection to the notes of "${saved.article.title}"`;
+    }
+    await queueSave({ articleData: { ...articleData, notes: note }, ...(content && { content }) });
+    return savedMessage(articleData.title);
+  }
+
+  if (saved) return 'This page is already in your reading list';
+
+  // The image clicked on is a better picture of the page than its default one
+  if (info.menuItemId === MENU_SAVE_IMAGE_PAGE && info.srcUrl && /^https?:/.test(info.srcUrl)) {
+    articleData.featuredImage = info.srcUrl;
+  }
+  await queueSave({ articleData, ...(content && { content }) });
+  return savedMessage(articleData.title);
+}
+
+// Reads the page like the popup does, falling back to the tab's URL and title
+async function capturePage(
+  info: chrome.contextMenus.OnClickData,
+  tab?: chrome.tabs.Tab
+): Promise<{ articleData: ArticleData; content?: ArticleContent }> {
+  const pageUrl = tab?.url || info.pageUrl;
+  const articleData = extractPageData({ url: pageUrl, title: tab?.title || pageUrl });
+  if (tab?.id === undefined) return { articleData: { ...articleData, url: cleanUrl(pageUrl) } };
+
+  const target = { tabId: tab.id };
+  const [pageData, content] = await Promise.all([
+    chrome.scripting.executeScript({ target, func: extractPageDataFromDocument })
+      .then(([result]) => result.result)
+      .catch((error) => console.warn('Could not read page data:', error)),
+    chrome.scripting.executeScript({ target, func: captureArticleContentFromDocument })
+      .then(([result]) => (result.result?.html ? result.result : undefined))
+      .catch((error) => console.warn('Could not capture article content:', error))
+  ]);
+
+  return {
+    articleData: {
+      ...articleData,
+      title: pageData?.title || articleData.title,
+      description: pageData?.description || '',
+      featuredImage: pageData?.featuredImage || '',
+      url: cleanUrl(pageData?.url || pageUrl)
+    },
+    content: content || undefined
+  };
+}
+
+function savedMessage(title: string): string {
+  return navigator.onLine
+    ? `Saved "${title}"`
+    : `Saved "${title}" offline. It will sync once you are back online.`;
+}
 
+function notify(message: string) {
+  chrome.notifications.create({
+    type: 'basic',
+    iconUrl: chrome.runtime.getURL(ICON_PATH),
+    title: 'Read Later²',
+    message
+  });
+}
@@ -0,0 +1,52 @@
+import { expect, test, vi, afterEach, describe } from 'vitest'
+import { fetchLinkMetadata, parseLinkMetadata } from './link-metadata'
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('parseLinkMetadata', () => {
+  test('prefers Open Graph tags and resolves a relative image', () => {
+    const html = `<html><head>
+      <title>Fallback title</title>
+      <meta property="og:title" content="Tom &amp; Jerry&#39;s guide">
+      <meta content='A short summary' name="description">
+      <meta property="og:image" content="/images/cover.png" />
+    </head><body></body></html>`
+
+    expect(parseLinkMetadata(html, 'https://www.example.com/posts/1')).toEqual({
+      title: "Tom & Jerry's guide",
+      description: 'A short summary',
+      featuredImage: 'https://www.example.com/images/cover.png',
+      domain: 'www.example.com',
+    })
+  })
+
+  test('falls back to the title tag and then the URL', () => {
+    expect(parseLinkMetadata('<title>\n  Plain page </title>', 'https://example.com/a').title).toBe('Plain page')
+    expect(parseLinkMetadata('<p>No head</p>', 'https://example.com/a')).toEqual({
+      title: 'https://example.com/a',
+      description: '',
+      featuredImage: '',
+      domain: 'example.com',
+    })
+  })
+})
+
+describe('fetchLinkMetadata', () => {
+  test('saves a link that is not an HTML page under its URL', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('%PDF', { headers: { 'content-type': 'application/pdf' } })))
+
+    expect(await fetchLinkMetadata('https://example.com/paper.pdf')).toMatchObject({
+      title: 'https://example.com/paper.pdf',
+      domain: 'example.com',
+    })
+  })
+
+  test('saves the link under its URL when the page cannot be fetched', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new TypeError('Failed to fetch') }))
+
+    expect((await fetchLinkMetadata('https://example.com/a')).title).toBe('https://example.com/a')
+  })
+})
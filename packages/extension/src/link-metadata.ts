@@ -0,0 +1,73 @@
+import { extractDomain } from '@readlater/core';
+import type { ArticleData } from '@readlater/core';
+
+const FETCH_TIMEOUT_MS = 10 * 1000;
+// The metadata sits in <head>; no need to read further into large pages
+const MAX_HTML_CHARS = 512 * 1024;
+
+export type LinkMetadata = Pick<ArticleData, 'title' | 'description' | 'featuredImage' | 'domain'>;
+
+/**
+ * Title, description and image of a linked page for "Save link" in the context
+ * menu. A page that can't be fetched is saved under its URL instead.
+ */
+export async function fetchLinkMetadata(url: string): Promise<LinkMetadata> {
+  try {
+    const response = await fetch(url, {
+      headers: { Accept: 'text/html,application/xhtml+xml' },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+    const contentType = response.headers.get('content-type') ?? '';
+    if (response.ok && (contentType.includes('text/html') || contentType.includes('application/xhtml+xml'))) {
+      const html = (await response.text()).slice(0, MAX_HTML_CHARS);
+      return parseLinkMetadata(html, response.url || url);
+    }
+  } catch (error) {
+    console.warn(`Could not fetch metadata for ${url}:`, error);
+  }
+  return { title: url, description: '', featuredImage: '', domain: extractDomain(url) };
+}
+
+/** Reads the page's Open Graph and meta tags, falling back to <title> and the URL. */
+export function parseLinkMetadata(html: string, url: string): LinkMetadata {
+  const getMeta = (name: string): string => {
+    for (const tag of html.match(/<meta\b[^>]*>/gi) ?? []) {
+      const key = getAttribute(tag, 'property') ?? getAttribute(tag, 'name');
+      if (key?.toLowerCase() === name) return getAttribute(tag, 'content')?.trim() ?? '';
+    }
+    return '';
+  };
+  const title = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  const image = getMeta('og:image') || getMeta('twitter:image');
+
+  return {
+    title: getMeta('og:title') || (title && decodeEntities(title).trim()) || url,
+    description: getMeta('og:description') || getMeta('description'),
+    featuredImage: image && resolveUrl(image, url),
+    domain: extractDomain(url),
+  };
+}
+
+function getAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return match ? decodeEntities(match[1] ?? match[2] ?? match[3]) : undefined;
+}
+
+function decodeEntities(text: string): string {
+  const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return point >= 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return named[code.toLowerCase()] ?? entity;
+  });
+}
+
+function resolveUrl(value: string, base: string): string {
+  try {
+    return new URL(value, base).toString();
+  } catch {
+    return '';
+  }
+}
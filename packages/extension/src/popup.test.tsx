@@ -2,7 +2,9 @@ import { expect, test, vi, beforeEach, describe } from 'vitest'
 import { render, screen, waitFor } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import Popup from './popup'
-import type { ArticleData, SaveArticleResponse } from '@readlater/core'
+import { captureArticleContentFromDocument } from '@readlater/core'
+import type { ArticleContent, ArticleData, GetListsResponse, GetSavedArticleResponse, SaveArticleResponse } from '@readlater/core'
+import type { FailedSave } from './save-queue'
 
 // Mock Chrome APIs
 const mockChrome = {
@@ -14,6 +16,12 @@ const mockChrome = {
   },
   runtime: {
     sendMessage: vi.fn()
+  },
+  storage: {
+    local: {
+      get: vi.fn(),
+      set: vi.fn()
+    }
   }
 }
 
@@ -32,12 +40,42 @@ const mockPageData: ArticleData = {
   favorite: false
 }
 
+const singleListResponse: GetListsResponse = {
+  success: true,
+  lists: [{ id: 'default', name: 'My List', spreadsheetId: 'sheet-default' }]
+}
+
+let listsResponse: GetListsResponse = singleListResponse
+
+// Answers the popup's getLists request; saves resolve with the response or reject with the error
+function mockSaveResult(result: SaveArticleResponse | Error) {
+  mockChrome.runtime.sendMessage.mockImplementation(async (message: { action: string }) => {
+    if (message.action === 'getLists') return listsResponse
+    if (result instanceof Error) throw result
+    return result
+  })
+}
+
+const mockContent: ArticleContent = {
+  url: 'https://example.com/article',
+  title: 'Test Article Title',
+  html: '<p>Article body</p>',
+  text: 'Article body',
+  source: 'extension',
+  capturedAt: '2023-01-01T00:00:00.000Z'
+}
+
 beforeEach(() => {
   vi.clearAllMocks()
+  listsResponse = singleListResponse
+  mockChrome.storage.local.get.mockResolvedValue({})
+  mockChrome.storage.local.set.mockResolvedValue(undefined)
   
-  // Default successful page data extraction
+  // Default successful page data extraction and content capture
   mockChrome.tabs.query.mockResolvedValue([{ id: 1 }])
-  mockChrome.scripting.executeScript.mockResolvedValue([{ result: mockPageData }])
+  mockChrome.scripting.executeScript.mockImplementation(async ({ func }) =>
+    [{ result: func === captureArticleContentFromDocument ? mockContent : mockPageData }]
+  )
 
   // Suppress expected console errors
   vi.spyOn(console, 'error').mockImplementation(() => {});
@@ -80,7 +118,7 @@ describe('Form Submission', () => {
       success: true,
       message: 'Article saved successfully'
     }
-    mockChrome.runtime.sendMessage.mockResolvedValue(mockSaveResponse)
+    mockSaveResult(mockSaveResponse)
 
     render(<Popup />)
 
@@ -112,10 +150,29 @@ describe('Form Submission', () => {
         ...mockPageData,
         tags: ['tech', 'article', 'important'],
         notes: 'This is a test note'
-      }
+      },
+      content: mockContent
     })
   })
 
+  test("confirms a save made offline as waiting to sync", async () => {
+    const user = userEvent.setup()
+    const onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false)
+    mockSaveResult({ success: true, message: 'Article saved successfully' })
+
+    render(<Popup />)
+
+    await waitFor(() => {
+      expect(screen.queryByText('Test Article Title')).toBeTruthy()
+    })
+    await user.click(screen.queryByRole('button', { name: /save article/i }) as HTMLButtonElement)
+
+    await waitFor(() => {
+      expect(screen.queryByText(/Saved offline/)).toBeTruthy()
+    })
+    onLine.mockRestore()
+  })
+
   test("save failed with error message", async () => {
     const user = userEvent.setup()
     const mockSaveResponse: SaveArticleResponse = {
@@ -123,7 +180,7 @@ describe('Form Submission', () => {
       message: 'Failed to save article',
       error: 'Network error'
     }
-    mockChrome.runtime.sendMessage.mockResolvedValue(mockSaveResponse)
+    mockSaveResult(mockSaveResponse)
 
     render(<Popup />)
 
@@ -147,7 +204,7 @@ describe('Form Submission', () => {
 
   test("save failed with runtime error", async () => {
     const user = userEvent.setup()
-    mockChrome.runtime.sendMessage.mockRejectedValue(new Error('Runtime error'))
+    mockSaveResult(new Error('Runtime error'))
 
     render(<Popup />)
 
@@ -210,7 +267,7 @@ test("save button wires to the sync engine", async () => {
       success: true,
       message: 'Article saved successfully'
     }
-    mockChrome.runtime.sendMessage.mockResolvedValue(mockSaveResponse)
+    mockSaveResult(mockSaveResponse)
 
     render(<Popup />)
 
@@ -235,7 +292,8 @@ test("save button wires to the sync engine", async () => {
         ...mockPageData,
         tags: [],
         notes: ''
-      }
+      },
+      content: mockContent
     })
   })
 
@@ -248,7 +306,7 @@ test("automatically closes window after successful save", async () => {
     success: true,
     message: 'Article saved successfully'
   }
-  mockChrome.runtime.sendMessage.mockResolvedValue(mockSaveResponse)
+  mockSaveResult(mockSaveResponse)
 
   render(<Popup />)
 
@@ -278,7 +336,7 @@ test("tags input handles empty and whitespace values", async () => {
     success: true,
     message: 'Article saved successfully'
   }
-  mockChrome.runtime.sendMessage.mockResolvedValue(mockSaveResponse)
+  mockSaveResult(mockSaveResponse)
 
   render(<Popup />)
 
@@ -302,7 +360,210 @@ test("tags input handles empty and whitespace values", async () => {
       ...mockPageData,
       tags: ['tech', 'article', ''],
       notes: ''
+    },
+    content: mockContent
+  })
+})
+})
+test("saves the article without content when capture fails", async () => {
+  const user = userEvent.setup()
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+  mockChrome.scripting.executeScript.mockImplementation(async ({ func }) => {
+    if (func === captureArticleContentFromDocument) throw new Error('Cannot access page')
+    return [{ result: mockPageData }]
+  })
+  mockSaveResult({ success: true, message: 'Article saved successfully' })
+
+  render(<Popup />)
+
+  await waitFor(() => {
+    expect(screen.queryByText('Test Article Title')).toBeTruthy()
+  })
+
+  const saveButton = screen.queryByRole('button', { name: /save article/i }) as HTMLButtonElement
+  await user.click(saveButton)
+
+  expect(mockChrome.runtime.sendMessage).toHaveBeenCalledWith({
+    action: 'saveArticle',
+    articleData: {
+      ...mockPageData,
+      tags: [],
+      notes: ''
     }
   })
 })
-})
\ No newline at end of file
+
+describe('Reading Lists', () => {
+  const teamList = { id: 'team', name: 'Team reading', spreadsheetId: 'sheet-team' }
+
+  test("hides the list picker when there is only one list", async () => {
+    mockSaveResult({ success: true, message: 'Article saved successfully' })
+
+    render(<Popup />)
+
+    await waitFor(() => {
+      expect(screen.queryByText('Test Article Title')).toBeTruthy()
+    })
+    expect(screen.queryByLabelText('List')).toBeNull()
+  })
+
+  test("saves to the chosen list and remembers it", async () => {
+    const user = userEvent.setup()
+    listsResponse = { success: true, lists: [...singleListResponse.lists, teamList] }
+    mockSaveResult({ success: true, message: 'Article saved successfully' })
+
+    render(<Popup />)
+
+    const picker = await screen.findByLabelText('List') as HTMLSelectElement
+    await user.selectOptions(picker, 'team')
+    await user.click(screen.getByRole('button', { name: /save article/i }))
+
+    expect(mockChrome.runtime.sendMessage).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'saveArticle',
+      listId: 'team'
+    }))
+    await waitFor(() => {
+      expect(mockChrome.storage.local.set).toHaveBeenCalledWith({ lastListId: 'team' })
+    })
+  })
+
+  test("preselects the list used last time", async () => {
+    listsResponse = { success: true, lists: [...singleListResponse.lists, teamList] }
+    mockChrome.storage.local.get.mockResolvedValue({ lastListId: 'team' })
+    mockSaveResult({ success: true, message: 'Article saved successfully' })
+
+    render(<Popup />)
+
+    await waitFor(() => {
+      expect((screen.queryByLabelText('List') as HTMLSelectElement | null)?.value).toBe('team')
+    })
+  })
+})
+
+describe('Already Saved Pages', () => {
+  const savedArticle: ArticleData = {
+    ...mockPageData,
+    tags: ['tech', 'ai'],
+    notes: 'Read the second half',
+    favorite: false,
+    archived: false
+  }
+
+  function mockSavedArticle(response: GetSavedArticleResponse) {
+    mockChrome.runtime.sendMessage.mockImplementation(async (message: { action: string }) => {
+      if (message.action === 'getLists') return listsResponse
+      if (message.action === 'getSavedArticle') return response
+      return { success: true, message: 'Article updated successfully' }
+    })
+  }
+
+  test("shows the saved tags, notes and state for editing", async () => {
+    mockSavedArticle({ success: true, article: { ...savedArticle, favorite: true }, listId: 'default' })
+
+    render(<Popup />)
+
+    await waitFor(() => {
+      expect(screen.queryByText(/Already saved/)).toBeTruthy()
+    })
+    expect(mockChrome.runtime.sendMessage).toHaveBeenCalledWith({ action: 'getSavedArticle', url: mockPageData.url })
+    expect((screen.getByLabelText('Tags (comma-separated)') as HTMLInputElement).value).toBe('tech, ai')
+    expect((screen.getByLabelText('Notes') as HTMLTextAreaElement).value).toBe('Read the second half')
+    expect((screen.getByLabelText('Favorite') as HTMLInputElement).checked).toBe(true)
+    expect((screen.getByLabelText('Archived') as HTMLInputElement).checked).toBe(false)
+    expect(screen.queryByRole('button', { name: /update article/i })).toBeTruthy()
+  })
+
+  test("sends only the changed fields", async () => {
+    const user = userEvent.setup()
+    mockSavedArticle({ success: true, article: savedArticle, listId: 'default' })
+
+    render(<Popup />)
+
+    const notesInput = await screen.findByDisplayValue('Read the second half')
+    await user.clear(notesInput)
+    await user.type(notesInput, 'Done')
+    await user.click(screen.getByLabelText('Archived'))
+    await user.click(screen.getByRole('button', { name: /update article/i }))
+
+    await waitFor(() => {
+      expect(screen.queryByText('Article updated successfully!')).toBeTruthy()
+    })
+    expect(mockChrome.runtime.sendMessage).toHaveBeenCalledWith({
+      action: 'updateArticle',
+      url: mockPageData.url,
+      updates: { notes: 'Done', archived: true, editedAt: expect.any(String) },
+      listId: 'default'
+    })
+    expect(mockChrome.runtime.sendMessage).not.toHaveBeenCalledWith(expect.objectContaining({ action: 'saveArticle' }))
+  })
+
+  test("skips the update when nothing changed", async () => {
+    const user = userEvent.setup()
+    mockSavedArticle({ success: true, article: savedArticle, listId: 'default' })
+
+    render(<Popup />)
+
+    await user.click(await screen.findByRole('button', { name: /update article/i }))
+
+    expect(screen.queryByText('No changes to save')).toBeTruthy()
+    expect(mockChrome.runtime.sendMessage).not.toHaveBeenCalledWith(expect.objectContaining({ action: 'updateArticle' }))
+  })
+})
+
+describe('Failed Saves', () => {
+  const failedSave: FailedSave = {
+    id: 'save-1',
+    articleData: { ...mockPageData, url: 'https://example.com/other', title: 'Other Article' },
+    queuedAt: 0,
+    attempts: 4,
+    nextAttemptAt: 0,
+    lastError: 'The caller does not have permission',
+    failedAt: 0
+  }
+
+  function mockFailedSaves(failed: FailedSave[]) {
+    mockChrome.runtime.sendMessage.mockImplementation(async (message: { action: string }) => {
+      if (message.action === 'getLists') return listsResponse
+      if (message.action === 'getFailedSaves') return { success: true, failed }
+      if (message.action === 'discardFailedSave' || message.action === 'retryFailedSave') return { success: true, failed: [] }
+      return { success: true }
+    })
+  }
+
+  test("lists saves that could not be written", async () => {
+    mockFailedSaves([failedSave])
+
+    render(<Popup />)
+
+    expect(await screen.findByText('Other Article')).toBeTruthy()
+    expect(screen.queryByText('The caller does not have permission')).toBeTruthy()
+  })
+
+  test("discards a failed save", async () => {
+    const user = userEvent.setup()
+    mockFailedSaves([failedSave])
+
+    render(<Popup />)
+
+    await user.click(await screen.findByRole('button', { name: 'Discard Other Article' }))
+
+    expect(mockChrome.runtime.sendMessage).toHaveBeenCalledWith({ action: 'discardFailedSave', id: 'save-1' })
+    await waitFor(() => {
+      expect(screen.queryByText('Not saved')).toBeNull()
+    })
+  })
+
+  test("retries a failed save", async () => {
+    const user = userEvent.setup()
+    mockFailedSaves([failedSave])
+
+    render(<Popup />)
+
+    await user.click(await screen.findByRole('button', { name: 'Retry Other Article' }))
+
+    expect(mockChrome.runtime.sendMessage).toHaveBeenCalledWith({ action: 'retryFailedSave', id: 'save-1' })
+    await waitFor(() => {
+      expect(screen.queryByText('Not saved')).toBeNull()
+    })
+  })
+})
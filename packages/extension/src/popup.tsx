@@ -4,19 +4,55 @@ import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Loader2, BookOpen, X } from 'lucide-react';
-import type { ArticleData, SaveArticleResponse } from '@readlater/core';
-import { extractPageDataFromDocument } from '@readlater/core';
+import { Loader2, BookOpen, RotateCw, Trash2, X } from 'lucide-react';
+import type {
+  ArticleContent,
+  ArticleData,
+  GetListsResponse,
+  GetSavedArticleResponse,
+  ReadingList,
+  SaveArticleResponse
+} from '@readlater/core';
+import { DEFAULT_LIST_ID, captureArticleContentFromDocument, extractPageDataFromDocument } from '@readlater/core';
+import type { FailedSave, GetFailedSavesResponse } from './save-queue';
 
 type StatusType = 'success' | 'error' | 'loading' | null;
 
+// The list picked last time, preselected on the next save
+const LAST_LIST_KEY = 'lastListId';
+
+interface SavedArticle {
+  article: ArticleData;
+  listId: string;
+}
+
+function parseTags(tags: string): string[] {
+  return tags.trim() ? tags.split(',').map(tag => tag.trim()) : [];
+}
+
+// The fields edited in the popup that differ from the saved article
+function changedFields(saved: ArticleData, edited: Pick<ArticleData, 'tags' | 'notes' | 'favorite' | 'archived'>): Partial<ArticleData> {
+  const changes: Partial<ArticleData> = {};
+  if ((saved.tags ?? []).join(',') !== (edited.tags ?? []).join(',')) changes.tags = edited.tags;
+  if ((saved.notes ?? '') !== edited.notes) changes.notes = edited.notes;
+  if (Boolean(saved.favorite) !== edited.favorite) changes.favorite = edited.favorite;
+  if (Boolean(saved.archived) !== edited.archived) changes.archived = edited.archived;
+  return changes;
+}
 
 export default function Popup() {
   const [pageData, setPageData] = useState<ArticleData | null>(null);
+  const [content, setContent] = useState<ArticleContent | null>(null);
   const [tags, setTags] = useState('');
   const [notes, setNotes] = useState('');
+  const [favorite, setFavorite] = useState(false);
+  const [archived, setArchived] = useState(false);
+  const [saved, setSaved] = useState<SavedArticle | null>(null);
+  const [lists, setLists] = useState<ReadingList[]>([]);
+  const [listId, setListId] = useState(DEFAULT_LIST_ID);
   const [status, setStatus] = useState<{ type: StatusType; message: string }>({ type: null, message: '' });
   const [isLoading, setIsLoading] = useState(false);
+  const [failedSaves, setFailedSaves] = useState<FailedSave[]>([]);
 
   useEffect(() => {
     const getPageData = async () => {
@@ -42,6 +78,7 @@ export default function Popup() {
             archived: partialData.archived || false,
             favorite: partialData.favorite || false,
           });
+          findSavedArticle(partialData.url);
         }
       } catch (error) {
         console.error('Error getting page data:', error);
@@ -49,9 +86,83 @@ export default function Popup() {
       }
     };
 
+    // A page saved before opens with its tags and notes for editing
+    const findSavedArticle = async (url: string) => {
+      try {
+        const response = await chrome.runtime.sendMessage({ action: 'getSavedArticle', url }) as GetSavedArticleResponse | undefined;
+        if (!response?.success || !response.article || !response.listId) return;
+
+        const { article } = response;
+        setSaved({ article, listId: response.listId });
+        setTags((article.tags ?? []).join(', '));
+        setNotes(article.notes ?? '');
+        setFavorite(Boolean(article.favorite));
+        setArchived(Boolean(article.archived));
+      } catch (error) {
+        console.warn('Could not look up the saved article:', error);
+      }
+    };
+
+    // Readable content is optional: the article is saved without it if capture fails
+    const captureContent = async () => {
+      try {
+        const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+        const [result] = await chrome.scripting.executeScript({
+          target: { tabId: tab.id! },
+          func: captureArticleContentFromDocument
+        });
+        if (result.result?.html) {
+          setContent(result.result);
+        }
+      } catch (error) {
+        console.warn('Could not capture article content:', error);
+      }
+    };
+
+    // Without lists (signed out, offline) the popup saves to the default list
+    const loadLists = async () => {
+      try {
+        const [response, stored] = await Promise.all([
+          chrome.runtime.sendMessage({ action: 'getLists' }) as Promise<GetListsResponse | undefined>,
+          chrome.storage.local.get(LAST_LIST_KEY)
+        ]);
+        if (!response?.success) return;
+
+        setLists(response.lists);
+        const lastListId = stored[LAST_LIST_KEY];
+        if (response.lists.some(list => list.id === lastListId)) {
+          setListId(lastListId as string);
+        }
+      } catch (error) {
+        console.warn('Could not load reading lists:', error);
+      }
+    };
+
+    // Saves the background queue gave up on, to retry or discard here
+    const loadFailedSaves = async () => {
+      try {
+        const response = await chrome.runtime.sendMessage({ action: 'getFailedSaves' }) as GetFailedSavesResponse | undefined;
+        if (!response?.success || !response.failed) return;
+        setFailedSaves(response.failed);
+      } catch (error) {
+        console.warn('Could not load failed saves:', error);
+      }
+    };
+
     getPageData();
+    captureContent();
+    loadLists();
+    loadFailedSaves();
   }, []);
 
+  // The saved article's list wins over the one picked last time, whichever loads first
+  useEffect(() => {
+    if (saved) setListId(saved.listId);
+  }, [saved, lists]);
+
+  // Saving to another list adds the page there instead
+  const isUpdate = saved !== null && saved.listId === listId;
+
   const handleSave = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -60,9 +171,14 @@ export default function Popup() {
       return;
     }
     
+    if (isUpdate && saved) {
+      await handleUpdate(saved.article);
+      return;
+    }
+
     const articleData: ArticleData = {
       ...pageData,
-      tags: tags.trim() ? tags.split(',').map(tag => tag.trim()) : [],
+      tags: parseTags(tags),
       notes: notes.trim()
     };
     
@@ -72,11 +188,18 @@ export default function Popup() {
       
       const response: SaveArticleResponse = await chrome.runtime.sendMessage({
         action: 'saveArticle',
-        articleData: articleData
+        articleData: articleData,
+        ...(content && { content }),
+        ...(listId !== DEFAULT_LIST_ID && { listId })
       });
       
       if (response && response.success) {
-        setStatus({ type: 'success', message: 'Article saved successfully!' });
+        chrome.storage.local.set({ [LAST_LIST_KEY]: listId });
+        // Saves are queued by the background worker and written once the browser is online
+        setStatus({
+          type: 'success',
+          message: navigator.onLine ? 'Article saved successfully!' : 'Saved offline. It will sync once you are back online.'
+        });
         
         setTimeout(() => {
           window.close();
@@ -93,6 +216,56 @@ export default function Popup() {
     }
   };
 
+  const handleUpdate = async (article: ArticleData) => {
+    const changes = changedFields(article, { tags: parseTags(tags), notes: notes.trim(), favorite, archived });
+    if (Object.keys(changes).length === 0) {
+      setStatus({ type: 'success', message: 'No changes to save' });
+      return;
+    }
+
+    try {
+      setStatus({ type: 'loading', message: 'Updating article...' });
+      setIsLoading(true);
+
+      const response: SaveArticleResponse = await chrome.runtime.sendMessage({
+        action: 'updateArticle',
+        url: article.url,
+        updates: { ...changes, editedAt: new Date().toISOString() },
+        listId
+      });
+
+      if (response && response.success) {
+        setStatus({
+          type: 'success',
+          message: navigator.onLine ? 'Article updated successfully!' : 'Updated offline. It will sync once you are back online.'
+        });
+
+        setTimeout(() => {
+          window.close();
+        }, 1500);
+      } else {
+        const errorMsg = response?.error || 'Unknown error occurred';
+        setStatus({ type: 'error', message: response?.message || `Failed to update: ${errorMsg}` });
+      }
+    } catch (error) {
+      console.error('Error updating article:', error);
+      setStatus({ type: 'error', message: 'Failed to update article' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleFailedSave = async (id: string, action: 'retryFailedSave' | 'discardFailedSave') => {
+    try {
+      const response = await chrome.runtime.sendMessage({ action, id }) as GetFailedSavesResponse;
+      if (!response.success) throw new Error(response.error || 'Unknown error');
+      setFailedSaves(response.failed);
+    } catch (error) {
+      console.error('Error resolving failed save:', error);
+      setStatus({ type: 'error', message: 'Could not update the failed save' });
+    }
+  };
+
   const handleCancel = () => {
     window.close();
   };
@@ -119,14 +292,71 @@ export default function Popup() {
             </Alert>
           )}
           
+          {failedSaves.length > 0 && (
+            <div className="space-y-2 rounded-md border border-red-200 bg-red-50 p-3">
+              <h3 className="font-medium text-sm text-red-800">Not saved</h3>
+              {failedSaves.map(entry => (
+                <div key={entry.id} className="flex items-start gap-2">
+                  <div className="min-w-0 flex-1">
+                    <p className="text-xs font-medium truncate">{entry.articleData.title || entry.articleData.url}</p>
+                    {entry.lastError && <p className="text-xs text-red-700 break-words">{entry.lastError}</p>}
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    aria-label={`Retry ${entry.articleData.title || entry.articleData.url}`}
+                    onClick={() => handleFailedSave(entry.id, 'retryFailedSave')}
+                  >
+                    <RotateCw className="w-3 h-3" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    aria-label={`Discard ${entry.articleData.title || entry.articleData.url}`}
+                    onClick={() => handleFailedSave(entry.id, 'discardFailedSave')}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
           {pageData && (
             <div className="space-y-2">
               <h3 className="font-medium text-sm leading-tight">{pageData.title}</h3>
               <p className="text-xs text-muted-foreground break-all">{pageData.url}</p>
+              {saved && (
+                <p className="text-xs text-green-700">
+                  Already saved{lists.length > 1 && ` in ${lists.find(list => list.id === saved.listId)?.name ?? 'another list'}`}
+                </p>
+              )}
             </div>
           )}
           
           <form onSubmit={handleSave} className="space-y-4">
+            {lists.length > 1 && (
+              <div className="space-y-2">
+                <Label htmlFor="list" className="text-sm font-medium">
+                  List
+                </Label>
+                <select
+                  id="list"
+                  value={listId}
+                  onChange={(e) => setListId(e.target.value)}
+                  className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                >
+                  {lists.map(list => (
+                    <option key={list.id} value={list.id}>{list.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             <div className="space-y-2">
               <Label htmlFor="tags" className="text-sm font-medium">
                 Tags (comma-separated)
@@ -155,6 +385,19 @@ export default function Popup() {
               />
             </div>
             
+            {saved && (
+              <div className="flex gap-4">
+                <label className="flex items-center gap-2 text-sm">
+                  <input type="checkbox" checked={favorite} onChange={(e) => setFavorite(e.target.checked)} />
+                  Favorite
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <input type="checkbox" checked={archived} onChange={(e) => setArchived(e.target.checked)} />
+                  Archived
+                </label>
+              </div>
+            )}
+
             <div className="flex gap-2 pt-2">
               <Button
                 type="button"
@@ -179,7 +422,7 @@ export default function Popup() {
                 ) : (
                   <>
                     <BookOpen className="w-3 h-3 mr-1" />
-                    Save Article
+                    {isUpdate ? 'Update Article' : 'Save Article'}
                   </>
                 )}
               </Button>
@@ -0,0 +1,180 @@
+import { expect, test, vi, beforeEach, describe } from 'vitest'
+import type { ArticleData, SyncResult } from '@readlater/core'
+import { SaveQueue } from './save-queue'
+import type { QueuedSave } from './save-queue'
+
+// chrome.storage.local as far as the queue uses it
+function createStorage() {
+  const data: Record<string, unknown> = {}
+  return {
+    get: vi.fn(async (key: string) => (key in data ? { [key]: structuredClone(data[key]) } : {})),
+    set: vi.fn(async (items: Record<string, unknown>) => { Object.assign(data, structuredClone(items)) }),
+  }
+}
+
+function article(url: string, overrides?: Partial<ArticleData>): ArticleData {
+  return {
+    url,
+    title: 'Test Article Title',
+    description: '',
+    featuredImage: '',
+    timestamp: '2023-01-01T00:00:00.000Z',
+    domain: 'example.com',
+    ...overrides,
+  }
+}
+
+let storage: ReturnType<typeof createStorage>
+let save: ReturnType<typeof vi.fn<(entry: QueuedSave) => Promise<SyncResult>>>
+let onChange: ReturnType<typeof vi.fn>
+let queue: SaveQueue
+
+beforeEach(() => {
+  storage = createStorage()
+  save = vi.fn(async () => ({ success: true }))
+  onChange = vi.fn()
+  queue = new SaveQueue(storage as unknown as chrome.storage.StorageArea, save, onChange)
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+describe('SaveQueue', () => {
+  test('keeps a save until it was written to the sheet', async () => {
+    await queue.enqueue({ articleData: article('https://example.com/a'), listId: 'team' })
+
+    expect(await queue.getSummary()).toEqual({ pending: 1, failing: 0, failed: 0 })
+    expect(onChange).toHaveBeenLastCalledWith({ pending: 1, failing: 0, failed: 0 })
+
+    await queue.drain()
+
+    expect(save).toHaveBeenCalledWith(expect.objectContaining({ listId: 'team', articleData: article('https://example.com/a') }))
+    expect(await queue.getEntries()).toEqual([])
+    expect(onChange).toHaveBeenLastCalledWith({ pending: 0, failing: 0, failed: 0 })
+  })
+
+  test('replaces a queued save of the same page in the same list', async () => {
+    await queue.enqueue({ articleData: article('https://example.com/a', { notes: 'first' }) })
+    await queue.enqueue({ articleData: article('https://example.com/a', { notes: 'second' }) })
+    await queue.enqueue({ articleData: article('https://example.com/a'), listId: 'team' })
+
+    const entries = await queue.getEntries()
+    expect(entries).toHaveLength(2)
+    expect(entries[0].articleData.notes).toBe('second')
+  })
+
+  test('folds an edit into a waiting save of the same page', async () => {
+    await queue.enqueue({ articleData: article('https://example.com/a', { notes: 'first' }) })
+    await queue.enqueue({
+      articleData: article('https://example.com/a', { notes: 'first', favorite: true }),
+      changes: { favorite: true },
+    })
+
+    const [entry] = await queue.getEntries()
+    expect(entry.changes).toBeUndefined()
+    expect(entry.articleData).toMatchObject({ notes: 'first', favorite: true })
+  })
+
+  test('adds up waiting edits of the same page', async () => {
+    await queue.enqueue({ articleData: article('https://example.com/a', { tags: ['tech'] }), changes: { tags: ['tech'] } })
+    await queue.enqueue({
+      articleData: article('https://example.com/a', { tags: ['tech'], archived: true }),
+      changes: { archived: true },
+    })
+
+    const entries = await queue.getEntries()
+    expect(entries).toHaveLength(1)
+    expect(entries[0].changes).toEqual({ tags: ['tech'], archived: true })
+  })
+
+  test('backs off after a failure and reports it until a retry succeeds', async () => {
+    save.mockResolvedValueOnce({ success: false, error: 'Rate limit exceeded' })
+    await queue.enqueue({ articleData: article('https://example.com/a') })
+
+    await queue.drain()
+
+    const [entry] = await queue.getEntries()
+    expect(entry).toMatchObject({ attempts: 1, lastError: 'Rate limit exceeded' })
+    expect(entry.nextAttemptAt).toBeGreaterThan(Date.now())
+    expect(onChange).toHaveBeenLastCalledWith({ pending: 1, failing: 1, failed: 0 })
+
+    // Still waiting out the backoff
+    await queue.drain()
+    expect(save).toHaveBeenCalledTimes(1)
+
+    // Back online
+    await queue.drain({ force: true })
+    expect(save).toHaveBeenCalledTimes(2)
+    expect(await queue.getSummary()).toEqual({ pending: 0, failing: 0, failed: 0 })
+  })
+
+  test('counts a thrown error as a failed attempt', async () => {
+    save.mockRejectedValueOnce(new Error('Failed to fetch'))
+    await queue.enqueue({ articleData: article('https://example.com/a') })
+
+    await queue.drain()
+
+    expect((await queue.getEntries())[0].lastError).toBe('Failed to fetch')
+  })
+
+  test('moves a save aside once it ran out of retries', async () => {
+    queue = new SaveQueue(storage as unknown as chrome.storage.StorageArea, save, onChange, 1)
+    save.mockResolvedValue({ success: false, error: 'The caller does not have permission' })
+    await queue.enqueue({ articleData: article('https://example.com/a') })
+
+    await queue.drain()
+    await queue.drain({ force: true })
+    await queue.drain({ force: true })
+
+    expect(save).toHaveBeenCalledTimes(2)
+    expect(await queue.getEntries()).toEqual([])
+    const [failed] = await queue.getFailed()
+    expect(failed).toMatchObject({ attempts: 2, lastError: 'The caller does not have permission' })
+    expect(onChange).toHaveBeenLastCalledWith({ pending: 0, failing: 0, failed: 1 })
+  })
+
+  test('retries a failed save with a fresh budget', async () => {
+    queue = new SaveQueue(storage as unknown as chrome.storage.StorageArea, save, onChange, 0)
+    save.mockResolvedValueOnce({ success: false, error: 'Rate limit exceeded' })
+    await queue.enqueue({ articleData: article('https://example.com/a') })
+    await queue.drain()
+    const [failed] = await queue.getFailed()
+
+    await queue.retryFailed(failed.id)
+
+    expect(await queue.getFailed()).toEqual([])
+    expect(await queue.getEntries()).toMatchObject([{ attempts: 0, articleData: article('https://example.com/a') }])
+    await queue.drain()
+    expect(save).toHaveBeenCalledTimes(2)
+    expect(await queue.getSummary()).toEqual({ pending: 0, failing: 0, failed: 0 })
+  })
+
+  test('discards a failed save', async () => {
+    queue = new SaveQueue(storage as unknown as chrome.storage.StorageArea, save, onChange, 0)
+    save.mockResolvedValueOnce({ success: false, error: 'Rate limit exceeded' })
+    await queue.enqueue({ articleData: article('https://example.com/a') })
+    await queue.drain()
+    const [failed] = await queue.getFailed()
+
+    await queue.discardFailed(failed.id)
+
+    expect(await queue.getFailed()).toEqual([])
+    expect(await queue.getSummary()).toEqual({ pending: 0, failing: 0, failed: 0 })
+  })
+
+  test('keeps a save of the same page queued while the previous one was written', async () => {
+    let finishWrite!: (result: SyncResult) => void
+    save.mockImplementationOnce(() => new Promise(resolve => { finishWrite = resolve }))
+    await queue.enqueue({ articleData: article('https://example.com/a', { notes: 'first' }) })
+
+    const draining = queue.drain()
+    await vi.waitFor(() => expect(save).toHaveBeenCalledTimes(1))
+    await queue.enqueue({ articleData: article('https://example.com/a', { notes: 'second' }) })
+    const next = queue.drain()
+    finishWrite({ success: true })
+    await draining
+    await next
+
+    expect(save).toHaveBeenCalledTimes(2)
+    expect(save.mock.calls[1][0].articleData.notes).toBe('second')
+    expect(await queue.getEntries()).toEqual([])
+  })
+})
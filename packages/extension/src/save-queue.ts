@@ -0,0 +1,231 @@
+import { DEFAULT_SYNC_TIMING } from '@readlater/core';
+import type { ArticleContent, ArticleData, SyncResult } from '@readlater/core';
+
+const QUEUE_KEY = 'saveQueue';
+const FAILED_KEY = 'failedSaves';
+// First retry after a minute, doubling up to an hour
+const INITIAL_RETRY_MS = 60 * 1000;
+const MAX_RETRY_MS = 60 * 60 * 1000;
+
+/** A save waiting to reach the sheet, kept in chrome.storage.local until it does. */
+export interface QueuedSave {
+  id: string;
+  articleData: ArticleData;
+  changes?: Partial<ArticleData>;  // Set for an edit of a saved article: only these fields are written
+  content?: ArticleContent;
+  listId?: string;
+  queuedAt: number;
+  attempts: number;          // Failed attempts so far
+  nextAttemptAt: number;     // Skipped by scheduled drains until then (ms since epoch)
+  lastError?: string;
+}
+
+/** A save that ran out of retries, kept aside until the user retries or discards it. */
+export interface FailedSave extends QueuedSave {
+  failedAt: number;
+}
+
+export interface SaveQueueSummary {
+  pending: number;
+  failing: number;           // Entries whose last attempt failed
+  failed: number;            // Out of retries, waiting for the user
+}
+
+export interface GetFailedSavesMessage {
+  action: 'getFailedSaves';
+}
+
+export interface GetFailedSavesResponse {
+  success: boolean;
+  failed: FailedSave[];
+  error?: string;
+}
+
+export interface ResolveFailedSaveMessage {
+  action: 'retryFailedSave' | 'discardFailedSave';
+  id: string;
+}
+
+interface QueueState {
+  entries: QueuedSave[];
+  failed: FailedSave[];
+}
+
+type SaveQueueStorage = Pick<chrome.storage.StorageArea, 'get' | 'set'>;
+
+/**
+ * Saves made in the extension, persisted before they are written so nothing
+ * is lost offline or while the Sheets API is rate limiting.
+ *
+ * The background worker confirms a save once it is queued and drains the queue
+ * right away, on a chrome.alarms tick and when the browser comes back online.
+ * A later save of the same page to the same list replaces the queued one; a
+ * later edit is folded into it, so it is still written as a whole.
+ *
+ * Like the PWA's dead letters, a save that still fails after `maxRetries`
+ * retries is moved aside, where the popup lists it to retry or discard.
+ */
+export class SaveQueue {
+  // Storage updates run one at a time so a save queued mid-drain isn't lost
+  private lock: Promise<unknown> = Promise.resolve();
+  private draining: Promise<void> | null = null;
+  private nextDrain: Promise<void> | null = null;
+  private forceNextDrain = false;
+
+  constructor(
+    private readonly storage: SaveQueueStorage,
+    private readonly save: (entry: QueuedSave) => Promise<SyncResult>,
+    private readonly onChange: (summary: SaveQueueSummary) => void = () => {},
+    private readonly maxRetries: number = DEFAULT_SYNC_TIMING.maxRetries
+  ) {}
+
+  async enqueue(entry: Pick<QueuedSave, 'articleData' | 'content' | 'listId' | 'changes'>): Promise<QueuedSave> {
+    let queued = newEntry(entry);
+    await this.update(({ entries, failed }) => {
+      const next = withQueued(entries, queued);
+      queued = next.queued;
+      return { entries: next.entries, failed };
+    });
+    return queued;
+  }
+
+  async getEntries(): Promise<QueuedSave[]> {
+    const stored = await this.storage.get(QUEUE_KEY);
+    return (stored[QUEUE_KEY] as QueuedSave[] | undefined) ?? [];
+  }
+
+  async getFailed(): Promise<FailedSave[]> {
+    const stored = await this.storage.get(FAILED_KEY);
+    return (stored[FAILED_KEY] as FailedSave[] | undefined) ?? [];
+  }
+
+  async getSummary(): Promise<SaveQueueSummary> {
+    return summarize({ entries: await this.getEntries(), failed: await this.getFailed() });
+  }
+
+  /** Queues a failed save again with a fresh retry budget. */
+  async retryFailed(id: string): Promise<void> {
+    await this.update(({ entries, failed }) => {
+      const retried = failed.find(entry => entry.id === id);
+      if (!retried) return { entries, failed };
+      const { articleData, changes, content, listId } = retried;
+      return {
+        entries: withQueued(entries, newEntry({ articleData, changes, content, listId })).entries,
+        failed: failed.filter(entry => entry !== retried),
+      };
+    });
+  }
+
+  async discardFailed(id: string): Promise<void> {
+    await this.update(state => ({ ...state, failed: state.failed.filter(entry => entry.id !== id) }));
+  }
+
+  /**
+   * Writes the entries that are due, oldest first. `force` also retries those
+   * still waiting out their backoff, e.g. when the connection is back.
+   * A drain requested while one runs starts after it (requests in between share
+   * it), so a save queued meanwhile isn't left for the next alarm.
+   */
+  drain(options: { force?: boolean } = {}): Promise<void> {
+    this.forceNextDrain ||= options.force ?? false;
+    if (!this.nextDrain) {
+      this.nextDrain = (this.draining ?? Promise.resolve()).then(() => {
+        const force = this.forceNextDrain;
+        this.forceNextDrain = false;
+        this.nextDrain = null;
+        this.draining = this.drainDue(force).finally(() => {
+          this.draining = null;
+        });
+        return this.draining;
+      });
+    }
+    return this.nextDrain;
+  }
+
+  private async drainDue(force: boolean): Promise<void> {
+    const now = Date.now();
+    const due = (await this.getEntries()).filter(entry => force || entry.nextAttemptAt <= now);
+
+    for (const entry of due) {
+      let error: string | undefined;
+      try {
+        const result = await this.save(entry);
+        error = result.success ? undefined : result.error || 'Failed to save article';
+      } catch (err) {
+        error = err instanceof Error ? err.message : String(err);
+      }
+
+      // Compare IDs: the page may have been saved again while this one was written
+      let outOfRetries = false;
+      await this.update(({ entries, failed }) => {
+        const current = entries.find(candidate => candidate.id === entry.id);
+        const others = entries.filter(candidate => candidate !== current);
+        if (!current || !error) return { entries: others, failed };
+
+        const attempts = current.attempts + 1;
+        // attempts counts failures, and the first attempt is not a retry
+        if (attempts > this.maxRetries) {
+          outOfRetries = true;
+          return { entries: others, failed: [...failed, { ...current, attempts, lastError: error, failedAt: Date.now() }] };
+        }
+        const delay = Math.min(INITIAL_RETRY_MS * 2 ** (attempts - 1), MAX_RETRY_MS);
+        const retry = { ...current, attempts, nextAttemptAt: Date.now() + delay, lastError: error };
+        return { entries: entries.map(candidate => candidate === current ? retry : candidate), failed };
+      });
+
+      if (error) {
+        console.warn(
+          `Queued save of ${entry.articleData.url} failed (attempt ${entry.attempts + 1})${outOfRetries ? ', giving up' : ''}:`,
+          error
+        );
+      }
+    }
+  }
+
+  // Both lists are written together, so an entry moved aside is never in both or neither
+  private update(change: (state: QueueState) => QueueState): Promise<void> {
+    const next = this.lock.then(async () => {
+      const state = change({ entries: await this.getEntries(), failed: await this.getFailed() });
+      await this.storage.set({ [QUEUE_KEY]: state.entries, [FAILED_KEY]: state.failed });
+      this.onChange(summarize(state));
+    });
+    this.lock = next.catch(() => {});
+    return next;
+  }
+}
+
+function newEntry(entry: Pick<QueuedSave, 'articleData' | 'content' | 'listId' | 'changes'>): QueuedSave {
+  return {
+    ...entry,
+    id: crypto.randomUUID(),
+    queuedAt: Date.now(),
+    attempts: 0,
+    nextAttemptAt: 0,
+  };
+}
+
+// Adds the entry in place of a queued one for the same page
+function withQueued(entries: QueuedSave[], entry: QueuedSave): { entries: QueuedSave[]; queued: QueuedSave } {
+  const previous = entries.find(existing => isSamePage(existing, entry));
+  const queued = previous && entry.changes
+    ? {
+        ...entry,
+        content: entry.content ?? previous.content,
+        // A waiting save stays a save; waiting edits add up
+        changes: previous.changes && { ...previous.changes, ...entry.changes },
+      }
+    : entry;
+  return { entries: [...entries.filter(existing => existing !== previous), queued], queued };
+}
+
+function isSamePage(a: QueuedSave, b: QueuedSave): boolean {
+  return a.articleData.url === b.articleData.url && (a.listId ?? '') === (b.listId ?? '');
+}
+
+function summarize({ entries, failed }: QueueState): SaveQueueSummary {
+  return {
+    pending: entries.length,
+    failing: entries.filter(entry => entry.lastError).length,
+    failed: failed.length,
+  };
+}
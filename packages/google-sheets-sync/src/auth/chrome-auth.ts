@@ -28,6 +28,16 @@ export class ChromeAuthProvider implements AuthProvider {
     await this.getAuthToken();
   }
 
+  /** Drops Chrome's cached token and asks for a new one without showing a prompt. */
+  async renewToken(): Promise<boolean> {
+    await this.clearAuthToken();
+    return new Promise((resolve) => {
+      chrome.identity.getAuthToken({ interactive: false }, (result) => {
+        resolve(!chrome.runtime.lastError && typeof result === 'string');
+      });
+    });
+  }
+
   async clearAuthToken(): Promise<void> {
     return new Promise((resolve, reject) => {
       chrome.identity.getAuthToken({ interactive: false }, (result) => {
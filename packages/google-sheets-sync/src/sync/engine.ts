@@ -1,31 +1,100 @@
-import { ArticleData, SyncEngine, SyncResult, AuthProvider } from '@readlater/core';
-import { GoogleSpreadsheetManager, SpreadsheetStorage, articleToSheetRow, sheetRowToArticle } from '../spreadsheet/index.js';
+import {
+  ArticleData,
+  ArticleContent,
+  Highlight,
+  ReadingList,
+  SyncEngine,
+  SyncResult,
+  AuthProvider,
+  isValidHighlight,
+  DEFAULT_LIST_ID
+} from '@readlater/core';
+import {
+  GoogleSpreadsheetManager,
+  SpreadsheetStorage,
+  ExistingSpreadsheet,
+  RowExpectation,
+  HighlightRowExpectation,
+  SHEET_COLUMNS,
+  articleToSheetRow,
+  sheetRowToArticle,
+  highlightToSheetRow,
+  sheetRowToHighlight,
+  articleContentFileName,
+  SPREADSHEET_HEADERS
+} from '../spreadsheet/index.js';
+import { SpreadsheetRevision } from '../types.js';
+import { AuthenticationRequiredError } from '../auth/pwa-auth.js';
+import {
+  DEFAULT_SNAPSHOT_RETENTION,
+  LibrarySnapshot,
+  LibrarySnapshotInfo,
+  SNAPSHOT_MIME_TYPE,
+  SnapshotRetention,
+  compressSnapshot,
+  decompressSnapshot,
+  parseSnapshotFileName,
+  selectSnapshotsToPrune,
+  snapshotFileName,
+  snapshotFilePrefix
+} from './snapshots.js';
+import {
+  DATE_FIELDS,
+  DateHeader,
+  RepairOptions,
+  RepairResult,
+  SpreadsheetDiagnosis,
+  diagnoseHeaders,
+  mergeDuplicateArticles,
+  normalizeDate
+} from './diagnosis.js';
+
+interface NumberedRow {
+  rowNumber: number;
+  row: string[];
+}
+
+/** Why rewriteRows() couldn't write a row: gone from the sheet, or still changing after every attempt. */
+type RewriteFailure = 'missing' | 'conflict';
+
+// Reads and writes of a checked write before giving up on rows that keep changing
+const MAX_WRITE_ATTEMPTS = 3;
 
 export class GoogleSheetsSyncEngine implements SyncEngine {
   private manager: GoogleSpreadsheetManager;
+  private listId: string;
 
   constructor(
     authProvider: AuthProvider,
     storage: SpreadsheetStorage,
-    spreadsheetName?: string
+    spreadsheetName?: string,
+    listId?: string
   ) {
-    this.manager = new GoogleSpreadsheetManager(authProvider, storage, spreadsheetName);
+    this.manager = new GoogleSpreadsheetManager(authProvider, storage, spreadsheetName, listId);
+    this.listId = listId ?? DEFAULT_LIST_ID;
   }
 
   async saveArticle(article: ArticleData): Promise<SyncResult> {
     try {
       console.log('Saving article to Google Sheets...');
 
-      const rowData = articleToSheetRow(article);
+      const editor = await this.getCurrentUser();
 
       // Check if article already exists (e.g., added by another device)
       const existingRow = await this.manager.findRowByUrl(article.url);
-      if (existingRow !== null) {
-        // Upsert: update existing row instead of creating a duplicate
-        await this.manager.updateRow(existingRow, rowData);
+      // Upsert: update existing row instead of creating a duplicate, keeping who added it
+      const failures = existingRow === null ? null : await this.rewriteRows([article.url], (_, current) =>
+        articleToSheetRow(this.withAttribution(article, editor, sheetRowToArticle(current).addedBy))
+      );
+      const failure = failures?.get(article.url);
+      if (failure === 'conflict') {
+        throw new Error('Article kept changing in the spreadsheet; try again');
+      }
+
+      if (failures && !failure) {
         console.log('Updated existing article in Google Sheets (dedup)');
       } else {
-        await this.manager.appendRow(rowData);
+        await this.manager.appendRow(articleToSheetRow(this.withAttribution(article, editor)));
         console.log('Successfully saved to Google Sheets');
       }
 
@@ -34,6 +103,8 @@ export class GoogleSheetsSyncEngine implements SyncEngine {
         articleUrl: article.url
       };
     } catch (error) {
+      // The caller pauses and asks the user to sign in; it's not this write's failure
+      if (error instanceof AuthenticationRequiredError) throw error;
       console.error('Error saving article:', error);
       return {
         success: false,
@@ -48,92 +119,462 @@ export class GoogleSheetsSyncEngine implements SyncEngine {
       console.log('Fetching articles from Google Sheets...');
 
       const rows = await this.manager.getAllRows();
+      return this.parseArticleRows(rows.map((row, i) => ({ rowNumber: i + 2, row })));
+    } catch (error) {
+      throw this.describeReadError(error);
+    }
+  }
 
-      // Enhanced validation and filtering
-      const validArticles: ArticleData[] = [];
-      const invalidRows: string[][] = [];
+  /**
+   * Returns the spreadsheet's current Drive revision. Callers compare it with the
+   * revision seen at their last pull to skip downloads when nothing changed.
+   */
+  async getRemoteRevision(): Promise<SpreadsheetRevision> {
+    return this.manager.getRevision();
+  }
 
-      for (let i = 0; i < rows.length; i++) {
-        const row = rows[i];
+  /**
+   * Number of API requests retried after hitting the Sheets rate limit so far.
+   * Callers compare it before and after a sync to see how often it was throttled.
+   */
+  getRateLimitRetryCount(): number {
+    return this.manager.getRateLimitRetryCount();
+  }
 
-        // Skip completely empty rows
-        if (!row || row.length === 0 || !row.some(cell => cell?.trim())) {
-          continue;
+  /**
+   * Fetches only articles created, edited or deleted after `since` (ISO 8601).
+   * Reads the URL and date columns first, then downloads just the matching rows.
+   * Rows edited by hand in the sheet don't update Edited At, so callers should
+   * still run a full getArticles() from time to time.
+   */
+  async getArticlesChangedSince(since: string): Promise<ArticleData[]> {
+    try {
+      const sinceMs = new Date(since).getTime();
+      if (isNaN(sinceMs)) {
+        throw new Error(`Invalid checkpoint: ${since}`);
+      }
+
+      const [urls, timestamps, editedAts, deletedAts] = await this.manager.getColumnValues([
+        SHEET_COLUMNS.url,
+        SHEET_COLUMNS.timestamp,
+        SHEET_COLUMNS.editedAt,
+        SHEET_COLUMNS.deletedAt
+      ]);
+
+      const expectedUrls = new Map<number, string>();
+      for (let i = 0; i < urls.length; i++) {
+        if (!urls[i]?.trim()) continue;
+
+        const changedAt = Math.max(
+          ...[timestamps[i], editedAts[i], deletedAts[i]]
+            .filter((value): value is string => !!value?.trim())
+            .map(value => new Date(value).getTime())
+        );
+
+        // Unparseable dates can't be compared, so include those rows to be safe
+        if (isNaN(changedAt) || changedAt > sinceMs) {
+          expectedUrls.set(i + 2, urls[i]);
         }
+      }
 
-        // Validate that row has minimum required data
-        if (!row[0]?.trim()) { // URL is required
-          console.warn(`Row ${i + 2} missing URL, skipping:`, row);
-          invalidRows.push(row);
+      console.log(`Delta sync: ${expectedUrls.size} of ${urls.length} rows changed since ${since}`);
+      if (expectedUrls.size === 0) return [];
+
+      const rows = await this.fetchRowsExpectingUrls(expectedUrls);
+      if (!rows) {
+        console.warn('Rows shifted while reading changes, falling back to a full read');
+        this.manager.invalidateRowsCache();
+        return await this.getArticles();
+      }
+
+      return this.parseArticleRows(rows);
+    } catch (error) {
+      throw this.describeReadError(error);
+    }
+  }
+
+  /**
+   * Fetches the current remote version of specific articles without reading the whole sheet.
+   */
+  async getArticlesByUrl(urls: string[]): Promise<ArticleData[]> {
+    if (urls.length === 0) return [];
+
+    try {
+      return this.parseArticleRows(await this.getRowsByUrl(urls));
+    } catch (error) {
+      throw this.describeReadError(error);
+    }
+  }
+
+  private async getRowsByUrl(urls: string[]): Promise<NumberedRow[]> {
+    const wanted = new Set(urls);
+    const urlColumn = await this.manager.getUrlColumn();
+    const expectedUrls = new Map<number, string>();
+    urlColumn.forEach((url, i) => {
+      if (wanted.has(url)) expectedUrls.set(i + 2, url);
+    });
+
+    if (expectedUrls.size === 0) return [];
+
+    const rows = await this.fetchRowsExpectingUrls(expectedUrls);
+    if (rows) return rows;
+
+    // Rows moved between the two reads - fall back to a consistent full read
+    this.manager.invalidateRowsCache();
+    const allRows = await this.manager.getAllRows();
+    return allRows
+      .map((row, i) => ({ rowNumber: i + 2, row }))
+      .filter(({ row }) => wanted.has(row[0]));
+  }
+
+  /**
+   * Downloads the given rows and checks each still holds the expected URL.
+   * Returns null if any row moved in the meantime (another device inserted or deleted rows).
+   */
+  private async fetchRowsExpectingUrls(expectedUrls: Map<number, string>): Promise<NumberedRow[] | null> {
+    const rowsByNumber = await this.manager.getRowsByNumber([...expectedUrls.keys()]);
+    const rows: NumberedRow[] = [];
+
+    for (const [rowNumber, url] of expectedUrls) {
+      const row = rowsByNumber.get(rowNumber) || [];
+      if (row[0] !== url) {
+        return null;
+      }
+      rows.push({ rowNumber, row });
+    }
+    return rows;
+  }
+
+  /**
+   * Rewrites the rows holding the given URLs with what merge() makes of their
+   * current values. Each attempt reads the rows fresh and writes only those
+   * still holding the URL and revision it read, so when another device moves
+   * or edits a row in between, the row is merged again instead of the write
+   * landing on a neighbour. Returns the URLs that weren't written and why.
+   */
+  private async rewriteRows(
+    urls: string[],
+    merge: (url: string, current: string[]) => string[]
+  ): Promise<Map<string, RewriteFailure>> {
+    const failures = new Map<string, RewriteFailure>();
+    let pending = [...new Set(urls)];
+
+    for (let attempt = 1; pending.length > 0; attempt++) {
+      if (attempt > 1) {
+        this.manager.invalidateRowsCache();
+      }
+
+      // Keep the last occurrence if duplicates exist, as reads do
+      const rowsByUrl = new Map<string, NumberedRow>();
+      for (const numbered of await this.getRowsByUrl(pending)) {
+        rowsByUrl.set(numbered.row[SHEET_COLUMNS.url], numbered);
+      }
+
+      const updates: Array<RowExpectation & { values: string[] }> = [];
+      for (const url of pending) {
+        const current = rowsByUrl.get(url);
+        if (!current) {
+          failures.set(url, 'missing');
           continue;
         }
+        updates.push({
+          rowNumber: current.rowNumber,
+          url,
+          revision: current.row[SHEET_COLUMNS.revision],
+          values: merge(url, current.row)
+        });
+      }
+
+      pending = (await this.manager.updateRowsIfUnchanged(updates)).map(({ url }) => url);
+      if (pending.length > 0 && attempt === MAX_WRITE_ATTEMPTS) {
+        pending.forEach(url => failures.set(url, 'conflict'));
+        break;
+      }
+    }
+    return failures;
+  }
+
+  /**
+   * Deletes the rows holding the given URLs, each only if it still holds the
+   * URL and revision read just before; rows that moved or changed are read
+   * again. Returns the URLs still in the sheet after the last attempt.
+   */
+  private async deleteRowsByUrl(urls: string[]): Promise<string[]> {
+    let pending = [...new Set(urls)];
+
+    for (let attempt = 1; pending.length > 0 && attempt <= MAX_WRITE_ATTEMPTS; attempt++) {
+      if (attempt > 1) {
+        this.manager.invalidateRowsCache();
+      }
+
+      const wanted = new Set(pending);
+      const [urlColumn, revisions] = await this.manager.getColumnValues([SHEET_COLUMNS.url, SHEET_COLUMNS.revision]);
+      const rows: RowExpectation[] = [];
+      urlColumn.forEach((url, i) => {
+        // Every copy of a duplicated URL goes
+        if (wanted.has(url)) rows.push({ rowNumber: i + 2, url, revision: revisions[i] ?? '' });
+      });
+
+      const mismatched = await this.manager.deleteRowsIfUnchanged(rows);
+      pending = [...new Set(mismatched.map(({ url }) => url))];
+    }
+    return pending;
+  }
+
+  private parseArticleRows(rows: NumberedRow[]): ArticleData[] {
+    // Enhanced validation and filtering
+    const validArticles: ArticleData[] = [];
+    const invalidRows: string[][] = [];
+
+    for (const { rowNumber, row } of rows) {
+      // Skip completely empty rows
+      if (!row || row.length === 0 || !row.some(cell => cell?.trim())) {
+        continue;
+      }
+
+      // Validate that row has minimum required data
+      if (!row[0]?.trim()) { // URL is required
+        console.warn(`Row ${rowNumber} missing URL, skipping:`, row);
+        invalidRows.push(row);
+        continue;
+      }
 
-        if (!row[1]?.trim()) { // Title is required
-          console.warn(`Row ${i + 2} missing title, skipping:`, row);
+      if (!row[1]?.trim()) { // Title is required
+        console.warn(`Row ${rowNumber} missing title, skipping:`, row);
+        invalidRows.push(row);
+        continue;
+      }
+
+      try {
+        const article = sheetRowToArticle(row);
+
+        // Additional validation on the parsed article
+        if (!this.validateArticleData(article)) {
+          console.warn(`Row ${rowNumber} failed validation after parsing:`, article);
           invalidRows.push(row);
           continue;
         }
 
-        try {
-          const article = sheetRowToArticle(row);
+        validArticles.push(article);
+      } catch (parseError) {
+        console.warn(`Failed to parse row ${rowNumber}:`, parseError, row);
+        invalidRows.push(row);
+      }
+    }
+
+    // Deduplicate by URL — if there are duplicate rows for the same URL,
+    // keep the last occurrence (most recently appended).
+    const deduped = new Map<string, ArticleData>();
+    for (const article of validArticles) {
+      deduped.set(article.url, article);
+    }
+    const uniqueArticles = Array.from(deduped.values());
 
-          // Additional validation on the parsed article
-          if (!this.validateArticleData(article)) {
-            console.warn(`Row ${i + 2} failed validation after parsing:`, article);
-            invalidRows.push(row);
-            continue;
-          }
+    if (uniqueArticles.length < validArticles.length) {
+      console.warn(`Deduplicated ${validArticles.length - uniqueArticles.length} duplicate URLs`);
+    }
 
-          validArticles.push(article);
-        } catch (parseError) {
-          console.warn(`Failed to parse row ${i + 2}:`, parseError, row);
-          invalidRows.push(row);
+    // Log summary of what we found
+    console.log(`Successfully loaded ${uniqueArticles.length} valid articles from Google Sheets`);
+    if (invalidRows.length > 0) {
+      console.warn(`Skipped ${invalidRows.length} invalid rows`);
+
+      // If more than 25% of rows are invalid, something might be seriously wrong
+      const totalRows = rows.length;
+      const invalidRatio = invalidRows.length / totalRows;
+      if (totalRows > 0 && invalidRatio > 0.25) {
+        console.error(`High invalid row ratio detected: ${invalidRows.length}/${totalRows} (${Math.round(invalidRatio * 100)}%)`);
+        console.error('This might indicate spreadsheet corruption or format changes');
+      }
+    }
+
+    return uniqueArticles;
+  }
+
+  /**
+   * Checks the sheet for problems sync works around or skips: duplicate URLs,
+   * rows without a URL or title, header drift, dates that aren't ISO 8601 and
+   * cells holding formulas. Nothing is changed; see repair().
+   */
+  async diagnose(): Promise<SpreadsheetDiagnosis> {
+    return (await this.inspect()).diagnosis;
+  }
+
+  /**
+   * Fixes what diagnose() reports: duplicate rows are merged into the first one,
+   * rows without a usable URL are removed, a missing title falls back to the URL,
+   * dates are rewritten as ISO 8601 and formulas are replaced by their value.
+   * Headers that differ only in case or spacing are renamed. Unparseable dates
+   * and duplicated headers need a person and are left alone.
+   */
+  async repair(options: RepairOptions = {}): Promise<RepairResult> {
+    const fix = { headers: true, duplicates: true, invalidRows: true, dates: true, formulas: true, ...options };
+    const { diagnosis, rows } = await this.inspect();
+    const result: RepairResult = { headersRenamed: 0, duplicatesMerged: 0, rowsRemoved: 0, rowsUpdated: 0 };
+
+    if (fix.headers && diagnosis.headers.misnamed.length > 0) {
+      await this.manager.renameHeaders(
+        diagnosis.headers.misnamed.map(({ position, expected }) => ({ position, header: expected }))
+      );
+      result.headersRenamed = diagnosis.headers.misnamed.length;
+    }
+
+    const updated = new Map<number, ArticleData>();
+    const removed = new Set<number>();
+    // Duplicate rows removed, by the row they were merged into
+    const mergedInto = new Map<number, number>();
+    const current = (rowNumber: number) => updated.get(rowNumber) ?? sheetRowToArticle(rows.get(rowNumber) || []);
+
+    if (fix.duplicates) {
+      for (const { rowNumbers } of diagnosis.duplicates) {
+        const [kept, ...others] = rowNumbers;
+        updated.set(kept, mergeDuplicateArticles(rowNumbers.map(current)));
+        others.forEach(rowNumber => {
+          removed.add(rowNumber);
+          mergedInto.set(rowNumber, kept);
+        });
+        result.duplicatesMerged++;
+      }
+    }
+
+    if (fix.invalidRows) {
+      for (const { rowNumber, reason } of diagnosis.invalidRows) {
+        if (removed.has(rowNumber)) continue;
+        if (reason !== 'missing-title') {
+          removed.add(rowNumber);
+          continue;
+        }
+        const article = current(rowNumber);
+        // Merging may already have found a title in another copy of the row
+        if (!article.title) {
+          updated.set(rowNumber, { ...article, title: article.url, domain: article.domain || new URL(article.url).hostname });
         }
       }
+    }
 
-      // Deduplicate by URL — if there are duplicate rows for the same URL,
-      // keep the last occurrence (most recently appended).
-      const deduped = new Map<string, ArticleData>();
-      for (const article of validArticles) {
-        deduped.set(article.url, article);
+    if (fix.dates) {
+      for (const { rowNumber, normalized } of diagnosis.invalidDates) {
+        if (normalized) updated.set(rowNumber, current(rowNumber));
       }
-      const uniqueArticles = Array.from(deduped.values());
+    }
 
-      if (uniqueArticles.length < validArticles.length) {
-        console.warn(`Deduplicated ${validArticles.length - uniqueArticles.length} duplicate URLs`);
+    if (fix.formulas) {
+      // Rewriting the row stores the values the formulas evaluated to
+      for (const { rowNumber } of diagnosis.formulas) {
+        updated.set(rowNumber, current(rowNumber));
       }
+    }
 
-      // Log summary of what we found
-      console.log(`Successfully loaded ${uniqueArticles.length} valid articles from Google Sheets`);
-      if (invalidRows.length > 0) {
-        console.warn(`Skipped ${invalidRows.length} invalid rows`);
+    // Rows edited elsewhere since the inspection are skipped and show up in the next check
+    const expectation = (rowNumber: number): RowExpectation => {
+      const row = rows.get(rowNumber) || [];
+      return { rowNumber, url: row[SHEET_COLUMNS.url] ?? '', revision: row[SHEET_COLUMNS.revision] ?? '' };
+    };
+    const updates = [...updated]
+      .filter(([rowNumber]) => !removed.has(rowNumber))
+      .map(([rowNumber, article]) => ({
+        ...expectation(rowNumber),
+        values: articleToSheetRow(fix.dates ? this.withNormalizedDates(article) : article)
+      }));
+    const skippedUpdates = new Set((await this.manager.updateRowsIfUnchanged(updates)).map(({ rowNumber }) => rowNumber));
+    // A duplicate stays while the merged row wasn't written, or its values would be lost
+    const removals = [...removed]
+      .filter(rowNumber => !skippedUpdates.has(mergedInto.get(rowNumber) ?? 0))
+      .map(expectation);
+    const skippedRemovals = await this.manager.deleteRowsIfUnchanged(removals);
+
+    result.rowsUpdated = updates.length - skippedUpdates.size;
+    result.rowsRemoved = removals.length - skippedRemovals.length;
+    return result;
+  }
+
+  private withNormalizedDates(article: ArticleData): ArticleData {
+    const normalized = { ...article };
+    for (const field of Object.values(DATE_FIELDS)) {
+      const value = normalizeDate(article[field] ?? '');
+      if (value) normalized[field] = value;
+    }
+    return normalized;
+  }
 
-        // If more than 25% of rows are invalid, something might be seriously wrong
-        const totalRows = rows.length;
-        const invalidRatio = invalidRows.length / totalRows;
-        if (totalRows > 0 && invalidRatio > 0.25) {
-          console.error(`High invalid row ratio detected: ${invalidRows.length}/${totalRows} (${Math.round(invalidRatio * 100)}%)`);
-          console.error('This might indicate spreadsheet corruption or format changes');
+  // Reads the sheet fresh, once with values and once with formulas
+  private async inspect(): Promise<{ diagnosis: SpreadsheetDiagnosis; rows: Map<number, string[]> }> {
+    // Before the other reads, which add missing headers
+    const headers = diagnoseHeaders(await this.manager.getHeaderRow());
+    this.manager.invalidateRowsCache();
+    const [values, formulas] = await Promise.all([this.manager.getAllRows(), this.manager.getAllRowFormulas()]);
+
+    const diagnosis: SpreadsheetDiagnosis = {
+      checkedAt: new Date().toISOString(),
+      rowCount: 0,
+      headers,
+      duplicates: [],
+      invalidRows: [],
+      invalidDates: [],
+      formulas: []
+    };
+    const rows = new Map<number, string[]>();
+    const rowsByUrl = new Map<string, number[]>();
+
+    values.forEach((row, index) => {
+      const rowNumber = index + 2;
+      if (!row.some(cell => cell?.trim())) return;
+      rows.set(rowNumber, row);
+      diagnosis.rowCount++;
+
+      const article = sheetRowToArticle(row);
+      const url = article.url.trim();
+      if (!url) {
+        diagnosis.invalidRows.push({ rowNumber, url, reason: 'missing-url' });
+      } else if (!isValidUrl(url)) {
+        diagnosis.invalidRows.push({ rowNumber, url, reason: 'invalid-url' });
+      } else {
+        rowsByUrl.set(url, [...(rowsByUrl.get(url) ?? []), rowNumber]);
+        if (!article.title.trim()) {
+          diagnosis.invalidRows.push({ rowNumber, url, reason: 'missing-title' });
         }
       }
 
-      return uniqueArticles;
-    } catch (error) {
-      console.error('Error loading articles:', error);
-
-      // Provide more specific error context
-      if (error instanceof Error) {
-        if (error.message.includes('404')) {
-          throw new Error('Spreadsheet not found - it may have been deleted');
-        } else if (error.message.includes('403')) {
-          throw new Error('Access denied to spreadsheet - check permissions');
-        } else if (error.message.includes('401')) {
-          throw new Error('Authentication failed - token may be expired');
+      for (const [column, field] of Object.entries(DATE_FIELDS) as Array<[DateHeader, typeof DATE_FIELDS[DateHeader]]>) {
+        const value = article[field] ?? '';
+        const normalized = normalizeDate(value);
+        if (normalized !== undefined) {
+          diagnosis.invalidDates.push({ rowNumber, url, column, value, normalized: normalized ?? undefined });
         }
       }
 
-      throw error;
+      const formulaRow = formulas[index] ?? [];
+      SPREADSHEET_HEADERS.forEach((column, position) => {
+        const formula = formulaRow[position] ?? '';
+        if (formula.startsWith('=') && formula !== (row[position] ?? '')) {
+          diagnosis.formulas.push({ rowNumber, url, column, formula, value: row[position] ?? '' });
+        }
+      });
+    });
+
+    for (const [url, rowNumbers] of rowsByUrl) {
+      if (rowNumbers.length > 1) diagnosis.duplicates.push({ url, rowNumbers });
+    }
+
+    return { diagnosis, rows };
+  }
+
+  private describeReadError(error: unknown): unknown {
+    console.error('Error loading articles:', error);
+    if (error instanceof AuthenticationRequiredError) return error;
+
+    // Provide more specific error context
+    if (error instanceof Error) {
+      if (error.message.includes('404')) {
+        return new Error('Spreadsheet not found - it may have been deleted');
+      } else if (error.message.includes('403')) {
+        return new Error('Access denied to spreadsheet - check permissions');
+      } else if (error.message.includes('401')) {
+        return new Error('Authentication failed - token may be expired');
+      }
     }
+
+    return error;
   }
 
   private validateArticleData(article: ArticleData): boolean {
@@ -187,40 +628,48 @@ export class GoogleSheetsSyncEngine implements SyncEngine {
     try {
       console.log(`Batch saving ${articles.length} articles...`);
 
-      // Fetch current rows to check which URLs already exist
-      const existingRows = await this.manager.getAllRows();
+      // Read the URL column to check which URLs already exist
+      const existingUrls = await this.manager.getUrlColumn();
       const urlToRowMap = new Map<string, number>();
-      for (let i = 0; i < existingRows.length; i++) {
-        const url = existingRows[i][0];
+      for (let i = 0; i < existingUrls.length; i++) {
+        const url = existingUrls[i];
         if (url) {
           urlToRowMap.set(url, i + 2); // 1-indexed + header offset
         }
       }
 
-      // Separate into updates (existing URLs) and appends (new URLs)
-      const toAppend: string[][] = [];
-      const toUpdate: Array<{ rowNumber: number; values: string[] }> = [];
+      const editor = await this.getCurrentUser();
 
+      // Separate into updates (existing URLs) and appends (new URLs)
+      const toUpdate = new Map<string, ArticleData>();
+      const toAppend: ArticleData[] = [];
       for (const article of articles) {
-        const rowData = articleToSheetRow(article);
-        const existingRow = urlToRowMap.get(article.url);
-
-        if (existingRow !== undefined) {
-          toUpdate.push({ rowNumber: existingRow, values: rowData });
+        if (urlToRowMap.has(article.url)) {
+          toUpdate.set(article.url, article);
         } else {
-          toAppend.push(rowData);
+          toAppend.push(article);
         }
       }
 
-      // Batch update existing rows
-      if (toUpdate.length > 0) {
-        await this.manager.batchUpdateRows(toUpdate);
-        console.log(`Updated ${toUpdate.length} existing articles (dedup)`);
+      // Update existing rows, keeping who added them
+      if (toUpdate.size > 0) {
+        const failures = await this.rewriteRows([...toUpdate.keys()], (url, current) => {
+          const article = toUpdate.get(url)!;
+          return articleToSheetRow(this.withAttribution(article, editor, article.addedBy || sheetRowToArticle(current).addedBy));
+        });
+        for (const [url, failure] of failures) {
+          if (failure === 'conflict') {
+            throw new Error(`Article kept changing in the spreadsheet: ${url}`);
+          }
+          // Deleted by another device since the URL column was read
+          toAppend.push(toUpdate.get(url)!);
+        }
+        console.log(`Updated ${toUpdate.size - failures.size} existing articles (dedup)`);
       }
 
       // Batch append genuinely new rows
       if (toAppend.length > 0) {
-        await this.manager.batchAppendRows(toAppend);
+        await this.manager.batchAppendRows(toAppend.map(article => articleToSheetRow(this.withAttribution(article, editor))));
         console.log(`Appended ${toAppend.length} new articles`);
       }
 
@@ -232,6 +681,7 @@ export class GoogleSheetsSyncEngine implements SyncEngine {
       console.log(`Batch save completed: ${results.length}/${articles.length} successful`);
       return results;
     } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
       console.error('Error in batch save:', error);
       return articles.map(article => ({
         success: false,
@@ -254,7 +704,9 @@ export class GoogleSheetsSyncEngine implements SyncEngine {
         };
       }
 
-      await this.manager.deleteRow(rowNumber);
+      if ((await this.deleteRowsByUrl([url])).length > 0) {
+        throw new Error('Article kept changing in the spreadsheet; try again');
+      }
       console.log(`Successfully deleted article from Google Sheets: ${url}`);
 
       return {
@@ -262,6 +714,7 @@ export class GoogleSheetsSyncEngine implements SyncEngine {
         articleUrl: url
       };
     } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
       console.error(`Error deleting article ${url}:`, error);
       return {
         success: false,
@@ -285,19 +738,23 @@ export class GoogleSheetsSyncEngine implements SyncEngine {
         };
       }
 
-      // Get current article data and merge with updates
-      const rows = await this.manager.getAllRows();
-      const currentRow = rows[rowNumber - 2]; // Convert back to 0-indexed array
-      const currentArticle = sheetRowToArticle(currentRow);
-
-      const updatedArticle: ArticleData = {
-        ...currentArticle,
-        ...updates,
-        url // Ensure URL doesn't get overwritten
-      };
-
-      const rowData = articleToSheetRow(updatedArticle);
-      await this.manager.updateRow(rowNumber, rowData);
+      // Merge the updates into the current article data
+      const editor = await this.getCurrentUser();
+      const failure = (await this.rewriteRows([url], (_, current) => {
+        const currentArticle = sheetRowToArticle(current);
+        return articleToSheetRow(this.withAttribution({
+          ...currentArticle,
+          ...updates,
+          url // Ensure URL doesn't get overwritten
+        }, editor, currentArticle.addedBy));
+      })).get(url);
+      if (failure) {
+        return {
+          success: false,
+          error: failure === 'missing' ? 'Article disappeared during update' : 'Article kept changing in the spreadsheet',
+          articleUrl: url
+        };
+      }
 
       console.log(`Successfully updated article in Google Sheets: ${url}`);
       return {
@@ -305,6 +762,7 @@ export class GoogleSheetsSyncEngine implements SyncEngine {
         articleUrl: url
       };
     } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
       console.error(`Error updating article ${url}:`, error);
       return {
         success: false,
@@ -322,19 +780,19 @@ export class GoogleSheetsSyncEngine implements SyncEngine {
       const cutoffDate = new Date();
       cutoffDate.setDate(cutoffDate.getDate() - olderThanDays);
 
-      const rowsToDelete: number[] = [];
+      const rowsToDelete: RowExpectation[] = [];
 
       // Find rows with deletedAt older than cutoff
       for (let i = 0; i < rows.length; i++) {
         const row = rows[i];
-        const deletedAt = row[11]; // deletedAt is in column 11 (L)
+        const deletedAt = row[SHEET_COLUMNS.deletedAt];
 
         if (deletedAt && deletedAt.trim()) {
           try {
             const deletedDate = new Date(deletedAt);
             if (!isNaN(deletedDate.getTime()) && deletedDate < cutoffDate) {
               // Convert array index to sheet row number (add 2 for header and 1-indexed)
-              rowsToDelete.push(i + 2);
+              rowsToDelete.push({ rowNumber: i + 2, url: row[SHEET_COLUMNS.url], revision: row[SHEET_COLUMNS.revision] });
             }
           } catch {
             console.warn(`Invalid deletedAt date format in row ${i + 2}: ${deletedAt}`);
@@ -349,11 +807,12 @@ export class GoogleSheetsSyncEngine implements SyncEngine {
 
       console.log(`Found ${rowsToDelete.length} old deleted articles to remove from spreadsheet`);
 
-      // Use batch delete for better performance
-      await this.manager.batchDeleteRows(rowsToDelete);
+      // Rows changed since the read (perhaps restored elsewhere) are left for the next cleanup
+      const skipped = await this.manager.deleteRowsIfUnchanged(rowsToDelete);
+      const removed = rowsToDelete.length - skipped.length;
 
-      console.log(`Successfully cleaned up ${rowsToDelete.length} old deleted articles from Google Sheets`);
-      return rowsToDelete.length;
+      console.log(`Successfully cleaned up ${removed} old deleted articles from Google Sheets`);
+      return removed;
 
     } catch (error) {
       console.error('Error during Google Sheets cleanup:', error);
@@ -367,77 +826,31 @@ export class GoogleSheetsSyncEngine implements SyncEngine {
     try {
       console.log(`Batch updating ${updates.length} articles...`);
 
-      // Fetch rows to read current article data for merging
-      const rows = await this.manager.getAllRows();
-      const urlToDataMap = new Map<string, { rowIndex: number; row: string[] }>();
-
-      for (let i = 0; i < rows.length; i++) {
-        const url = rows[i][0];
-        if (url) {
-          // Keep the last occurrence if duplicates exist
-          urlToDataMap.set(url, { rowIndex: i, row: rows[i] });
-        }
-      }
-
-      // Build merged row data keyed by URL (not by row number yet)
-      const pendingUpdates: Array<{ url: string; values: string[] }> = [];
-      const results: SyncResult[] = [];
-
-      for (const { url, updates: articleUpdates } of updates) {
-        const existing = urlToDataMap.get(url);
-        if (!existing) {
-          results.push({
-            success: false,
-            error: 'Article not found in spreadsheet',
-            articleUrl: url
-          });
-          continue;
-        }
-
-        const currentArticle = sheetRowToArticle(existing.row);
-        const updatedArticle: ArticleData = {
-          ...currentArticle,
-          ...articleUpdates,
+      // Merged against rows read right before writing, and written only where the
+      // row is unchanged, so rows moved by another device can't be overwritten
+      const articleUpdates = new Map(updates.map(({ url, updates }) => [url, updates]));
+      const failures = await this.rewriteRows([...articleUpdates.keys()], (url, current) =>
+        articleToSheetRow({
+          ...sheetRowToArticle(current),
+          ...articleUpdates.get(url),
           url // Ensure URL doesn't get overwritten
-        };
-
-        pendingUpdates.push({ url, values: articleToSheetRow(updatedArticle) });
-        results.push({ success: true, articleUrl: url });
-      }
-
-      // Re-fetch rows right before writing to get fresh row numbers,
-      // avoiding stale indices from concurrent modifications by other devices
-      if (pendingUpdates.length > 0) {
-        this.manager.invalidateRowsCache();
-        const freshRows = await this.manager.getAllRows();
-        const freshUrlToRow = new Map<string, number>();
-        for (let i = 0; i < freshRows.length; i++) {
-          const url = freshRows[i][0];
-          if (url) freshUrlToRow.set(url, i + 2);
-        }
-
-        const rowUpdates: Array<{ rowNumber: number; values: string[] }> = [];
-        for (const { url, values } of pendingUpdates) {
-          const rowNumber = freshUrlToRow.get(url);
-          if (rowNumber) {
-            rowUpdates.push({ rowNumber, values });
-          } else {
-            // Article was deleted between read and write — mark as failure
-            const resultIdx = results.findIndex(r => r.articleUrl === url && r.success);
-            if (resultIdx !== -1) {
-              results[resultIdx] = { success: false, error: 'Article disappeared during update', articleUrl: url };
-            }
-          }
-        }
+        })
+      );
 
-        if (rowUpdates.length > 0) {
-          await this.manager.batchUpdateRows(rowUpdates);
-        }
-      }
+      const results: SyncResult[] = updates.map(({ url }) => {
+        const failure = failures.get(url);
+        if (!failure) return { success: true, articleUrl: url };
+        return {
+          success: false,
+          error: failure === 'missing' ? 'Article not found in spreadsheet' : 'Article kept changing in the spreadsheet',
+          articleUrl: url
+        };
+      });
 
-      console.log(`Batch update completed: ${pendingUpdates.length}/${updates.length} successful`);
+      console.log(`Batch update completed: ${results.filter(result => result.success).length}/${updates.length} successful`);
       return results;
     } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
       console.error('Error in batch update:', error);
       return updates.map(({ url }) => ({
         success: false,
@@ -453,42 +866,221 @@ export class GoogleSheetsSyncEngine implements SyncEngine {
     try {
       console.log(`Batch deleting ${urls.length} articles...`);
 
-      // Fetch fresh row numbers right before deleting to avoid stale indices
-      const freshRows = await this.manager.getAllRows();
-      const freshUrlToRow = new Map<string, number>();
-      for (let i = 0; i < freshRows.length; i++) {
-        const url = freshRows[i][0];
-        if (url) freshUrlToRow.set(url, i + 2);
-      }
+      // Rows are read right before deleting and only deleted while unchanged;
+      // URLs already gone count as deleted
+      const remaining = new Set(await this.deleteRowsByUrl(urls));
+      const results: SyncResult[] = urls.map(url => remaining.has(url)
+        ? { success: false, error: 'Article kept changing in the spreadsheet', articleUrl: url }
+        : { success: true, articleUrl: url });
+
+      console.log(`Batch delete completed: ${urls.length - remaining.size}/${urls.length} articles deleted`);
+      return results;
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('Error in batch delete:', error);
+      return urls.map(url => ({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        articleUrl: url
+      }));
+    }
+  }
+
+  async getHighlights(): Promise<Highlight[]> {
+    try {
+      console.log('Fetching highlights from Google Sheets...');
 
-      const rowsToDelete: number[] = [];
-      const results: SyncResult[] = [];
+      const rows = await this.manager.getHighlightRows();
+      const highlights = new Map<string, Highlight>();
 
-      for (const url of urls) {
-        const rowNumber = freshUrlToRow.get(url);
-        if (!rowNumber) {
-          // Consider it success if already not present
-          results.push({ success: true, articleUrl: url });
-          continue;
+      rows.forEach((row, i) => {
+        if (!row.some(cell => cell?.trim())) return;
+
+        const highlight = sheetRowToHighlight(row);
+        if (!isValidHighlight(highlight)) {
+          console.warn(`Highlight row ${i + 2} failed validation, skipping:`, row);
+          return;
         }
+        // Keep the last occurrence, like duplicate article rows
+        highlights.set(highlight.id, highlight);
+      });
 
-        rowsToDelete.push(rowNumber);
-        results.push({ success: true, articleUrl: url });
-      }
+      console.log(`Successfully loaded ${highlights.size} highlights from Google Sheets`);
+      return Array.from(highlights.values());
+    } catch (error) {
+      throw this.describeReadError(error);
+    }
+  }
 
-      if (rowsToDelete.length > 0) {
-        await this.manager.batchDeleteRows(rowsToDelete);
+  /**
+   * Upserts highlights by ID: new ones are appended and existing rows overwritten
+   * if they still hold the highlight read just before, so rows added, sorted or
+   * removed by another device or by hand meanwhile are read again instead of
+   * overwritten. Deletions are soft (Deleted At), so rows are never removed.
+   */
+  async saveHighlights(highlights: Highlight[]): Promise<SyncResult[]> {
+    if (highlights.length === 0) return [];
+
+    try {
+      console.log(`Batch saving ${highlights.length} highlights...`);
+
+      // The last copy of a highlight saved twice wins
+      let pending = new Map(highlights.map(highlight => [highlight.id, highlight]));
+      for (let attempt = 1; pending.size > 0 && attempt <= MAX_WRITE_ATTEMPTS; attempt++) {
+        const idToRow = new Map<string, number>();
+        (await this.manager.getHighlightRows()).forEach((row, i) => {
+          if (row[0]) idToRow.set(row[0], i + 2);
+        });
+
+        const added: Highlight[] = [];
+        const updates: Array<HighlightRowExpectation & { values: string[] }> = [];
+        for (const highlight of pending.values()) {
+          const rowNumber = idToRow.get(highlight.id);
+          if (rowNumber === undefined) {
+            added.push(highlight);
+          } else {
+            updates.push({ rowNumber, id: highlight.id, values: highlightToSheetRow(highlight) });
+          }
+        }
+
+        await this.manager.appendHighlightRows(added.map(highlightToSheetRow));
+        const moved = await this.manager.updateHighlightRowsIfUnchanged(updates);
+        pending = new Map(moved.map(({ id }) => [id, pending.get(id)!]));
       }
 
-      console.log(`Batch delete completed: ${rowsToDelete.length}/${urls.length} rows deleted`);
-      return results;
+      console.log(`Batch highlight save completed: ${highlights.length - pending.size} of ${highlights.length} written`);
+      return highlights.map(highlight => pending.has(highlight.id)
+        ? { success: false, error: 'Highlight kept moving in the spreadsheet; try again', articleUrl: highlight.articleUrl }
+        : { success: true, articleUrl: highlight.articleUrl }
+      );
     } catch (error) {
-      console.error('Error in batch delete:', error);
-      return urls.map(url => ({
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('Error saving highlights:', error);
+      return highlights.map(highlight => ({
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
-        articleUrl: url
+        articleUrl: highlight.articleUrl
       }));
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Stores captured article content next to the spreadsheet config in the
+   * appDataFolder, so the PWA can read articles saved from another device offline.
+   */
+  async saveArticleContent(content: ArticleContent): Promise<SyncResult> {
+    try {
+      await this.manager.writeAppDataJson(await articleContentFileName(content.url), content);
+      return { success: true, articleUrl: content.url };
+    } catch (error) {
+      console.error('Error saving article content:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        articleUrl: content.url
+      };
+    }
+  }
+
+  async getArticleContent(url: string): Promise<ArticleContent | null> {
+    return await this.manager.readAppDataJson<ArticleContent>(await articleContentFileName(url));
+  }
+
+  /**
+   * Writes a compressed copy of the list to the appDataFolder, then prunes older
+   * snapshots past the retention policy. A failed prune leaves extra files behind
+   * but never fails the backup itself.
+   */
+  async saveLibrarySnapshot(
+    snapshot: LibrarySnapshot,
+    retention: SnapshotRetention = DEFAULT_SNAPSHOT_RETENTION
+  ): Promise<LibrarySnapshotInfo> {
+    const createdAt = Date.parse(snapshot.createdAt);
+    const bytes = await compressSnapshot(snapshot);
+    const id = await this.manager.createAppDataFile(snapshotFileName(this.listId, createdAt), bytes, SNAPSHOT_MIME_TYPE);
+    if (!id) {
+      throw new Error('Drive did not return an ID for the snapshot');
+    }
+
+    try {
+      const stale = selectSnapshotsToPrune(await this.listLibrarySnapshots(), retention);
+      for (const info of stale) {
+        await this.manager.deleteAppDataFile(info.id);
+      }
+    } catch (error) {
+      console.warn('Could not prune old snapshots:', error);
+    }
+
+    return { id, listId: this.listId, createdAt, size: bytes.length };
+  }
+
+  /** Snapshots of this list, newest first. */
+  async listLibrarySnapshots(): Promise<LibrarySnapshotInfo[]> {
+    const files = await this.manager.listAppDataFiles(snapshotFilePrefix(this.listId));
+    const snapshots: LibrarySnapshotInfo[] = [];
+    for (const file of files) {
+      // `name contains` also matches lists whose ID merely starts with this one
+      const parsed = parseSnapshotFileName(file.name);
+      if (parsed?.listId !== this.listId) continue;
+      snapshots.push({ id: file.id, ...parsed, size: file.size ? Number(file.size) : undefined });
+    }
+    return snapshots.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async getLibrarySnapshot(id: string): Promise<LibrarySnapshot> {
+    return await decompressSnapshot(await this.manager.readAppDataFile(id));
+  }
+
+  /** Email of the signed-in account that rows are attributed to. */
+  async getUserEmail(): Promise<string> {
+    return await this.manager.getUserEmail();
+  }
+
+  /**
+   * Stamps who wrote the row. The first adder is kept once a row exists;
+   * without a known account the article's own values are written unchanged.
+   */
+  private withAttribution(article: ArticleData, editor: string | undefined, existingAddedBy?: string): ArticleData {
+    return {
+      ...article,
+      addedBy: existingAddedBy || article.addedBy || editor,
+      editedBy: editor || article.editedBy
+    };
+  }
+
+  // Attribution is best effort: a failed lookup must not block saving
+  private async getCurrentUser(): Promise<string | undefined> {
+    try {
+      return await this.manager.getUserEmail();
+    } catch (error) {
+      console.warn('Could not determine the signed-in account:', error);
+      return undefined;
+    }
+  }
+
+  // List management works from any list's engine; lists are shared account-wide
+  async getLists(): Promise<ReadingList[]> {
+    return await this.manager.getLists();
+  }
+
+  async createList(name: string, existing?: ExistingSpreadsheet): Promise<ReadingList> {
+    return await this.manager.createList(name, existing);
+  }
+
+  async renameList(id: string, name: string): Promise<void> {
+    await this.manager.renameList(id, name);
+  }
+
+  async removeList(id: string): Promise<void> {
+    await this.manager.removeList(id);
+  }
+}
+
+function isValidUrl(url: string): boolean {
+  try {
+    new URL(url);
+    return true;
+  } catch {
+    return false;
+  }
+}
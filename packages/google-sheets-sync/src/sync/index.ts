@@ -1 +1,3 @@
-export * from './engine.js';
\ No newline at end of file
+export * from './engine.js';
+export * from './snapshots.js';
+export * from './diagnosis.js';
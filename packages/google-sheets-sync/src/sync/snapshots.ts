@@ -0,0 +1,104 @@
+import { ArticleData, Highlight } from '@readlater/core';
+
+/** Bumped when the snapshot layout changes so older files can be told apart. */
+export const SNAPSHOT_FORMAT_VERSION = 1;
+
+/** Full copy of one reading list, written to the appDataFolder as gzipped JSON. */
+export interface LibrarySnapshot {
+  version: typeof SNAPSHOT_FORMAT_VERSION;
+  listId: string;
+  /** ISO timestamp of when the snapshot was taken */
+  createdAt: string;
+  /** Every article, including soft-deleted ones */
+  articles: ArticleData[];
+  highlights: Highlight[];
+}
+
+export interface LibrarySnapshotInfo {
+  /** Drive file ID */
+  id: string;
+  listId: string;
+  /** Epoch ms, taken from the file name */
+  createdAt: number;
+  /** Compressed size in bytes, when Drive reports it */
+  size?: number;
+}
+
+/**
+ * How many snapshots survive pruning. The newest `keepLatest` are always kept;
+ * beyond that the newest snapshot of each of the last `keepDaily` days and of
+ * each of the last `keepWeekly` weeks is kept.
+ */
+export interface SnapshotRetention {
+  keepLatest: number;
+  keepDaily: number;
+  keepWeekly: number;
+}
+
+export const DEFAULT_SNAPSHOT_RETENTION: SnapshotRetention = {
+  keepLatest: 3,
+  keepDaily: 7,
+  keepWeekly: 8
+};
+
+const SNAPSHOT_FILE_PREFIX = 'readlater-snapshot-';
+const SNAPSHOT_FILE_PATTERN = /^readlater-snapshot-(.+)-(\d+)\.json\.gz$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+export const SNAPSHOT_MIME_TYPE = 'application/gzip';
+
+/** Common start of every snapshot file name of a list, for Drive `name contains` queries. */
+export function snapshotFilePrefix(listId: string): string {
+  return `${SNAPSHOT_FILE_PREFIX}${listId}-`;
+}
+
+export function snapshotFileName(listId: string, createdAt: number): string {
+  return `${snapshotFilePrefix(listId)}${createdAt}.json.gz`;
+}
+
+/** Reads the list and creation time back out of a snapshot file name, or null for other files. */
+export function parseSnapshotFileName(name: string): { listId: string; createdAt: number } | null {
+  const match = name.match(SNAPSHOT_FILE_PATTERN);
+  return match ? { listId: match[1], createdAt: Number(match[2]) } : null;
+}
+
+/** Snapshots that fall outside the retention policy, in no particular order. */
+export function selectSnapshotsToPrune<T extends { createdAt: number }>(
+  snapshots: T[],
+  retention: SnapshotRetention = DEFAULT_SNAPSHOT_RETENTION,
+  now: number = Date.now()
+): T[] {
+  const newestFirst = [...snapshots].sort((a, b) => b.createdAt - a.createdAt);
+  const kept = new Set<T>(newestFirst.slice(0, retention.keepLatest));
+
+  // Newest first, so the first snapshot seen in a bucket is the one to keep
+  const keepNewestPerBucket = (bucketMs: number, buckets: number) => {
+    const seen = new Set<number>();
+    for (const snapshot of newestFirst) {
+      const bucket = Math.floor(Math.max(0, now - snapshot.createdAt) / bucketMs);
+      if (bucket < buckets && !seen.has(bucket)) {
+        seen.add(bucket);
+        kept.add(snapshot);
+      }
+    }
+  };
+  keepNewestPerBucket(DAY_MS, retention.keepDaily);
+  keepNewestPerBucket(WEEK_MS, retention.keepWeekly);
+
+  return newestFirst.filter(snapshot => !kept.has(snapshot));
+}
+
+export async function compressSnapshot(snapshot: LibrarySnapshot): Promise<Uint8Array<ArrayBuffer>> {
+  const stream = new Response(JSON.stringify(snapshot)).body!.pipeThrough(new CompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export async function decompressSnapshot(bytes: Uint8Array<ArrayBuffer>): Promise<LibrarySnapshot> {
+  const stream = new Response(bytes).body!.pipeThrough(new DecompressionStream('gzip'));
+  const snapshot = JSON.parse(await new Response(stream).text()) as LibrarySnapshot;
+  if (snapshot.version !== SNAPSHOT_FORMAT_VERSION) {
+    throw new Error(`Unsupported snapshot version: ${String(snapshot.version)}`);
+  }
+  return snapshot;
+}
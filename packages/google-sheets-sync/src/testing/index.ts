@@ -1,2 +1,2 @@
 export { MockGoogleSheetsServer } from './mock-google-sheets-server.js';
-export type { MockSpreadsheet, FetchInterceptor } from './mock-google-sheets-server.js';
+export type { MockSpreadsheet, MockTab, MockAppDataFile, FetchInterceptor } from './mock-google-sheets-server.js';
@@ -14,22 +14,87 @@
 
 import { SPREADSHEET_HEADERS } from '../spreadsheet/schema.js';
 
+export interface MockTab {
+  sheetId: number;
+  /** rows[0] is the header row; data rows start at index 1. */
+  rows: string[][];
+}
+
 export interface MockSpreadsheet {
   id: string;
   name: string;
-  /** rows[0] is the header row; data rows start at index 1. */
+  /** Title of the first tab (sheetId 0), which holds `rows`. */
+  title: string;
+  /** First tab. rows[0] is the header row; data rows start at index 1. */
   rows: string[][];
+  /** Additional tabs keyed by title, e.g. "Highlights". */
+  tabs: Map<string, MockTab>;
+  /** Drive revision, bumped on every change like the real `version` field. */
+  version: number;
+  modifiedTime: string;
+}
+
+export interface MockAppDataFile {
+  name: string;
+  /** Uploaded body decoded as text, convenient for JSON files. */
+  content: string;
+  /** Uploaded body as sent, e.g. a gzip snapshot. */
+  bytes: Uint8Array;
+  createdTime: string;
+}
+
+// jsdom's Blob has no text(), so go through FileReader
+function readBlob(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(blob);
+  });
+}
+
+function readBlobBytes(blob: Blob): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
 }
 
 export type FetchInterceptor = (url: string, method: string) => void;
 
+interface MockDeveloperMetadata {
+  key: string;
+  value: string;
+}
+
+interface MockDataFilter {
+  developerMetadataLookup?: { metadataKey?: string; metadataValue?: string };
+}
+
 export class MockGoogleSheetsServer {
   private spreadsheets = new Map<string, MockSpreadsheet>();
-  private appDataFiles = new Map<string, string>(); // fileId -> content
+  private appDataFiles = new Map<string, MockAppDataFile>();
+  // Formulas by row array, so they move with their row when rows are deleted
+  private formulas = new WeakMap<string[], Map<number, string>>();
+  // Row developer metadata, kept the same way so it moves with its row like the real API's
+  private rowMetadata = new WeakMap<string[], MockDeveloperMetadata[]>();
+  // Hidden columns of the first tab
+  private hiddenColumns = new Map<string, Set<number>>();
   private originalFetch: typeof globalThis.fetch | null = null;
   private nextSpreadsheetId = 1;
   private nextFileId = 1;
 
+  /** Email returned for the signed-in account (Drive about). */
+  public userEmail = 'reader@example.com';
+
+  /** Tokens answered with 401, like expired or revoked ones. */
+  public rejectedTokens = new Set<string>();
+
+  /** Title new spreadsheets give their first tab; it depends on the account's locale. */
+  public firstTabTitle = 'Sheet1';
+
   /**
    * Optional interceptor called BEFORE each request is processed.
    * Use this to simulate external changes between reads and writes.
@@ -39,17 +104,31 @@ export class MockGoogleSheetsServer {
 
   // ─── public helpers for test setup / assertions ───
 
-  /** Pre-populate a spreadsheet with data rows (header added automatically). */
-  createSpreadsheet(name = 'ReadLater', dataRows: string[][] = []): string {
+  /**
+   * Pre-populate a spreadsheet with data rows (header added automatically).
+   * Pass `headers` to simulate a sheet whose columns the user rearranged.
+   */
+  createSpreadsheet(name = 'ReadLater', dataRows: string[][] = [], headers: readonly string[] = SPREADSHEET_HEADERS): string {
     const id = `sheet-${this.nextSpreadsheetId++}`;
     this.spreadsheets.set(id, {
       id,
       name,
-      rows: [[...SPREADSHEET_HEADERS], ...dataRows],
+      title: this.firstTabTitle,
+      rows: [[...headers], ...dataRows],
+      tabs: new Map(),
+      version: 1,
+      modifiedTime: new Date().toISOString(),
     });
     return id;
   }
 
+  /** Current Drive revision of a spreadsheet. */
+  getRevision(spreadsheetId: string): { version: number; modifiedTime: string } {
+    const sheet = this.spreadsheets.get(spreadsheetId);
+    if (!sheet) throw new Error(`Spreadsheet ${spreadsheetId} not found`);
+    return { version: sheet.version, modifiedTime: sheet.modifiedTime };
+  }
+
   /** Get all data rows (excluding the header). */
   getDataRows(spreadsheetId: string): string[][] {
     const sheet = this.spreadsheets.get(spreadsheetId);
@@ -57,30 +136,110 @@ export class MockGoogleSheetsServer {
     return sheet.rows.slice(1);
   }
 
+  /** Get the data rows of an additional tab, or undefined if the tab doesn't exist. */
+  getTabRows(spreadsheetId: string, title: string): string[][] | undefined {
+    const sheet = this.spreadsheets.get(spreadsheetId);
+    if (!sheet) throw new Error(`Spreadsheet ${spreadsheetId} not found`);
+    return sheet.tabs.get(title)?.rows.slice(1);
+  }
+
+  /** Add a tab with a header row and data rows, as if created by another device. */
+  addTab(spreadsheetId: string, title: string, headers: readonly string[], dataRows: string[][] = []): void {
+    const sheet = this.spreadsheets.get(spreadsheetId);
+    if (!sheet) throw new Error(`Spreadsheet ${spreadsheetId} not found`);
+    sheet.tabs.set(title, { sheetId: sheet.tabs.size + 1, rows: [[...headers], ...dataRows] });
+    this.touch(sheet);
+  }
+
+  /** Rename a tab as the user would in the Sheets UI; its sheetId stays the same. */
+  renameTab(spreadsheetId: string, title: string, newTitle: string): void {
+    const sheet = this.spreadsheets.get(spreadsheetId);
+    if (!sheet) throw new Error(`Spreadsheet ${spreadsheetId} not found`);
+    if (sheet.title === title) {
+      sheet.title = newTitle;
+    } else {
+      const tab = sheet.tabs.get(title);
+      if (!tab) throw new Error(`Tab ${title} not found`);
+      sheet.tabs.delete(title);
+      sheet.tabs.set(newTitle, tab);
+    }
+    this.touch(sheet);
+  }
+
   /** Get a specific row by 1-based sheet row number (row 1 = header, row 2 = first data). */
   getRow(spreadsheetId: string, rowNumber: number): string[] | undefined {
     const sheet = this.spreadsheets.get(spreadsheetId);
     return sheet?.rows[rowNumber - 1];
   }
 
-  /** Directly mutate the sheet to simulate another device editing it. */
-  simulateExternalAppend(spreadsheetId: string, row: string[]): void {
+  /** Directly mutate the sheet to simulate another device editing it. Pass `tab` for a tab other than the first. */
+  simulateExternalAppend(spreadsheetId: string, row: string[], tab?: string): void {
+    const sheet = this.spreadsheets.get(spreadsheetId);
+    if (!sheet) throw new Error(`Spreadsheet ${spreadsheetId} not found`);
+    this.tabRows(sheet, tab).push(row);
+    this.touch(sheet);
+  }
+
+  /** Directly overwrite a row to simulate another device or the user editing it (1-based row number). */
+  simulateExternalUpdate(spreadsheetId: string, rowNumber: number, row: string[]): void {
     const sheet = this.spreadsheets.get(spreadsheetId);
     if (!sheet) throw new Error(`Spreadsheet ${spreadsheetId} not found`);
-    sheet.rows.push(row);
+    const metadata = this.rowMetadata.get(sheet.rows[rowNumber - 1]);
+    sheet.rows[rowNumber - 1] = row;
+    if (metadata) this.rowMetadata.set(row, metadata);
+    this.touch(sheet);
   }
 
   /** Directly delete a row to simulate another device deleting it (1-based row number). */
-  simulateExternalDelete(spreadsheetId: string, rowNumber: number): void {
+  simulateExternalDelete(spreadsheetId: string, rowNumber: number, tab?: string): void {
     const sheet = this.spreadsheets.get(spreadsheetId);
     if (!sheet) throw new Error(`Spreadsheet ${spreadsheetId} not found`);
-    sheet.rows.splice(rowNumber - 1, 1);
+    this.tabRows(sheet, tab).splice(rowNumber - 1, 1);
+    this.touch(sheet);
+  }
+
+  /**
+   * Puts a formula in a cell of the first tab (1-based row, 0-based column). Reads return
+   * `value` as its result unless they ask for valueRenderOption=FORMULA.
+   * Writing the cell replaces the formula.
+   */
+  simulateFormula(spreadsheetId: string, rowNumber: number, column: number, formula: string, value: string): void {
+    const sheet = this.spreadsheets.get(spreadsheetId);
+    if (!sheet) throw new Error(`Spreadsheet ${spreadsheetId} not found`);
+    const row = sheet.rows[rowNumber - 1];
+    while (row.length <= column) row.push('');
+    row[column] = value;
+    const formulas = this.formulas.get(row) ?? new Map<number, string>();
+    formulas.set(column, formula);
+    this.formulas.set(row, formulas);
+    this.touch(sheet);
+  }
+
+  /** Whether a column of the first tab (0-based) was hidden through the API. */
+  isColumnHidden(spreadsheetId: string, column: number): boolean {
+    return this.hiddenColumns.get(spreadsheetId)?.has(column) ?? false;
+  }
+
+  /** Row developer metadata keys left in the spreadsheet, in tab and row order. */
+  getRowMetadataKeys(spreadsheetId: string): string[] {
+    const sheet = this.spreadsheets.get(spreadsheetId);
+    if (!sheet) throw new Error(`Spreadsheet ${spreadsheetId} not found`);
+    return this.allRows(sheet).flatMap(({ rows }) => rows).flatMap(row => (this.rowMetadata.get(row) ?? []).map(({ key }) => key));
   }
 
   /** Set up appDataFolder so the manager can find the spreadsheet. */
   setAppDataConfig(spreadsheetId: string): void {
     const fileId = `config-${this.nextFileId++}`;
-    this.appDataFiles.set(fileId, JSON.stringify({ spreadsheetId }));
+    this.putAppDataFile(fileId, 'readlater.config.json', new TextEncoder().encode(JSON.stringify({ spreadsheetId })));
+  }
+
+  /** Look up an appDataFolder file by name (config, captured article content). */
+  getAppDataFiles(): IterableIterator<MockAppDataFile> {
+    return this.appDataFiles.values();
+  }
+
+  getAppDataFile(name: string): MockAppDataFile | undefined {
+    return Array.from(this.appDataFiles.values()).find(file => file.name === name);
   }
 
   // ─── fetch interception ───
@@ -100,8 +259,14 @@ export class MockGoogleSheetsServer {
   reset(): void {
     this.spreadsheets.clear();
     this.appDataFiles.clear();
+    this.formulas = new WeakMap();
+    this.rowMetadata = new WeakMap();
+    this.hiddenColumns.clear();
     this.nextSpreadsheetId = 1;
     this.nextFileId = 1;
+    this.userEmail = 'reader@example.com';
+    this.firstTabTitle = 'Sheet1';
+    this.rejectedTokens.clear();
   }
 
   // ─── route dispatcher ───
@@ -115,9 +280,31 @@ export class MockGoogleSheetsServer {
       this.onBeforeRequest(url, method);
     }
 
+    const token = new Headers(init?.headers).get('Authorization')?.replace(/^Bearer /, '');
+    if (token && this.rejectedTokens.has(token)) {
+      return this.jsonResponse({ error: { code: 401, message: 'Request had invalid authentication credentials.' } }, 401);
+    }
+
+    // Drive: signed-in account
+    if (url.includes('/drive/v3/about') && method === 'GET') {
+      return this.jsonResponse({ user: { emailAddress: this.userEmail } });
+    }
+
     // Drive: list appDataFolder files
     if (url.includes('/drive/v3/files') && url.includes('appDataFolder') && method === 'GET') {
-      return this.handleAppDataList();
+      return this.handleAppDataList(url);
+    }
+
+    // Drive: file metadata (modifiedTime / version)
+    const fileMetadataMatch = url.match(/\/drive\/v3\/files\/([^?/]+)\?fields=/);
+    if (fileMetadataMatch && method === 'GET') {
+      return this.handleFileMetadata(fileMetadataMatch[1]);
+    }
+
+    // Drive: delete appData file
+    const fileDeleteMatch = url.match(/\/drive\/v3\/files\/([^?/]+)$/);
+    if (fileDeleteMatch && method === 'DELETE') {
+      return this.handleAppDataDelete(fileDeleteMatch[1]);
     }
 
     // Drive: read appData file content
@@ -128,7 +315,7 @@ export class MockGoogleSheetsServer {
 
     // Drive: upload/update appData file
     if (url.includes('/upload/drive/v3/files') && (method === 'POST' || method === 'PATCH')) {
-      return this.handleAppDataWrite(init);
+      return this.handleAppDataWrite(url, init);
     }
 
     // Drive: search for spreadsheet by name
@@ -136,12 +323,38 @@ export class MockGoogleSheetsServer {
       return this.handleDriveSearch(url);
     }
 
+    // Sheets: spreadsheet metadata (tab list)
+    const spreadsheetGetMatch = url.match(/\/v4\/spreadsheets\/([^/?:]+)\?fields=/);
+    if (spreadsheetGetMatch && method === 'GET') {
+      return this.handleGetSpreadsheet(spreadsheetGetMatch[1]);
+    }
+
+    // Sheets: reads, writes and searches through developer metadata. Matched
+    // before the routes below, whose patterns would also catch these URLs.
+    const byDataFilterMatch = url.match(/\/v4\/spreadsheets\/([^/]+)\/values:(batchGetByDataFilter|batchUpdateByDataFilter)/);
+    if (byDataFilterMatch && method === 'POST') {
+      return byDataFilterMatch[2] === 'batchGetByDataFilter'
+        ? this.handleBatchGetByDataFilter(byDataFilterMatch[1], init)
+        : this.handleBatchUpdateByDataFilter(byDataFilterMatch[1], init);
+    }
+
+    const metadataSearchMatch = url.match(/\/v4\/spreadsheets\/([^/]+)\/developerMetadata:search/);
+    if (metadataSearchMatch && method === 'POST') {
+      return this.handleDeveloperMetadataSearch(metadataSearchMatch[1], init);
+    }
+
+    // Sheets: append rows below a table
+    const appendMatch = url.match(/\/v4\/spreadsheets\/([^/]+)\/values\/(.+?):append/);
+    if (appendMatch && method === 'POST') {
+      return this.handleAppendValues(appendMatch[1], appendMatch[2], url, init);
+    }
+
     // Sheets: create spreadsheet
     if (url.includes('/v4/spreadsheets') && method === 'POST' && !url.includes(':batchUpdate') && !url.includes('/values')) {
       return this.handleCreateSpreadsheet(init);
     }
 
-    // Sheets: batchUpdate (delete rows)
+    // Sheets: batchUpdate (delete rows, add tabs)
     const batchUpdateMatch = url.match(/\/v4\/spreadsheets\/([^/:]+):batchUpdate/);
     if (batchUpdateMatch && method === 'POST') {
       return this.handleBatchUpdateStructure(batchUpdateMatch[1], init);
@@ -153,16 +366,22 @@ export class MockGoogleSheetsServer {
       return this.handleValuesBatchUpdate(valuesBatchMatch[1], init);
     }
 
-    // Sheets: get values (getAllRows or getNextRowNumber)
+    // Sheets: values batchGet (several ranges in one read)
+    const valuesBatchGetMatch = url.match(/\/v4\/spreadsheets\/([^/]+)\/values:batchGet/);
+    if (valuesBatchGetMatch && method === 'GET') {
+      return this.handleValuesBatchGet(valuesBatchGetMatch[1], url);
+    }
+
+    // Sheets: get values (getAllRows, getUrlColumn)
     const getValuesMatch = url.match(/\/v4\/spreadsheets\/([^/]+)\/values\/(.+?)(?:\?|$)/);
     if (getValuesMatch && method === 'GET') {
       return this.handleGetValues(getValuesMatch[1], getValuesMatch[2], url);
     }
 
-    // Sheets: put values (appendRow, updateRow, addHeaders)
+    // Sheets: put values (updateRow, addHeaders)
     const putValuesMatch = url.match(/\/v4\/spreadsheets\/([^/]+)\/values\/(.+?)(?:\?|$)/);
     if (putValuesMatch && method === 'PUT') {
-      return this.handlePutValues(putValuesMatch[1], putValuesMatch[2], init);
+      return this.handlePutValues(putValuesMatch[1], putValuesMatch[2], url, init);
     }
 
     console.warn(`[MockGoogleSheetsServer] Unhandled: ${method} ${url}`);
@@ -171,34 +390,68 @@ export class MockGoogleSheetsServer {
 
   // ─── handlers ───
 
-  private handleAppDataList(): Response {
-    const files = Array.from(this.appDataFiles.entries()).map(([id]) => ({
-      id,
-      name: 'readlater.config.json',
-    }));
+  private handleAppDataList(url: string): Response {
+    // Supports the `name='...'` and `name contains '...'` queries the manager uses
+    const query = decodeURIComponent(url.match(/[?&]q=([^&]+)/)?.[1] ?? '');
+    const nameFilter = query.match(/name\s*=\s*'([^']*)'/)?.[1];
+    const nameContains = query.match(/name\s+contains\s+'([^']*)'/)?.[1];
+    const files = Array.from(this.appDataFiles.entries())
+      .filter(([, file]) => nameFilter === undefined || file.name === nameFilter)
+      .filter(([, file]) => nameContains === undefined || file.name.includes(nameContains))
+      .map(([id, file]) => ({ id, name: file.name, createdTime: file.createdTime, size: String(file.bytes.length) }));
     return this.jsonResponse({ files });
   }
 
   private handleAppDataRead(fileId: string): Response {
-    const content = this.appDataFiles.get(fileId);
-    if (!content) return this.jsonResponse({ error: { message: 'Not found' } }, 404);
-    return this.jsonResponse(JSON.parse(content));
+    const file = this.appDataFiles.get(fileId);
+    if (!file) return this.jsonResponse({ error: { message: 'Not found' } }, 404);
+    return new Response(file.bytes, { status: 200 });
   }
 
-  private handleAppDataWrite(init?: RequestInit): Response {
-    // Extract spreadsheetId from FormData body — in tests we just accept it
-    const fileId = `config-${this.nextFileId++}`;
-    // Try to parse the body to extract the config
+  private handleAppDataDelete(fileId: string): Response {
+    if (!this.appDataFiles.delete(fileId)) {
+      return this.jsonResponse({ error: { message: 'Not found' } }, 404);
+    }
+    return new Response(null, { status: 204 });
+  }
+
+  private putAppDataFile(fileId: string, name: string, bytes: Uint8Array): void {
+    const createdTime = this.appDataFiles.get(fileId)?.createdTime ?? new Date().toISOString();
+    this.appDataFiles.set(fileId, { name, content: new TextDecoder().decode(bytes), bytes, createdTime });
+  }
+
+  private async handleAppDataWrite(url: string, init?: RequestInit): Promise<Response> {
+    const existingId = url.match(/\/upload\/drive\/v3\/files\/([^?]+)/)?.[1];
+    const fileId = existingId ?? `file-${this.nextFileId++}`;
+    const existing = existingId ? this.appDataFiles.get(existingId) : undefined;
+
+    let name = existing?.name ?? '';
+    let bytes = existing?.bytes ?? new Uint8Array();
     if (init?.body instanceof FormData) {
-      const fileBlob = init.body.get('file');
-      if (fileBlob instanceof Blob) {
-        // We can't synchronously read the blob in this context,
-        // so we just acknowledge it
+      const metadata = init.body.get('metadata');
+      if (metadata instanceof Blob) {
+        name = (JSON.parse(await readBlob(metadata)) as { name?: string }).name ?? name;
+      }
+      const file = init.body.get('file');
+      if (file instanceof Blob) {
+        bytes = await readBlobBytes(file);
       }
     }
+
+    this.putAppDataFile(fileId, name, bytes);
     return this.jsonResponse({ id: fileId });
   }
 
+  private handleFileMetadata(fileId: string): Response {
+    const sheet = this.spreadsheets.get(fileId);
+    if (!sheet) return this.jsonResponse({ error: { message: 'File not found' } }, 404);
+    return this.jsonResponse({
+      id: sheet.id,
+      modifiedTime: sheet.modifiedTime,
+      version: String(sheet.version),
+    });
+  }
+
   private handleDriveSearch(url: string): Response {
     const queryParam = decodeURIComponent(url.split('q=')[1]?.split('&')[0] || '');
     const nameMatch = queryParam.match(/name='([^']+)'/);
@@ -220,6 +473,19 @@ export class MockGoogleSheetsServer {
     return this.jsonResponse({ spreadsheetId: id });
   }
 
+  private handleGetSpreadsheet(spreadsheetId: string): Response {
+    const sheet = this.spreadsheets.get(spreadsheetId);
+    if (!sheet) return this.jsonResponse({ error: { message: 'Not found' } }, 404);
+
+    const sheets = [
+      { properties: { sheetId: 0, title: sheet.title } },
+      ...Array.from(sheet.tabs.entries()).map(([title, tab]) => ({
+        properties: { sheetId: tab.sheetId, title },
+      })),
+    ];
+    return this.jsonResponse({ spreadsheetId, sheets });
+  }
+
   private handleBatchUpdateStructure(spreadsheetId: string, init?: RequestInit): Response {
     const sheet = this.spreadsheets.get(spreadsheetId);
     if (!sheet) return this.jsonResponse({ error: { message: 'Not found' } }, 404);
@@ -227,20 +493,79 @@ export class MockGoogleSheetsServer {
     const body = JSON.parse((init?.body as string) || '{}');
     const requests: Array<{
       deleteDimension?: {
-        range: { startIndex: number; endIndex: number };
+        range: { sheetId?: number; startIndex: number; endIndex: number };
+      };
+      addSheet?: {
+        properties: { title: string };
+      };
+      createDeveloperMetadata?: {
+        developerMetadata: {
+          metadataKey: string;
+          metadataValue?: string;
+          location: { dimensionRange: { sheetId: number; dimension: string; startIndex: number } };
+        };
+      };
+      deleteDeveloperMetadata?: { dataFilter: MockDataFilter };
+      updateDimensionProperties?: {
+        range: { sheetId: number; dimension: string; startIndex: number; endIndex: number };
+        properties: { hiddenByUser?: boolean };
       };
     }> = body.requests || [];
 
+    const replies: unknown[] = [];
     // Process delete requests — they come in descending order
     for (const req of requests) {
       if (req.deleteDimension) {
-        const { startIndex, endIndex } = req.deleteDimension.range;
+        const { sheetId, startIndex, endIndex } = req.deleteDimension.range;
+        const rows = this.rowsForSheetId(sheet, sheetId ?? 0);
+        if (!rows) return this.jsonResponse({ error: { message: `No grid with id: ${sheetId}` } }, 400);
         const count = endIndex - startIndex;
-        sheet.rows.splice(startIndex, count);
+        rows.splice(startIndex, count);
+        replies.push({});
+      }
+      if (req.addSheet) {
+        const { title } = req.addSheet.properties;
+        if (title === sheet.title || sheet.tabs.has(title)) {
+          return this.jsonResponse({ error: { message: `A sheet with the name "${title}" already exists.` } }, 400);
+        }
+        const sheetId = sheet.tabs.size + 1;
+        sheet.tabs.set(title, { sheetId, rows: [] });
+        replies.push({ addSheet: { properties: { sheetId, title } } });
+      }
+      if (req.createDeveloperMetadata) {
+        // Only row metadata is supported
+        const { metadataKey, metadataValue, location } = req.createDeveloperMetadata.developerMetadata;
+        const { sheetId, dimension, startIndex } = location.dimensionRange;
+        const rows = this.rowsForSheetId(sheet, sheetId);
+        if (!rows || dimension !== 'ROWS') {
+          return this.jsonResponse({ error: { message: 'Unsupported metadata location' } }, 400);
+        }
+        while (rows.length <= startIndex) rows.push([]);
+        const row = rows[startIndex];
+        this.rowMetadata.set(row, [...(this.rowMetadata.get(row) ?? []), { key: metadataKey, value: metadataValue ?? '' }]);
+        replies.push({ createDeveloperMetadata: { developerMetadata: req.createDeveloperMetadata.developerMetadata } });
+      }
+      if (req.deleteDeveloperMetadata) {
+        const filter = req.deleteDeveloperMetadata.dataFilter;
+        for (const row of this.allRows(sheet).flatMap(({ rows }) => rows)) {
+          const metadata = this.rowMetadata.get(row);
+          if (metadata) this.rowMetadata.set(row, metadata.filter(entry => !this.matchesFilter(entry, filter)));
+        }
+        replies.push({});
+      }
+      if (req.updateDimensionProperties) {
+        const { sheetId, dimension, startIndex, endIndex } = req.updateDimensionProperties.range;
+        if (sheetId === 0 && dimension === 'COLUMNS' && req.updateDimensionProperties.properties.hiddenByUser) {
+          const hidden = this.hiddenColumns.get(spreadsheetId) ?? new Set<number>();
+          for (let column = startIndex; column < endIndex; column++) hidden.add(column);
+          this.hiddenColumns.set(spreadsheetId, hidden);
+        }
+        replies.push({});
       }
     }
+    this.touch(sheet);
 
-    return this.jsonResponse({ replies: [] });
+    return this.jsonResponse({ replies });
   }
 
   private handleValuesBatchUpdate(spreadsheetId: string, init?: RequestInit): Response {
@@ -248,66 +573,299 @@ export class MockGoogleSheetsServer {
     if (!sheet) return this.jsonResponse({ error: { message: 'Not found' } }, 404);
 
     const body = JSON.parse((init?.body as string) || '{}');
-    const data: Array<{ range: string; values: string[][] }> = body.data || [];
+    const data: Array<{ range: string; values: Array<Array<string | null>> }> = body.data || [];
 
     for (const item of data) {
-      const rowNum = this.parseRowFromRange(item.range);
-      if (rowNum !== null && item.values?.[0]) {
-        // Expand sheet if needed
-        while (sheet.rows.length < rowNum) {
-          sheet.rows.push([]);
-        }
-        sheet.rows[rowNum - 1] = item.values[0];
+      const rows = this.rowsForRange(sheet, item.range);
+      if (!rows) return this.rangeError(item.range);
+      if (item.values?.[0]) {
+        this.writeRow(rows, item.range, item.values[0], body.valueInputOption);
       }
     }
+    this.touch(sheet);
 
     return this.jsonResponse({ totalUpdatedRows: data.length });
   }
 
-  private handleGetValues(spreadsheetId: string, range: string, url: string): Response {
+  private handleBatchGetByDataFilter(spreadsheetId: string, init?: RequestInit): Response {
     const sheet = this.spreadsheets.get(spreadsheetId);
     if (!sheet) return this.jsonResponse({ error: { message: 'Not found' } }, 404);
 
-    // getNextRowNumber: Sheet1!A:A?majorDimension=COLUMNS
-    if (url.includes('majorDimension=COLUMNS') && range.includes('A:A')) {
-      const columnA = sheet.rows.map(row => row[0] || '').filter(v => v);
-      return this.jsonResponse({ values: columnA.length > 0 ? [columnA] : [] });
-    }
+    const body = JSON.parse((init?.body as string) || '{}');
+    const dataFilters: MockDataFilter[] = body.dataFilters || [];
+
+    const valueRanges = dataFilters.flatMap(filter => {
+      const found = this.rowForFilter(sheet, filter);
+      if (!found) return [];
+      const rowNumber = found.rowIndex + 1;
+      return [{
+        valueRange: {
+          range: `${rowNumber}:${rowNumber}`,
+          majorDimension: 'ROWS',
+          values: this.readRange(found.rows, `${rowNumber}:${rowNumber}`, 'ROWS'),
+        },
+        dataFilters: [filter],
+      }];
+    });
+    return this.jsonResponse({ spreadsheetId, valueRanges });
+  }
+
+  private handleBatchUpdateByDataFilter(spreadsheetId: string, init?: RequestInit): Response {
+    const sheet = this.spreadsheets.get(spreadsheetId);
+    if (!sheet) return this.jsonResponse({ error: { message: 'Not found' } }, 404);
+
+    const body = JSON.parse((init?.body as string) || '{}');
+    const data: Array<{ dataFilter: MockDataFilter; values: Array<Array<string | null>> }> = body.data || [];
 
-    // getAllRows: Sheet1!A2:L — returns data rows (skip header)
-    if (range.match(/A2:L/)) {
-      const dataRows = sheet.rows.slice(1); // skip header
-      return this.jsonResponse({ values: dataRows.length > 0 ? dataRows : [] });
+    let updatedRows = 0;
+    for (const item of data) {
+      const found = this.rowForFilter(sheet, item.dataFilter);
+      if (!found || !item.values?.[0]) continue;
+      this.writeRow(found.rows, `A${found.rowIndex + 1}`, item.values[0], body.valueInputOption);
+      updatedRows++;
     }
+    this.touch(sheet);
 
-    // Generic range read (e.g., A1:L1 for headers)
-    return this.jsonResponse({ values: sheet.rows.length > 0 ? [sheet.rows[0]] : [] });
+    return this.jsonResponse({ totalUpdatedRows: updatedRows });
   }
 
-  private handlePutValues(spreadsheetId: string, range: string, init?: RequestInit): Response {
+  private handleDeveloperMetadataSearch(spreadsheetId: string, init?: RequestInit): Response {
     const sheet = this.spreadsheets.get(spreadsheetId);
     if (!sheet) return this.jsonResponse({ error: { message: 'Not found' } }, 404);
 
     const body = JSON.parse((init?.body as string) || '{}');
-    const values: string[][] = body.values || [];
+    const dataFilters: MockDataFilter[] = body.dataFilters || [];
+
+    const matchedDeveloperMetadata = this.allRows(sheet).flatMap(({ sheetId, rows }) => rows.flatMap((row, rowIndex) =>
+      (this.rowMetadata.get(row) ?? [])
+        .filter(entry => dataFilters.some(filter => this.matchesFilter(entry, filter)))
+        .map(({ key, value }) => ({
+          developerMetadata: {
+            metadataKey: key,
+            metadataValue: value,
+            location: { dimensionRange: { sheetId, dimension: 'ROWS', startIndex: rowIndex, endIndex: rowIndex + 1 } },
+          },
+        }))
+    ));
+    return this.jsonResponse({ matchedDeveloperMetadata });
+  }
 
-    const rowNum = this.parseRowFromRange(range);
-    if (rowNum !== null && values[0]) {
-      while (sheet.rows.length < rowNum) {
-        sheet.rows.push([]);
-      }
-      sheet.rows[rowNum - 1] = values[0];
+  private handleGetValues(spreadsheetId: string, range: string, url: string): Response {
+    const sheet = this.spreadsheets.get(spreadsheetId);
+    if (!sheet) return this.jsonResponse({ error: { message: 'Not found' } }, 404);
+
+    const decodedRange = decodeURIComponent(range);
+    const rows = this.rowsForRange(sheet, decodedRange);
+    if (!rows) return this.rangeError(decodedRange);
+
+    const majorDimension = url.includes('majorDimension=COLUMNS') ? 'COLUMNS' : 'ROWS';
+    const renderFormulas = url.includes('valueRenderOption=FORMULA');
+    return this.jsonResponse({ values: this.readRange(rows, decodedRange, majorDimension, renderFormulas) });
+  }
+
+  private handleValuesBatchGet(spreadsheetId: string, url: string): Response {
+    const sheet = this.spreadsheets.get(spreadsheetId);
+    if (!sheet) return this.jsonResponse({ error: { message: 'Not found' } }, 404);
+
+    const params = new URL(url).searchParams;
+    const majorDimension = params.get('majorDimension') === 'COLUMNS' ? 'COLUMNS' : 'ROWS';
+    const ranges = params.getAll('ranges');
+    const unknownRange = ranges.find(range => !this.rowsForRange(sheet, range));
+    if (unknownRange) return this.rangeError(unknownRange);
+
+    const valueRanges = ranges.map(range => ({
+      range,
+      majorDimension,
+      values: this.readRange(this.rowsForRange(sheet, range)!, range, majorDimension),
+    }));
+    return this.jsonResponse({ spreadsheetId, valueRanges });
+  }
+
+  private handlePutValues(spreadsheetId: string, range: string, url: string, init?: RequestInit): Response {
+    const sheet = this.spreadsheets.get(spreadsheetId);
+    if (!sheet) return this.jsonResponse({ error: { message: 'Not found' } }, 404);
+
+    const body = JSON.parse((init?.body as string) || '{}');
+    const values: Array<Array<string | null>> = body.values || [];
+
+    const decodedRange = decodeURIComponent(range);
+    const rows = this.rowsForRange(sheet, decodedRange);
+    if (!rows) return this.rangeError(decodedRange);
+
+    if (values[0]) {
+      this.writeRow(rows, decodedRange, values[0], new URL(url).searchParams.get('valueInputOption') ?? undefined);
     }
+    this.touch(sheet);
 
     return this.jsonResponse({ updatedRows: values.length });
   }
 
+  // Inserts the rows after the last non-empty row of the range's tab
+  private handleAppendValues(spreadsheetId: string, range: string, url: string, init?: RequestInit): Response {
+    const sheet = this.spreadsheets.get(spreadsheetId);
+    if (!sheet) return this.jsonResponse({ error: { message: 'Not found' } }, 404);
+
+    const decodedRange = decodeURIComponent(range);
+    const rows = this.rowsForRange(sheet, decodedRange);
+    if (!rows) return this.rangeError(decodedRange);
+
+    const body = JSON.parse((init?.body as string) || '{}');
+    const values: Array<Array<string | null>> = body.values || [];
+    const valueInputOption = new URL(url).searchParams.get('valueInputOption') ?? undefined;
+
+    let lastRow = rows.length;
+    while (lastRow > 0 && !rows[lastRow - 1].some(cell => cell)) lastRow--;
+    rows.splice(lastRow, 0, ...values.map(() => [] as string[]));
+    values.forEach((row, offset) => this.writeRow(rows, `A${lastRow + offset + 1}`, row, valueInputOption));
+    this.touch(sheet);
+
+    return this.jsonResponse({ updates: { updatedRows: values.length } });
+  }
+
   // ─── utilities ───
 
-  private parseRowFromRange(range: string): number | null {
-    // Match patterns like "Sheet1!A5:L5" or "Sheet1!A1:L1"
-    const match = range.match(/!?A(\d+)/);
-    return match ? parseInt(match[1], 10) : null;
+  private tabRows(sheet: MockSpreadsheet, tab?: string): string[][] {
+    if (tab === undefined) return sheet.rows;
+    const rows = sheet.tabs.get(tab)?.rows;
+    if (!rows) throw new Error(`Tab ${tab} not found`);
+    return rows;
+  }
+
+  private touch(sheet: MockSpreadsheet): void {
+    sheet.version++;
+    sheet.modifiedTime = new Date().toISOString();
+  }
+
+  /**
+   * Rows of the tab a range like "Highlights!A2:I" or "'My articles'!A1" refers
+   * to. Without a tab title the range is on the first tab.
+   */
+  private rowsForRange(sheet: MockSpreadsheet, range: string): string[][] | null {
+    const separator = range.lastIndexOf('!');
+    if (separator === -1) return sheet.rows;
+
+    const quoted = range.slice(0, separator);
+    const title = quoted.startsWith("'") ? quoted.slice(1, -1).replace(/''/g, "'") : quoted;
+    if (title === sheet.title) return sheet.rows;
+    return sheet.tabs.get(title)?.rows ?? null;
+  }
+
+  private rowsForSheetId(sheet: MockSpreadsheet, sheetId: number): string[][] | null {
+    if (sheetId === 0) return sheet.rows;
+    for (const tab of sheet.tabs.values()) {
+      if (tab.sheetId === sheetId) return tab.rows;
+    }
+    return null;
+  }
+
+  private matchesFilter(entry: MockDeveloperMetadata, filter: MockDataFilter): boolean {
+    const lookup = filter.developerMetadataLookup;
+    if (!lookup) return false;
+    return (lookup.metadataKey === undefined || lookup.metadataKey === entry.key) &&
+      (lookup.metadataValue === undefined || lookup.metadataValue === entry.value);
+  }
+
+  private allRows(sheet: MockSpreadsheet): Array<{ sheetId: number; rows: string[][] }> {
+    return [{ sheetId: 0, rows: sheet.rows }, ...Array.from(sheet.tabs.values())];
+  }
+
+  // The row a metadata filter points at, with the rows of its tab
+  private rowForFilter(sheet: MockSpreadsheet, filter: MockDataFilter): { rows: string[][]; rowIndex: number } | null {
+    for (const { rows } of this.allRows(sheet)) {
+      const rowIndex = rows.findIndex(row => (this.rowMetadata.get(row) ?? []).some(entry => this.matchesFilter(entry, filter)));
+      if (rowIndex !== -1) return { rows, rowIndex };
+    }
+    return null;
+  }
+
+  private rangeError(range: string): Response {
+    return this.jsonResponse({ error: { message: `Unable to parse range: ${range}` } }, 400);
+  }
+
+  /**
+   * Reads an A1 range such as "Sheet1!A2:L", "Sheet1!K2:K", "Sheet1!A5:L7" or "Sheet1!1:1".
+   * Open-ended ranges run to the last row or column; trailing empty rows and cells
+   * are dropped like the real API.
+   */
+  private readRange(
+    sheetRows: string[][],
+    range: string,
+    majorDimension: 'ROWS' | 'COLUMNS',
+    renderFormulas = false
+  ): string[][] {
+    const a1 = range.slice(range.lastIndexOf('!') + 1);
+    const match = a1.match(/^([A-Z]*)(\d*)(?::([A-Z]*)(\d*))?$/);
+    if (!match) return [];
+
+    const widest = Math.max(0, ...sheetRows.map(row => row.length));
+    const startCol = match[1] ? this.columnIndex(match[1]) : 0;
+    const endCol = match[3] ? this.columnIndex(match[3]) : match[1] ? startCol : widest - 1;
+    const startRow = match[2] ? parseInt(match[2], 10) : 1;
+    const endRow = match[4] ? parseInt(match[4], 10) : match[3] ? sheetRows.length : startRow;
+
+    const rows = sheetRows
+      .slice(startRow - 1, endRow)
+      .map(row => {
+        const formulas = renderFormulas ? this.formulas.get(row) : undefined;
+        const rendered = formulas ? row.map((cell, col) => formulas.get(col) ?? cell) : row;
+        const cells = rendered.slice(startCol, endCol + 1);
+        while (cells.length > 0 && !cells[cells.length - 1]) cells.pop();
+        return cells;
+      });
+
+    while (rows.length > 0 && !rows[rows.length - 1].some(cell => cell)) {
+      rows.pop();
+    }
+
+    if (majorDimension === 'ROWS') return rows;
+
+    const columns: string[][] = [];
+    for (let col = 0; col <= endCol - startCol; col++) {
+      columns.push(rows.map(row => row[col] || ''));
+    }
+    // Trailing empty cells of each column are omitted
+    return columns
+      .map(column => {
+        let end = column.length;
+        while (end > 0 && !column[end - 1]) end--;
+        return column.slice(0, end);
+      })
+      .filter(column => column.length > 0);
+  }
+
+  private columnIndex(letters: string): number {
+    let index = 0;
+    for (const char of letters) {
+      index = index * 26 + (char.charCodeAt(0) - 64);
+    }
+    return index - 1;
+  }
+
+  /**
+   * Writes one row of values at the start of a range like "Sheet1!A5:N5" or "Sheet1!M1:N1".
+   * Null cells are skipped, leaving what the sheet already holds, like the real API.
+   * With `valueInputOption` USER_ENTERED a leading apostrophe is dropped, as Sheets
+   * stores such a value as text without it; RAW values are stored as given.
+   */
+  private writeRow(rows: string[][], range: string, values: Array<string | null>, valueInputOption?: string): void {
+    const a1 = range.slice(range.lastIndexOf('!') + 1);
+    const match = a1.match(/^([A-Z]+)(\d+)/);
+    if (!match) return;
+
+    const startCol = this.columnIndex(match[1]);
+    const rowNum = parseInt(match[2], 10);
+    // Expand sheet if needed
+    while (rows.length < rowNum) {
+      rows.push([]);
+    }
+
+    const row = rows[rowNum - 1];
+    values.forEach((value, offset) => {
+      if (value === null) return;
+      while (row.length < startCol + offset) row.push('');
+      row[startCol + offset] = valueInputOption === 'USER_ENTERED' && value.startsWith("'") ? value.slice(1) : value;
+      this.formulas.get(row)?.delete(startCol + offset);
+    });
   }
 
   private jsonResponse(data: unknown, status = 200): Response {
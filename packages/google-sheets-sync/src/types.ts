@@ -1,20 +1,98 @@
+import type { ReadingList } from '@readlater/core';
+
 export interface GoogleDriveFile {
   id: string;
   name: string;
+  createdTime?: string;
+  size?: string; // Drive reports sizes as int64 strings
 }
 
 export interface GoogleDriveFileList {
   files: GoogleDriveFile[];
+  nextPageToken?: string;
+}
+
+export interface GoogleDriveFileMetadata {
+  id?: string;
+  modifiedTime: string;
+  version: string | number;
+}
+
+export interface GoogleDriveAbout {
+  user: { emailAddress: string };
+}
+
+export interface SpreadsheetRevision {
+  version: string;
+  modifiedTime: string;
 }
 
+/** Contents of readlater.config.json in the appDataFolder. */
 export interface SpreadsheetConfig {
+  /** Spreadsheet of the default list; kept at the top level for older clients */
   spreadsheetId: string;
+  lists?: ReadingList[];
+  /** SCHEMA_VERSION each spreadsheet was last migrated to, keyed by spreadsheet ID */
+  schemaVersions?: Record<string, number>;
+  /** Tab holding each spreadsheet's articles, keyed by spreadsheet ID */
+  articleSheets?: Record<string, ArticleSheet>;
+}
+
+/**
+ * The tab articles are read from and written to. Found again by sheetId when the
+ * user renames it; the title is what ranges are written with.
+ */
+export interface ArticleSheet {
+  sheetId: number;
+  title: string;
+}
+
+export interface GoogleSheetProperties {
+  sheetId: number;
+  title: string;
 }
 
 export interface GoogleSpreadsheet {
   spreadsheetId: string;
+  sheets?: Array<{ properties: GoogleSheetProperties }>;
+}
+
+export interface GoogleBatchUpdateResponse {
+  replies?: Array<{ addSheet?: { properties: GoogleSheetProperties } }>;
 }
 
 export interface GoogleValueRange {
   values?: string[][];
-}
\ No newline at end of file
+}
+
+export interface GoogleBatchValueRanges {
+  valueRanges?: GoogleValueRange[];
+}
+
+export interface GoogleDeveloperMetadataLookup {
+  metadataKey?: string;
+  metadataValue?: string;
+}
+
+export interface GoogleDataFilter {
+  developerMetadataLookup?: GoogleDeveloperMetadataLookup;
+}
+
+export interface GoogleMatchedValueRange {
+  valueRange?: GoogleValueRange;
+  dataFilters?: GoogleDataFilter[];
+}
+
+export interface GoogleBatchValueRangesByDataFilter {
+  valueRanges?: GoogleMatchedValueRange[];
+}
+
+export interface GoogleDeveloperMetadataSearch {
+  matchedDeveloperMetadata?: Array<{
+    developerMetadata: {
+      metadataKey: string;
+      metadataValue?: string;
+      location: { dimensionRange?: { sheetId: number; startIndex: number; endIndex: number } };
+    };
+  }>;
+}